@@ -12,9 +12,10 @@ import { SuperAdvancedPlayground } from './components/SuperAdvancedPlayground';
 import { InteractiveDemo } from './components/InteractiveDemo';
 import { AboutPanel } from './components/AboutPanel';
 import { LSTMPlayground } from './components/LSTMPlayground';
+import { TransformerPlayground } from './components/TransformerPlayground';
 
 // Define the possible tabs the user can select. Each corresponds to a different model or view.
-type Tab = 'simple' | 'advanced' | 'super-advanced' | 'lstm' | 'interactive';
+type Tab = 'simple' | 'advanced' | 'super-advanced' | 'lstm' | 'transformer' | 'interactive';
 
 // FIX: Extracted component props to a dedicated interface to resolve a compiler issue with inferring the 'children' prop.
 interface TabButtonProps {
@@ -40,6 +41,8 @@ const App = () => {
         return <SuperAdvancedPlayground />;
       case 'lstm':
         return <LSTMPlayground />;
+      case 'transformer':
+        return <TransformerPlayground />;
       case 'interactive':
         return <InteractiveDemo />;
       default:
@@ -93,6 +96,7 @@ const App = () => {
                     <TabButton tab="advanced">RNN</TabButton>
                     <TabButton tab="super-advanced">GRU</TabButton>
                     <TabButton tab="lstm">Advanced (LSTM)</TabButton>
+                    <TabButton tab="transformer">Transformer</TabButton>
                 </nav>
             </div>
             {/* Renders the content for the selected tab */}
@@ -47,6 +47,9 @@ export const AboutPanel = () => {
                     </ListItem>
                      <ListItem term="Advanced (LSTM)">
                         Features a <strong>Long Short-Term Memory</strong> network, the most complex model here. LSTMs have a sophisticated gating mechanism and a separate "cell state" for memory, making them excellent at capturing long-term dependencies in text.
+                    </ListItem>
+                     <ListItem term="Transformer">
+                        Trains a small <strong>Transformer</strong> with one block of self-attention. Instead of carrying a memory forward, every position looks back over the whole context window at once and learns which earlier tokens matter.
                     </ListItem>
                      <ListItem term="Interactive Demo">
                         A simplified, step-by-step visualization of the FFNN training process. It uses a tiny dataset to clearly show how weights and activations change with each training example.
@@ -60,7 +63,7 @@ export const AboutPanel = () => {
                         This is the source material the model learns from. It analyzes this text to learn which tokens tend to follow others.
                     </ListItem>
                      <ListItem term="Tokenizer">
-                        Determines how the text is broken into "tokens" (the vocabulary). You can choose from simple characters, a learned sub-word vocabulary (BPE), or a custom list of tokens.
+                        Determines how the text is broken into "tokens" (the vocabulary). You can choose from simple characters, a learned sub-word vocabulary (BPE or Unigram), or a custom list of tokens. The Unigram tokenizer can also practice "subword regularization", splitting each word a different way from one epoch to the next, and the Compare Tokenizers panel shows how each tokenizer splits the same word. Every tokenizer also adds four reserved tokens: each word in the text is wrapped in &lt;bos&gt; (beginning of word) and &lt;eos&gt; (end of word), so the model learns where words start and stop, &lt;pad&gt; fills the empty context before the text starts, and &lt;unk&gt; stands for characters it has never seen.
                     </ListItem>
                     <ListItem term="Learning Rate">
                         Controls how much the model adjusts its internal connections (weights) after each mistake. A high rate learns fast but can be unstable; a low rate is slow but more precise.
@@ -72,10 +75,28 @@ export const AboutPanel = () => {
                         One "epoch" is one full pass through the entire training text. Training will automatically stop if performance plateaus, even if this number isn't reached.
                     </ListItem>
                      <ListItem term="Batch Size / Sequence Length">
-                        For the FFNN, this is the number of token pairs processed before updating weights. For RNN, GRU, and LSTM, this is the <strong>sequence length</strong> the model "unrolls" to learn from at each step.
+                        For the FFNN, this is the number of token pairs processed before updating weights. For RNN, GRU, and LSTM, this is the <strong>sequence length</strong> the model "unrolls" to learn from at each step (the truncated-BPTT unroll length). For the Transformer, it is the <strong>context length</strong>: how many tokens it attends over, which also fixes how many position embeddings it learns.
+                    </ListItem>
+                    <ListItem term="Embedding Size">
+                        How many numbers the model uses to describe each token. Every token gets its own learned vector (its "embedding"), which the model looks up as its input. Larger embeddings can capture more about each token.
+                    </ListItem>
+                    <ListItem term="Context Length">
+                        (FFNN only) How many previous tokens the network reads to predict the next one. Their embeddings are placed side by side, so a longer context lets it recognize clusters like "spl", at the cost of a larger hidden layer.
+                    </ListItem>
+                    <ListItem term="Recurrent Layers">
+                        (RNN/GRU/LSTM only) How many recurrent layers are stacked on top of each other. Each layer reads the hidden state of the layer below it, so a deeper stack can learn more abstract patterns, at the cost of slower training.
+                    </ListItem>
+                    <ListItem term="Batch Size (Streams)">
+                        (RNN/GRU/LSTM only) How many parallel streams the text is split into. Every step reads the next sequence of each stream and averages their gradients. Each stream carries its own hidden state.
+                    </ListItem>
+                    <ListItem term="Hidden State">
+                        (RNN/GRU/LSTM only) What happens to the hidden state between sequences: carry it over, reset it at the start of every sequence, or reset it whenever a &lt;bos&gt; token begins a new word. The state is always reset at the start of an epoch.
+                    </ListItem>
+                    <ListItem term="Attention Heads">
+                        (Transformer only) How many attention heads the embedding is split between. Each head learns its own pattern of where to look, so several heads can follow different kinds of context at once.
                     </ListItem>
                     <ListItem term="Dropout Rate">
-                        (RNN/GRU/LSTM only) A technique to prevent overfitting. During training, it randomly ignores a fraction of neurons, forcing the network to learn more robust patterns.
+                        (RNN/GRU/LSTM/Transformer) A technique to prevent overfitting. During training, it randomly ignores a fraction of the neurons passed between stacked layers and into the output layer (or, in the Transformer, the outputs of its attention and MLP), forcing the network to learn more robust patterns.
                     </ListItem>
                 </ul>
             </DetailSection>
@@ -83,7 +104,13 @@ export const AboutPanel = () => {
             <DetailSection title="Understanding the Visualizations">
                  <ul>
                     <ListItem term="Architecture Weights">
-                       Visualizes all the weight and bias matrices in the current model as heatmaps. Brighter cyan values are positive, brighter red values are negative. This shows you the "brain" of the model as it learns.
+                       Visualizes all the weight and bias matrices in the current model as heatmaps, with one row per recurrent layer. Brighter cyan values are positive, brighter red values are negative. This shows you the "brain" of the model as it learns.
+                    </ListItem>
+                    <ListItem term="Attention">
+                        (Transformer only) A grid of the attention weights for the latest training window. Each row is a token and each bright cell an earlier token it drew from. A head selector switches between the heads.
+                    </ListItem>
+                    <ListItem term="Embedding Projector">
+                        Plots each token's learned embedding in two dimensions using principal component analysis (PCA). Points are colored by their role in a syllable, so you can watch vowels, onsets and codas gather into clusters as training goes on.
                     </ListItem>
                     <ListItem term="Training Log">
                         A real-time feed showing the model's progress, its current error rate (Loss), and the effective learning rate (LR).
@@ -91,8 +118,20 @@ export const AboutPanel = () => {
                     <ListItem term="Generation & Coaching">
                         After training starts, you can use the model to generate words. If you get a good result, you can use the "Good 👍" button to reinforce that word by training the model on it for a few extra steps.
                     </ListItem>
+                    <ListItem term="Sampling">
+                        How a random letter is drawn when the model samples. Temperature Only can pick any letter. Top-k keeps only the k most likely letters, Nucleus (Top-p) the most likely ones that together make up probability p, Typical the ones whose surprise is closest to the average, and Min-p the ones at least a fraction as likely as the best. The Repetition and Frequency Penalties make letters already in the word less likely. The same settings drive manual generation, the Generation History and the Auto-Coach, which keeps a pass rate for every configuration it has used so they can be compared.
+                    </ListItem>
+                    <ListItem term="Token Inspector">
+                        Type any word (or generate one) to see, letter by letter, how likely the model found it, how surprised it was in bits, and the five letters it would have picked instead. It explains why a model prefers "glinder" over "glindr": the letter after "glind" is a confident "e", not an "r". Try the same word on different tabs to compare the architectures.
+                    </ListItem>
+                    <ListItem term="Word Ranking">
+                        A "wug test" for the model. Paste a list of made-up words and they are ranked by how likely the model finds them (their log-probability, or their perplexity if you don't want long words penalized), with the rule-based validator's verdict beside each one. The agreement score shows how often a word the rules accept is ranked above one they reject, so you can watch the network pick up the same phonotactics as it trains.
+                    </ListItem>
+                    <ListItem term="Decoding">
+                        How a word is read out of the model's predictions. Sampling picks each letter at random in proportion to its probability, shaped by the temperature. Greedy always picks the most likely letter. Beam Search keeps the few most likely partial words at every step and lists the best finished ones with their log-probabilities; the Length Penalty decides how much longer words are favored. Diverse Beam Search splits the beam into groups that are pushed apart, so the list holds more varied words. The Phonotactic Mask applies the Auto-Coach's validator while the word is being written: letters that could never lead to a good word are ruled out, so every word passes, and the panel shows how much of the model's probability was ruled out at each step.
+                    </ListItem>
                     <ListItem term="Generation History">
-                        At key milestones, the model is asked to generate words. This panel collects them so you can see how its creativity and coherence improve over time.
+                        At key milestones, the model is asked to generate words. This panel collects them so you can see how its creativity and coherence improve over time. Words are coloured by syllable (onsets, vowels, codas and suffix extensions), and each epoch lists its average number of syllables per word and its most common syllable shapes, such as CV or CCVC.
                     </ListItem>
                     <ListItem term="Loss Histogram">
                         This chart shows the average loss (error) at the end of each epoch. A healthy training run will show a consistent downward trend.
@@ -106,26 +145,31 @@ export const AboutPanel = () => {
              <DetailSection title="Architectures & Training Features">
                  <ul>
                     <ListItem term="Early Stopping">
-                        The app monitors the training loss. If the loss stops improving for several epochs, it assumes the model has learned as much as it can and automatically begins a "fine-tuning" phase.
+                        The app monitors the loss after every epoch: by default the validation loss on held-out words, or the training loss if there is no validation split. If it stops improving for several epochs, the app assumes the model has learned as much as it can and stops training.
                     </ListItem>
-                    <ListItem term="Learning Rate Decay">
-                        During the fine-tuning phase, the learning rate is gradually reduced, allowing the model to make smaller, more precise adjustments to its weights for better results.
+                    <ListItem term="Learning Rate Schedules">
+                        The learning rate can change from epoch to epoch: warmup, step decay, cosine annealing with restarts, one-cycle, or reduce-on-plateau (the default), which lowers the rate whenever the loss stalls so the model can make smaller, more precise adjustments. The chart next to the loss histogram shows the rate each epoch used.
                     </ListItem>
-                    <ListItem term="Automatic Fast Mode">
-                        To speed up long training runs, the app will automatically suspend most UI updates after 60 seconds. The visualizations will reappear for the final epoch so you can see the end result.
+                    <ListItem term="Gradient Clipping">
+                        Recurrent networks can produce huge gradients when errors are propagated back through many time steps. Clipping (by value, or by the global norm of all gradients) keeps those updates in check. The Gradient Norms panel on the RNN, GRU, and LSTM tabs shows how large the gradients are and how often clipping had to step in.
                     </ListItem>
                      <ListItem term="Cyclical Training & Auto-Coaching">
                         Automates the process of training and reinforcement. The app can run training cycles for a set number of epochs, then spend time auto-generating words, validating them against phonotactic rules, and automatically reinforcing the "good" ones. This creates a feedback loop that helps the model discover and strengthen its understanding of valid word structures.
                     </ListItem>
                     <ListItem term="The 'Good Word' Validator">
-                        The Auto-Coach feature relies on a sophisticated validator to determine if a generated word is "good". This validator uses a set of rules based on English phonotactics to filter for plausible-sounding words. A word is considered "good" if it passes all the following checks:
+                        The Auto-Coach feature relies on a sophisticated validator to determine if a generated word is "good". This validator uses a set of phonotactic rules from the active language pack to filter for plausible-sounding words. The app ships with English-like, Japanese-like and Hawaiian-like packs, and your own can be loaded from JSON. A word is considered "good" if it passes all the following checks:
                         <ul className="list-decimal list-inside mt-2 space-y-1">
-                            <li><strong>Plausible Length:</strong> The word must be between 2 and 12 characters long.</li>
-                            <li><strong>Has Vowels:</strong> The word must contain at least one vowel (a, e, i, o, u).</li>
+                            <li><strong>Plausible Length:</strong> The word must be within the pack's length limits (2 to 12 characters for all three sample packs).</li>
+                            <li><strong>Has Vowels:</strong> The word must contain at least one of the pack's vowels.</li>
                             <li><strong>Valid Consonant Clusters:</strong> It rejects words with three or more consonants in a row that don't form a valid cluster (e.g., "bfr" is bad, but "str" is good).</li>
                             <li><strong>No Unnatural Repetition:</strong> It filters out words with repeating patterns like "rererer" or "kalakala".</li>
-                            <li><strong>Follows Syllable Structure:</strong> The word must be parsable into valid syllable components (Onset, Vowel, Coda) in a logical sequence.</li>
+                            <li><strong>Follows Syllable Structure:</strong> The word must be parsable into syllables made of the pack's onsets, vowels and codas, each following one of its syllable templates (such as "CV" for a consonant and a vowel), optionally ending with one of its suffixes.</li>
                         </ul>
+                        <p className="mt-2">Hover over a word in the Auto-Coach log to see the verdict of every rule: what failed, the part of the word that broke it, and how a good word splits into syllables. The log also counts what the recent rejected words failed on, and each coaching cycle's summary lists its rejections by reason.</p>
+                        <p className="mt-2">Real judgements of how word-like something sounds are graded rather than yes-or-no, so the Auto-Coach can also use a <strong>Graded</strong> reward. It learns from the training text how common each onset, vowel and coda is, and which onsets follow which codas, and scores every word from 0 to 1 (a word as likely as the text's average word scores 1). Words that reach the threshold are reinforced, and the higher the score the stronger the reinforcement.</p>
+                    </ListItem>
+                    <ListItem term="Policy-Gradient Coaching">
+                        By default, coaching retrains the model on good words as if they were training text, and bad words teach it nothing. With the <strong>Coaching Update</strong> set to <strong>Policy gradient (REINFORCE)</strong>, the model is treated as a policy that writes a word one token at a time, and every coached word earns a reward: +1 for a good word and -1 for a bad one (the Good and Bad buttons, or the validator), or its graded score. The update raises the probability of every token of the word by how much its reward beat the <strong>baseline</strong>, a running average of recent rewards, and lowers it when the reward fell short. An optional <strong>KL penalty</strong> keeps the model's predictions close to a copy frozen when coaching started, so it cannot drift away from the language it was trained on.
                     </ListItem>
                  </ul>
             </DetailSection>
@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { LanguageModel, Matrix } from '../types';
 import { Tooltip } from './Tooltip';
+import { toNestedArray } from '../services/matrix';
 
 interface MatrixHeatmapProps {
   matrix: Matrix;
@@ -21,10 +22,10 @@ const MatrixHeatmap: React.FC<MatrixHeatmapProps> = ({ matrix, title, tooltipTex
 
   let min = Infinity;
   let max = -Infinity;
-  data.forEach(row => row.forEach(val => {
+  data.forEach(val => {
     if (val < min) min = val;
     if (val > max) max = val;
-  }));
+  });
 
   const absMax = Math.max(Math.abs(min), Math.abs(max));
 
@@ -47,7 +48,7 @@ const MatrixHeatmap: React.FC<MatrixHeatmapProps> = ({ matrix, title, tooltipTex
       </Tooltip>
       <p className="text-xs text-gray-500 mb-2 font-mono">{rows}x{cols}</p>
       <svg width={SVG_SIZE} height={SVG_SIZE} viewBox={`0 0 ${SVG_SIZE} ${SVG_SIZE}`} className="bg-gray-900 rounded-md border border-gray-700">
-        {data.map((row, i) =>
+        {toNestedArray(matrix).map((row, i) =>
           row.map((val, j) => (
             <rect
               key={`${i}-${j}`}
@@ -79,7 +80,7 @@ const TokenDisplay = ({ label, token, borderColorClass }) => (
 const MatrixLightbox = ({ matrix, title, onClose }) => {
     if (!matrix) return null;
 
-    const { rows, cols, data } = matrix;
+    const { rows, cols } = matrix;
     const MAX_CELLS_TO_RENDER = 5000;
     const isTooLarge = rows * cols > MAX_CELLS_TO_RENDER;
 
@@ -115,7 +116,7 @@ const MatrixLightbox = ({ matrix, title, onClose }) => {
                         className="grid gap-px bg-gray-700"
                         style={{ gridTemplateColumns: `repeat(${cols}, minmax(0, 1fr))` }}
                     >
-                        {data.flat().map((val, index) => (
+                        {toNestedArray(matrix).flat().map((val, index) => (
                             <div key={index} className={`p-1 bg-gray-900 text-center font-mono ${getFontSize()} ${val > 0 ? 'text-cyan-300' : 'text-rose-400'}`}>
                                 {val.toFixed(2)}
                             </div>
@@ -131,11 +132,10 @@ const MatrixLightbox = ({ matrix, title, onClose }) => {
 interface ArchitectureVisualizerProps {
   model: LanguageModel | null;
   visData: any;
-  isFastMode: boolean;
   currentEpoch: number;
 }
 
-export const ArchitectureVisualizer: React.FC<ArchitectureVisualizerProps> = ({ model, visData, isFastMode, currentEpoch }) => {
+export const ArchitectureVisualizer: React.FC<ArchitectureVisualizerProps> = ({ model, visData, currentEpoch }) => {
   const [lightboxMatrix, setLightboxMatrix] = useState<{ matrix: Matrix; title: string } | null>(null);
 
   if (!model) {
@@ -157,61 +157,99 @@ export const ArchitectureVisualizer: React.FC<ArchitectureVisualizerProps> = ({
   }
 
 
+  // Recurrent models get a row for the embedding table, one row of heatmaps per stacked layer, and a row for the output layer.
+  // The Transformer gets rows for its embeddings, its attention, its MLP and its output layer.
   const renderModelMatrices = () => {
-    let matrices: { matrix: Matrix, title: string, tooltipText: string }[] = [];
+    let rows: { label: string | null, matrices: { matrix: Matrix, title: string, tooltipText: string }[] }[] = [];
+    const outputRow = () => ({
+      label: 'Output Layer',
+      matrices: [
+        { matrix: model.Why.weights, title: "Why (Output)", tooltipText: "Output Weights (Why): Connects the top layer's hidden state to the output logits." },
+        { matrix: model.Why.biases, title: "by (Output Bias)", tooltipText: "A learned value added to the final output prediction." },
+      ],
+    });
+    const embeddingHeatmap = { matrix: model.embedding, title: "Embedding (E)", tooltipText: "Embedding Table (E): One learned vector per token. The input token's row is looked up and fed to the network. Shape: (vocab_size, embedding_dim)." };
+    const embeddingRow = () => ({ label: 'Embedding', matrices: [embeddingHeatmap] });
+    // The first layer reads the input token's embedding; every layer above it reads the hidden state of the layer below.
+    const inputName = (l: number) => l === 0 ? "the input token's embedding" : `the hidden state of layer ${l}`;
     switch (model.type) {
       case 'FFNN':
-        matrices = [
-            { matrix: model.hiddenLayer.weights, title: "Hidden Weights", tooltipText: "Weights connecting the input character to the hidden layer. Shape: (vocab_size, hidden_size)." },
+        rows = [{ label: null, matrices: [
+            embeddingHeatmap,
+            { matrix: model.hiddenLayer.weights, title: "Hidden Weights", tooltipText: "Weights connecting the concatenated embeddings of the context window to the hidden layer. Shape: (context_length * embedding_dim, hidden_size)." },
             { matrix: model.hiddenLayer.biases, title: "Hidden Biases", tooltipText: "Biases added to each hidden neuron. Shape: (1, hidden_size)." },
             { matrix: model.outputLayer.weights, title: "Output Weights", tooltipText: "Weights connecting the hidden layer to the output logits. Shape: (hidden_size, vocab_size)." },
             { matrix: model.outputLayer.biases, title: "Output Biases", tooltipText: "Biases added to each output neuron. Shape: (1, vocab_size)." },
-        ];
+        ] }];
         break;
       case 'RNN':
-        matrices = [
-            { matrix: model.Wxh.weights, title: "Input-Hidden (Wxh)", tooltipText: "Input-to-Hidden Weights (Wxh): Connects the input character to the hidden state." },
-            { matrix: model.Whh.weights, title: "Hidden-Hidden (Whh)", tooltipText: "Hidden-to-Hidden Weights (Whh): The recurrent connection that acts as the model's 'memory'." },
-            { matrix: model.Why.weights, title: "Hidden-Output (Why)", tooltipText: "Hidden-to-Output Weights (Why): Connects the hidden state to the final output prediction." },
-            { matrix: model.Wxh.biases, title: "Input-Hidden Biases", tooltipText: "Biases for the hidden state calculation." },
-            { matrix: model.Why.biases, title: "Output Biases", tooltipText: "Biases for the final output prediction." },
-        ];
+        rows = [embeddingRow(), ...model.layers.map((layer, l) => ({ label: `Layer ${l + 1}`, matrices: [
+            { matrix: layer.Wxh.weights, title: "Input-Hidden (Wxh)", tooltipText: `Input-to-Hidden Weights (Wxh): Connects ${inputName(l)} to this layer's hidden state.` },
+            { matrix: layer.Whh.weights, title: "Hidden-Hidden (Whh)", tooltipText: "Hidden-to-Hidden Weights (Whh): The recurrent connection that acts as the layer's 'memory'." },
+            { matrix: layer.Wxh.biases, title: "Input-Hidden Biases", tooltipText: "Biases for the hidden state calculation." },
+        ] })), outputRow()];
         break;
       case 'GRU':
-        matrices = [
-                { matrix: model.Wz.weights, title: "Wz (Update)", tooltipText: "Update Gate Weights (Wz): Processes the input to help decide how much of the previous state to keep." },
-                { matrix: model.Uz.weights, title: "Uz (Update Rec.)", tooltipText: "Recurrent Update Gate Weights (Uz): Processes the previous state to help decide how much of it to keep." },
-                { matrix: model.Wz.biases, title: "bz (Update Bias)", tooltipText: "Update Gate Bias (bz): A learned value added to the update gate's calculation." },
-                { matrix: model.Wr.weights, title: "Wr (Reset)", tooltipText: "Reset Gate Weights (Wr): Processes the input to help decide how much of the previous state to forget." },
-                { matrix: model.Ur.weights, title: "Ur (Reset Rec.)", tooltipText: "Recurrent Reset Gate Weights (Ur): Processes the previous state to help decide how much of it to forget." },
-                { matrix: model.Wr.biases, title: "br (Reset Bias)", tooltipText: "Reset Gate Bias (br): A learned value added to the reset gate's calculation." },
-                { matrix: model.Wh.weights, title: "Wh (Candidate)", tooltipText: "Candidate State Weights (Wh): Processes the input to create a new 'candidate' hidden state." },
-                { matrix: model.Uh.weights, title: "Uh (Candidate Rec.)", tooltipText: "Recurrent Candidate Weights (Uh): Processes the 'reset' previous state to create the new candidate state." },
-                { matrix: model.Wh.biases, title: "bh (Candidate Bias)", tooltipText: "Candidate State Bias (bh): A learned value added to the candidate state's calculation." },
-                { matrix: model.Why.weights, title: "Why (Output)", tooltipText: "Output Weights (Why): Connects the final hidden state to the output logits." },
-                { matrix: model.Why.biases, title: "by (Output Bias)", tooltipText: "A learned value added to the final output prediction." },
-        ];
+        rows = [embeddingRow(), ...model.layers.map((layer, l) => ({ label: `Layer ${l + 1}`, matrices: [
+                { matrix: layer.Wz.weights, title: "Wz (Update)", tooltipText: `Update Gate Weights (Wz): Processes ${inputName(l)} to help decide how much of the previous state to keep.` },
+                { matrix: layer.Uz.weights, title: "Uz (Update Rec.)", tooltipText: "Recurrent Update Gate Weights (Uz): Processes the previous state to help decide how much of it to keep." },
+                { matrix: layer.Wz.biases, title: "bz (Update Bias)", tooltipText: "Update Gate Bias (bz): A learned value added to the update gate's calculation." },
+                { matrix: layer.Wr.weights, title: "Wr (Reset)", tooltipText: `Reset Gate Weights (Wr): Processes ${inputName(l)} to help decide how much of the previous state to forget.` },
+                { matrix: layer.Ur.weights, title: "Ur (Reset Rec.)", tooltipText: "Recurrent Reset Gate Weights (Ur): Processes the previous state to help decide how much of it to forget." },
+                { matrix: layer.Wr.biases, title: "br (Reset Bias)", tooltipText: "Reset Gate Bias (br): A learned value added to the reset gate's calculation." },
+                { matrix: layer.Wh.weights, title: "Wh (Candidate)", tooltipText: `Candidate State Weights (Wh): Processes ${inputName(l)} to create a new 'candidate' hidden state.` },
+                { matrix: layer.Uh.weights, title: "Uh (Candidate Rec.)", tooltipText: "Recurrent Candidate Weights (Uh): Processes the 'reset' previous state to create the new candidate state." },
+                { matrix: layer.Wh.biases, title: "bh (Candidate Bias)", tooltipText: "Candidate State Bias (bh): A learned value added to the candidate state's calculation." },
+        ] })), outputRow()];
         break;
       case 'LSTM':
-        matrices = [
-                { matrix: model.Wf.weights, title: "Wf (Forget)", tooltipText: "Forget Gate Weights (Wf): Processes the input to decide which information to discard from the cell state." },
-                { matrix: model.Uf.weights, title: "Uf (Forget Rec.)", tooltipText: "Recurrent Forget Gate Weights (Uf): Processes the previous hidden state for the forget gate." },
-                { matrix: model.Wi.weights, title: "Wi (Input)", tooltipText: "Input Gate Weights (Wi): Processes the input to decide which new information to store in the cell state." },
-                { matrix: model.Ui.weights, title: "Ui (Input Rec.)", tooltipText: "Recurrent Input Gate Weights (Ui): Processes the previous hidden state for the input gate." },
-                { matrix: model.Wo.weights, title: "Wo (Output)", tooltipText: "Output Gate Weights (Wo): Processes the input to decide what to output from the cell state." },
-                { matrix: model.Uo.weights, title: "Uo (Output Rec.)", tooltipText: "Recurrent Output Gate Weights (Uo): Processes the previous hidden state for the output gate." },
-                { matrix: model.Wc.weights, title: "Wc (Cell)", tooltipText: "Cell State Weights (Wc): Processes the input to create the new candidate cell state." },
-                { matrix: model.Uc.weights, title: "Uc (Cell Rec.)", tooltipText: "Recurrent Cell State Weights (Uc): Processes the previous hidden state for the candidate cell state." },
-                { matrix: model.Why.weights, title: "Why (Output)", tooltipText: "Output Weights (Why): Connects the final hidden state to the output logits." },
+        rows = [embeddingRow(), ...model.layers.map((layer, l) => ({ label: `Layer ${l + 1}`, matrices: [
+                { matrix: layer.Wf.weights, title: "Wf (Forget)", tooltipText: `Forget Gate Weights (Wf): Processes ${inputName(l)} to decide which information to discard from the cell state.` },
+                { matrix: layer.Uf.weights, title: "Uf (Forget Rec.)", tooltipText: "Recurrent Forget Gate Weights (Uf): Processes the previous hidden state for the forget gate." },
+                { matrix: layer.Wi.weights, title: "Wi (Input)", tooltipText: `Input Gate Weights (Wi): Processes ${inputName(l)} to decide which new information to store in the cell state.` },
+                { matrix: layer.Ui.weights, title: "Ui (Input Rec.)", tooltipText: "Recurrent Input Gate Weights (Ui): Processes the previous hidden state for the input gate." },
+                { matrix: layer.Wo.weights, title: "Wo (Output)", tooltipText: `Output Gate Weights (Wo): Processes ${inputName(l)} to decide what to output from the cell state.` },
+                { matrix: layer.Uo.weights, title: "Uo (Output Rec.)", tooltipText: "Recurrent Output Gate Weights (Uo): Processes the previous hidden state for the output gate." },
+                { matrix: layer.Wc.weights, title: "Wc (Cell)", tooltipText: `Cell State Weights (Wc): Processes ${inputName(l)} to create the new candidate cell state.` },
+                { matrix: layer.Uc.weights, title: "Uc (Cell Rec.)", tooltipText: "Recurrent Cell State Weights (Uc): Processes the previous hidden state for the candidate cell state." },
+        ] })), outputRow()];
+        break;
+      case 'Transformer':
+        rows = [
+            { label: 'Embedding', matrices: [
+                embeddingHeatmap,
+                { matrix: model.positionEmbedding, title: "Position (P)", tooltipText: "Position Embeddings (P): One learned vector per slot in the context window, added to the token's embedding so the model knows where each token sits. Shape: (context_length, embedding_dim)." },
+            ] },
+            { label: `Attention (${model.numHeads} ${model.numHeads === 1 ? 'head' : 'heads'})`, matrices: [
+                { matrix: model.Wq.weights, title: "Wq (Query)", tooltipText: "Query Weights (Wq): Turn each position into a question about what it is looking for. The columns are split evenly between the heads." },
+                { matrix: model.Wk.weights, title: "Wk (Key)", tooltipText: "Key Weights (Wk): Turn each position into a label that queries are matched against." },
+                { matrix: model.Wv.weights, title: "Wv (Value)", tooltipText: "Value Weights (Wv): Turn each position into the information it passes on when it is attended to." },
+                { matrix: model.Wo.weights, title: "Wo (Attn. Output)", tooltipText: "Attention Output Weights (Wo): Mix the heads' outputs back together before they are added to the residual stream." },
+            ] },
+            { label: 'MLP', matrices: [
+                { matrix: model.mlpHidden.weights, title: "MLP Hidden", tooltipText: "MLP Hidden Weights: Expand each position's vector into the MLP's hidden layer, which uses a ReLU activation. Shape: (embedding_dim, hidden_size)." },
+                { matrix: model.mlpOutput.weights, title: "MLP Output", tooltipText: "MLP Output Weights: Project the hidden layer back down before it is added to the residual stream. Shape: (hidden_size, embedding_dim)." },
+            ] },
+            outputRow(),
         ];
         break;
       default:
         return <p>Unknown model type.</p>;
     }
-    
-    return matrices.map(({ matrix, title, tooltipText }) => (
-        <div key={title} className="cursor-pointer transform hover:scale-105 transition-transform" onClick={() => setLightboxMatrix({ matrix, title })}>
-            <MatrixHeatmap matrix={matrix} title={title} tooltipText={tooltipText} />
+
+    return rows.map(({ label, matrices }) => (
+        <div key={label ?? 'weights'} className="w-full">
+            {label && <h4 className="text-sm font-semibold text-gray-400 mb-2 text-left">{label}</h4>}
+            <div className="flex flex-wrap gap-4 justify-center items-start">
+                {matrices.map(({ matrix, title, tooltipText }) => {
+                    const fullTitle = label ? `${label}: ${title}` : title;
+                    return (
+                        <div key={title} className="cursor-pointer transform hover:scale-105 transition-transform" onClick={() => setLightboxMatrix({ matrix, title: fullTitle })}>
+                            <MatrixHeatmap matrix={matrix} title={title} tooltipText={tooltipText} />
+                        </div>
+                    );
+                })}
+            </div>
         </div>
     ));
   };
@@ -221,14 +259,14 @@ export const ArchitectureVisualizer: React.FC<ArchitectureVisualizerProps> = ({
       <div className="bg-gray-800 p-4 rounded-lg border border-gray-700 min-h-[300px]">
         <div className="flex justify-between items-center mb-4">
             <h3 className="text-lg font-semibold text-cyan-400">
-                {model.type} Architecture Weights {isFastMode && <span className="text-yellow-400 text-sm">(Updates Suspended)</span>}
+                {model.type} Architecture Weights
             </h3>
             <div className="font-mono text-sm">
                 Epoch: <span className="text-gray-300">{currentEpoch}</span>
             </div>
         </div>
 
-        {visData && !isFastMode && (
+        {visData && (
           <div className="mb-6 pb-4 border-b border-gray-700">
             <h4 className="text-md font-semibold text-gray-300 mb-4 text-center">Current Training Step</h4>
             <div className="flex justify-around items-center">
@@ -241,7 +279,7 @@ export const ArchitectureVisualizer: React.FC<ArchitectureVisualizerProps> = ({
           </div>
         )}
 
-        <div className="flex flex-wrap gap-4 justify-center items-start">
+        <div className="space-y-6">
           {renderModelMatrices()}
         </div>
       </div>
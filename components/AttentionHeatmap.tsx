@@ -0,0 +1,81 @@
+
+import React, { useState } from 'react';
+
+/**
+ * Shows the Transformer's attention weights for the latest training window as a grid. Each row
+ * is a query position and each column a key position; the brighter a cell, the more that
+ * position drew from the earlier one. The upper triangle is always empty because attention is
+ * causal: a position can only look back.
+ * @param {object} props - The component's props.
+ * @param {{ tokens: string[]; weights: Matrix[] } | null} props.attention - The window's tokens and one weight matrix per head.
+ */
+export const AttentionHeatmap = ({ attention }) => {
+  const [head, setHead] = useState(0);
+
+  if (!attention || attention.weights.length === 0) {
+    return (
+      <div className="bg-gray-800 p-4 rounded-lg border border-gray-700 flex flex-col items-center justify-center">
+        <h2 className="text-xl font-semibold text-cyan-400">Attention</h2>
+        <p className="text-gray-400 mt-4">The attention weights will be displayed here during training.</p>
+      </div>
+    );
+  }
+
+  const headIndex = Math.min(head, attention.weights.length - 1);
+  const weights = attention.weights[headIndex];
+  const tokens: string[] = attention.tokens;
+  const label = (token: string) => token === ' ' ? '␣' : token;
+
+  const CELL = 16;
+  const LABEL_SPACE = 28;
+  const size = LABEL_SPACE + tokens.length * CELL;
+
+  return (
+    <div className="bg-gray-800 p-4 rounded-lg border border-gray-700 flex flex-col overflow-hidden">
+      <div className="flex-shrink-0">
+        <h2 className="text-xl font-semibold mb-2 text-cyan-400">Attention</h2>
+        <p className="text-sm text-gray-400 mb-2">
+          Where each token in the latest window looked when predicting the next one. Rows are the tokens doing the looking; columns are the earlier tokens they looked at.
+        </p>
+        {attention.weights.length > 1 && (
+          <div className="flex flex-wrap gap-2 mb-2">
+            {attention.weights.map((_, i) => (
+              <button
+                key={i}
+                onClick={() => setHead(i)}
+                className={`px-2 py-1 text-xs font-mono rounded-md ${i === headIndex ? 'bg-cyan-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+              >
+                Head {i + 1}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+      <div className="overflow-auto">
+        <svg width={size} height={size} className="bg-gray-900 rounded-md" aria-label={`Attention weights of head ${headIndex + 1}`}>
+          {tokens.map((token, i) => (
+            <g key={i}>
+              <text x={LABEL_SPACE + i * CELL + CELL / 2} y={LABEL_SPACE - 8} textAnchor="middle" className="fill-gray-400 text-[10px] font-mono">{label(token)}</text>
+              <text x={LABEL_SPACE - 8} y={LABEL_SPACE + i * CELL + CELL / 2 + 3} textAnchor="end" className="fill-gray-400 text-[10px] font-mono">{label(token)}</text>
+            </g>
+          ))}
+          {tokens.map((query, row) => tokens.map((key, col) => {
+            const weight = col <= row ? weights.data[row * weights.cols + col] : 0;
+            return (
+              <rect
+                key={`${row}-${col}`}
+                x={LABEL_SPACE + col * CELL}
+                y={LABEL_SPACE + row * CELL}
+                width={CELL - 1}
+                height={CELL - 1}
+                fill={`rgba(34, 211, 238, ${weight})`}
+              >
+                <title>'{label(query)}' → '{label(key)}': {weight.toFixed(3)}</title>
+              </rect>
+            );
+          }))}
+        </svg>
+      </div>
+    </div>
+  );
+};
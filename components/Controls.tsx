@@ -6,8 +6,13 @@
  */
 
 import React from 'react';
+import { LRScheduleConfig, LRScheduleType, OptimizerConfig, OptimizerType } from '../types';
 import { PlayIcon, PauseIcon, ResetIcon, SaveIcon, UploadIcon } from './icons';
 import { Tooltip } from './Tooltip';
+import { OPTIMIZER_LABELS } from '../services/optimizers';
+import { LR_SCHEDULE_LABELS } from '../services/lrScheduler';
+import { STATE_CARRY_POLICY_LABELS } from '../services/trainingStreams';
+import { TOKENIZER_LABELS } from '../services/tokenizer';
 
 /**
  * The Controls component provides the main user interface for interacting with the training process.
@@ -23,12 +28,24 @@ export const Controls = ({
   onSaveModel,
   onLoadModel,
   model,
+  languagePack,
+  languagePacks,
+  onLanguagePackChange,
+  onLoadLanguagePack,
   trainingText,
   setTrainingText,
   learningRate,
   setLearningRate,
   hiddenSize,
   setHiddenSize,
+  numLayers,
+  setNumLayers,
+  embeddingDim,
+  setEmbeddingDim,
+  contextSize,
+  setContextSize,
+  numHeads,
+  setNumHeads,
   epochs,
   setEpochs,
   batchSize,
@@ -39,10 +56,22 @@ export const Controls = ({
   setCustomTokenizerSet,
   vocabSize,
   setVocabSize,
+  subwordRegularization,
+  setSubwordRegularization,
   dropoutRate,
   setDropoutRate,
-  useAutoFastMode,
-  setUseAutoFastMode,
+  optimizerConfig,
+  setOptimizerConfig,
+  lrScheduleConfig,
+  setLrScheduleConfig,
+  gradientClipping,
+  setGradientClipping,
+  bpttConfig,
+  setBpttConfig,
+  validationSplit,
+  setValidationSplit,
+  earlyStopOnValidation,
+  setEarlyStopOnValidation,
   batchSizeLabel,
   batchSizeTooltip,
   modelType,
@@ -63,6 +92,33 @@ export const Controls = ({
   const isCoaching = trainingState === 'COACHING';
   // Disable most controls during any active process to prevent inconsistent states.
   const isDisabled = isTraining || isPaused || isAutoCoaching || isCoaching;
+  const optimizerType = optimizerConfig.type;
+
+  /**
+   * Updates a single optimizer setting, keeping the others unchanged.
+   * @param {keyof OptimizerConfig} key - The setting to change.
+   * @param value - The new value, of that setting's type.
+   */
+  const updateOptimizer = <K extends keyof OptimizerConfig>(key: K, value: OptimizerConfig[K]) => setOptimizerConfig({ ...optimizerConfig, [key]: value });
+
+  const scheduleType = lrScheduleConfig.type;
+
+  /**
+   * Switches the tokenizer, bringing the shared vocabulary size into the new tokenizer's range.
+   * @param {string} type - The tokenizer type.
+   */
+  const selectTokenizer = (type: string) => {
+    setTokenizerType(type);
+    if (type === 'bpe' && vocabSize < 257) setVocabSize(257);
+    if (type === 'unigram' && vocabSize > 2048) setVocabSize(2048);
+  };
+
+  /**
+   * Updates a single learning-rate schedule setting, keeping the others unchanged.
+   * @param {keyof LRScheduleConfig} key - The setting to change.
+   * @param value - The new value, of that setting's type.
+   */
+  const updateSchedule = <K extends keyof LRScheduleConfig>(key: K, value: LRScheduleConfig[K]) => setLrScheduleConfig({ ...lrScheduleConfig, [key]: value });
 
   /**
    * Determines the text for the main action button (Start/Pause/Resume).
@@ -144,6 +200,33 @@ export const Controls = ({
       {/* --- Training Data and Tokenizer Configuration --- */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
         <div className="space-y-2">
+            <Tooltip text="The made-up language to learn. A language pack sets the rules the validator and the phonotactic mask check words against, and supplies a sample corpus and the custom tokenizer's default tokens. Switching packs replaces the training text and resets the model. Your own packs can be loaded from JSON.">
+                <label htmlFor="language-pack" className="block text-sm font-medium text-gray-300">
+                    Language Pack
+                </label>
+            </Tooltip>
+            <div className="flex space-x-2">
+                <select
+                    id="language-pack"
+                    value={languagePack.id}
+                    onChange={(e) => onLanguagePackChange(e.target.value)}
+                    disabled={isDisabled}
+                    className="w-full p-2 bg-gray-900 border border-gray-700 rounded-md text-sm text-gray-300 disabled:opacity-50"
+                >
+                    {languagePacks.map(pack => (
+                        <option key={pack.id} value={pack.id}>{pack.name}</option>
+                    ))}
+                </select>
+                <button
+                    onClick={onLoadLanguagePack}
+                    disabled={isDisabled}
+                    className="flex items-center px-3 py-2 bg-gray-700 hover:bg-gray-600 rounded-md text-sm font-semibold text-white whitespace-nowrap disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    <UploadIcon className="w-4 h-4 mr-1" />
+                    Load
+                </button>
+            </div>
+            <p className="text-xs text-gray-400">{languagePack.description}</p>
             <Tooltip text="The text the model will learn from. You can edit this.">
                 <label htmlFor="training-text" className="block text-sm font-medium text-gray-300">
                     Training Text
@@ -156,6 +239,38 @@ export const Controls = ({
             disabled={isDisabled}
             className="w-full h-40 p-2 bg-gray-900 border border-gray-700 rounded-md font-mono text-sm disabled:opacity-70"
             />
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 items-center">
+                <div className="space-y-2">
+                    <Tooltip text="The fraction of words held out from training. After each epoch the model is scored on these unseen words, which shows whether it is learning general patterns or just memorizing.">
+                        <label htmlFor="validation-split" className="block text-sm font-medium text-gray-300">
+                            Validation Split: <span className="font-mono bg-gray-900 px-2 py-1 rounded-md">{Math.round(validationSplit * 100)}%</span>
+                        </label>
+                    </Tooltip>
+                    <input
+                        id="validation-split"
+                        type="range" min="0" max="0.3" step="0.05"
+                        value={validationSplit}
+                        onChange={(e) => setValidationSplit(parseFloat(e.target.value))}
+                        disabled={isDisabled}
+                        className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:opacity-50"
+                    />
+                </div>
+                <Tooltip text="Stop training (and reduce the learning rate on a plateau) based on the validation loss instead of the training loss.">
+                    <div className="flex items-center space-x-2">
+                        <input
+                            type="checkbox"
+                            id="early-stop-on-validation"
+                            checked={earlyStopOnValidation}
+                            onChange={(e) => setEarlyStopOnValidation(e.target.checked)}
+                            disabled={isDisabled || validationSplit === 0}
+                            className="h-4 w-4 rounded border-gray-600 bg-gray-800 text-cyan-600 focus:ring-cyan-500"
+                        />
+                        <label htmlFor="early-stop-on-validation" className="text-sm font-medium text-gray-300">
+                            Early stop on validation loss
+                        </label>
+                    </div>
+                </Tooltip>
+            </div>
         </div>
         <div className="space-y-4">
             <div>
@@ -163,37 +278,86 @@ export const Controls = ({
                     <label className="block text-sm font-medium text-gray-300 mb-2">Tokenizer</label>
                 </Tooltip>
                 <div className="flex space-x-4">
-                    {['Character', 'BPE', 'Custom'].map(type => (
+                    {Object.entries(TOKENIZER_LABELS).map(([type, label]) => (
                         <div key={type} className="flex items-center">
                             <input
                                 id={`tokenizer-${type}`}
                                 name="tokenizer"
                                 type="radio"
-                                checked={tokenizerType === type.toLowerCase()}
-                                onChange={() => setTokenizerType(type.toLowerCase())}
+                                checked={tokenizerType === type}
+                                onChange={() => selectTokenizer(type)}
                                 disabled={isDisabled}
                                 className="h-4 w-4 text-cyan-600 bg-gray-800 border-gray-600 focus:ring-cyan-500"
                             />
-                            <label htmlFor={`tokenizer-${type}`} className="ml-2 block text-sm text-gray-300">{type}</label>
+                            <label htmlFor={`tokenizer-${type}`} className="ml-2 block text-sm text-gray-300">{label}</label>
                         </div>
                     ))}
                 </div>
             </div>
             {tokenizerType === 'bpe' && (
                 <div className="space-y-2 pl-2">
-                    <Tooltip text="Controls how many sub-word merges are learned by the BPE algorithm.">
+                    <Tooltip text="Controls how many sub-word merges are learned by the BPE algorithm. Merges never cross a space, so training stops early once every word in the text has become a single token.">
                         <label htmlFor="vocab-size" className="block text-sm font-medium text-gray-300">
                             BPE Vocab Size: <span className="font-mono bg-gray-900 px-2 py-1 rounded-md">{vocabSize}</span>
                         </label>
                     </Tooltip>
                     <input
                         id="vocab-size"
-                        type="range" min="257" max="1024" step="1"
+                        type="range" min="257" max="4096" step="1"
+                        value={vocabSize}
+                        onChange={(e) => setVocabSize(parseInt(e.target.value))}
+                        disabled={isDisabled}
+                        className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:opacity-50"
+                    />
+                </div>
+            )}
+            {tokenizerType === 'unigram' && (
+                <div className="space-y-2 pl-2">
+                    <Tooltip text="The number of sub-word pieces the Unigram tokenizer keeps. It starts from many candidate pieces and repeatedly prunes the ones whose loss would hurt the likelihood of the text least. Every single character is always kept.">
+                        <label htmlFor="unigram-vocab-size" className="block text-sm font-medium text-gray-300">
+                            Unigram Vocab Size: <span className="font-mono bg-gray-900 px-2 py-1 rounded-md">{vocabSize}</span>
+                        </label>
+                    </Tooltip>
+                    <input
+                        id="unigram-vocab-size"
+                        type="range" min="32" max="2048" step="1"
                         value={vocabSize}
                         onChange={(e) => setVocabSize(parseInt(e.target.value))}
                         disabled={isDisabled}
                         className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:opacity-50"
                     />
+                    <Tooltip text="Subword regularization: at the start of every epoch after the first, each word of the training text is split with a segmentation sampled from the tokenizer instead of the most likely one, so the model learns to read words split in more than one way.">
+                        <div className="flex items-center">
+                            <input
+                                id="subword-regularization"
+                                type="checkbox"
+                                checked={subwordRegularization.enabled}
+                                onChange={(e) => setSubwordRegularization({ ...subwordRegularization, enabled: e.target.checked })}
+                                disabled={isDisabled}
+                                className="h-4 w-4 rounded border-gray-600 bg-gray-800 text-cyan-600 focus:ring-cyan-500"
+                            />
+                            <label htmlFor="subword-regularization" className="ml-2 text-sm font-medium text-gray-300">
+                                Subword regularization
+                            </label>
+                        </div>
+                    </Tooltip>
+                    {subwordRegularization.enabled && (
+                        <>
+                            <Tooltip text="Sharpens the distribution segmentations are sampled from. Near 0 every segmentation is equally likely; at 1 they are sampled as likely as the tokenizer finds them; higher values almost always give the best one.">
+                                <label htmlFor="subword-alpha" className="block text-sm font-medium text-gray-300">
+                                    Sampling Alpha: <span className="font-mono bg-gray-900 px-2 py-1 rounded-md">{subwordRegularization.alpha.toFixed(2)}</span>
+                                </label>
+                            </Tooltip>
+                            <input
+                                id="subword-alpha"
+                                type="range" min="0" max="2" step="0.05"
+                                value={subwordRegularization.alpha}
+                                onChange={(e) => setSubwordRegularization({ ...subwordRegularization, alpha: parseFloat(e.target.value) })}
+                                disabled={isDisabled}
+                                className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:opacity-50"
+                            />
+                        </>
+                    )}
                 </div>
             )}
             {tokenizerType === 'custom' && (
@@ -212,21 +376,6 @@ export const Controls = ({
                     />
                 </div>
             )}
-            <Tooltip text="Automatically speed up training after 60s by suspending UI updates. Training remains fully visualized for the final epoch.">
-              <div className="flex items-center space-x-2">
-                  <input 
-                      type="checkbox" 
-                      id="use-fast-mode" 
-                      checked={useAutoFastMode} 
-                      onChange={(e) => setUseAutoFastMode(e.target.checked)}
-                      disabled={isDisabled}
-                      className="h-4 w-4 rounded border-gray-600 bg-gray-800 text-cyan-600 focus:ring-cyan-500"
-                  />
-                  <label htmlFor="use-fast-mode" className="text-sm font-medium text-gray-300">
-                      Enable Automatic Fast Mode
-                  </label>
-              </div>
-          </Tooltip>
         </div>
       </div>
       
@@ -285,7 +434,7 @@ export const Controls = ({
               </Tooltip>
               <input
                   id="batch-size"
-                  type="range" min="4" max={modelType === 'RNN' || modelType === 'GRU' ? 64 : 128} step="4"
+                  type="range" min="4" max={modelType === 'RNN' || modelType === 'GRU' || modelType === 'Transformer' ? 64 : 128} step="4"
                   value={batchSize}
                   onChange={(e) => setBatchSize(parseInt(e.target.value))}
                   disabled={isDisabled}
@@ -293,11 +442,83 @@ export const Controls = ({
               />
           </div>
       </div>
-       {/* Dropout control, only shown for recurrent models (RNN, GRU, LSTM) */}
-       {(modelType === 'RNN' || modelType === 'GRU' || modelType === 'LSTM') && (
-          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
-              <div className="space-y-2 lg:col-start-4">
-                  <Tooltip text="The probability of dropping a neuron's output during training. Helps prevent overfitting.">
+       {/* Embedding size for every model, plus context length for the FFNN, layer count for recurrent models (RNN, GRU, LSTM), attention heads for the Transformer, and dropout for all but the FFNN */}
+       <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
+          <div className="space-y-2 lg:col-start-2">
+              <Tooltip text="The length of the learned vector that represents each token. The model looks up this vector instead of reading a one-hot input, so similar tokens can end up with similar vectors.">
+                <label htmlFor="embedding-dim" className="block text-sm font-medium text-gray-300">
+                    Embedding Size: <span className="font-mono bg-gray-900 px-2 py-1 rounded-md">{embeddingDim}</span>
+                </label>
+              </Tooltip>
+              <input
+                  id="embedding-dim"
+                  // The Transformer splits its embedding between up to 8 heads, so it moves in steps of 8.
+                  type="range" min={modelType === 'Transformer' ? 8 : 2} max="64" step={modelType === 'Transformer' ? 8 : 2}
+                  value={embeddingDim}
+                  onChange={(e) => setEmbeddingDim(parseInt(e.target.value))}
+                  disabled={isDisabled}
+                  className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:opacity-50"
+              />
+          </div>
+          {modelType === 'FFNN' && (
+              <div className="space-y-2">
+                  <Tooltip text="How many previous tokens the network reads to predict the next one. Their embeddings are placed side by side as the hidden layer's input. With one token the model cannot tell 'spl' from 'l'; with three it can.">
+                    <label htmlFor="context-size" className="block text-sm font-medium text-gray-300">
+                        Context Length: <span className="font-mono bg-gray-900 px-2 py-1 rounded-md">{contextSize}</span>
+                    </label>
+                  </Tooltip>
+                  <input
+                      id="context-size"
+                      type="range" min="1" max="8" step="1"
+                      value={contextSize}
+                      onChange={(e) => setContextSize(parseInt(e.target.value))}
+                      disabled={isDisabled}
+                      className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:opacity-50"
+                  />
+              </div>
+          )}
+          {(modelType === 'RNN' || modelType === 'GRU' || modelType === 'LSTM') && (
+              <div className="space-y-2">
+                  <Tooltip text="The number of recurrent layers stacked on top of each other. Each layer reads the hidden state of the one below, so deeper stacks can build more abstract features, but they train more slowly.">
+                    <label htmlFor="num-layers" className="block text-sm font-medium text-gray-300">
+                        Recurrent Layers: <span className="font-mono bg-gray-900 px-2 py-1 rounded-md">{numLayers}</span>
+                    </label>
+                  </Tooltip>
+                  <input
+                      id="num-layers"
+                      type="range" min="1" max="4" step="1"
+                      value={numLayers}
+                      onChange={(e) => setNumLayers(parseInt(e.target.value))}
+                      disabled={isDisabled}
+                      className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:opacity-50"
+                  />
+              </div>
+          )}
+          {modelType === 'Transformer' && (
+              <div className="space-y-2">
+                  <Tooltip text="The number of attention heads. The embedding is split evenly between them, and each head learns its own pattern of which earlier tokens to look at.">
+                    <label htmlFor="num-heads" className="block text-sm font-medium text-gray-300">
+                        Attention Heads
+                    </label>
+                  </Tooltip>
+                  <select
+                      id="num-heads"
+                      value={numHeads}
+                      onChange={(e) => setNumHeads(parseInt(e.target.value))}
+                      disabled={isDisabled}
+                      className="w-full p-2 bg-gray-900 border border-gray-700 rounded-md text-sm text-gray-300 disabled:opacity-50"
+                  >
+                      {[1, 2, 4, 8].map(heads => (
+                          <option key={heads} value={heads}>{heads}</option>
+                      ))}
+                  </select>
+              </div>
+          )}
+          {modelType !== 'FFNN' && (
+              <div className="space-y-2">
+                  <Tooltip text={modelType === 'Transformer'
+                    ? "The probability of dropping a neuron's output during training. It is applied to the attention and MLP outputs before they are added back to the residual stream. Helps prevent overfitting."
+                    : "The probability of dropping a neuron's output during training. It is applied between stacked layers and before the output layer, never to the recurrent connections. Helps prevent overfitting."}>
                     <label htmlFor="dropout-rate" className="block text-sm font-medium text-gray-300">
                         Dropout Rate: <span className="font-mono bg-gray-900 px-2 py-1 rounded-md">{dropoutRate.toFixed(2)}</span>
                     </label>
@@ -311,8 +532,361 @@ export const Controls = ({
                       className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:opacity-50"
                   />
               </div>
-          </div>
+          )}
+      </div>
+      {/* --- Truncated BPTT: parallel streams and state policy for the recurrent models --- */}
+      {(modelType === 'RNN' || modelType === 'GRU' || modelType === 'LSTM') && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
+            <div className="space-y-2 lg:col-start-2">
+                <Tooltip text="The number of parallel streams the text is split into. Each training step reads the next sequence of every stream and averages their gradients, so larger batches give smoother updates. The sequence length sets how far back each stream is unrolled.">
+                  <label htmlFor="num-streams" className="block text-sm font-medium text-gray-300">
+                      Batch Size (Streams): <span className="font-mono bg-gray-900 px-2 py-1 rounded-md">{bpttConfig.numStreams}</span>
+                  </label>
+                </Tooltip>
+                <input
+                    id="num-streams"
+                    type="range" min="1" max="32" step="1"
+                    value={bpttConfig.numStreams}
+                    onChange={(e) => setBpttConfig({ ...bpttConfig, numStreams: parseInt(e.target.value) })}
+                    disabled={isDisabled}
+                    className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:opacity-50"
+                />
+            </div>
+            <div className="space-y-2">
+                <Tooltip text="What happens to the hidden state between sequences. Carrying it over lets the model remember across sequence boundaries even though gradients stop there. Resetting every sequence treats each one on its own. Resetting at spaces starts every word from a blank memory. Every stream starts fresh at the beginning of an epoch.">
+                  <label htmlFor="state-policy" className="block text-sm font-medium text-gray-300">
+                      Hidden State
+                  </label>
+                </Tooltip>
+                <select
+                    id="state-policy"
+                    value={bpttConfig.statePolicy}
+                    onChange={(e) => setBpttConfig({ ...bpttConfig, statePolicy: e.target.value })}
+                    disabled={isDisabled}
+                    className="w-full p-2 bg-gray-900 border border-gray-700 rounded-md text-sm text-gray-300 disabled:opacity-50"
+                >
+                    {Object.entries(STATE_CARRY_POLICY_LABELS).map(([policy, label]) => (
+                        <option key={policy} value={policy}>{label}</option>
+                    ))}
+                </select>
+            </div>
+        </div>
       )}
+      {/* --- Optimizer Configuration --- */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
+          <div className="space-y-2">
+              <Tooltip text="The rule used to turn gradients into weight updates. Momentum-based and adaptive optimizers (RMSProp, Adam) usually converge faster than plain SGD.">
+                <label htmlFor="optimizer-type" className="block text-sm font-medium text-gray-300">
+                    Optimizer
+                </label>
+              </Tooltip>
+              <select
+                  id="optimizer-type"
+                  value={optimizerType}
+                  onChange={(e) => updateOptimizer('type', e.target.value as OptimizerType)}
+                  disabled={isDisabled}
+                  className="w-full p-2 bg-gray-900 border border-gray-700 rounded-md text-sm text-gray-300 disabled:opacity-50"
+              >
+                  {Object.entries(OPTIMIZER_LABELS).map(([type, label]) => (
+                      <option key={type} value={type}>{label}</option>
+                  ))}
+              </select>
+          </div>
+          {(optimizerType === 'momentum' || optimizerType === 'nesterov') && (
+              <div className="space-y-2">
+                  <Tooltip text="How much of the previous update is carried into the next one. Higher values smooth out noisy gradients.">
+                    <label htmlFor="optimizer-momentum" className="block text-sm font-medium text-gray-300">
+                        Momentum: <span className="font-mono bg-gray-900 px-2 py-1 rounded-md">{optimizerConfig.momentum.toFixed(2)}</span>
+                    </label>
+                  </Tooltip>
+                  <input
+                      id="optimizer-momentum"
+                      type="range" min="0" max="0.99" step="0.01"
+                      value={optimizerConfig.momentum}
+                      onChange={(e) => updateOptimizer('momentum', parseFloat(e.target.value))}
+                      disabled={isDisabled}
+                      className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:opacity-50"
+                  />
+              </div>
+          )}
+          {optimizerType === 'rmsprop' && (
+              <div className="space-y-2">
+                  <Tooltip text="The decay rate of the running average of squared gradients.">
+                    <label htmlFor="optimizer-rho" className="block text-sm font-medium text-gray-300">
+                        Rho: <span className="font-mono bg-gray-900 px-2 py-1 rounded-md">{optimizerConfig.rho.toFixed(2)}</span>
+                    </label>
+                  </Tooltip>
+                  <input
+                      id="optimizer-rho"
+                      type="range" min="0.5" max="0.999" step="0.001"
+                      value={optimizerConfig.rho}
+                      onChange={(e) => updateOptimizer('rho', parseFloat(e.target.value))}
+                      disabled={isDisabled}
+                      className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:opacity-50"
+                  />
+              </div>
+          )}
+          {(optimizerType === 'adam' || optimizerType === 'adamw') && (
+              <>
+                  <div className="space-y-2">
+                      <Tooltip text="The decay rate of the running average of the gradient (the first moment).">
+                        <label htmlFor="optimizer-beta1" className="block text-sm font-medium text-gray-300">
+                            Beta 1: <span className="font-mono bg-gray-900 px-2 py-1 rounded-md">{optimizerConfig.beta1.toFixed(2)}</span>
+                        </label>
+                      </Tooltip>
+                      <input
+                          id="optimizer-beta1"
+                          type="range" min="0.5" max="0.99" step="0.01"
+                          value={optimizerConfig.beta1}
+                          onChange={(e) => updateOptimizer('beta1', parseFloat(e.target.value))}
+                          disabled={isDisabled}
+                          className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:opacity-50"
+                      />
+                  </div>
+                  <div className="space-y-2">
+                      <Tooltip text="The decay rate of the running average of the squared gradient (the second moment).">
+                        <label htmlFor="optimizer-beta2" className="block text-sm font-medium text-gray-300">
+                            Beta 2: <span className="font-mono bg-gray-900 px-2 py-1 rounded-md">{optimizerConfig.beta2.toFixed(3)}</span>
+                        </label>
+                      </Tooltip>
+                      <input
+                          id="optimizer-beta2"
+                          type="range" min="0.9" max="0.999" step="0.001"
+                          value={optimizerConfig.beta2}
+                          onChange={(e) => updateOptimizer('beta2', parseFloat(e.target.value))}
+                          disabled={isDisabled}
+                          className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:opacity-50"
+                      />
+                  </div>
+              </>
+          )}
+          {optimizerType === 'adamw' && (
+              <div className="space-y-2">
+                  <Tooltip text="Shrinks every weight slightly towards zero on each update, which discourages overfitting.">
+                    <label htmlFor="optimizer-weight-decay" className="block text-sm font-medium text-gray-300">
+                        Weight Decay: <span className="font-mono bg-gray-900 px-2 py-1 rounded-md">{optimizerConfig.weightDecay.toFixed(3)}</span>
+                    </label>
+                  </Tooltip>
+                  <input
+                      id="optimizer-weight-decay"
+                      type="range" min="0" max="0.1" step="0.001"
+                      value={optimizerConfig.weightDecay}
+                      onChange={(e) => updateOptimizer('weightDecay', parseFloat(e.target.value))}
+                      disabled={isDisabled}
+                      className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:opacity-50"
+                  />
+              </div>
+          )}
+          <div className="space-y-2">
+              <Tooltip text="Limits the size of the gradients before each update, which stops a single bad step from wrecking the weights. 'By Value' clamps each gradient value; 'By Global Norm' shrinks all gradients together when their combined size exceeds the threshold, which keeps their direction.">
+                <label htmlFor="gradient-clipping" className="block text-sm font-medium text-gray-300">
+                    Gradient Clipping
+                </label>
+              </Tooltip>
+              <select
+                  id="gradient-clipping"
+                  value={gradientClipping.type}
+                  onChange={(e) => setGradientClipping({ ...gradientClipping, type: e.target.value })}
+                  disabled={isDisabled}
+                  className="w-full p-2 bg-gray-900 border border-gray-700 rounded-md text-sm text-gray-300 disabled:opacity-50"
+              >
+                  <option value="none">None</option>
+                  <option value="value">By Value</option>
+                  <option value="norm">By Global Norm</option>
+              </select>
+          </div>
+          {gradientClipping.type !== 'none' && (
+              <div className="space-y-2">
+                  <Tooltip text={gradientClipping.type === 'value' ? 'The largest absolute value any single gradient may have.' : 'The largest global norm the gradients may have before they are scaled down.'}>
+                    <label htmlFor="clip-threshold" className="block text-sm font-medium text-gray-300">
+                        Clip Threshold: <span className="font-mono bg-gray-900 px-2 py-1 rounded-md">{gradientClipping.threshold.toFixed(1)}</span>
+                    </label>
+                  </Tooltip>
+                  <input
+                      id="clip-threshold"
+                      type="range" min="0.1" max="20" step="0.1"
+                      value={gradientClipping.threshold}
+                      onChange={(e) => setGradientClipping({ ...gradientClipping, threshold: parseFloat(e.target.value) })}
+                      disabled={isDisabled}
+                      className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:opacity-50"
+                  />
+              </div>
+          )}
+      </div>
+      {/* --- Learning-Rate Schedule Configuration --- */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
+          <div className="space-y-2">
+              <Tooltip text="How the learning rate changes from epoch to epoch. Lowering it as training progresses lets the model settle into a good solution.">
+                <label htmlFor="lr-schedule-type" className="block text-sm font-medium text-gray-300">
+                    LR Schedule
+                </label>
+              </Tooltip>
+              <select
+                  id="lr-schedule-type"
+                  value={scheduleType}
+                  onChange={(e) => updateSchedule('type', e.target.value as LRScheduleType)}
+                  disabled={isDisabled}
+                  className="w-full p-2 bg-gray-900 border border-gray-700 rounded-md text-sm text-gray-300 disabled:opacity-50"
+              >
+                  {Object.entries(LR_SCHEDULE_LABELS).map(([type, label]) => (
+                      <option key={type} value={type}>{label}</option>
+                  ))}
+              </select>
+          </div>
+          {scheduleType !== 'oneCycle' && (
+              <div className="space-y-2">
+                  <Tooltip text="The number of epochs over which the learning rate ramps up linearly before the schedule begins.">
+                    <label htmlFor="lr-warmup-epochs" className="block text-sm font-medium text-gray-300">
+                        Warmup Epochs: <span className="font-mono bg-gray-900 px-2 py-1 rounded-md">{lrScheduleConfig.warmupEpochs}</span>
+                    </label>
+                  </Tooltip>
+                  <input
+                      id="lr-warmup-epochs"
+                      type="range" min="0" max="20" step="1"
+                      value={lrScheduleConfig.warmupEpochs}
+                      onChange={(e) => updateSchedule('warmupEpochs', parseInt(e.target.value))}
+                      disabled={isDisabled}
+                      className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:opacity-50"
+                  />
+              </div>
+          )}
+          {scheduleType === 'step' && (
+              <>
+                  <div className="space-y-2">
+                      <Tooltip text="The number of epochs between each reduction of the learning rate.">
+                        <label htmlFor="lr-step-size" className="block text-sm font-medium text-gray-300">
+                            Step Size: <span className="font-mono bg-gray-900 px-2 py-1 rounded-md">{lrScheduleConfig.stepSize}</span>
+                        </label>
+                      </Tooltip>
+                      <input
+                          id="lr-step-size"
+                          type="range" min="1" max="50" step="1"
+                          value={lrScheduleConfig.stepSize}
+                          onChange={(e) => updateSchedule('stepSize', parseInt(e.target.value))}
+                          disabled={isDisabled}
+                          className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:opacity-50"
+                      />
+                  </div>
+                  <div className="space-y-2">
+                      <Tooltip text="The learning rate is multiplied by this value at each step.">
+                        <label htmlFor="lr-gamma" className="block text-sm font-medium text-gray-300">
+                            Decay Factor: <span className="font-mono bg-gray-900 px-2 py-1 rounded-md">{lrScheduleConfig.gamma.toFixed(2)}</span>
+                        </label>
+                      </Tooltip>
+                      <input
+                          id="lr-gamma"
+                          type="range" min="0.1" max="0.9" step="0.05"
+                          value={lrScheduleConfig.gamma}
+                          onChange={(e) => updateSchedule('gamma', parseFloat(e.target.value))}
+                          disabled={isDisabled}
+                          className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:opacity-50"
+                      />
+                  </div>
+              </>
+          )}
+          {scheduleType === 'cosine' && (
+              <>
+                  <div className="space-y-2">
+                      <Tooltip text="The length, in epochs, of the first cosine cycle. At the end of each cycle the learning rate jumps back up to its base value.">
+                        <label htmlFor="lr-restart-period" className="block text-sm font-medium text-gray-300">
+                            Restart Period: <span className="font-mono bg-gray-900 px-2 py-1 rounded-md">{lrScheduleConfig.restartPeriod}</span>
+                        </label>
+                      </Tooltip>
+                      <input
+                          id="lr-restart-period"
+                          type="range" min="1" max="50" step="1"
+                          value={lrScheduleConfig.restartPeriod}
+                          onChange={(e) => updateSchedule('restartPeriod', parseInt(e.target.value))}
+                          disabled={isDisabled}
+                          className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:opacity-50"
+                      />
+                  </div>
+                  <div className="space-y-2">
+                      <Tooltip text="How much longer each cycle is than the previous one. 1 keeps every cycle the same length.">
+                        <label htmlFor="lr-restart-multiplier" className="block text-sm font-medium text-gray-300">
+                            Period Multiplier: <span className="font-mono bg-gray-900 px-2 py-1 rounded-md">{lrScheduleConfig.restartMultiplier.toFixed(1)}</span>
+                        </label>
+                      </Tooltip>
+                      <input
+                          id="lr-restart-multiplier"
+                          type="range" min="1" max="3" step="0.5"
+                          value={lrScheduleConfig.restartMultiplier}
+                          onChange={(e) => updateSchedule('restartMultiplier', parseFloat(e.target.value))}
+                          disabled={isDisabled}
+                          className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:opacity-50"
+                      />
+                  </div>
+              </>
+          )}
+          {scheduleType === 'oneCycle' && (
+              <div className="space-y-2">
+                  <Tooltip text="The fraction of training spent raising the learning rate to its peak. The rest is spent lowering it again.">
+                    <label htmlFor="lr-pct-start" className="block text-sm font-medium text-gray-300">
+                        Ramp-Up Fraction: <span className="font-mono bg-gray-900 px-2 py-1 rounded-md">{lrScheduleConfig.pctStart.toFixed(2)}</span>
+                    </label>
+                  </Tooltip>
+                  <input
+                      id="lr-pct-start"
+                      type="range" min="0.1" max="0.5" step="0.05"
+                      value={lrScheduleConfig.pctStart}
+                      onChange={(e) => updateSchedule('pctStart', parseFloat(e.target.value))}
+                      disabled={isDisabled}
+                      className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:opacity-50"
+                  />
+              </div>
+          )}
+          {scheduleType === 'plateau' && (
+              <>
+                  <div className="space-y-2">
+                      <Tooltip text="The learning rate is multiplied by this value whenever the loss stops improving.">
+                        <label htmlFor="lr-plateau-factor" className="block text-sm font-medium text-gray-300">
+                            Reduction Factor: <span className="font-mono bg-gray-900 px-2 py-1 rounded-md">{lrScheduleConfig.plateauFactor.toFixed(2)}</span>
+                        </label>
+                      </Tooltip>
+                      <input
+                          id="lr-plateau-factor"
+                          type="range" min="0.1" max="0.9" step="0.05"
+                          value={lrScheduleConfig.plateauFactor}
+                          onChange={(e) => updateSchedule('plateauFactor', parseFloat(e.target.value))}
+                          disabled={isDisabled}
+                          className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:opacity-50"
+                      />
+                  </div>
+                  <div className="space-y-2">
+                      <Tooltip text="The number of epochs without improvement before the learning rate is reduced. Keep it below the early-stopping patience so the reduction happens before training stops.">
+                        <label htmlFor="lr-plateau-patience" className="block text-sm font-medium text-gray-300">
+                            Patience: <span className="font-mono bg-gray-900 px-2 py-1 rounded-md">{lrScheduleConfig.plateauPatience}</span>
+                        </label>
+                      </Tooltip>
+                      <input
+                          id="lr-plateau-patience"
+                          type="range" min="1" max="4" step="1"
+                          value={lrScheduleConfig.plateauPatience}
+                          onChange={(e) => updateSchedule('plateauPatience', parseInt(e.target.value))}
+                          disabled={isDisabled}
+                          className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:opacity-50"
+                      />
+                  </div>
+              </>
+          )}
+          {scheduleType !== 'constant' && scheduleType !== 'step' && (
+              <div className="space-y-2">
+                  <Tooltip text="The lowest learning rate the schedule will reach, as a fraction of the base learning rate.">
+                    <label htmlFor="lr-min-factor" className="block text-sm font-medium text-gray-300">
+                        Min LR Factor: <span className="font-mono bg-gray-900 px-2 py-1 rounded-md">{lrScheduleConfig.minLRFactor.toFixed(2)}</span>
+                    </label>
+                  </Tooltip>
+                  <input
+                      id="lr-min-factor"
+                      type="range" min="0" max="0.5" step="0.01"
+                      value={lrScheduleConfig.minLRFactor}
+                      onChange={(e) => updateSchedule('minLRFactor', parseFloat(e.target.value))}
+                      disabled={isDisabled}
+                      className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:opacity-50"
+                  />
+              </div>
+          )}
+      </div>
       {/* --- Cyclical Training Configuration --- */}
       <div className="bg-gray-800 p-4 rounded-lg border border-gray-700 space-y-4">
           <Tooltip text="Automate a cycle of training, followed by auto-coaching, and repeat.">
@@ -0,0 +1,99 @@
+
+import React, { useMemo } from 'react';
+import { projectEmbeddings } from '../services/embeddingProjection';
+import { getPhonotactics, Phonotactics } from '../services/phonotactics';
+
+// The phonotactic role of a token, used to color its point.
+type TokenCategory = 'vowel' | 'onset' | 'coda' | 'both' | 'space' | 'other';
+
+const CATEGORY_STYLES: { [key in TokenCategory]: { label: string; className: string } } = {
+  vowel: { label: 'Vowel', className: 'fill-yellow-400' },
+  onset: { label: 'Onset', className: 'fill-cyan-400' },
+  coda: { label: 'Coda', className: 'fill-rose-400' },
+  both: { label: 'Onset or coda', className: 'fill-purple-400' },
+  space: { label: 'Space', className: 'fill-gray-200' },
+  other: { label: 'Other', className: 'fill-gray-500' },
+};
+
+const categorize = (token: string, { vowels, onsets, codas }: Phonotactics): TokenCategory => {
+  if (token.trim() === '') return 'space';
+  if (vowels.has(token)) return 'vowel';
+  if (onsets.has(token) && codas.has(token)) return 'both';
+  if (onsets.has(token)) return 'onset';
+  if (codas.has(token)) return 'coda';
+  return 'other';
+};
+
+/**
+ * Plots every token's embedding in two dimensions, using the first two principal components
+ * of the embedding table. Points are labelled with their tokens and colored by their role in
+ * a syllable, so it is easy to see whether vowels, onsets and codas have drifted into clusters.
+ * @param {object} props - The component's props.
+ * @param {LanguageModel | null} props.model - The model whose embedding table is plotted.
+ * @param {LanguagePack} props.languagePack - The language whose onsets, vowels and codas color the points.
+ */
+export const EmbeddingProjector = ({ model, languagePack }) => {
+  const projection = useMemo(() => model?.embedding ? projectEmbeddings(model.embedding) : null, [model]);
+
+  if (!model || !projection || projection.points.length === 0) {
+    return (
+      <div className="bg-gray-800 p-4 rounded-lg border border-gray-700 flex flex-col items-center justify-center">
+        <h2 className="text-xl font-semibold text-cyan-400">Embedding Projector</h2>
+        <p className="text-gray-400 mt-4">The learned token embeddings will be displayed here once a model is initialized.</p>
+      </div>
+    );
+  }
+
+  const SVG_WIDTH = 500;
+  const SVG_HEIGHT = 360;
+  const PADDING = 25;
+
+  const xs = projection.points.map(p => p.x);
+  const ys = projection.points.map(p => p.y);
+  const minX = Math.min(...xs), maxX = Math.max(...xs);
+  const minY = Math.min(...ys), maxY = Math.max(...ys);
+  const toX = (x: number) => PADDING + (maxX > minX ? (x - minX) / (maxX - minX) : 0.5) * (SVG_WIDTH - 2 * PADDING);
+  const toY = (y: number) => SVG_HEIGHT - PADDING - (maxY > minY ? (y - minY) / (maxY - minY) : 0.5) * (SVG_HEIGHT - 2 * PADDING);
+
+  const rules = getPhonotactics(languagePack);
+  const categories: TokenCategory[] = model.vocab.map(token => categorize(token, rules));
+  const presentCategories = (Object.keys(CATEGORY_STYLES) as TokenCategory[]).filter(c => categories.includes(c));
+  const [pc1, pc2] = projection.explainedVariance;
+
+  return (
+    <div className="bg-gray-800 p-4 rounded-lg border border-gray-700 flex flex-col overflow-hidden">
+      <div className="flex-shrink-0">
+        <h2 className="text-xl font-semibold mb-2 text-cyan-400">Embedding Projector</h2>
+        <p className="text-sm text-gray-400 mb-2">
+          Each token's learned embedding, flattened to 2-D with PCA. Tokens the model uses in similar ways drift close together.
+        </p>
+        <div className="flex flex-wrap gap-4 text-xs font-mono text-gray-300 mb-2">
+          {presentCategories.map(category => (
+            <span key={category} className="flex items-center">
+              <svg width="10" height="10" className="mr-1"><circle cx="5" cy="5" r="4" className={CATEGORY_STYLES[category].className} /></svg>
+              {CATEGORY_STYLES[category].label}
+            </span>
+          ))}
+          <span className="text-gray-400">PC1 {(pc1 * 100).toFixed(1)}% · PC2 {(pc2 * 100).toFixed(1)}% of variance</span>
+        </div>
+      </div>
+      <svg viewBox={`0 0 ${SVG_WIDTH} ${SVG_HEIGHT}`} className="w-full bg-gray-900 rounded-md" aria-label="Scatter plot of the token embeddings projected onto two principal components">
+        {projection.points.map((point, i) => {
+          const token = model.vocab[i];
+          const x = toX(point.x);
+          const y = toY(point.y);
+          return (
+            <g key={i}>
+              <circle cx={x} cy={y} r={3} className={CATEGORY_STYLES[categories[i]].className}>
+                <title>'{token}' ({CATEGORY_STYLES[categories[i]].label})</title>
+              </circle>
+              <text x={x + 5} y={y + 3} className={`${CATEGORY_STYLES[categories[i]].className} text-[10px] font-mono`}>
+                {token === ' ' ? '␣' : token}
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+    </div>
+  );
+};
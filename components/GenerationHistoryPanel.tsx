@@ -1,7 +1,17 @@
+import React, { useMemo } from 'react';
+import { computeSyllableStats } from '../services/syllabifier';
+import { SyllableWord, SyllableLegend } from './SyllableWord';
 
-import React from 'react';
+// How many of the most common syllable shapes are listed per epoch.
+const NUM_SHAPES = 4;
+
+export const GenerationHistoryPanel = ({ history, languagePack }) => {
+  // The syllable structure of each epoch's words, so the shapes the model favours can be followed over training.
+  const stats = useMemo(
+    () => history.map(({ words }) => computeSyllableStats(words, languagePack)),
+    [history, languagePack]
+  );
 
-export const GenerationHistoryPanel = ({ history }) => {
   if (history.length === 0) {
     return (
       <div className="flex-grow flex flex-col items-center justify-center min-h-[150px]">
@@ -12,21 +22,34 @@ export const GenerationHistoryPanel = ({ history }) => {
 
   return (
     <div className="flex-grow flex flex-col overflow-hidden">
-      <p className="text-sm text-gray-400 mb-4 flex-shrink-0">
-        Words generated by the model at different stages of training.
-      </p>
+      <div className="flex justify-between items-center mb-4 flex-shrink-0">
+        <p className="text-sm text-gray-400">
+          Words generated by the model at different stages of training, coloured by syllable.
+        </p>
+        <SyllableLegend />
+      </div>
       <div className="flex-grow overflow-auto h-48">
         <ul className="space-y-4">
-          {history.map(({ epoch, words }) => (
-            <li key={epoch} className="bg-gray-900/50 p-3 rounded-md border border-gray-700">
-              <h3 className="font-semibold text-gray-300">After Epoch {epoch}</h3>
-              <p className="font-mono text-lg tracking-widest text-cyan-300 mt-1">
-                {words.join(' ')}
-              </p>
-            </li>
-          ))}
+          {history.map(({ epoch, words }, index) => {
+            const { words: parsed, unparsed, averageSyllables, shapes } = stats[index];
+            const totalSyllables = shapes.reduce((sum, { count }) => sum + count, 0);
+            return (
+              <li key={epoch} className="bg-gray-900/50 p-3 rounded-md border border-gray-700">
+                <h3 className="font-semibold text-gray-300">After Epoch {epoch}</h3>
+                <p className="font-mono text-lg tracking-widest text-cyan-300 mt-1 flex flex-wrap gap-x-4">
+                  {words.map((word, i) => <SyllableWord key={i} word={word} languagePack={languagePack} />)}
+                </p>
+                <p className="text-xs text-gray-500 mt-1 font-mono">
+                  {parsed > 0
+                    ? `${averageSyllables.toFixed(1)} syllables/word · ${shapes.slice(0, NUM_SHAPES).map(({ shape, count }) => `${shape} ${Math.round(count / totalSyllables * 100)}%`).join(' · ')}`
+                    : 'No word fits the syllable templates'}
+                  {parsed > 0 && unparsed > 0 && ` · ${unparsed} unsplittable`}
+                </p>
+              </li>
+            );
+          })}
         </ul>
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -1,29 +1,45 @@
 /**
  * @file GenerationPanel.tsx
  * @description This component provides the UI for generating text from the trained model.
- * It allows users to set a seed token and temperature, generate a word, and then provide
- * feedback (coaching) to reinforce good outputs. It also contains the controls and display
- * for the automated "Auto Coach" feature.
+ * It allows users to pick an optional seed token, sampling strategy and decoding strategy, generate a word
+ * (or, with beam search, the top few candidates), shown coloured by its syllable structure, and then
+ * provide feedback (coaching) to reinforce good outputs. It also contains the controls and display for the automated "Auto Coach" feature,
+ * including how often each sampling strategy produced words that passed the validator and why the
+ * others were rejected (hover over a word in the log to see the validator's report on it), whether
+ * the auto-coach rewards the validator's verdict or a graded phonotactic score, whether coaching
+ * retrains on good words or runs a policy-gradient step on every word, and the
+ * token inspector, which shows the model's prediction at every position of a word, and a ranking
+ * of pasted candidate words by model likelihood next to the validator's verdicts.
  */
 
 import React, { useState, useEffect, useRef } from 'react';
-import { LanguageModel } from '../types';
-import { generateFFNN, generateRNN, generateGRU, generateLSTM } from '../services/languageModel';
+import { CoachingRewardMode, CoachingUpdateMethod, DecodedWord, DecodingConfig, DecodingStrategy, LanguageModel, SamplingConfig, SamplingStrategy } from '../types';
+import { DEFAULT_DECODING_CONFIG } from '../constants';
+import { DECODING_STRATEGY_LABELS, SAMPLING_STRATEGY_LABELS } from '../services/decoding';
+import { describeRejections, describeValidationReport } from '../services/wordValidator';
+import { COACHING_REWARD_LABELS } from '../services/phonotacticScorer';
+import { COACHING_UPDATE_LABELS } from '../services/policyGradient';
 import { SparklesIcon, DownloadIcon, StopIcon } from './icons';
 import { Tooltip } from './Tooltip';
+import { BOS_TOKEN, EOS_TOKEN, isSpecialToken } from '../services/specialTokens';
+import { TokenInspector } from './TokenInspector';
+import { WordRanker } from './WordRanker';
+import { SyllableWord, SyllableLegend } from './SyllableWord';
 
 /**
  * Renders the generation controls, output display, and coaching interface.
  * @param {object} props - The component's props.
  */
-export const GenerationPanel = ({ model, coachingEnabled, onReinforce, isAutoCoaching, onToggleAutoCoach, autoCoachedWords, newWordsLog, coachingStatsLog, onDownloadNewWords }) => {
+export const GenerationPanel = ({ model, coachingEnabled, onGenerate, onInspect, onRankWords, sampling, onSamplingChange, samplingPassRates, coachingReward, onCoachingRewardChange, coachingUpdate, onCoachingUpdateChange, policyGradientStats, languagePack, onReinforce, isAutoCoaching, onToggleAutoCoach, autoCoachedWords, newWordsLog, coachingStatsLog, onDownloadNewWords }) => {
   // --- State ---
-  // The starting token for generation.
+  // An optional token the word must start with. Empty to start from `<bos>` alone.
   const [seed, setSeed] = useState('');
-  // Controls the randomness of the output. Higher values = more creative.
-  const [temperature, setTemperature] = useState(1.1);
+  // How words are decoded from the model's predictions.
+  const [decoding, setDecoding] = useState<DecodingConfig>(DEFAULT_DECODING_CONFIG);
   // The text generated by the model.
   const [generatedText, setGeneratedText] = useState('');
+  // Every word the last generation returned, best first. Beam search returns several.
+  const [decodedWords, setDecodedWords] = useState<DecodedWord[]>([]);
   // Flag to indicate if generation is in progress.
   const [isGenerating, setIsGenerating] = useState(false);
   // Flag to show/hide the manual coaching buttons (Good/Bad).
@@ -31,21 +47,6 @@ export const GenerationPanel = ({ model, coachingEnabled, onReinforce, isAutoCoa
   // Ref to the auto-coaching log container for scrolling.
   const logContainerRef = useRef<HTMLDivElement>(null);
 
-  /**
-   * Effect to automatically select a random, valid seed token when the model changes.
-   */
-  useEffect(() => {
-    if (model && model.vocab && model.vocab.length > 0) {
-      const nonSpaceVocab = model.vocab.filter(c => c.trim() !== '');
-      if (nonSpaceVocab.length > 0) {
-        const randomIndex = Math.floor(Math.random() * nonSpaceVocab.length);
-        setSeed(nonSpaceVocab[randomIndex]);
-      } else if (model.vocab.length > 0) {
-        setSeed(model.vocab[0]);
-      }
-    }
-  }, [model]);
-
   /**
    * Effect to automatically scroll the auto-coaching log to the bottom as new words are added.
    */
@@ -61,53 +62,74 @@ export const GenerationPanel = ({ model, coachingEnabled, onReinforce, isAutoCoa
   useEffect(() => {
     if (isAutoCoaching) {
         setGeneratedText('');
+        setDecodedWords([]);
         setShowCoaching(false);
     }
   }, [isAutoCoaching]);
 
   /**
    * Handles the "Generate Word" button click.
-   * It calls the appropriate generation function based on the model type.
+   * Generation runs in the training engine, so the UI stays responsive while it works.
    */
-  const handleGenerate = () => {
-    if (!model || !seed) return;
+  const handleGenerate = async () => {
+    if (!model) return;
     setIsGenerating(true);
     setGeneratedText('');
+    setDecodedWords([]);
     setShowCoaching(false);
     
-    // Use a short timeout to allow the UI to update to "Generating..." before the blocking generation call.
-    setTimeout(() => {
-        let result = '';
-        const maxLength = 50; // Max length of a generated word.
-        if (model.type === 'FFNN') {
-            result = generateFFNN(model, seed, maxLength, temperature);
-        } else if (model.type === 'RNN') {
-            result = generateRNN(model, seed, maxLength, temperature);
-        } else if (model.type === 'GRU') {
-            result = generateGRU(model, seed, maxLength, temperature);
-        } else if (model.type === 'LSTM') {
-            result = generateLSTM(model, seed, maxLength, temperature);
-        }
-        setGeneratedText(result);
-        setIsGenerating(false);
-        setShowCoaching(true); // Show coaching buttons after generation.
-    }, 10);
+    try {
+      const results: DecodedWord[] = await onGenerate(seed, decoding);
+      setDecodedWords(results);
+      setGeneratedText(results[0]?.word ?? '');
+      setShowCoaching(true); // Show coaching buttons after generation.
+    } catch {
+      // The failure is reported in the training log.
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  /**
+   * Picks one of the beam search candidates as the word to coach.
+   * @param {string} word - The chosen candidate.
+   */
+  const handleSelectCandidate = (word: string) => {
+    setGeneratedText(word);
+    setShowCoaching(true);
   };
 
   /**
-   * Handles the "Good 👍" button click, triggering the reinforcement callback.
+   * Updates one of the sampling settings. They are shared with the auto-coach and the generation history.
+   */
+  const updateSampling = (changes: Partial<SamplingConfig>) => onSamplingChange({ ...sampling, ...changes });
+
+  /**
+   * Updates one of the decoding settings.
+   */
+  const updateDecoding = (changes: Partial<DecodingConfig>) => setDecoding(current => ({ ...current, ...changes }));
+  const isBeamSearch = decoding.strategy === 'beam' || decoding.strategy === 'diverse-beam';
+  // The decoded word currently shown (and offered for coaching).
+  const selectedWord: DecodedWord | undefined = decodedWords.find(candidate => candidate.word === generatedText);
+
+  /**
+   * Handles the "Good 👍" button click, coaching the word with a reward of +1.
    */
   const handleReinforceClick = () => {
     if (onReinforce) {
-        onReinforce(generatedText);
+        onReinforce(generatedText, true, 1);
     }
     setShowCoaching(false);
   }
   
   /**
-   * Handles the "Bad 👎" button click.
+   * Handles the "Bad 👎" button click, coaching the word with a reward of -1. Only policy-gradient
+   * coaching learns from it; supervised coaching ignores bad words.
    */
   const handleDismissClick = () => {
+    if (onReinforce) {
+        onReinforce(generatedText, true, -1);
+    }
     setShowCoaching(false);
   }
 
@@ -131,6 +153,10 @@ export const GenerationPanel = ({ model, coachingEnabled, onReinforce, isAutoCoa
   const last30Words = autoCoachedWords.slice(-30);
   const goodCountLast30 = last30Words.filter(w => w.isGood).length;
   const badCountLast30 = last30Words.length - goodCountLast30;
+  const rejectionsLast30 = describeRejections(last30Words.reduce((counts, w) => {
+    if (!w.isGood && w.report.failedRule) counts[w.report.failedRule] = (counts[w.report.failedRule] || 0) + 1;
+    return counts;
+  }, {}));
 
   return (
     <>
@@ -138,10 +164,10 @@ export const GenerationPanel = ({ model, coachingEnabled, onReinforce, isAutoCoa
         Generate a word, then provide feedback. Or, use Auto Coach to let the app find and reinforce good words automatically.
       </p>
       
-      {/* --- Generation Controls (Seed & Temperature) --- */}
+      {/* --- Generation Controls (Seed & Sampling Strategy) --- */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
         <div className="space-y-2">
-            <Tooltip text="The starting token for generation. A random one is chosen automatically.">
+            <Tooltip text="Generation always starts from the <bos> (beginning of word) token, so the model picks the first letter itself. Choose a token here to make every word start with it instead.">
                 <label htmlFor="seed-select" className="block text-sm font-medium text-gray-300">Seed Token</label>
             </Tooltip>
             <select
@@ -151,27 +177,340 @@ export const GenerationPanel = ({ model, coachingEnabled, onReinforce, isAutoCoa
                 disabled={!model || isGenerating || isAutoCoaching}
                 className="w-full p-2 bg-gray-900 border border-gray-700 rounded-md font-mono text-sm disabled:opacity-50"
             >
-                {model?.vocab?.filter(token => token.trim() !== '').map(token => (
+                <option value="">{BOS_TOKEN} (model's choice)</option>
+                {model?.vocab?.filter(token => token.trim() !== '' && !isSpecialToken(token)).map(token => (
                     <option key={token} value={token}>{token}</option>
                 ))}
             </select>
         </div>
         <div className="space-y-2">
-            <Tooltip text="Controls the randomness of the output. Higher values are more creative, lower values are more predictable.">
+            <Tooltip text="Which tokens sampling may pick. Temperature Only can pick any token. Top-k keeps the k most likely. Nucleus keeps the smallest set of tokens whose probabilities add up to p. Typical keeps the tokens whose surprise is closest to the average surprise. Min-p keeps the tokens at least a fraction as likely as the best one. Used by manual generation, the generation history and the auto-coach.">
+                <label htmlFor="sampling-strategy" className="block text-sm font-medium text-gray-300">Sampling</label>
+            </Tooltip>
+            <select
+                id="sampling-strategy"
+                value={sampling.strategy}
+                onChange={(e) => updateSampling({ strategy: e.target.value as SamplingStrategy })}
+                disabled={!model || isGenerating}
+                className="w-full p-2 bg-gray-900 border border-gray-700 rounded-md text-sm text-gray-300 disabled:opacity-50"
+            >
+                {Object.entries(SAMPLING_STRATEGY_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                ))}
+            </select>
+        </div>
+        <div className="space-y-2">
+            <Tooltip text="Controls the randomness of the output when sampling. Higher values are more creative, lower values are more predictable.">
                 <label htmlFor="temperature" className="block text-sm font-medium text-gray-300">
-                    Temperature: <span className="font-mono bg-gray-900 px-2 py-1 rounded-md">{temperature.toFixed(2)}</span>
+                    Temperature: <span className="font-mono bg-gray-900 px-2 py-1 rounded-md">{sampling.temperature.toFixed(2)}</span>
                 </label>
             </Tooltip>
             <input
                 id="temperature"
                 type="range"
                 min="0.1" max="1.5" step="0.05"
-                value={temperature}
-                onChange={(e) => setTemperature(parseFloat(e.target.value))}
-                disabled={!model || isGenerating || isAutoCoaching}
+                value={sampling.temperature}
+                onChange={(e) => updateSampling({ temperature: parseFloat(e.target.value) })}
+                disabled={!model || isGenerating}
+                className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:opacity-50"
+            />
+        </div>
+        {sampling.strategy === 'top-k' && (
+            <div className="space-y-2">
+                <Tooltip text="Only the k most likely tokens can be sampled.">
+                    <label htmlFor="top-k" className="block text-sm font-medium text-gray-300">
+                        Top-k: <span className="font-mono bg-gray-900 px-2 py-1 rounded-md">{sampling.topK}</span>
+                    </label>
+                </Tooltip>
+                <input
+                    id="top-k"
+                    type="range"
+                    min="1" max="20" step="1"
+                    value={sampling.topK}
+                    onChange={(e) => updateSampling({ topK: parseInt(e.target.value, 10) })}
+                    disabled={!model || isGenerating}
+                    className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:opacity-50"
+                />
+            </div>
+        )}
+        {sampling.strategy === 'top-p' && (
+            <div className="space-y-2">
+                <Tooltip text="Only the most likely tokens whose probabilities add up to p can be sampled. The set grows when the model is unsure and shrinks when it is confident.">
+                    <label htmlFor="top-p" className="block text-sm font-medium text-gray-300">
+                        Top-p: <span className="font-mono bg-gray-900 px-2 py-1 rounded-md">{sampling.topP.toFixed(2)}</span>
+                    </label>
+                </Tooltip>
+                <input
+                    id="top-p"
+                    type="range"
+                    min="0.05" max="1" step="0.05"
+                    value={sampling.topP}
+                    onChange={(e) => updateSampling({ topP: parseFloat(e.target.value) })}
+                    disabled={!model || isGenerating}
+                    className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:opacity-50"
+                />
+            </div>
+        )}
+        {sampling.strategy === 'typical' && (
+            <div className="space-y-2">
+                <Tooltip text="Tokens are ranked by how close their surprise (-log p) is to the distribution's entropy, and the closest ones adding up to this much probability can be sampled. Both very likely and very unlikely tokens can be left out.">
+                    <label htmlFor="typical-p" className="block text-sm font-medium text-gray-300">
+                        Typical p: <span className="font-mono bg-gray-900 px-2 py-1 rounded-md">{sampling.typicalP.toFixed(2)}</span>
+                    </label>
+                </Tooltip>
+                <input
+                    id="typical-p"
+                    type="range"
+                    min="0.05" max="1" step="0.05"
+                    value={sampling.typicalP}
+                    onChange={(e) => updateSampling({ typicalP: parseFloat(e.target.value) })}
+                    disabled={!model || isGenerating}
+                    className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:opacity-50"
+                />
+            </div>
+        )}
+        {sampling.strategy === 'min-p' && (
+            <div className="space-y-2">
+                <Tooltip text="Only tokens at least this fraction as likely as the most likely token can be sampled.">
+                    <label htmlFor="min-p" className="block text-sm font-medium text-gray-300">
+                        Min-p: <span className="font-mono bg-gray-900 px-2 py-1 rounded-md">{sampling.minP.toFixed(2)}</span>
+                    </label>
+                </Tooltip>
+                <input
+                    id="min-p"
+                    type="range"
+                    min="0.01" max="0.5" step="0.01"
+                    value={sampling.minP}
+                    onChange={(e) => updateSampling({ minP: parseFloat(e.target.value) })}
+                    disabled={!model || isGenerating}
+                    className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:opacity-50"
+                />
+            </div>
+        )}
+        <div className="space-y-2">
+            <Tooltip text="The log-probability of a token that is already in the word is multiplied by this, making repeats less likely. 1 turns it off.">
+                <label htmlFor="repetition-penalty" className="block text-sm font-medium text-gray-300">
+                    Repetition Penalty: <span className="font-mono bg-gray-900 px-2 py-1 rounded-md">{sampling.repetitionPenalty.toFixed(1)}</span>
+                </label>
+            </Tooltip>
+            <input
+                id="repetition-penalty"
+                type="range"
+                min="1" max="3" step="0.1"
+                value={sampling.repetitionPenalty}
+                onChange={(e) => updateSampling({ repetitionPenalty: parseFloat(e.target.value) })}
+                disabled={!model || isGenerating}
                 className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:opacity-50"
             />
         </div>
+        <div className="space-y-2">
+            <Tooltip text="Subtracted from a token's log-probability once for every time it already appears in the word, so the more often a letter has been used, the less likely it becomes. 0 turns it off.">
+                <label htmlFor="frequency-penalty" className="block text-sm font-medium text-gray-300">
+                    Frequency Penalty: <span className="font-mono bg-gray-900 px-2 py-1 rounded-md">{sampling.frequencyPenalty.toFixed(1)}</span>
+                </label>
+            </Tooltip>
+            <input
+                id="frequency-penalty"
+                type="range"
+                min="0" max="2" step="0.1"
+                value={sampling.frequencyPenalty}
+                onChange={(e) => updateSampling({ frequencyPenalty: parseFloat(e.target.value) })}
+                disabled={!model || isGenerating}
+                className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:opacity-50"
+            />
+        </div>
+      </div>
+
+      {/* --- Decoding Controls (Strategy & Beam Settings) --- */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+        <div className="space-y-2">
+            <Tooltip text="How the next token is chosen. Sampling draws it at random, using the sampling settings above. Greedy always takes the most likely token. Beam search keeps several candidate words at once and returns the most likely ones. Diverse beam search splits the beam into groups that are pushed towards different words.">
+                <label htmlFor="decoding-strategy" className="block text-sm font-medium text-gray-300">Decoding</label>
+            </Tooltip>
+            <select
+                id="decoding-strategy"
+                value={decoding.strategy}
+                onChange={(e) => updateDecoding({ strategy: e.target.value as DecodingStrategy })}
+                disabled={!model || isGenerating || isAutoCoaching}
+                className="w-full p-2 bg-gray-900 border border-gray-700 rounded-md text-sm text-gray-300 disabled:opacity-50"
+            >
+                {Object.entries(DECODING_STRATEGY_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                ))}
+            </select>
+        </div>
+        <Tooltip text="Runs the validator's rules while the word is being generated. Any token that would make the word impossible to finish as a good word is masked out, and the word may only end once it is good, so every generated word passes the validator. The share of the model's probability the mask removed is shown for each step.">
+            <div className="flex items-center space-x-2 md:pt-7">
+                <input
+                    type="checkbox"
+                    id="phonotactic-mask"
+                    checked={decoding.phonotacticMask}
+                    onChange={(e) => updateDecoding({ phonotacticMask: e.target.checked })}
+                    disabled={!model || isGenerating || isAutoCoaching}
+                    className="h-4 w-4 rounded border-gray-600 bg-gray-800 text-cyan-600 focus:ring-cyan-500"
+                />
+                <label htmlFor="phonotactic-mask" className="text-sm font-medium text-gray-300">
+                    Phonotactic mask
+                </label>
+            </div>
+        </Tooltip>
+        {isBeamSearch && (
+            <div className="space-y-2">
+                <Tooltip text="How many candidate words beam search keeps at every step. They are all listed below, best first.">
+                    <label htmlFor="beam-width" className="block text-sm font-medium text-gray-300">
+                        Beam Width: <span className="font-mono bg-gray-900 px-2 py-1 rounded-md">{decoding.beamWidth}</span>
+                    </label>
+                </Tooltip>
+                <input
+                    id="beam-width"
+                    type="range"
+                    min="1" max="10" step="1"
+                    value={decoding.beamWidth}
+                    onChange={(e) => updateDecoding({ beamWidth: parseInt(e.target.value, 10) })}
+                    disabled={!model || isGenerating || isAutoCoaching}
+                    className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:opacity-50"
+                />
+            </div>
+        )}
+        {isBeamSearch && (
+            <div className="space-y-2">
+                <Tooltip text="Candidates are ranked by their log-probability divided by their length raised to this power. At 0 short words win, since every extra letter lowers the probability; at 1 the average log-probability per token is compared.">
+                    <label htmlFor="length-penalty" className="block text-sm font-medium text-gray-300">
+                        Length Penalty: <span className="font-mono bg-gray-900 px-2 py-1 rounded-md">{decoding.lengthPenalty.toFixed(1)}</span>
+                    </label>
+                </Tooltip>
+                <input
+                    id="length-penalty"
+                    type="range"
+                    min="0" max="2" step="0.1"
+                    value={decoding.lengthPenalty}
+                    onChange={(e) => updateDecoding({ lengthPenalty: parseFloat(e.target.value) })}
+                    disabled={!model || isGenerating || isAutoCoaching}
+                    className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:opacity-50"
+                />
+            </div>
+        )}
+        {decoding.strategy === 'diverse-beam' && (
+            <div className="space-y-2">
+                <Tooltip text="The number of groups the beam is split into. Each group searches on its own, but avoids the letters earlier groups just picked.">
+                    <label htmlFor="beam-groups" className="block text-sm font-medium text-gray-300">
+                        Groups: <span className="font-mono bg-gray-900 px-2 py-1 rounded-md">{decoding.numGroups}</span>
+                    </label>
+                </Tooltip>
+                <input
+                    id="beam-groups"
+                    type="range"
+                    min="1" max="5" step="1"
+                    value={decoding.numGroups}
+                    onChange={(e) => updateDecoding({ numGroups: parseInt(e.target.value, 10) })}
+                    disabled={!model || isGenerating || isAutoCoaching}
+                    className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:opacity-50"
+                />
+            </div>
+        )}
+        {decoding.strategy === 'diverse-beam' && (
+            <div className="space-y-2">
+                <Tooltip text="How much a group's log-probability is lowered for each earlier group that picked the same token at the same step. Higher values give more varied words.">
+                    <label htmlFor="diversity-penalty" className="block text-sm font-medium text-gray-300">
+                        Diversity Penalty: <span className="font-mono bg-gray-900 px-2 py-1 rounded-md">{decoding.diversityPenalty.toFixed(1)}</span>
+                    </label>
+                </Tooltip>
+                <input
+                    id="diversity-penalty"
+                    type="range"
+                    min="0" max="3" step="0.1"
+                    value={decoding.diversityPenalty}
+                    onChange={(e) => updateDecoding({ diversityPenalty: parseFloat(e.target.value) })}
+                    disabled={!model || isGenerating || isAutoCoaching}
+                    className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:opacity-50"
+                />
+            </div>
+        )}
+      </div>
+
+      {/* --- Auto-Coach Reward --- */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+        <div className="space-y-2">
+            <Tooltip text="Which words the auto-coach reinforces. Pass/Fail reinforces the words that pass the rule-based validator. Graded scores every word from 0 to 1 by how likely its onsets, vowels and codas are in the training text, and reinforces the words that reach the threshold, more strongly the higher they score.">
+                <label htmlFor="coaching-reward" className="block text-sm font-medium text-gray-300">Auto-Coach Reward</label>
+            </Tooltip>
+            <select
+                id="coaching-reward"
+                value={coachingReward.mode}
+                onChange={(e) => onCoachingRewardChange({ ...coachingReward, mode: e.target.value as CoachingRewardMode })}
+                className="w-full p-2 bg-gray-900 border border-gray-700 rounded-md text-sm text-gray-300"
+            >
+                {Object.entries(COACHING_REWARD_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                ))}
+            </select>
+        </div>
+        {coachingReward.mode === 'graded' && (
+            <div className="space-y-2">
+                <Tooltip text="The lowest score that is reinforced. A word that is as likely as the training text's average word scores 1.">
+                    <label htmlFor="reward-threshold" className="block text-sm font-medium text-gray-300">
+                        Threshold: <span className="font-mono bg-gray-900 px-2 py-1 rounded-md">{coachingReward.threshold.toFixed(2)}</span>
+                    </label>
+                </Tooltip>
+                <input
+                    id="reward-threshold"
+                    type="range"
+                    min="0" max="1" step="0.05"
+                    value={coachingReward.threshold}
+                    onChange={(e) => onCoachingRewardChange({ ...coachingReward, threshold: parseFloat(e.target.value) })}
+                    className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+                />
+            </div>
+        )}
+      </div>
+
+      {/* --- Coaching Update --- */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+        <div className="space-y-2">
+            <Tooltip text="How coaching changes the model. Supervised retrains on good words as if they were training text and ignores bad ones. Policy gradient (REINFORCE) treats every coached word as an action with a reward: words that beat the running average reward are made more likely, and words that fall short less likely.">
+                <label htmlFor="coaching-update" className="block text-sm font-medium text-gray-300">Coaching Update</label>
+            </Tooltip>
+            <select
+                id="coaching-update"
+                value={coachingUpdate.method}
+                onChange={(e) => onCoachingUpdateChange({ ...coachingUpdate, method: e.target.value as CoachingUpdateMethod })}
+                className="w-full p-2 bg-gray-900 border border-gray-700 rounded-md text-sm text-gray-300"
+            >
+                {Object.entries(COACHING_UPDATE_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                ))}
+            </select>
+        </div>
+        {coachingUpdate.method === 'policy-gradient' && (
+            <div className="space-y-2">
+                <Tooltip text="Keeps the coached model's predictions close to a copy of the model frozen when coaching started, so chasing the reward does not make it forget the training text. 0 turns it off.">
+                    <label htmlFor="kl-penalty" className="block text-sm font-medium text-gray-300">
+                        KL Penalty: <span className="font-mono bg-gray-900 px-2 py-1 rounded-md">{coachingUpdate.klPenalty.toFixed(2)}</span>
+                    </label>
+                </Tooltip>
+                <input
+                    id="kl-penalty"
+                    type="range"
+                    min="0" max="1" step="0.05"
+                    value={coachingUpdate.klPenalty}
+                    onChange={(e) => onCoachingUpdateChange({ ...coachingUpdate, klPenalty: parseFloat(e.target.value) })}
+                    className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+                />
+                <Tooltip text="How slowly the baseline, the running average reward, follows new rewards. Each word's update is scaled by how far its reward is from the baseline.">
+                    <label htmlFor="baseline-decay" className="block text-sm font-medium text-gray-300">
+                        Baseline Decay: <span className="font-mono bg-gray-900 px-2 py-1 rounded-md">{coachingUpdate.baselineDecay.toFixed(2)}</span>
+                    </label>
+                </Tooltip>
+                <input
+                    id="baseline-decay"
+                    type="range"
+                    min="0" max="0.99" step="0.01"
+                    value={coachingUpdate.baselineDecay}
+                    onChange={(e) => onCoachingUpdateChange({ ...coachingUpdate, baselineDecay: parseFloat(e.target.value) })}
+                    className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+                />
+            </div>
+        )}
       </div>
       
        {/* --- Action Buttons (Generate & Auto Coach) --- */}
@@ -204,21 +543,68 @@ export const GenerationPanel = ({ model, coachingEnabled, onReinforce, isAutoCoa
           <div ref={logContainerRef} className="overflow-y-auto h-full">
              <p className="text-center text-sm text-gray-400 mb-2 sticky top-0 bg-gray-900 py-1 font-mono">
                 {`Auto-coaching... Total Good: ${totalGoodCount} | Good/Bad (last 30): ${goodCountLast30}/${badCountLast30}`}
+                {rejectionsLast30 && <span className="block text-xs text-gray-500">Rejected for: {rejectionsLast30}</span>}
+                {coachingUpdate.method === 'policy-gradient' && policyGradientStats && (
+                    <span className="block text-xs text-gray-500">
+                        {`Reward baseline: ${policyGradientStats.baseline.toFixed(2)}`}
+                        {policyGradientStats.kl !== null && ` | KL from reference: ${policyGradientStats.kl.toFixed(4)}`}
+                    </span>
+                )}
              </p>
              <div className="flex flex-wrap gap-x-4 gap-y-1 justify-center font-mono">
-                {autoCoachedWords.map((item, index) => (
-                    <span key={index} className={item.isGood ? 'text-green-400' : 'text-red-500/60'}>
-                        {item.word}
-                    </span>
-                ))}
+                {/* Reinforced words are coloured by their syllables, rejected ones are red. */}
+                {autoCoachedWords.map((item, index) => {
+                    const title = `Score: ${item.score.toFixed(2)}\n${describeValidationReport(item.report)}`;
+                    return item.isGood
+                        ? <SyllableWord key={index} word={item.word} languagePack={languagePack} fallbackClassName="text-green-400" title={title} />
+                        : <span key={index} title={title} className="text-red-500/60">{item.word}</span>;
+                })}
              </div>
           </div>
         ) : (
           // Manual generation view
           <>
             <pre className="text-2xl font-mono text-cyan-300 whitespace-pre-wrap break-words tracking-widest flex-grow">
-                {generatedText || (!model ? "Model not initialized." : "Click 'Generate Word' to see the model's output.")}
+                {generatedText
+                    ? <SyllableWord word={generatedText} languagePack={languagePack} />
+                    : (!model ? "Model not initialized." : "Click 'Generate Word' to see the model's output.")}
             </pre>
+            {generatedText && <SyllableLegend />}
+            {/* Every beam, best first, with its log-probability and length-normalized score. Click one to coach it. */}
+            {decodedWords.length > 1 && (
+                <div className="mt-2">
+                    <p className="text-xs text-gray-400 mb-1">Top beams (click one to coach it):</p>
+                    <ul className="text-sm font-mono space-y-1">
+                        {decodedWords.map((candidate, index) => (
+                            <li key={index}>
+                                <button
+                                    onClick={() => handleSelectCandidate(candidate.word)}
+                                    className={`w-full flex justify-between px-2 py-0.5 rounded-md hover:bg-gray-700 ${candidate.word === generatedText ? 'bg-gray-800 text-cyan-300' : 'text-gray-300'}`}
+                                >
+                                    <span>{index + 1}. {candidate.word}</span>
+                                    <span className="text-gray-500">log p {candidate.logProb.toFixed(2)} · score {candidate.score.toFixed(2)}</span>
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+            {decodedWords.length === 1 && generatedText && (
+                <p className="text-xs font-mono text-gray-500">log p {decodedWords[0].logProb.toFixed(2)}</p>
+            )}
+            {/* How much probability the phonotactic mask removed before each token (and before the ending space). */}
+            {selectedWord && selectedWord.maskedMass.some(mass => mass > 0) && (
+                <div className="mt-2">
+                    <p className="text-xs text-gray-400 mb-1">Probability removed by the mask at each step:</p>
+                    <div className="flex flex-wrap gap-1 text-xs font-mono">
+                        {selectedWord.maskedMass.map((mass, index) => (
+                            <span key={index} className="px-1.5 py-0.5 rounded bg-gray-800 text-gray-300">
+                                {selectedWord.tokens[index] ?? EOS_TOKEN} <span className={mass > 0.5 ? 'text-orange-400' : 'text-gray-500'}>{(mass * 100).toFixed(1)}%</span>
+                            </span>
+                        ))}
+                    </div>
+                </div>
+            )}
             {generatedText && (
                 <Tooltip text="Download generated word">
                     <button onClick={handleDownloadGenerated} className="absolute top-2 right-2 p-1.5 text-gray-400 hover:text-white bg-gray-700/50 hover:bg-gray-600 rounded-md">
@@ -256,6 +642,30 @@ export const GenerationPanel = ({ model, coachingEnabled, onReinforce, isAutoCoa
         )}
       </div>
       
+      {/* --- Token Inspector --- */}
+      {!isAutoCoaching && <TokenInspector model={model} word={generatedText} onInspect={onInspect} />}
+
+      {/* --- Word Ranking --- */}
+      {!isAutoCoaching && <WordRanker model={model} onRankWords={onRankWords} />}
+
+      {/* --- Sampling Strategy Comparison --- */}
+      {/* How often the auto-coach's words passed the validator under each sampling configuration. */}
+      {samplingPassRates.length > 0 && (
+        <div className="mt-4">
+            <Tooltip text="The share of auto-coached words that passed the validator, for each sampling configuration the auto-coach has used. Change the sampling settings while the auto-coach runs to compare them.">
+                <h4 className="text-md font-medium text-gray-300 mb-2">Pass Rate by Sampling Strategy</h4>
+            </Tooltip>
+            <ul className="text-xs font-mono text-gray-400 bg-gray-900 p-2 rounded-md space-y-1">
+                {samplingPassRates.map(rate => (
+                    <li key={rate.label} className="flex justify-between">
+                        <span>{rate.label}</span>
+                        <span>{rate.good}/{rate.total} ({(rate.good / rate.total * 100).toFixed(1)}%)</span>
+                    </li>
+                ))}
+            </ul>
+        </div>
+      )}
+
        {/* --- Cyclical Training Report Section --- */}
        {/* This section only appears when cyclical training has produced logs. */}
        {(coachingStatsLog.length > 0 || newWordsLog.length > 0) && (
@@ -0,0 +1,124 @@
+
+import React from 'react';
+
+/**
+ * Charts gradient norms over time for the recurrent models, where gradients flowing back
+ * through many time steps can explode or vanish. The line shows the global norm (on a log
+ * scale, since it can change by orders of magnitude), the orange bars show how often clipping
+ * fired, and the list below breaks the latest step down by parameter.
+ * @param {object} props - The component's props.
+ * @param {{ global: number; clipFrequency: number }[]} props.history - Recent samples of the global norm and clip frequency.
+ * @param {GradientNormStats | null} props.latest - The gradient norms of the most recent step.
+ * @param {GradientClippingConfig} props.clipping - The active clipping settings.
+ */
+export const GradientNormsPanel = ({ history, latest, clipping }) => {
+  if (!history || history.length === 0) {
+    return (
+      <div className="bg-gray-800 p-4 rounded-lg border border-gray-700 flex flex-col items-center justify-center">
+        <h2 className="text-xl font-semibold text-cyan-400">Gradient Norms</h2>
+        <p className="text-gray-400 mt-4">Gradient norms will be displayed here during training.</p>
+      </div>
+    );
+  }
+
+  const SVG_WIDTH = 500;
+  const SVG_HEIGHT = 200;
+  const PADDING = { top: 15, right: 10, bottom: 25, left: 45 };
+  const CHART_WIDTH = SVG_WIDTH - PADDING.left - PADDING.right;
+  const CHART_HEIGHT = SVG_HEIGHT - PADDING.top - PADDING.bottom;
+
+  // Norms are plotted on a log10 scale, with the axis rounded out to whole powers of ten.
+  const safeLog = (value: number) => Math.log10(Math.max(value, 1e-8));
+  const logValues = history.map(sample => safeLog(sample.global)).filter(Number.isFinite);
+  if (clipping.type === 'norm') logValues.push(safeLog(clipping.threshold));
+  const minExp = Math.floor(Math.min(...logValues, 0));
+  const maxExp = Math.max(Math.ceil(Math.max(...logValues, 0)), minExp + 1);
+  const toY = (value: number) => PADDING.top + CHART_HEIGHT - ((safeLog(value) - minExp) / (maxExp - minExp)) * CHART_HEIGHT;
+  const xStep = history.length > 1 ? CHART_WIDTH / (history.length - 1) : 0;
+  const toX = (index: number) => PADDING.left + index * xStep;
+  const points = history
+    .map((sample, index) => Number.isFinite(sample.global) ? `${toX(index)},${toY(sample.global)}` : null)
+    .filter(Boolean)
+    .join(' ');
+  const tickExponents = Array.from({ length: maxExp - minExp + 1 }, (_, i) => minExp + i);
+
+  const averageClipFrequency = history.reduce((sum, sample) => sum + sample.clipFrequency, 0) / history.length;
+  const latestGlobal = history[history.length - 1].global;
+  const perParameter: [string, number][] = latest ? Object.entries(latest.perParameter) : [];
+  const maxParameterNorm = Math.max(...perParameter.map(([, norm]) => norm), 1e-8);
+
+  return (
+    <div className="bg-gray-800 p-4 rounded-lg border border-gray-700 flex flex-col overflow-hidden">
+      <div className="flex-shrink-0">
+        <h2 className="text-xl font-semibold mb-2 text-cyan-400">Gradient Norms</h2>
+        <p className="text-sm text-gray-400 mb-2">
+          The size of the gradients over recent training steps. Sudden spikes are exploding gradients; a steady slide towards zero means they are vanishing.
+        </p>
+        <div className="flex flex-wrap gap-4 text-xs font-mono text-gray-300 mb-2">
+          <span>Global norm: {latestGlobal.toExponential(2)}</span>
+          <span className="text-orange-400">Clipping fired: {(averageClipFrequency * 100).toFixed(1)}% of steps</span>
+          <span className="text-gray-400">
+            {clipping.type === 'none' ? 'Clipping off' : clipping.type === 'value' ? `Clip values to ±${clipping.threshold}` : `Clip global norm to ${clipping.threshold}`}
+          </span>
+        </div>
+      </div>
+      <svg viewBox={`0 0 ${SVG_WIDTH} ${SVG_HEIGHT}`} className="w-full" aria-label="Line chart of the global gradient norm over recent steps">
+        {/* Y-axis with labels */}
+        <line x1={PADDING.left} y1={PADDING.top} x2={PADDING.left} y2={PADDING.top + CHART_HEIGHT} className="stroke-gray-600" />
+        {tickExponents.map(exp => {
+          const y = toY(Math.pow(10, exp));
+          return (
+            <g key={exp}>
+              <line x1={PADDING.left - 5} y1={y} x2={PADDING.left} y2={y} className="stroke-gray-600" />
+              <text x={PADDING.left - 8} y={y + 4} textAnchor="end" className="fill-gray-400 text-[10px]">
+                1e{exp}
+              </text>
+            </g>
+          );
+        })}
+        {/* X-axis */}
+        <line x1={PADDING.left} y1={PADDING.top + CHART_HEIGHT} x2={PADDING.left + CHART_WIDTH} y2={PADDING.top + CHART_HEIGHT} className="stroke-gray-600" />
+        <text x={SVG_WIDTH / 2} y={SVG_HEIGHT - 5} textAnchor="middle" className="fill-gray-400 text-xs">
+          Recent Steps
+        </text>
+
+        {/* Clip frequency bars along the bottom of the chart */}
+        {history.map((sample, index) => sample.clipFrequency > 0 && (
+          <rect
+            key={index}
+            x={toX(index) - Math.max(1, xStep) / 2}
+            y={PADDING.top + CHART_HEIGHT - sample.clipFrequency * CHART_HEIGHT * 0.25}
+            width={Math.max(1, xStep)}
+            height={sample.clipFrequency * CHART_HEIGHT * 0.25}
+            className="fill-orange-500 opacity-40"
+          />
+        ))}
+
+        {/* Clipping threshold, when clipping by global norm */}
+        {clipping.type === 'norm' && (
+          <line
+            x1={PADDING.left} y1={toY(clipping.threshold)} x2={PADDING.left + CHART_WIDTH} y2={toY(clipping.threshold)}
+            className="stroke-orange-400" strokeDasharray="4 3"
+          />
+        )}
+
+        {/* Global norm */}
+        <polyline points={points} fill="none" className="stroke-cyan-500" strokeWidth={1.5} />
+      </svg>
+      {/* Per-parameter norms for the latest step */}
+      {perParameter.length > 0 && (
+        <div className="mt-3 space-y-1">
+          {perParameter.map(([name, norm]) => (
+            <div key={name} className="flex items-center text-xs font-mono">
+              <span className="w-36 flex-shrink-0 text-gray-400 truncate" title={name}>{name}</span>
+              <div className="flex-grow h-2 bg-gray-900 rounded mx-2">
+                <div className="h-2 bg-cyan-600 rounded" style={{ width: `${Math.min(100, (norm / maxParameterNorm) * 100)}%` }} />
+              </div>
+              <span className="w-20 text-right text-gray-300">{norm.toExponential(2)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
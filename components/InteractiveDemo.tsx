@@ -7,8 +7,10 @@
  */
 
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { initializeFFNNModel, trainStepFFNN, generateFFNN } from '../services/languageModel';
-import { FFNNModel, TrainStepResult, Matrix } from '../types';
+import { initializeFFNNModel, trainStepFFNN, generateWord } from '../services/languageModel';
+import { FFNNModel, TrainStepResult, Matrix, SamplingConfig } from '../types';
+import { DEFAULT_SAMPLING_CONFIG } from '../constants';
+import { toNestedArray } from '../services/matrix';
 import { LineArchitectureVisualizer } from './LineArchitectureVisualizer';
 import { PlayIcon, PauseIcon, ResetIcon, SparklesIcon } from './icons';
 import { Tooltip } from './Tooltip';
@@ -18,8 +20,11 @@ import { LossHistogram } from './LossHistogram';
 const INTERACTIVE_TEXT = "abcabc";
 const INTERACTIVE_LR = 0.1;
 const INTERACTIVE_HIDDEN_SIZE = 4;
+const INTERACTIVE_EMBEDDING_DIM = 3;
+const MAX_INTERACTIVE_CONTEXT = 3;
 const MAX_EPOCHS = 50;
 const AUTOPLAY_DELAY = 150; // ms between steps
+const DEMO_SAMPLING: SamplingConfig = { ...DEFAULT_SAMPLING_CONFIG, temperature: 0.7 };
 
 // Defines the possible states of the interactive demo.
 type DemoState = 'IDLE' | 'RUNNING' | 'PAUSED' | 'FINISHED';
@@ -49,7 +54,7 @@ interface MatrixDisplayProps {
 const MatrixDisplay: React.FC<MatrixDisplayProps> = ({ matrix, title, description, highlights = [] }) => {
     if (!matrix) return null;
 
-    const { rows, cols, data } = matrix;
+    const { rows, cols } = matrix;
 
     const getFontSize = () => {
         if (cols > 10) return 'text-[10px]';
@@ -68,7 +73,7 @@ const MatrixDisplay: React.FC<MatrixDisplayProps> = ({ matrix, title, descriptio
                 className="grid gap-px bg-gray-700 p-px rounded-md overflow-x-auto"
                 style={{ gridTemplateColumns: `repeat(${cols}, minmax(45px, 1fr))` }}
             >
-                {data.flat().map((val, index) => {
+                {toNestedArray(matrix).flat().map((val, index) => {
                     const highlight = highlightMap.get(index);
                     const bgColor = highlight ? highlight.color : 'bg-gray-800';
                     return (
@@ -102,6 +107,7 @@ export const InteractiveDemo = () => {
     const [trainingState, setTrainingState] = useState<DemoState>('IDLE');
     const [lossHistory, setLossHistory] = useState<number[]>([]);
     const [generationHistory, setGenerationHistory] = useState<GenerationHistory[]>([]);
+    const [contextSize, setContextSize] = useState(1); // How many previous characters the FFNN reads.
     
     // Refs to store loss data for the current epoch without causing re-renders.
     const currentEpochLoss = useRef(0);
@@ -112,7 +118,7 @@ export const InteractiveDemo = () => {
      */
     const initialize = useCallback(() => {
         const vocab = [...new Set(INTERACTIVE_TEXT.split(''))].sort();
-        const newModel = initializeFFNNModel(vocab, INTERACTIVE_HIDDEN_SIZE);
+        const newModel = initializeFFNNModel(vocab, INTERACTIVE_HIDDEN_SIZE, INTERACTIVE_EMBEDDING_DIM, contextSize);
         setModel(newModel);
 
         const encoded = INTERACTIVE_TEXT.split('').map(char => newModel.tokenToIndex[char]);
@@ -125,8 +131,8 @@ export const InteractiveDemo = () => {
         setTrainingState('IDLE');
         currentEpochLoss.current = 0;
         currentEpochSteps.current = 0;
-        setLog(['Initialized model. Press "Next Step" or "Autoplay" to begin training.']);
-    }, []);
+        setLog([`Initialized model with a context of ${contextSize} character${contextSize === 1 ? '' : 's'}. Press "Next Step" or "Autoplay" to begin training.`]);
+    }, [contextSize]);
 
     // Initialize the demo when the component mounts.
     useEffect(() => {
@@ -152,7 +158,7 @@ export const InteractiveDemo = () => {
             if (epoch % 5 === 0 && epoch > 0) {
                 if(model) {
                     const seed = INTERACTIVE_TEXT[0] || 'a';
-                    const generated = generateFFNN(model, seed, 20, 0.7);
+                    const generated = generateWord(model, seed, 20, DEMO_SAMPLING);
                     setGenerationHistory(prev => [...prev, { epoch: epoch, text: generated }]);
                 }
             }
@@ -173,8 +179,9 @@ export const InteractiveDemo = () => {
         // Perform the actual training step.
         const result = trainStepFFNN(model, encodedText, currentStep, 1, INTERACTIVE_LR);
         
-        // Update state with the results.
-        setModel(result.updatedModel as FFNNModel);
+        // Update state with the results. The weights were updated in place, so a new
+        // object is needed for React to notice the change.
+        setModel({ ...(result.updatedModel as FFNNModel) });
         setVisData(result);
         setStep(currentStep + 1);
         setEpoch(currentEpoch);
@@ -219,7 +226,7 @@ export const InteractiveDemo = () => {
     const handleTestOutput = () => {
         if (!model) return;
         const seed = INTERACTIVE_TEXT[0] || 'a';
-        const generated = generateFFNN(model, seed, 20, 0.7);
+        const generated = generateWord(model, seed, 20, DEMO_SAMPLING);
         setLog(prev => [`[TEST OUTPUT]: ${generated}`, ...prev].slice(0, 100));
     };
     
@@ -227,23 +234,21 @@ export const InteractiveDemo = () => {
     const isRunning = trainingState === 'RUNNING';
     const isFinished = trainingState === 'FINISHED';
 
-    const { inputToken, targetToken, predictedToken, activations, gradients, loss } = visData || {};
-    const inputIndex = (model && inputToken) ? model.tokenToIndex[inputToken] : -1;
+    const { inputToken, targetToken, predictedToken, contextTokens, activations, gradients, loss } = visData || {};
+    // The characters in the context window, oldest first. Empty slots (before the start of the text) are skipped.
+    const windowTokens = (contextTokens ?? []).filter(token => token !== '');
     const targetIndex = (model && targetToken) ? model.tokenToIndex[targetToken] : -1;
     const predictedIndex = (model && predictedToken) ? model.tokenToIndex[predictedToken] : -1;
 
-    // Construct the one-hot input vector for display.
-    let inputVector: Matrix | null = null;
-    if (model && inputIndex !== -1) {
-        const data = Array(model.vocab.length).fill(0);
-        data[inputIndex] = 1;
-        inputVector = { rows: 1, cols: model.vocab.length, data: [data] };
-    }
-    
-    // Prepare highlights for the matrix displays.
-    const inputHighlights: Highlight[] = [];
-    if (inputIndex !== -1) {
-        inputHighlights.push({ index: inputIndex, color: 'bg-cyan-700/50', label: 'Input' });
+    // Prepare highlights for the matrix displays. The embedding gradient is only non-zero in the rows of the context characters.
+    const embeddingGradientHighlights: Highlight[] = [];
+    if (model) {
+        new Set(windowTokens).forEach(token => {
+            const row = model.tokenToIndex[token];
+            for (let i = 0; i < INTERACTIVE_EMBEDDING_DIM; i++) {
+                embeddingGradientHighlights.push({ index: row * INTERACTIVE_EMBEDDING_DIM + i, color: 'bg-cyan-700/50', label: i === 0 ? `'${token}'` : undefined });
+            }
+        });
     }
 
     const outputHighlights: Highlight[] = [];
@@ -263,7 +268,7 @@ export const InteractiveDemo = () => {
             <div className="bg-gray-800 p-4 rounded-lg border border-gray-700">
                 <h2 className="text-xl font-semibold mb-2 text-cyan-400">Interactive Demo (FFNN)</h2>
                 <p className="text-gray-400">
-                    Welcome to the Interactive Demo! This is the best place to start. It provides a slow, clear, and detailed visualization of a single training step for our simplest model, the Feed-Forward Neural Network (FFNN). Unlike the other tabs, this demo focuses on a tiny, predictable dataset ("{INTERACTIVE_TEXT}") to show you the exact matrix math involved in making a prediction (the forward pass) and learning from a mistake (the backward pass). The key takeaway: an FFNN has no memory; it only sees one character at a time.
+                    Welcome to the Interactive Demo! This is the best place to start. It provides a slow, clear, and detailed visualization of a single training step for our simplest model, the Feed-Forward Neural Network (FFNN). Unlike the other tabs, this demo focuses on a tiny, predictable dataset ("{INTERACTIVE_TEXT}") to show you the exact matrix math involved in making a prediction (the forward pass) and learning from a mistake (the backward pass). The key takeaway: an FFNN has no memory; it only sees the characters in its fixed context window, which starts at a single character. Try a longer context to see how the extra slots change the network.
                 </p>
             </div>
 
@@ -280,12 +285,11 @@ export const InteractiveDemo = () => {
                             {/* --- Forward Pass Visualization --- */}
                             <div>
                                 <h4 className="text-lg font-semibold text-gray-200 mb-2">1. Forward Pass: Making a Prediction</h4>
-                                {inputVector && (
+                                {activations?.embedding && (
                                     <MatrixDisplay
-                                        matrix={inputVector}
-                                        title="Input Vector"
-                                        description={`The character '${inputToken}' is converted into a one-hot vector. This is the input to the network.`}
-                                        highlights={inputHighlights}
+                                        matrix={activations.embedding}
+                                        title="Input Embeddings"
+                                        description={`Each character in the context window (${windowTokens.map(token => `'${token}'`).join(', ')}) is looked up in the embedding table E, and their learned vectors are placed side by side, oldest first. This is the input to the network.`}
                                     />
                                 )}
                                 <div className="text-center text-2xl my-4 text-gray-500">↓</div>
@@ -293,7 +297,7 @@ export const InteractiveDemo = () => {
                                     <MatrixDisplay
                                         matrix={activations.hidden}
                                         title="Hidden Layer Activation"
-                                        description={`Calculated as: tanh(input_vector · W_hidden + b_hidden). This is the network's internal representation or "thought" about the input.`}
+                                        description={`Calculated as: tanh(embedding · W_hidden + b_hidden). This is the network's internal representation or "thought" about the input.`}
                                     />
                                 )}
                                 <div className="text-center text-2xl my-4 text-gray-500">↓</div>
@@ -347,6 +351,12 @@ export const InteractiveDemo = () => {
                                             matrix={gradients.hiddenLayer.biases}
                                             title="Hidden Bias Gradients (∇b_h)"
                                         />
+                                         <MatrixDisplay
+                                            matrix={gradients.embedding}
+                                            title="Embedding Gradients (∇E)"
+                                            description="Only the rows of the characters in the context window change, because they are the only rows that were looked up."
+                                            highlights={embeddingGradientHighlights}
+                                        />
                                     </div>
                                 </div>
                             )}
@@ -379,6 +389,21 @@ export const InteractiveDemo = () => {
                                 Test Output
                             </button>
                         </Tooltip>
+                    </div>
+                    <div className="space-y-2">
+                        <Tooltip text="How many previous characters the network reads to predict the next one. Changing it resets the model.">
+                            <label htmlFor="demo-context-size" className="block text-sm font-medium text-gray-300">
+                                Context Length: <span className="font-mono bg-gray-900 px-2 py-1 rounded-md">{contextSize}</span>
+                            </label>
+                        </Tooltip>
+                        <input
+                            id="demo-context-size"
+                            type="range" min="1" max={MAX_INTERACTIVE_CONTEXT} step="1"
+                            value={contextSize}
+                            onChange={(e) => setContextSize(parseInt(e.target.value))}
+                            disabled={isRunning}
+                            className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:opacity-50"
+                        />
                     </div>
                      <div className="flex-grow h-80 overflow-y-auto bg-gray-900 p-3 rounded-md border border-gray-700">
                       <h3 className="text-lg font-semibold text-cyan-400 mb-2">Log</h3>
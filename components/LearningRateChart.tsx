@@ -0,0 +1,81 @@
+
+import React from 'react';
+
+/**
+ * Plots the learning rate each epoch trained with, so that different schedules can be compared
+ * side by side with the loss they produced.
+ * @param {object} props - The component's props.
+ * @param {number[]} props.learningRateHistory - The learning rate used in each completed epoch.
+ * @param {string} props.scheduleLabel - The display name of the active schedule.
+ */
+export const LearningRateChart = ({ learningRateHistory, scheduleLabel }) => {
+  if (!learningRateHistory || learningRateHistory.length === 0) {
+    return (
+      <div className="flex-grow bg-gray-800 p-4 rounded-lg border border-gray-700 flex flex-col items-center justify-center">
+        <h2 className="text-xl font-semibold text-cyan-400">Learning Rate Per Epoch</h2>
+        <p className="text-gray-400 mt-4">The learning-rate schedule will be displayed here after training.</p>
+      </div>
+    );
+  }
+
+  const SVG_WIDTH = 500;
+  const SVG_HEIGHT = 250;
+  const PADDING = { top: 20, right: 10, bottom: 30, left: 55 };
+  const CHART_WIDTH = SVG_WIDTH - PADDING.left - PADDING.right;
+  const CHART_HEIGHT = SVG_HEIGHT - PADDING.top - PADDING.bottom;
+
+  const maxRate = Math.max(...learningRateHistory, 0) * 1.1 || 1; // Add 10% ceiling
+  // With a single epoch there is no line to draw, so the point sits in the middle.
+  const xStep = learningRateHistory.length > 1 ? CHART_WIDTH / (learningRateHistory.length - 1) : 0;
+  const toX = (index: number) => PADDING.left + (learningRateHistory.length > 1 ? index * xStep : CHART_WIDTH / 2);
+  const toY = (rate: number) => PADDING.top + CHART_HEIGHT - (rate / maxRate) * CHART_HEIGHT;
+  const points = learningRateHistory.map((rate, index) => `${toX(index)},${toY(rate)}`).join(' ');
+
+  const yTicks = 5;
+  const tickValues = Array.from({ length: yTicks + 1 }, (_, i) => (maxRate / yTicks) * i);
+
+  return (
+    <div className="flex-grow bg-gray-800 p-4 rounded-lg border border-gray-700 flex flex-col overflow-hidden">
+      <div className="flex-shrink-0">
+        <h2 className="text-xl font-semibold mb-2 text-cyan-400">Learning Rate Per Epoch</h2>
+        <p className="text-sm text-gray-400 mb-4">
+          The learning rate each epoch trained with, set by the <span className="text-gray-200">{scheduleLabel}</span> schedule.
+        </p>
+      </div>
+      <div className="flex-grow flex items-center justify-center">
+        <svg viewBox={`0 0 ${SVG_WIDTH} ${SVG_HEIGHT}`} className="w-full h-full" aria-label="Line chart of the learning rate per epoch">
+          {/* Y-axis with labels */}
+          <line x1={PADDING.left} y1={PADDING.top} x2={PADDING.left} y2={PADDING.top + CHART_HEIGHT} className="stroke-gray-600" />
+          {tickValues.map((value, i) => {
+            const y = toY(value);
+            return (
+              <g key={i}>
+                <line x1={PADDING.left - 5} y1={y} x2={PADDING.left} y2={y} className="stroke-gray-600" />
+                <text x={PADDING.left - 8} y={y + 4} textAnchor="end" className="fill-gray-400 text-[10px]">
+                  {value.toExponential(1)}
+                </text>
+              </g>
+            );
+          })}
+          <text transform={`translate(${PADDING.left/4}, ${SVG_HEIGHT/2}) rotate(-90)`} textAnchor="middle" className="fill-gray-400 text-xs">
+            Learning Rate
+          </text>
+
+          {/* X-axis */}
+          <line x1={PADDING.left} y1={PADDING.top + CHART_HEIGHT} x2={PADDING.left + CHART_WIDTH} y2={PADDING.top + CHART_HEIGHT} className="stroke-gray-600" />
+          <text x={SVG_WIDTH / 2} y={SVG_HEIGHT - 5} textAnchor="middle" className="fill-gray-400 text-xs">
+            Epoch
+          </text>
+
+          {/* Line and points */}
+          <polyline points={points} fill="none" className="stroke-cyan-600" strokeWidth={2} />
+          {learningRateHistory.map((rate, index) => (
+            <circle key={index} cx={toX(index)} cy={toY(rate)} r={3} className="fill-cyan-600 hover:fill-cyan-400 transition-colors">
+              <title>Epoch {index + 1}: LR {rate.toExponential(3)}</title>
+            </circle>
+          ))}
+        </svg>
+      </div>
+    </div>
+  );
+};
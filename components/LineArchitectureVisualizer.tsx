@@ -2,6 +2,7 @@
 import React from 'react';
 import { FFNNModel } from '../types';
 import { TrainStepResult } from '../types';
+import { getValue } from '../services/matrix';
 
 // FIX: Added props interface and used React.FC to correctly type component props and handle the 'key' prop.
 interface NeuronProps {
@@ -77,16 +78,20 @@ export const LineArchitectureVisualizer: React.FC<LineArchitectureVisualizerProp
     );
   }
 
-  const { inputToken, activations } = visData;
-  const { vocab, tokenToIndex, hiddenLayer, outputLayer } = model;
+  const { inputToken, contextTokens, activations } = visData;
+  const { vocab, tokenToIndex, embedding, contextSize, hiddenLayer, outputLayer } = model;
   
-  const inputIndex = tokenToIndex[inputToken];
+  // The tokens in each context slot, oldest first. An empty slot (before the start of the text) is ''.
+  const slotTokens = contextTokens ?? [inputToken];
+  const slotCount = slotTokens.length;
+  const embeddingDim = embedding.cols;
+  const embeddingNodeCount = contextSize * embeddingDim;
   const hiddenSize = hiddenLayer.weights.cols;
   const vocabSize = vocab.length;
 
   const SVG_WIDTH = 500;
   const SVG_HEIGHT = 400;
-  const LAYER_X = { input: 50, hidden: 250, output: 450 };
+  const LAYER_X = { input: 40, embedding: 173, hidden: 307, output: 460 };
 
   const getNodeY = (index, total) => (SVG_HEIGHT / (total + 1)) * (index + 1);
 
@@ -94,17 +99,35 @@ export const LineArchitectureVisualizer: React.FC<LineArchitectureVisualizerProp
     <div className="bg-gray-800 p-2 rounded-lg border border-gray-700">
       <svg viewBox={`0 0 ${SVG_WIDTH} ${SVG_HEIGHT}`} className="w-full h-auto">
         {/* Connections */}
-        {/* Input -> Hidden */}
-        {inputIndex !== undefined && Array.from({ length: hiddenSize }).map((_, hIdx) => (
-          <Connection
-            key={`i-h-${hIdx}`}
-            x1={LAYER_X.input}
-            y1={getNodeY(inputIndex, vocabSize)}
-            x2={LAYER_X.hidden}
-            y2={getNodeY(hIdx, hiddenSize)}
-            weight={hiddenLayer.weights.data[inputIndex][hIdx]}
-          />
-        ))}
+        {/* Input -> Embedding: each slot looks up its token's row of the table and fills its own group of embedding nodes */}
+        {slotTokens.map((token, s) => {
+          const tokenIndex = tokenToIndex[token];
+          if (tokenIndex === undefined) return null;
+          return Array.from({ length: embeddingDim }).map((_, eIdx) => (
+            <Connection
+              key={`i-e-${s}-${eIdx}`}
+              x1={LAYER_X.input}
+              y1={getNodeY(s, slotCount)}
+              x2={LAYER_X.embedding}
+              y2={getNodeY(s * embeddingDim + eIdx, embeddingNodeCount)}
+              weight={getValue(embedding, tokenIndex, eIdx)}
+            />
+          ));
+        })}
+
+        {/* Embedding -> Hidden */}
+        {Array.from({ length: embeddingNodeCount }).map((_, eIdx) =>
+          Array.from({ length: hiddenSize }).map((_, hIdx) => (
+            <Connection
+              key={`e-h-${eIdx}-${hIdx}`}
+              x1={LAYER_X.embedding}
+              y1={getNodeY(eIdx, embeddingNodeCount)}
+              x2={LAYER_X.hidden}
+              y2={getNodeY(hIdx, hiddenSize)}
+              weight={getValue(hiddenLayer.weights, eIdx, hIdx)}
+            />
+          ))
+        )}
 
         {/* Hidden -> Output */}
         {Array.from({ length: hiddenSize }).map((_, hIdx) =>
@@ -115,21 +138,37 @@ export const LineArchitectureVisualizer: React.FC<LineArchitectureVisualizerProp
               y1={getNodeY(hIdx, hiddenSize)}
               x2={LAYER_X.output}
               y2={getNodeY(oIdx, vocabSize)}
-              weight={outputLayer.weights.data[hIdx][oIdx]}
+              weight={getValue(outputLayer.weights, hIdx, oIdx)}
             />
           ))
         )}
 
         {/* Neurons */}
-        {/* Input Layer */}
-        {vocab.map((token, i) => (
+        {/* Input Layer: one slot per context token, oldest at the top */}
+        {slotTokens.map((token, s) => (
+          <g key={`in-${s}`}>
+            <text x={LAYER_X.input} y={getNodeY(s, slotCount) - 26} textAnchor="middle" className="fill-gray-400 font-mono" fontSize="10px">
+              {s === slotCount - 1 ? 't' : `t-${slotCount - 1 - s}`}
+            </text>
+            <Neuron
+              x={LAYER_X.input}
+              y={getNodeY(s, slotCount)}
+              label={token === '' ? '∅' : token === ' ' ? '␣' : token}
+              activation={token === '' ? 0 : 1}
+              isSpecial={true}
+            />
+          </g>
+        ))}
+
+        {/* Embedding Layer: one group of nodes per context slot */}
+        {Array.from({ length: embeddingNodeCount }).map((_, i) => (
           <Neuron
-            key={`in-${i}`}
-            x={LAYER_X.input}
-            y={getNodeY(i, vocabSize)}
-            label={token}
-            activation={i === inputIndex ? 1 : 0}
-            isSpecial={true}
+            key={`emb-${i}`}
+            x={LAYER_X.embedding}
+            y={getNodeY(i, embeddingNodeCount)}
+            label={`E${i % embeddingDim}`}
+            activation={activations.embedding ? activations.embedding.data[i] : 0}
+            isSpecial={false}
           />
         ))}
 
@@ -140,7 +179,7 @@ export const LineArchitectureVisualizer: React.FC<LineArchitectureVisualizerProp
             x={LAYER_X.hidden}
             y={getNodeY(i, hiddenSize)}
             label={`H${i}`}
-            activation={activations.hidden.data[0][i]}
+            activation={activations.hidden.data[i]}
             isSpecial={false}
           />
         ))}
@@ -152,7 +191,7 @@ export const LineArchitectureVisualizer: React.FC<LineArchitectureVisualizerProp
             x={LAYER_X.output}
             y={getNodeY(i, vocabSize)}
             label={token}
-            activation={activations.output.data[0][i]}
+            activation={activations.output.data[i]}
             isSpecial={true}
           />
         ))}
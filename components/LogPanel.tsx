@@ -16,9 +16,8 @@ import { Tooltip } from './Tooltip.js';
  * @param {number} props.totalEpochs - The total number of epochs planned.
  * @param {number | null} props.loss - The loss value from the latest training step.
  * @param {number} props.currentLearningRate - The effective learning rate for the current step.
- * @param {boolean} props.isFastMode - A flag indicating if UI updates are suspended.
  */
-export const LogPanel = ({ logs, epoch, totalEpochs, loss, currentLearningRate, isFastMode }) => {
+export const LogPanel = ({ logs, epoch, totalEpochs, loss, currentLearningRate }) => {
   // Calculate completed epochs for the progress bar.
   const completedEpochs = Math.max(0, epoch - 1);
   return (
@@ -29,7 +28,7 @@ export const LogPanel = ({ logs, epoch, totalEpochs, loss, currentLearningRate,
           <div className="flex justify-between text-sm flex-wrap">
             <span className="font-mono mr-4">Epoch: {epoch} / {totalEpochs}</span>
             <span className="font-mono mr-4">Loss: {loss !== null ? loss.toFixed(4) : 'N/A'}</span>
-            {/* Display learning rate, which can change during fine-tuning. */}
+            {/* Display learning rate, which changes according to the learning-rate schedule. */}
             {currentLearningRate !== null && currentLearningRate !== undefined && (
                 <span className="font-mono">LR: {currentLearningRate.toExponential(2)}</span>
             )}
@@ -45,12 +44,6 @@ export const LogPanel = ({ logs, epoch, totalEpochs, loss, currentLearningRate,
       <Tooltip text="A real-time feed of the training process. Each line shows the model processing one character, predicting the next, and the resulting loss.">
         <div className="h-64 overflow-y-auto bg-gray-900 p-3 rounded-md border border-gray-700">
           <ul className="text-xs font-mono text-gray-400 space-y-1">
-            {/* Display a sticky message at the top when fast mode is active. */}
-            {isFastMode && (
-                <li className="sticky top-0 bg-gray-900 py-1 text-yellow-400 font-bold z-10 animate-pulse">
-                    <span className="text-gray-600 mr-2">{'>'}</span>Fast Mode Active - UI updates suspended...
-                </li>
-            )}
             {/* Render the list of log messages. */}
             {logs.map((log, i) => (
               <li key={i} className={`whitespace-pre-wrap ${i === 0 ? 'text-gray-100 animate-pulse-fast' : ''}`}>
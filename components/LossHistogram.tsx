@@ -1,7 +1,15 @@
 
 import React from 'react';
 
-export const LossHistogram = ({ lossHistory }) => {
+/**
+ * Charts the average training loss of each epoch as bars. When a validation set is used, the
+ * validation loss is drawn as a line over the bars, and its latest perplexity and bits per
+ * character are shown above the chart.
+ * @param {object} props - The component's props.
+ * @param {number[]} props.lossHistory - The training loss of each epoch.
+ * @param {(ValidationMetrics | null)[]} [props.validationHistory] - The validation metrics of each epoch, if any.
+ */
+export const LossHistogram = ({ lossHistory, validationHistory = [] }) => {
   if (!lossHistory || lossHistory.length === 0) {
     return (
       <div className="flex-grow bg-gray-800 p-4 rounded-lg border border-gray-700 flex flex-col items-center justify-center">
@@ -17,8 +25,16 @@ export const LossHistogram = ({ lossHistory }) => {
   const CHART_WIDTH = SVG_WIDTH - PADDING.left - PADDING.right;
   const CHART_HEIGHT = SVG_HEIGHT - PADDING.top - PADDING.bottom;
 
-  const maxLoss = Math.max(...lossHistory, 0) * 1.1; // Add 10% ceiling
+  const validationLosses = validationHistory.map(metrics => metrics?.loss ?? null);
+  const hasValidation = validationLosses.some(loss => loss !== null);
+  const latestValidation = [...validationHistory].reverse().find(Boolean) ?? null;
+
+  const maxLoss = Math.max(...lossHistory, ...validationLosses.filter(loss => loss !== null), 0) * 1.1; // Add 10% ceiling
   const barWidth = CHART_WIDTH / lossHistory.length;
+  const validationPoints = validationLosses
+    .map((loss, index) => loss === null ? null : `${PADDING.left + (index + 0.5) * barWidth},${PADDING.top + CHART_HEIGHT - (loss / maxLoss) * CHART_HEIGHT}`)
+    .filter(Boolean)
+    .join(' ');
 
   const yTicks = 5;
   const tickValues = Array.from({ length: yTicks + 1 }, (_, i) => (maxLoss / yTicks) * i);
@@ -29,7 +45,15 @@ export const LossHistogram = ({ lossHistory }) => {
         <h2 className="text-xl font-semibold mb-2 text-cyan-400">Loss Per Epoch</h2>
         <p className="text-sm text-gray-400 mb-4">
           Average training loss at the end of each epoch. Lower is better.
+          {hasValidation && <> The <span className="text-orange-400">orange line</span> is the loss on held-out validation words.</>}
         </p>
+        {latestValidation && (
+          <div className="flex flex-wrap gap-4 text-xs font-mono text-gray-300 mb-2">
+            <span>Val loss: {latestValidation.loss.toFixed(4)}</span>
+            <span>Perplexity: {latestValidation.perplexity.toFixed(2)}</span>
+            <span>Bits/char: {latestValidation.bitsPerCharacter.toFixed(3)}</span>
+          </div>
+        )}
       </div>
       <div className="flex-grow flex items-center justify-center">
         <svg viewBox={`0 0 ${SVG_WIDTH} ${SVG_HEIGHT}`} className="w-full h-full" aria-label="Histogram of training loss per epoch">
@@ -74,6 +98,24 @@ export const LossHistogram = ({ lossHistory }) => {
               </rect>
             );
           })}
+
+          {/* Validation loss */}
+          {hasValidation && (
+            <g>
+              <polyline points={validationPoints} fill="none" className="stroke-orange-400" strokeWidth={2} />
+              {validationLosses.map((loss, index) => loss !== null && (
+                <circle
+                  key={index}
+                  cx={PADDING.left + (index + 0.5) * barWidth}
+                  cy={PADDING.top + CHART_HEIGHT - (loss / maxLoss) * CHART_HEIGHT}
+                  r={3}
+                  className="fill-orange-400"
+                >
+                  <title>Epoch {index + 1}: Validation loss {loss.toFixed(4)}</title>
+                </circle>
+              ))}
+            </g>
+          )}
         </svg>
       </div>
     </div>
@@ -40,10 +40,10 @@ const Neuron: React.FC<NeuronProps> = ({ activation, label, isTarget, isPredicte
   );
 };
 
-export const ModelVisualizer = ({ model, modelType, visData, status, isFastMode }) => {
+export const ModelVisualizer = ({ model, modelType, visData, status }) => {
   if (!model) return null;
 
-  const hiddenSize = 'hiddenLayer' in model ? model.hiddenLayer.weights.cols : 'Wxh' in model ? model.Wxh.weights.cols : model.Why.weights.rows;
+  const hiddenSize = 'hiddenLayer' in model ? model.hiddenLayer.weights.cols : model.Why.weights.rows;
   const hiddenLayerLabels = Array.from({ length: hiddenSize }, (_, i) => `H${i + 1}`);
   const showRecurrent = modelType === 'RNN' || modelType === 'GRU';
 
@@ -57,7 +57,7 @@ export const ModelVisualizer = ({ model, modelType, visData, status, isFastMode
     if (targetToken === predictedToken) {
         if (!targetToken) return <div className="w-10 h-10"></div>;
         const tokenIndex = model.tokenToIndex[targetToken];
-        const activation = activations?.output?.data?.[0]?.[tokenIndex] ?? 0;
+        const activation = activations?.output?.data?.[tokenIndex] ?? 0;
         return (
             <Neuron
                 key={`${targetToken}-correct`}
@@ -75,7 +75,7 @@ export const ModelVisualizer = ({ model, modelType, visData, status, isFastMode
                     <Neuron
                         key={`${targetToken}-target`}
                         label={targetToken}
-                        activation={activations?.output?.data?.[0]?.[model.tokenToIndex[targetToken]] ?? 0}
+                        activation={activations?.output?.data?.[model.tokenToIndex[targetToken]] ?? 0}
                         isInput={false}
                         isTarget={true}
                         isPredicted={false}
@@ -85,7 +85,7 @@ export const ModelVisualizer = ({ model, modelType, visData, status, isFastMode
                     <Neuron
                         key={`${predictedToken}-predicted`}
                         label={predictedToken}
-                        activation={activations?.output?.data?.[0]?.[model.tokenToIndex[predictedToken]] ?? 0}
+                        activation={activations?.output?.data?.[model.tokenToIndex[predictedToken]] ?? 0}
                         isInput={false}
                         isTarget={false}
                         isPredicted={true}
@@ -101,7 +101,7 @@ export const ModelVisualizer = ({ model, modelType, visData, status, isFastMode
         <div className="bg-gray-800 p-4 rounded-lg border border-gray-700 min-h-[300px]">
         <div className="flex justify-between items-center mb-4">
             <h3 className="text-lg font-semibold text-cyan-400">
-                {modelType} Architecture {isFastMode && <span className="text-yellow-400 text-sm">(Updates Suspended)</span>}
+                {modelType} Architecture
             </h3>
             <div className="font-mono text-sm">
                 Step: <span className="text-gray-300">{visData ? `'${visData.inputToken}' → '${visData.targetToken}'` : '...'}</span>
@@ -131,7 +131,7 @@ export const ModelVisualizer = ({ model, modelType, visData, status, isFastMode
                 <h4 className="text-sm font-semibold text-gray-400">Hidden ({hiddenSize})</h4>
                 <div className="flex flex-wrap justify-center items-center gap-1 p-2 bg-gray-900/50 rounded-lg border border-gray-700 max-w-[12rem] min-h-[52px]">
                     {hiddenLayerLabels.map((label, i) => {
-                        const activation = activations?.hidden?.data?.[0]?.[i] ?? 0;
+                        const activation = activations?.hidden?.data?.[i] ?? 0;
                         return (
                             <Neuron
                                 key={i}
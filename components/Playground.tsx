@@ -11,33 +11,37 @@ import { LogPanel } from './LogPanel';
 import { GenerationPanel } from './GenerationPanel';
 import { ArchitectureVisualizer } from './ArchitectureVisualizer';
 import { LossHistogram } from './LossHistogram';
+import { LearningRateChart } from './LearningRateChart';
+import { GradientNormsPanel } from './GradientNormsPanel';
 import { GenerationHistoryPanel } from './GenerationHistoryPanel';
 import { SuccessRateHeatmap } from './SuccessRateHeatmap';
+import { EmbeddingProjector } from './EmbeddingProjector';
+import { AttentionHeatmap } from './AttentionHeatmap';
+import { SegmentationComparison } from './SegmentationComparison';
 import {
-  initializeFFNNModel, trainStepFFNN, generateFFNN,
-  initializeRNNModel, trainStepRNN, generateRNN,
-  initializeGRUModel, trainStepGRU, generateGRU,
-  initializeLSTMModel, trainStepLSTM, generateLSTM
+  initializeFFNNModel,
+  initializeRNNModel,
+  initializeGRUModel,
+  initializeLSTMModel,
+  initializeTransformerModel
 } from '../services/languageModel';
-import { trainBPE, encodeBPE } from '../services/bpe';
-import { encodeCustom } from '../services/customTokenizer';
-import { isGoodWord } from '../services/wordValidator';
-import { ALL_TOKENS_STRING, ONSETS, VOWELS } from '../services/phonotactics';
-import { LanguageModel, TrainStepResult, GenerationHistoryItem, BpeMerges } from '../types';
-import {
-  DEFAULT_TRAINING_TEXT,
-  EARLY_STOPPING_PATIENCE,
-  FINAL_LR_MULTIPLIER
-} from '../constants';
-
-// Defines the possible states of the training process.
-type TrainingState = 'IDLE' | 'RUNNING' | 'PAUSED' | 'FINISHED' | 'STABILIZED' | 'FINE_TUNING' | 'COACHING';
-// Defines the available tokenizer types.
-type TokenizerType = 'character' | 'bpe' | 'custom';
+import { validateWord, describeRejections } from '../services/wordValidator';
+import { createPhonotacticScorer } from '../services/phonotacticScorer';
+import { trainTokenizer, tokenizerFromJSON, frameText } from '../services/tokenizer';
+import { describeSampling } from '../services/decoding';
+import { getCustomTokenSet } from '../services/phonotactics';
+import { LANGUAGE_PACKS, DEFAULT_LANGUAGE_PACK, parseLanguagePack } from '../services/languagePacks';
+import { createTrainingEngine, TrainingEngine } from '../services/trainingEngine';
+import { LR_SCHEDULE_LABELS } from '../services/lrScheduler';
+import { splitTrainValidation } from '../services/dataSplit';
+import { serializeModel, deserializeModel, serializeOptimizerState, deserializeOptimizerState } from '../services/modelSerialization';
+import { TrainingConfig, TrainingEvent } from '../services/trainingProtocol';
+import { LanguageModel, TrainStepSummary, GenerationHistoryItem, PredictionStats, TrainingState, OptimizerConfig, LRScheduleConfig, GradientClippingConfig, BPTTConfig, ValidationMetrics, DecodingConfig, DecodedWord, SamplingConfig, TokenInspection, WordScore, Tokenizer, TokenizerType, SubwordRegularizationConfig, LanguagePack, ValidationRule, WordValidationReport, CoachingRewardConfig, CoachingUpdateConfig, PolicyGradientStats } from '../types';
+import { DEFAULT_OPTIMIZER_CONFIG, DEFAULT_LR_SCHEDULE_CONFIG, DEFAULT_GRADIENT_CLIPPING, DEFAULT_EMBEDDING_DIM, DEFAULT_CONTEXT_SIZE, DEFAULT_NUM_HEADS, DEFAULT_BPTT_CONFIG, DEFAULT_SAMPLING_CONFIG, DEFAULT_SUBWORD_REGULARIZATION, DEFAULT_COACHING_REWARD, DEFAULT_COACHING_UPDATE } from '../constants';
 
 // Props for the Playground component, allowing it to be configured for different model architectures.
 interface PlaygroundProps {
-  modelType: 'FFNN' | 'RNN' | 'GRU' | 'LSTM';
+  modelType: 'FFNN' | 'RNN' | 'GRU' | 'LSTM' | 'Transformer';
   batchSizeLabel: string;
   batchSizeTooltip: string;
   defaultLearningRate: number;
@@ -46,24 +50,32 @@ interface PlaygroundProps {
   defaultBatchSize: number;
 }
 
-// Type definitions for tracking prediction statistics.
-type PredictionStats = {
-  [fromToken: string]: {
-    [toToken: string]: {
-      correct: number;
-      total: number;
-    };
-  };
-};
-
 // Represents a word generated during auto-coaching and whether it was deemed "good".
 interface AutoCoachedWord {
     word: string;
     isGood: boolean;
+    report: WordValidationReport; // Why, shown when hovering over the word.
+    score: number;                // The graded phonotactic score, from 0 to 1.
+}
+
+// How many auto-coached words passed the validator while one sampling configuration was in use.
+interface SamplingPassRate {
+    label: string; // The sampling configuration, as summarized by `describeSampling`.
+    good: number;
+    total: number;
+}
+
+// One sample of the gradient-norm telemetry, taken from a progress event.
+interface GradientNormSample {
+    global: number;
+    clipFrequency: number;
 }
 
+// The number of gradient-norm samples kept for the chart.
+const GRADIENT_NORM_HISTORY_LENGTH = 200;
+
 // Defines the possible open tabs in the right-hand accordion UI.
-type AccordionTab = 'log' | 'generate' | 'history' | null;
+type AccordionTab = 'log' | 'generate' | 'history' | 'tokenizers' | null;
 
 // FIX: Explicitly typed AccordionItem props to resolve issue with 'children' prop type inference.
 interface AccordionItemProps {
@@ -115,30 +127,52 @@ export const Playground: React.FC<PlaygroundProps> = ({
   const [model, setModel] = useState<LanguageModel | null>(null);
   
   // Hyperparameters
-  const [trainingText, setTrainingText] = useState(DEFAULT_TRAINING_TEXT);
+  // The language pack supplies the validator's rules, the default corpus and the default custom tokens.
+  const [languagePacks, setLanguagePacks] = useState<LanguagePack[]>(LANGUAGE_PACKS);
+  const [languagePack, setLanguagePack] = useState<LanguagePack>(DEFAULT_LANGUAGE_PACK);
+  const [trainingText, setTrainingText] = useState(DEFAULT_LANGUAGE_PACK.corpus);
   const [learningRate, setLearningRate] = useState(defaultLearningRate);
   const [hiddenSize, setHiddenSize] = useState(defaultHiddenSize);
+  const [numLayers, setNumLayers] = useState(1);
+  const [embeddingDim, setEmbeddingDim] = useState(DEFAULT_EMBEDDING_DIM);
+  const [contextSize, setContextSize] = useState(DEFAULT_CONTEXT_SIZE);
+  const [numHeads, setNumHeads] = useState(DEFAULT_NUM_HEADS);
   const [epochs, setEpochs] = useState(defaultEpochs);
   const [batchSize, setBatchSize] = useState(defaultBatchSize);
   const [dropoutRate, setDropoutRate] = useState(0.1);
+  const [optimizerConfig, setOptimizerConfig] = useState<OptimizerConfig>(DEFAULT_OPTIMIZER_CONFIG);
+  const [lrScheduleConfig, setLrScheduleConfig] = useState<LRScheduleConfig>(DEFAULT_LR_SCHEDULE_CONFIG);
+  const [gradientClipping, setGradientClipping] = useState<GradientClippingConfig>(DEFAULT_GRADIENT_CLIPPING);
+  const [bpttConfig, setBpttConfig] = useState<BPTTConfig>(DEFAULT_BPTT_CONFIG);
+  const [validationSplit, setValidationSplit] = useState(0.1);
+  const [earlyStopOnValidation, setEarlyStopOnValidation] = useState(true);
   
   // Tokenizer settings
   const [tokenizerType, setTokenizerType] = useState<TokenizerType>('custom');
-  const [customTokenizerSet, setCustomTokenizerSet] = useState(ALL_TOKENS_STRING);
+  const [customTokenizerSet, setCustomTokenizerSet] = useState(getCustomTokenSet(DEFAULT_LANGUAGE_PACK));
   const [vocabSize, setVocabSize] = useState(512);
+  const [subwordRegularization, setSubwordRegularization] = useState<SubwordRegularizationConfig>(DEFAULT_SUBWORD_REGULARIZATION);
 
   // UI and feature flags
-  const [useAutoFastMode, setUseAutoFastMode] = useState(true);
-  const [isFastMode, setIsFastMode] = useState(false);
   const [coachingEnabled, setCoachingEnabled] = useState(false);
   const [isAutoCoaching, setIsAutoCoaching] = useState(false);
   const [autoCoachedWords, setAutoCoachedWords] = useState<AutoCoachedWord[]>([]);
+  // How words are sampled, for manual generation, the generation history and the auto-coach alike.
+  const [samplingConfig, setSamplingConfig] = useState<SamplingConfig>(DEFAULT_SAMPLING_CONFIG);
+  const [samplingPassRates, setSamplingPassRates] = useState<SamplingPassRate[]>([]);
+  const [coachingReward, setCoachingReward] = useState<CoachingRewardConfig>(DEFAULT_COACHING_REWARD);
+  const [coachingUpdate, setCoachingUpdate] = useState<CoachingUpdateConfig>(DEFAULT_COACHING_UPDATE);
+  // The latest policy-gradient coaching update, for the auto-coach panel.
+  const [policyGradientStats, setPolicyGradientStats] = useState<PolicyGradientStats | null>(null);
   const [modelIsLoaded, setModelIsLoaded] = useState(false);
 
   // Data for visualizations and logs
   const [logs, setLogs] = useState<string[]>([]);
-  const [visData, setVisData] = useState<TrainStepResult | null>(null);
+  const [visData, setVisData] = useState<TrainStepSummary | null>(null);
   const [lossHistory, setLossHistory] = useState<number[]>([]);
+  const [learningRateHistory, setLearningRateHistory] = useState<number[]>([]);
+  const [validationHistory, setValidationHistory] = useState<(ValidationMetrics | null)[]>([]);
+  const [gradientNormHistory, setGradientNormHistory] = useState<GradientNormSample[]>([]);
   const [generationHistory, setGenerationHistory] = useState<GenerationHistoryItem[]>([]);
   const [currentEpoch, setCurrentEpoch] = useState(0);
   const [currentLearningRate, setCurrentLearningRate] = useState(learningRate);
@@ -156,32 +190,49 @@ export const Playground: React.FC<PlaygroundProps> = ({
   const [openAccordion, setOpenAccordion] = useState<AccordionTab>('log');
 
 
-  // --- REFS FOR TRAINING LOOP ---
+  // --- REFS ---
   // `useRef` is used to hold values that can change without triggering a re-render.
-  // This is crucial for the high-frequency training loop, as re-rendering on every step
-  // would be extremely slow. Refs provide a way to access the latest state values
-  // from within the `requestAnimationFrame` callback.
+  // Refs provide a way to access the latest state values from within asynchronous
+  // callbacks, such as the training engine's event listener and the auto-coach loop.
   const trainingStateRef = useRef(trainingState);
   useEffect(() => { trainingStateRef.current = trainingState; }, [trainingState]);
 
   const isAutoCoachingRef = useRef(isAutoCoaching);
   useEffect(() => { isAutoCoachingRef.current = isAutoCoaching; }, [isAutoCoaching]);
 
-  const loopIdRef = useRef<number | null>(null);
   const modelRef = useRef(model);
   useEffect(() => { modelRef.current = model; }, [model]);
   
+  // The training engine runs in a Web Worker and owns the authoritative copy of the model
+  // while training. The UI only sends it commands and subscribes to its progress events.
+  const engineRef = useRef<TrainingEngine | null>(null);
   const encodedTextRef = useRef<number[]>([]);
-  const currentStepRef = useRef(0);
-  const currentEpochLossRef = useRef<number[]>([]);
-  const bestLossRef = useRef(Infinity);
-  const epochsWithoutImprovementRef = useRef(0);
-  const fineTuningEpochsRemainingRef = useRef(0);
-  const fastModeTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-  const predictionStatsRef = useRef<PredictionStats>({});
+  const encodedValidationTextRef = useRef<number[]>([]);
+
+  const samplingConfigRef = useRef(samplingConfig);
+  useEffect(() => {
+    samplingConfigRef.current = samplingConfig;
+    // The generation-history snapshots pick up a new sampling strategy straight away, even mid-training.
+    engineRef.current?.configure({ sampling: samplingConfig });
+  }, [samplingConfig]);
+
+  const coachingRewardRef = useRef(coachingReward);
+  useEffect(() => { coachingRewardRef.current = coachingReward; }, [coachingReward]);
+
+  const coachingUpdateRef = useRef(coachingUpdate);
+  useEffect(() => {
+    coachingUpdateRef.current = coachingUpdate;
+    engineRef.current?.configure({ coachingUpdate });
+  }, [coachingUpdate]);
+
+  // The language pack the current model was set up with.
+  const languagePackRef = useRef(languagePack);
+
+  // Grades auto-coached words, learned from the current model's training text.
+  const phonotacticScorerRef = useRef<ReturnType<typeof createPhonotacticScorer> | null>(null);
 
-  const bpeMergesRef = useRef<BpeMerges | null>(null);
-  const bpeVocabRef = useRef<{ [key: number]: string } | null>(null);
+  // The tokenizer the current model was trained with.
+  const tokenizerRef = useRef<Tokenizer | null>(null);
 
   // Refs for cyclical training
   const isCyclicalModeRef = useRef(isCyclicalMode);
@@ -192,84 +243,198 @@ export const Playground: React.FC<PlaygroundProps> = ({
   useEffect(() => { numCyclesRef.current = numCycles; }, [numCycles]);
   const currentCycleRef = useRef(currentCycle);
   useEffect(() => { currentCycleRef.current = currentCycle; }, [currentCycle]);
-  const coachingSessionStats = useRef({ good: 0, bad: 0 });
+  // The current coaching cycle's tallies, including how many words each validation rule rejected.
+  const coachingSessionStats = useRef({ good: 0, bad: 0, rejections: {} as Partial<Record<ValidationRule, number>> });
   const originalTrainingTextRef = useRef('');
 
   // --- HANDLERS AND LOGIC ---
+
   /**
-   * Reinforces the model by performing several targeted training steps on a given text.
-   * This is used for both manual and automated coaching.
-   * @param {string} text - The word/text to reinforce.
-   * @param {boolean} doLog - Whether to add messages to the main training log.
+   * What the training engine needs to re-segment the text for subword regularization, if the
+   * tokenizer can sample segmentations at all.
+   * @param {Tokenizer} tokenizer - The tokenizer the text was encoded with.
+   * @param {string} trainText - The raw training text.
    */
-  const handleReinforcement = useCallback((text: string, doLog = true) => {
-    const currentModel = modelRef.current;
-    if (!currentModel) return;
+  const getResegmentation = (tokenizer: Tokenizer, trainText: string) =>
+    tokenizer.sample ? { tokenizer: tokenizer.toJSON(), text: trainText } : null;
 
-    if (doLog) {
-        setLogs(prev => [`Reinforcing with: "${text}"...`, ...prev].slice(0, 50));
+  /**
+   * Builds the training configuration sent to the training engine from the current settings.
+   */
+  const getTrainingConfig = (): TrainingConfig => ({
+    learningRate,
+    batchSize,
+    dropoutRate,
+    epochs: isCyclicalMode ? numCycles * cycleEpochs : epochs,
+    isCyclicalMode,
+    cycleEpochs,
+    numCycles,
+    currentCycle,
+    optimizer: optimizerConfig,
+    lrSchedule: lrScheduleConfig,
+    gradientClipping,
+    bptt: bpttConfig,
+    sampling: samplingConfig,
+    subwordRegularization,
+    earlyStoppingMetric: earlyStopOnValidation ? 'validation' : 'train',
+    languagePack,
+    coachingUpdate,
+  });
+
+  /**
+   * Handles the events streamed back from the training engine.
+   * Only state setters and refs are used here, so the handler never goes stale.
+   */
+  const handleEngineEvent = useCallback((event: TrainingEvent) => {
+    switch (event.type) {
+      case 'state':
+        setTrainingState(event.state);
+        if (event.state === 'FINISHED') {
+          setIsCyclicalMode(false); // Auto-disable checkbox
+        }
+        break;
+      case 'progress':
+        setVisData(event.summary);
+        setCurrentEpoch(event.epoch);
+        setCurrentLearningRate(event.learningRate);
+        if (event.summary.gradientNorms) {
+          const sample = { global: event.summary.gradientNorms.global, clipFrequency: event.clipFrequency };
+          setGradientNormHistory(prev => [...prev, sample].slice(-GRADIENT_NORM_HISTORY_LENGTH));
+        }
+        setLogs(prev => [`[E:${event.epoch}, S:${event.step}] Loss: ${event.summary.loss.toFixed(4)}`, ...prev].slice(0, 50));
+        break;
+      case 'epoch':
+        setLossHistory(prev => [...prev, event.loss]);
+        setLearningRateHistory(prev => [...prev, event.learningRate]);
+        setValidationHistory(prev => [...prev, event.validation]);
+        setHistoricalPredictionStats(prev => [...prev, event.predictionStats]);
+        modelRef.current = event.model;
+        setModel(event.model);
+        setCurrentEpoch(event.currentEpoch);
+        if (event.generatedWords) {
+          const words = event.generatedWords;
+          setGenerationHistory(prev => [...prev, { epoch: event.epoch, words }]);
+        }
+        break;
+      case 'log':
+        setLogs(prev => [event.message, ...prev].slice(0, 50));
+        break;
+      case 'error':
+        setLogs(prev => [`Training error: ${event.message}`, ...prev].slice(0, 50));
+        break;
     }
+  }, []);
+
+  // Effect to spawn the training engine when the component mounts and shut it down when it unmounts.
+  useEffect(() => {
+    const engine = createTrainingEngine();
+    engineRef.current = engine;
+    const unsubscribe = engine.subscribe(handleEngineEvent);
+    return () => {
+      unsubscribe();
+      engine.terminate();
+      engineRef.current = null;
+    };
+  }, [handleEngineEvent]);
 
-    // Encode the reinforcement text using the current tokenizer.
-    let encodedReinforcementText: number[];
-    switch(tokenizerType) {
-        case 'bpe':
-            encodedReinforcementText = bpeMergesRef.current ? encodeBPE(text, bpeMergesRef.current) : [];
-            break;
-        case 'custom':
-            encodedReinforcementText = encodeCustom(text, currentModel.vocab, currentModel.tokenToIndex);
-            break;
-        case 'character':
-        default:
-            encodedReinforcementText = text.split('').map(char => currentModel.tokenToIndex[char]).filter(id => id !== undefined);
-            break;
+  /**
+   * Coaches the model on a given text with a reward, for both manual and automated coaching.
+   * Supervised coaching runs several targeted training steps on good words; policy-gradient
+   * coaching runs one REINFORCE step on any word. The updates run in the training worker.
+   * @param {string} text - The word/text to coach on.
+   * @param {boolean} doLog - Whether to add messages to the main training log.
+   * @param {number} reward - +1 for a good word and -1 for a bad one, or a word's graded score.
+   */
+  const handleReinforcement = useCallback(async (text: string, doLog = true, reward = 1) => {
+    const tokenizer = tokenizerRef.current;
+    const engine = engineRef.current;
+    if (!tokenizer || !engine) return;
+    // Supervised coaching can only learn from good words.
+    if (coachingUpdateRef.current.method === 'supervised' && reward <= 0) return;
+
+    if (doLog) {
+        setLogs(prev => [`Reinforcing "${text}" with reward ${reward.toFixed(2)}...`, ...prev].slice(0, 50));
     }
 
+    // Encode the reinforcement text using the current tokenizer, framed like the training text.
+    const encodedReinforcementText = frameText(tokenizer, text);
     if(encodedReinforcementText.length <= 1) return;
 
-    // Run a mini-training loop on the reinforcement text.
-    let reinforcedModel = currentModel;
-    for(let i = 0; i < 5; i++) { // Reinforce for 5 iterations
-      for(let j = 0; j < encodedReinforcementText.length - 1; j++) {
-          let result;
-          // Call the correct train step function for the current model type.
-          switch(modelType) {
-              case 'RNN':
-                  result = trainStepRNN(reinforcedModel as any, encodedReinforcementText, j, 1, currentLearningRate * 0.5, dropoutRate);
-                  break;
-              case 'GRU':
-                  result = trainStepGRU(reinforcedModel as any, encodedReinforcementText, j, 1, currentLearningRate * 0.5, dropoutRate);
-                  break;
-              case 'LSTM':
-                  result = trainStepLSTM(reinforcedModel as any, encodedReinforcementText, j, 1, currentLearningRate * 0.5, dropoutRate);
-                  break;
-              case 'FFNN':
-              default:
-                  result = trainStepFFNN(reinforcedModel as any, encodedReinforcementText, j, 1, currentLearningRate * 0.5);
-                  break;
-          }
-          reinforcedModel = result.updatedModel;
-          // Update visualization data to show the reinforcement step.
-          if (doLog || isAutoCoachingRef.current) {
-            setVisData(result);
-          }
-      }
+    let reinforcement: Awaited<ReturnType<TrainingEngine['reinforce']>>;
+    try {
+      reinforcement = await engine.reinforce(encodedReinforcementText, currentLearningRate * 0.5, reward);
+    } catch {
+      return; // The engine's error event has already been logged.
+    }
+    const { model: reinforcedModel, summary, policy } = reinforcement;
+    // Update visualization data to show the reinforcement step.
+    if (summary && (doLog || isAutoCoachingRef.current)) {
+      setVisData(summary);
     }
     // Update the main model reference with the reinforced model.
-    modelRef.current = reinforcedModel;
-    setModel(reinforcedModel);
+    if (reinforcedModel) {
+      modelRef.current = reinforcedModel;
+      setModel(reinforcedModel);
+    }
     
+    if (policy) setPolicyGradientStats(policy);
+
     if (doLog) {
-        setLogs(prev => [`Reinforcement complete.`, ...prev].slice(0, 50));
+        const details = policy
+          ? ` Advantage ${policy.advantage.toFixed(2)} (baseline ${policy.baseline.toFixed(2)})${policy.kl !== null ? `, KL from reference ${policy.kl.toFixed(4)}` : ''}.`
+          : '';
+        setLogs(prev => [`Reinforcement complete.${details}`, ...prev].slice(0, 50));
     }
-  }, [modelType, tokenizerType, currentLearningRate, dropoutRate]);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentLearningRate]);
+
+  /**
+   * Decodes words from a given seed token using the training engine's copy of the model.
+   * @param {string} seed - The token to start generation from.
+   * @param {DecodingConfig} decoding - The decoding strategy and its settings.
+   * @returns The decoded words, best first (a single word unless a beam search is used).
+   */
+  const handleGenerate = useCallback(async (seed: string, decoding: DecodingConfig): Promise<DecodedWord[]> => {
+    const engine = engineRef.current;
+    if (!engine) return [];
+    return engine.decode(seed, samplingConfigRef.current, decoding);
+  }, []);
+
+  /**
+   * Runs a word through the current tokenizer and asks the training engine what the model
+   * predicts at each of its positions.
+   * @param {string} word - The word to inspect.
+   * @returns The prediction at each position, and whether part of the word could not be encoded.
+   */
+  const handleInspect = useCallback(async (word: string): Promise<{ positions: TokenInspection[]; skipped: boolean }> => {
+    const tokenizer = tokenizerRef.current;
+    const engine = engineRef.current;
+    if (!tokenizer || !engine) return { positions: [], skipped: false };
+    const encodedWord = tokenizer.encode(word);
+    const skipped = tokenizer.decode(encodedWord) !== word;
+    return { positions: await engine.inspect(encodedWord), skipped };
+  }, []);
+
+  /**
+   * Asks the training engine to score a list of candidate words with the current tokenizer and its
+   * copy of the model, and rank them from most to least likely.
+   * @param {string[]} words - The candidate words.
+   * @param {boolean} perToken - If true, rank by perplexity instead of total log-likelihood.
+   * @returns The scored words, most likely first.
+   */
+  const handleRankWords = useCallback(async (words: string[], perToken: boolean): Promise<WordScore[]> => {
+    const tokenizer = tokenizerRef.current;
+    const engine = engineRef.current;
+    if (!tokenizer || !engine) return [];
+    return engine.rank(tokenizer.toJSON(), words, perToken, languagePackRef.current);
+  }, []);
 
   /**
    * Pauses the training loop.
    */
   const handlePause = useCallback(() => {
+    engineRef.current?.pause();
     setTrainingState('PAUSED');
-    if (fastModeTimeoutRef.current) clearTimeout(fastModeTimeoutRef.current);
   }, []);
 
   /**
@@ -278,24 +443,22 @@ export const Playground: React.FC<PlaygroundProps> = ({
    * @param {string} textToTrain - The text to use for training.
    * @param {boolean} keepParams - If true, keeps the current hyperparameter settings.
    */
-  const initialize = useCallback(async (textToTrain = trainingText, keepParams = false) => {
+  const initialize = useCallback((textToTrain = trainingText, keepParams = false) => {
     setModelIsLoaded(false);
     setTrainingState('IDLE');
     setLogs(['Model initialized. Ready to train.']);
     setVisData(null);
     setLossHistory([]);
+    setLearningRateHistory([]);
+    setValidationHistory([]);
+    setGradientNormHistory([]);
     setGenerationHistory([]);
     setCurrentEpoch(1);
-    currentStepRef.current = 0;
-    currentEpochLossRef.current = [];
-    bestLossRef.current = Infinity;
-    epochsWithoutImprovementRef.current = 0;
-    fineTuningEpochsRemainingRef.current = 0;
-    setIsFastMode(false);
     setCoachingEnabled(false);
     setIsAutoCoaching(false);
     setAutoCoachedWords([]);
-    predictionStatsRef.current = {};
+    setPolicyGradientStats(null);
+    setSamplingPassRates([]);
     setHistoricalPredictionStats([]);
     
     // Reset cyclical state
@@ -303,79 +466,92 @@ export const Playground: React.FC<PlaygroundProps> = ({
     setNewWordsLog([]);
     setCoachingStatsLog([]);
 
-    if (fastModeTimeoutRef.current) clearTimeout(fastModeTimeoutRef.current);
+    // --- Train/Validation Split ---
+    // Whole words are held out for validation. The vocabulary still covers the full text so
+    // that every validation character can be encoded.
+    const { trainText, validationText } = splitTrainValidation(textToTrain, validationSplit);
 
     // --- Tokenization ---
-    // The selected tokenizer processes the raw text into a sequence of integer IDs.
-    let vocab: string[] = [];
-    let tokenToIndex: { [key: string]: number } = {};
-    let encoded: number[] = [];
-
-    switch(tokenizerType) {
-        case 'bpe':
-            const { merges, vocab: bpeVocabObj } = trainBPE(textToTrain, vocabSize);
-            bpeMergesRef.current = merges;
-            bpeVocabRef.current = bpeVocabObj;
-            vocab = Object.values(bpeVocabObj) as string[];
-            tokenToIndex = Object.fromEntries(Object.entries(bpeVocabObj).map(([id, token]) => [token as string, Number(id)]));
-            encoded = encodeBPE(textToTrain, merges);
-            break;
-        case 'custom':
-            let customTokens = customTokenizerSet.split(',').map(t => t.trim()).filter(Boolean);
-            const coveredChars = new Set(customTokens.join(''));
-            const uniqueCharsInText = new Set(textToTrain.split(''));
-            uniqueCharsInText.forEach(char => {
-                if (!coveredChars.has(char)) {
-                    customTokens.push(char);
-                }
-            });
-            vocab = (Array.from(new Set(customTokens)) as string[]).sort((a: string, b: string) => b.length - a.length || a.localeCompare(b));
-            tokenToIndex = Object.fromEntries(vocab.map((token, i) => [token, i]));
-            encoded = encodeCustom(textToTrain, vocab, tokenToIndex);
-            bpeMergesRef.current = null;
-            bpeVocabRef.current = null;
-            break;
-        case 'character':
-        default:
-            vocab = (Array.from(new Set(textToTrain.split(''))) as string[]).sort();
-            tokenToIndex = Object.fromEntries(vocab.map((char, i) => [char, i]));
-            encoded = textToTrain.split('').map(char => tokenToIndex[char]);
-            bpeMergesRef.current = null;
-            bpeVocabRef.current = null;
-            break;
-    }
+    // The selected tokenizer is trained on the text and encodes it into a sequence of integer IDs,
+    // with each word framed as `<bos> word <eos>` (see `services/tokenizer.ts`).
+    const tokenizer = trainTokenizer(tokenizerType, trainText, {
+      vocabSize,
+      customTokens: customTokenizerSet.split(',').map(t => t.trim()).filter(Boolean),
+      coverText: validationText,
+    });
+    tokenizerRef.current = tokenizer;
+    phonotacticScorerRef.current = createPhonotacticScorer(trainText, languagePackRef.current);
+    const vocab = tokenizer.vocab;
+    const encoded = frameText(tokenizer, trainText);
     encodedTextRef.current = encoded;
     
     // --- Model Initialization ---
     // A new model with random weights is created based on the generated vocabulary.
     let newModel: LanguageModel;
+    const initialEmbeddingDim = keepParams ? embeddingDim : DEFAULT_EMBEDDING_DIM;
     switch(modelType) {
       case 'RNN':
-        newModel = initializeRNNModel(vocab, keepParams ? hiddenSize : defaultHiddenSize);
+        newModel = initializeRNNModel(vocab, keepParams ? hiddenSize : defaultHiddenSize, keepParams ? numLayers : 1, initialEmbeddingDim);
         break;
       case 'GRU':
-        newModel = initializeGRUModel(vocab, keepParams ? hiddenSize : defaultHiddenSize);
+        newModel = initializeGRUModel(vocab, keepParams ? hiddenSize : defaultHiddenSize, keepParams ? numLayers : 1, initialEmbeddingDim);
         break;
       case 'LSTM':
-        newModel = initializeLSTMModel(vocab, keepParams ? hiddenSize : defaultHiddenSize);
+        newModel = initializeLSTMModel(vocab, keepParams ? hiddenSize : defaultHiddenSize, keepParams ? numLayers : 1, initialEmbeddingDim);
+        break;
+      case 'Transformer':
+        // The context length doubles as the number of learned positions.
+        newModel = initializeTransformerModel(vocab, keepParams ? hiddenSize : defaultHiddenSize, keepParams ? batchSize : defaultBatchSize, keepParams ? numHeads : DEFAULT_NUM_HEADS, initialEmbeddingDim);
         break;
       case 'FFNN':
       default:
-        newModel = initializeFFNNModel(vocab, keepParams ? hiddenSize : defaultHiddenSize);
+        newModel = initializeFFNNModel(vocab, keepParams ? hiddenSize : defaultHiddenSize, initialEmbeddingDim, keepParams ? contextSize : DEFAULT_CONTEXT_SIZE);
         break;
     }
+    modelRef.current = newModel;
     setModel(newModel);
+    encodedValidationTextRef.current = validationText ? frameText(tokenizer, validationText) : [];
 
     // Reset hyperparameters if not explicitly keeping them.
     if (!keepParams) {
         setLearningRate(defaultLearningRate);
         setHiddenSize(defaultHiddenSize);
+        setNumLayers(1);
+        setEmbeddingDim(DEFAULT_EMBEDDING_DIM);
+        setContextSize(DEFAULT_CONTEXT_SIZE);
+        setNumHeads(DEFAULT_NUM_HEADS);
         setEpochs(defaultEpochs);
         setBatchSize(defaultBatchSize);
         setDropoutRate(0.1);
+        setOptimizerConfig(DEFAULT_OPTIMIZER_CONFIG);
+        setLrScheduleConfig(DEFAULT_LR_SCHEDULE_CONFIG);
+        setGradientClipping(DEFAULT_GRADIENT_CLIPPING);
+        setBpttConfig(DEFAULT_BPTT_CONFIG);
     }
-    setCurrentLearningRate(keepParams ? learningRate : defaultLearningRate);
-  }, [modelType, trainingText, tokenizerType, customTokenizerSet, vocabSize, hiddenSize, learningRate, defaultBatchSize, defaultEpochs, defaultHiddenSize, defaultLearningRate]);
+    const initialLearningRate = keepParams ? learningRate : defaultLearningRate;
+    setCurrentLearningRate(initialLearningRate);
+
+    // Hand the fresh model and training data to the training engine.
+    engineRef.current?.init(newModel, encoded, encodedValidationTextRef.current, {
+      learningRate: initialLearningRate,
+      batchSize: keepParams ? batchSize : defaultBatchSize,
+      dropoutRate: keepParams ? dropoutRate : 0.1,
+      epochs: keepParams ? epochs : defaultEpochs,
+      isCyclicalMode,
+      cycleEpochs,
+      numCycles,
+      currentCycle: 0,
+      optimizer: keepParams ? optimizerConfig : DEFAULT_OPTIMIZER_CONFIG,
+      lrSchedule: keepParams ? lrScheduleConfig : DEFAULT_LR_SCHEDULE_CONFIG,
+      gradientClipping: keepParams ? gradientClipping : DEFAULT_GRADIENT_CLIPPING,
+      bptt: keepParams ? bpttConfig : DEFAULT_BPTT_CONFIG,
+      sampling: samplingConfigRef.current,
+      subwordRegularization,
+      earlyStoppingMetric: earlyStopOnValidation ? 'validation' : 'train',
+      languagePack,
+      coachingUpdate: coachingUpdateRef.current,
+    }, null, getResegmentation(tokenizer, trainText));
+  }, [modelType, languagePack, trainingText, tokenizerType, customTokenizerSet, vocabSize, subwordRegularization, validationSplit, earlyStopOnValidation, hiddenSize, numLayers, embeddingDim, contextSize, numHeads, learningRate, batchSize, dropoutRate, optimizerConfig, lrScheduleConfig, gradientClipping, bpttConfig, epochs, isCyclicalMode, cycleEpochs, numCycles, defaultBatchSize, defaultEpochs, defaultHiddenSize, defaultLearningRate]);
 
   // Effect to re-initialize the model whenever the model type changes.
   useEffect(() => {
@@ -383,223 +559,132 @@ export const Playground: React.FC<PlaygroundProps> = ({
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [modelType]);
 
-  // --- TRAINING LOOP ---
+  // Effect to re-initialize the model on a new language pack's corpus and tokens once they are in state.
+  useEffect(() => {
+    if (languagePackRef.current === languagePack) return;
+    languagePackRef.current = languagePack;
+    initialize(languagePack.corpus, true);
+    setLogs(prev => [...prev, `Switched to the ${languagePack.name} language pack.`]);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [languagePack]);
+
   /**
-   * Executes a single step of training (one batch/sequence).
+   * Switches to a language pack, replacing the training text and the custom token set with its own.
+   * @param {LanguagePack} pack - The language pack.
    */
-  const runTrainingStep = useCallback(() => {
-    const currentModel = modelRef.current;
-    if (!currentModel) return;
+  const selectLanguagePack = (pack: LanguagePack) => {
+    setLanguagePack(pack);
+    setTrainingText(pack.corpus);
+    setCustomTokenizerSet(getCustomTokenSet(pack));
+  };
 
-    let result: TrainStepResult;
-    switch(modelType) {
-      case 'RNN':
-        result = trainStepRNN(currentModel as any, encodedTextRef.current, currentStepRef.current, batchSize, currentLearningRate, dropoutRate);
-        break;
-      case 'GRU':
-        result = trainStepGRU(currentModel as any, encodedTextRef.current, currentStepRef.current, batchSize, currentLearningRate, dropoutRate);
-        break;
-      case 'LSTM':
-        result = trainStepLSTM(currentModel as any, encodedTextRef.current, currentStepRef.current, batchSize, currentLearningRate, dropoutRate);
-        break;
-      case 'FFNN':
-      default:
-        result = trainStepFFNN(currentModel as any, encodedTextRef.current, currentStepRef.current, batchSize, currentLearningRate);
-        break;
-    }
-    
-    modelRef.current = result.updatedModel;
-    currentStepRef.current += batchSize;
-    currentEpochLossRef.current.push(result.loss);
-    
-    // Update prediction statistics for the heatmap.
-    const stats = predictionStatsRef.current;
-    for (const res of result.predictionResults) {
-        const { inputToken, targetToken, predictedToken } = res;
-        if (!stats[inputToken]) stats[inputToken] = {};
-        if (!stats[inputToken][targetToken]) stats[inputToken][targetToken] = { correct: 0, total: 0 };
-        stats[inputToken][targetToken].total += 1;
-        if (predictedToken === targetToken) {
-            stats[inputToken][targetToken].correct += 1;
-        }
-    }
+  const handleLanguagePackChange = (id: string) => {
+    const pack = languagePacks.find(candidate => candidate.id === id);
+    if (pack) selectLanguagePack(pack);
+  };
 
-    // Update UI only if not in fast mode.
-    if (!isFastMode) {
-      setVisData(result);
-      if (currentStepRef.current % (batchSize * 5) === 0) {
-        setLogs(prev => [`[E:${currentEpoch}, S:${currentStepRef.current}] Loss: ${result.loss.toFixed(4)}`, ...prev].slice(0, 50));
-      }
-    }
-  }, [modelType, batchSize, currentLearningRate, dropoutRate, isFastMode, currentEpoch]);
+  const handleLoadLanguagePack = () => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.json';
+    input.onchange = (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0];
+      if (!file) return;
+      const reader = new FileReader();
+      reader.onload = (event) => {
+        try {
+          const pack = parseLanguagePack(JSON.parse(event.target?.result as string));
+          setLanguagePacks(prev => [...prev.filter(candidate => candidate.id !== pack.id), pack]);
+          selectLanguagePack(pack);
+        } catch (error) {
+          alert(`Failed to load language pack: ${error instanceof Error ? error.message : error}`);
+        }
+      };
+      reader.readAsText(file);
+    };
+    input.click();
+  };
 
   /**
-   * Generates a single word for testing or coaching.
+   * The main loop for the auto-coaching feature.
+   * Words are generated by the training engine and validated here. Supervised coaching reinforces
+   * the good ones; policy-gradient coaching rewards good words and penalizes bad ones.
    */
-  const generateOneWord = useCallback(() => {
-    const currentModel = modelRef.current;
-    if (!currentModel || !currentModel.vocab || currentModel.vocab.length === 0) return '';
-    
-    const validStarters = new Set([...ONSETS, ...VOWELS]);
-    let seedVocab = currentModel.vocab.filter(token => validStarters.has(token) && token.trim() !== '');
-    if (seedVocab.length === 0) {
-        seedVocab = currentModel.vocab.filter(c => c.trim() !== '');
-    }
-    if (seedVocab.length === 0) return '';
-    
-    const randomIndex = Math.floor(Math.random() * seedVocab.length);
-    const seed = seedVocab[randomIndex];
-    
-    switch(modelType) {
-        case 'RNN': return generateRNN(currentModel as any, seed, 50, 1.1);
-        case 'GRU': return generateGRU(currentModel as any, seed, 50, 1.1);
-        case 'LSTM': return generateLSTM(currentModel as any, seed, 50, 1.1);
-        case 'FFNN': default: return generateFFNN(currentModel as any, seed, 50, 1.1);
+  const autoCoachLoop = useCallback(async () => {
+    const engine = engineRef.current;
+    if (!isAutoCoachingRef.current || !engine) return;
+
+    const sampling = samplingConfigRef.current;
+    let word: string | undefined;
+    try {
+      [word] = await engine.generate(1, sampling);
+    } catch {
+      // The engine's error event has already been logged; stop rather than retry the failing request forever.
+      setIsAutoCoaching(false);
+      return;
     }
-  }, [modelType]);
+    if (word && isAutoCoachingRef.current) {
+        // With the graded reward, words are reinforced if their score reaches the threshold, and
+        // more strongly the higher it is. Otherwise only words that pass the validator are.
+        const report = validateWord(word, languagePackRef.current);
+        const score = phonotacticScorerRef.current?.score(word) ?? 0;
+        const reward = coachingRewardRef.current;
+        const isGood = reward.mode === 'graded' ? score >= reward.threshold : report.isGood;
+        setAutoCoachedWords(prev => [...prev, { word, isGood, report, score }].slice(-100));
 
-  /**
-   * The main loop for the auto-coaching feature.
-   */
-  const autoCoachLoop = useCallback(() => {
-    if (!isAutoCoachingRef.current) return;
+        // Tally the pass rate of the sampling configuration that produced the word, so strategies can be compared.
+        const label = describeSampling(sampling);
+        setSamplingPassRates(prev => {
+            const existing = prev.find(rate => rate.label === label) ?? { label, good: 0, total: 0 };
+            const updated = { ...existing, good: existing.good + (isGood ? 1 : 0), total: existing.total + 1 };
+            return [...prev.filter(rate => rate.label !== label), updated];
+        });
 
-    const word = generateOneWord();
-    if (word) {
-        const isGood = isGoodWord(word);
-        setAutoCoachedWords(prev => [...prev, { word, isGood }].slice(-100));
+        // The graded score is the reward itself; otherwise a word earns +1 if it is good and -1 if not.
+        const wordReward = reward.mode === 'graded' ? score : isGood ? 1 : -1;
+        if (coachingUpdateRef.current.method === 'policy-gradient') await handleReinforcement(word, false, wordReward);
 
         if (isGood) {
             coachingSessionStats.current.good++;
-            handleReinforcement(word, false);
+            if (coachingUpdateRef.current.method === 'supervised') await handleReinforcement(word, false, wordReward);
             if (!originalTrainingTextRef.current.includes(word)) {
                 setNewWordsLog(prev => [...new Set([...prev, word])]); // Ensure unique words
             }
         } else {
+            const { rejections } = coachingSessionStats.current;
             coachingSessionStats.current.bad++;
+            if (report.failedRule) rejections[report.failedRule] = (rejections[report.failedRule] || 0) + 1;
         }
     }
     
     // Continue the loop.
     setTimeout(autoCoachLoop, 200);
-  }, [generateOneWord, handleReinforcement]);
-
-  /**
-   * The main training loop, driven by requestAnimationFrame for smooth UI performance.
-   */
-  const trainingLoop = useCallback(() => {
-    if (trainingStateRef.current !== 'RUNNING' && trainingStateRef.current !== 'FINE_TUNING' && trainingStateRef.current !== 'STABILIZED') return;
-
-    runTrainingStep();
-    
-    // Check if the current epoch is finished.
-    if (currentStepRef.current >= encodedTextRef.current.length - 1) {
-      const epochLoss = currentEpochLossRef.current.reduce((a, b) => a + b, 0) / currentEpochLossRef.current.length;
-      setLossHistory(prev => [...prev, epochLoss]);
-      
-      // Log epoch summary.
-      const prevLoss = lossHistory.length > 0 ? lossHistory[lossHistory.length - 1] : epochLoss;
-      const delta = epochLoss - prevLoss;
-      const deltaSign = delta >= 0 ? '+' : '';
-      setLogs(prev => [`Epoch ${currentEpoch} complete. Loss: ${epochLoss.toFixed(4)} (Δ: ${deltaSign}${delta.toFixed(4)})`, ...prev].slice(0, 50));
-
-      const currentStats = JSON.parse(JSON.stringify(predictionStatsRef.current));
-      setHistoricalPredictionStats(prev => [...prev, currentStats]);
-      predictionStatsRef.current = {};
-      
-      setModel(modelRef.current);
-
-      // Generate sample words at intervals.
-      if (currentEpoch % 5 === 0 || currentEpoch === 1) {
-          const generatedWords = Array.from({length: 5}).map(() => generateOneWord());
-          setGenerationHistory(prev => [...prev, { epoch: currentEpoch, words: generatedWords }]);
-      }
-      
-      const nextEpoch = currentEpoch + 1;
-
-      // Logic for cyclical training: switch to COACHING mode.
-      if (isCyclicalModeRef.current && trainingStateRef.current === 'RUNNING' && nextEpoch > (currentCycleRef.current * cycleEpochsRef.current) && currentCycleRef.current <= numCyclesRef.current) {
-          setTrainingState('COACHING');
-          setCurrentEpoch(nextEpoch);
-          currentStepRef.current = 0;
-          currentEpochLossRef.current = [];
-          return; 
-      }
-
-      // --- Early Stopping and Fine-Tuning Logic ---
-      epochsWithoutImprovementRef.current++;
-      if (epochLoss < bestLossRef.current) {
-        bestLossRef.current = epochLoss;
-        epochsWithoutImprovementRef.current = 0;
-      }
-      
-      const currentState = trainingStateRef.current;
-      if (currentState === 'RUNNING' && epochsWithoutImprovementRef.current >= EARLY_STOPPING_PATIENCE) {
-          setTrainingState('STABILIZED');
-          fineTuningEpochsRemainingRef.current = 5;
-          setLogs(prev => [`Loss stabilized. Starting fine-tuning...`, ...prev].slice(0, 50));
-      } else if ((currentState === 'STABILIZED' || currentState === 'FINE_TUNING') && fineTuningEpochsRemainingRef.current > 0) {
-          setTrainingState('FINE_TUNING');
-          // Decay the learning rate for fine-tuning.
-          const decayFactor = Math.pow(FINAL_LR_MULTIPLIER, 1/5);
-          setCurrentLearningRate(prev => prev * decayFactor);
-          fineTuningEpochsRemainingRef.current--;
-      } else if (nextEpoch > epochs || (fineTuningEpochsRemainingRef.current <= 0 && currentState === 'FINE_TUNING')) {
-          setTrainingState('FINISHED');
-          if (isCyclicalModeRef.current) setIsCyclicalMode(false); // Auto-disable checkbox
-          if (isFastMode) setIsFastMode(false);
-          setLogs(prev => [`Training finished.`, ...prev].slice(0, 50));
-          return;
-      }
-
-      // Prepare for the next epoch.
-      currentStepRef.current = 0;
-      currentEpochLossRef.current = [];
-      setCurrentEpoch(nextEpoch);
-    }
-
-    // Request the next frame to continue the loop.
-    loopIdRef.current = requestAnimationFrame(trainingLoop);
-  }, [runTrainingStep, epochs, isFastMode, currentEpoch, generateOneWord, lossHistory]);
-
-  // Effect to start/stop the trainingLoop based on the trainingState.
-  useEffect(() => {
-    if (trainingState === 'RUNNING' || trainingState === 'FINE_TUNING' || trainingState === 'STABILIZED') {
-      loopIdRef.current = requestAnimationFrame(trainingLoop);
-    } else {
-      if (loopIdRef.current) {
-        cancelAnimationFrame(loopIdRef.current);
-      }
-    }
-    return () => {
-      if (loopIdRef.current) {
-        cancelAnimationFrame(loopIdRef.current);
-      }
-    };
-  }, [trainingState, trainingLoop]);
+  }, [handleReinforcement]);
 
   const coachingTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   // Effect to manage the fixed-duration coaching session in cyclical mode.
   useEffect(() => {
     if (trainingState === 'COACHING') {
-      coachingSessionStats.current = { good: 0, bad: 0 };
+      coachingSessionStats.current = { good: 0, bad: 0, rejections: {} };
       setIsAutoCoaching(true);
       
       coachingTimeoutRef.current = setTimeout(() => {
         setIsAutoCoaching(false);
         
-        const { good, bad } = coachingSessionStats.current;
+        const { good, bad, rejections } = coachingSessionStats.current;
         const total = good + bad;
         const ratio = total > 0 ? (good / total * 100).toFixed(1) : '0.0';
         const cycle = currentCycleRef.current;
-        const logMessage = `Coaching Cycle ${cycle}: ${good} good, ${bad} bad (${ratio}% success)`;
+        const reasons = describeRejections(rejections);
+        const logMessage = `Coaching Cycle ${cycle}: ${good} good, ${bad} bad (${ratio}% success)${reasons ? `. Rejected for: ${reasons}` : ''}`;
         setCoachingStatsLog(prev => [...prev, logMessage]);
         setLogs(prev => [logMessage, ...prev].slice(0, 50));
 
         if (cycle < numCyclesRef.current) {
-          setCurrentCycle(prev => prev + 1);
-          setTrainingState('RUNNING');
+          setCurrentCycle(cycle + 1);
+          engineRef.current?.configure({ currentCycle: cycle + 1 });
+          engineRef.current?.start();
         } else {
           setTrainingState('FINISHED');
           setIsCyclicalMode(false); // Auto-disable checkbox
@@ -645,53 +730,58 @@ export const Playground: React.FC<PlaygroundProps> = ({
   
   // --- CONTROLS EVENT HANDLERS ---
   const handleStart = () => {
+    const engine = engineRef.current;
+    if (!engine) return;
+
     if (trainingState === 'IDLE' && !modelIsLoaded) {
       initialize(trainingText, true);
       originalTrainingTextRef.current = trainingText;
-    } else if (trainingState === 'FINISHED' && !isCyclicalMode) {
+    }
+
+    const config = getTrainingConfig();
+    if (trainingState === 'FINISHED' && !isCyclicalMode) {
       // Logic to continue training after it has finished.
-      setEpochs(prev => prev + 50);
-      epochsWithoutImprovementRef.current = 0;
-      fineTuningEpochsRemainingRef.current = 0;
-      if (lossHistory.length > 0) {
-        bestLossRef.current = Math.min(...lossHistory);
-      }
+      config.epochs = epochs + 50;
+      setEpochs(config.epochs);
     }
     
     if (isCyclicalMode) {
-        setEpochs(numCycles * cycleEpochs);
+        config.epochs = numCycles * cycleEpochs;
+        config.currentCycle = 1;
+        setEpochs(config.epochs);
         setCurrentCycle(1);
     }
 
     setCoachingEnabled(true);
-    setTrainingState('RUNNING');
-
-    // Set up the timeout for automatic fast mode.
-    if (useAutoFastMode && !isFastMode) {
-      fastModeTimeoutRef.current = setTimeout(() => {
-        if (trainingStateRef.current === 'RUNNING' && currentEpoch < epochs - 1) {
-          setIsFastMode(true);
-          setLogs(prev => ['Fast mode enabled to speed up training. UI updates suspended.', ...prev].slice(0, 50));
-        }
-      }, 60000);
-    }
+    engine.configure(config);
+    engine.start();
   };
   
   const handleReset = () => {
     initialize();
   };
   
-  const handleSaveModel = () => {
-    if (!model) return;
+  const handleSaveModel = async () => {
+    // The training engine holds the most recently trained weights and the optimizer's state.
+    let snapshot: Awaited<ReturnType<TrainingEngine['snapshot']>> | undefined;
+    try {
+      snapshot = await engineRef.current?.snapshot();
+    } catch (error) {
+      alert(`Failed to save the model: ${error instanceof Error ? error.message : error}`);
+      return;
+    }
+    const latestModel = snapshot?.model ?? model;
+    if (!latestModel) return;
     const data = {
-      model,
+      model: serializeModel(latestModel),
       modelType,
-      tokenizerInfo: {
-        type: tokenizerType,
-        bpeMerges: tokenizerType === 'bpe' && bpeMergesRef.current ? Array.from(bpeMergesRef.current.entries()) : null,
-        bpeVocab: tokenizerType === 'bpe' ? bpeVocabRef.current : null,
-        customSet: tokenizerType === 'custom' ? customTokenizerSet : null,
-      }
+      // Saving the optimizer's running averages lets a loaded model resume training exactly where it left off.
+      optimizer: {
+        config: optimizerConfig,
+        state: snapshot?.optimizerState ? serializeOptimizerState(snapshot.optimizerState) : null,
+      },
+      // The tokenizer is saved as its own artifact, so the model is always reloaded with the exact vocabulary it was trained on.
+      tokenizer: tokenizerRef.current?.toJSON() ?? null,
     };
     const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
@@ -713,31 +803,61 @@ export const Playground: React.FC<PlaygroundProps> = ({
       reader.onload = (event) => {
         try {
           const data = JSON.parse(event.target?.result as string);
-          if (data.model && data.modelType && data.tokenizerInfo) {
+          if (data.model && data.modelType && (data.tokenizer || data.tokenizerInfo)) {
             if(data.modelType !== modelType) {
               alert(`This file contains a ${data.modelType} model. Please switch to the correct tab to load it.`);
               return;
             }
-            setModel(data.model);
-            setTokenizerType(data.tokenizerInfo.type);
-            
-            if(data.tokenizerInfo.type === 'bpe' && data.tokenizerInfo.bpeMerges && data.tokenizerInfo.bpeVocab) {
-              bpeMergesRef.current = new Map(data.tokenizerInfo.bpeMerges);
-              bpeVocabRef.current = data.tokenizerInfo.bpeVocab;
-              const encoded = encodeBPE(trainingText, bpeMergesRef.current);
-              encodedTextRef.current = encoded;
-            } else if (data.tokenizerInfo.type === 'custom' && data.tokenizerInfo.customSet) {
-                setCustomTokenizerSet(data.tokenizerInfo.customSet);
-                const vocab = data.model.vocab;
-                const tokenToIndex = data.model.tokenToIndex;
-                encodedTextRef.current = encodeCustom(trainingText, vocab, tokenToIndex);
-            }
+            // Older saves store matrices as nested arrays; this converts them to the typed-array format.
+            const loadedModel = deserializeModel(data.model);
+            modelRef.current = loadedModel;
+            setModel(loadedModel);
+            if ('layers' in loadedModel) setNumLayers(loadedModel.layers.length);
+            if (loadedModel.type === 'FFNN') setContextSize(loadedModel.contextSize);
+            if (loadedModel.type === 'Transformer') setNumHeads(loadedModel.numHeads);
+            // The Transformer's batch size is its context length, which is fixed by its position embeddings.
+            const loadedBatchSize = loadedModel.type === 'Transformer' ? loadedModel.positionEmbedding.rows : batchSize;
+            setBatchSize(loadedBatchSize);
+
+            // Files saved before tokenizers were saved on their own only describe the tokenizer's type
+            // (and BPE's merges); the rest of it is the model's vocabulary.
+            const tokenizer = tokenizerFromJSON(data.tokenizer ?? {
+              type: data.tokenizerInfo.type,
+              vocab: loadedModel.vocab,
+              merges: data.tokenizerInfo.bpeMerges ?? undefined,
+            });
+            tokenizerRef.current = tokenizer;
+            setTokenizerType(tokenizer.type);
+            if (data.tokenizerInfo?.customSet) setCustomTokenizerSet(data.tokenizerInfo.customSet);
 
+            // Re-create the train/validation split of the current text with the loaded tokenizer.
+            const { trainText, validationText } = splitTrainValidation(trainingText, validationSplit);
+            encodedTextRef.current = frameText(tokenizer, trainText);
+            encodedValidationTextRef.current = validationText ? frameText(tokenizer, validationText) : [];
+            phonotacticScorerRef.current = createPhonotacticScorer(trainText, languagePackRef.current);
+
+            // Files saved before optimizers were configurable have no optimizer section.
+            const loadedOptimizerConfig: OptimizerConfig = { ...DEFAULT_OPTIMIZER_CONFIG, ...data.optimizer?.config };
+            const loadedOptimizerState = data.optimizer?.state ? deserializeOptimizerState(data.optimizer.state, loadedModel.type) : null;
+            setOptimizerConfig(loadedOptimizerConfig);
+
+            engineRef.current?.init(
+              loadedModel,
+              encodedTextRef.current,
+              encodedValidationTextRef.current,
+              { ...getTrainingConfig(), learningRate, batchSize: loadedBatchSize, optimizer: loadedOptimizerConfig },
+              loadedOptimizerState,
+              getResegmentation(tokenizer, trainText)
+            );
+            setCurrentLearningRate(learningRate);
             setModelIsLoaded(true);
             setTrainingState('IDLE');
             setLogs(['Model loaded successfully. Ready to train.']);
             setVisData(null);
             setLossHistory([]);
+            setLearningRateHistory([]);
+            setValidationHistory([]);
+            setGradientNormHistory([]);
             setGenerationHistory([]);
             setCurrentEpoch(1);
             setCoachingEnabled(false);
@@ -776,13 +896,15 @@ export const Playground: React.FC<PlaygroundProps> = ({
   const getIntroParagraph = () => {
     switch (modelType) {
       case 'FFNN':
-        return "This playground trains a Feed-Forward Neural Network (FFNN), the most fundamental neural network architecture. The key feature of an FFNN is that it's memoryless. It predicts the next token based only on the single, immediate input token, making it great for learning simple, direct relationships but unable to grasp longer-term context.";
+        return "This playground trains a Feed-Forward Neural Network (FFNN), the most fundamental neural network architecture. The key feature of an FFNN is that it's memoryless. It predicts the next token based only on a short, fixed window of the tokens just before it, making it great for learning simple, direct relationships but unable to grasp anything further back.";
       case 'RNN':
         return "This tab introduces a Recurrent Neural Network (RNN). This is a significant step up from the FFNN because it has memory. An RNN maintains an internal 'hidden state' that acts as a summary of the sequence it has seen so far. This allows it to make more context-aware predictions, as it considers both the current input and its memory of previous inputs.";
       case 'GRU':
         return "Here we train a Gated Recurrent Unit (GRU), an advanced RNN designed to better handle long-range dependencies. A GRU uses intelligent 'gates' (an update gate and a reset gate) that learn to control the flow of information. This allows the model to selectively forget irrelevant past information and update its memory with what's important, leading to a more stable and powerful long-term memory.";
       case 'LSTM':
         return "This playground features a Long Short-Term Memory (LSTM) network, one of the most powerful and widely used recurrent architectures. The LSTM introduces a separate 'cell state' for long-term memory, which is carefully managed by three distinct gates: a forget gate, an input gate, and an output gate. This sophisticated mechanism allows LSTMs to track multiple pieces of information over very long sequences, making them exceptionally good at capturing complex patterns in text.";
+      case 'Transformer':
+        return "This playground trains a small Transformer, the architecture behind modern large language models. Instead of carrying a memory from step to step, a Transformer looks back over every earlier token in its context at once. Self-attention lets each position decide how much to draw from each earlier one, and learned position embeddings tell it where each token sits. The attention heatmap below shows exactly where it is looking.";
       default:
         return "";
     }
@@ -805,16 +927,28 @@ export const Playground: React.FC<PlaygroundProps> = ({
         onSaveModel={handleSaveModel}
         onLoadModel={handleLoadModel}
         model={model}
+        languagePack={languagePack} languagePacks={languagePacks}
+        onLanguagePackChange={handleLanguagePackChange} onLoadLanguagePack={handleLoadLanguagePack}
         trainingText={trainingText} setTrainingText={setTrainingText}
         learningRate={learningRate} setLearningRate={setLearningRate}
         hiddenSize={hiddenSize} setHiddenSize={setHiddenSize}
+        numLayers={numLayers} setNumLayers={setNumLayers}
+        embeddingDim={embeddingDim} setEmbeddingDim={setEmbeddingDim}
+        contextSize={contextSize} setContextSize={setContextSize}
+        numHeads={numHeads} setNumHeads={setNumHeads}
         epochs={isCyclicalMode ? numCycles * cycleEpochs : epochs} setEpochs={setEpochs}
         batchSize={batchSize} setBatchSize={setBatchSize}
         tokenizerType={tokenizerType} setTokenizerType={setTokenizerType}
         customTokenizerSet={customTokenizerSet} setCustomTokenizerSet={setCustomTokenizerSet}
         vocabSize={vocabSize} setVocabSize={setVocabSize}
+        subwordRegularization={subwordRegularization} setSubwordRegularization={setSubwordRegularization}
         dropoutRate={dropoutRate} setDropoutRate={setDropoutRate}
-        useAutoFastMode={useAutoFastMode} setUseAutoFastMode={setUseAutoFastMode}
+        optimizerConfig={optimizerConfig} setOptimizerConfig={setOptimizerConfig}
+        lrScheduleConfig={lrScheduleConfig} setLrScheduleConfig={setLrScheduleConfig}
+        gradientClipping={gradientClipping} setGradientClipping={setGradientClipping}
+        bpttConfig={bpttConfig} setBpttConfig={setBpttConfig}
+        validationSplit={validationSplit} setValidationSplit={setValidationSplit}
+        earlyStopOnValidation={earlyStopOnValidation} setEarlyStopOnValidation={setEarlyStopOnValidation}
         batchSizeLabel={batchSizeLabel}
         batchSizeTooltip={batchSizeTooltip}
         modelType={modelType}
@@ -827,8 +961,18 @@ export const Playground: React.FC<PlaygroundProps> = ({
       {/* --- Main Layout: Visualizations and Sidebar --- */}
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         <div className="lg:col-span-2 space-y-6">
-          <ArchitectureVisualizer model={model} visData={visData} isFastMode={isFastMode} currentEpoch={currentEpoch} />
-          <LossHistogram lossHistory={lossHistory} />
+          <ArchitectureVisualizer model={model} visData={visData} currentEpoch={currentEpoch} />
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <LossHistogram lossHistory={lossHistory} validationHistory={validationHistory} />
+            <LearningRateChart learningRateHistory={learningRateHistory} scheduleLabel={LR_SCHEDULE_LABELS[lrScheduleConfig.type]} />
+          </div>
+          {modelType !== 'FFNN' && (
+            <GradientNormsPanel history={gradientNormHistory} latest={visData?.gradientNorms ?? null} clipping={gradientClipping} />
+          )}
+          {modelType === 'Transformer' && (
+            <AttentionHeatmap attention={visData?.attention ?? null} />
+          )}
+          <EmbeddingProjector model={model} languagePack={languagePack} />
           <SuccessRateHeatmap statsHistory={historicalPredictionStats} vocab={model?.vocab || []} />
         </div>
         <div className="space-y-4 lg:sticky lg:top-6 self-start">
@@ -839,13 +983,24 @@ export const Playground: React.FC<PlaygroundProps> = ({
                     totalEpochs={isCyclicalMode ? numCycles * cycleEpochs : epochs}
                     loss={visData?.loss ?? null}
                     currentLearningRate={currentLearningRate}
-                    isFastMode={isFastMode}
                 />
             </AccordionItem>
             <AccordionItem title="Generate & Coach" isOpen={openAccordion === 'generate'} onToggle={() => toggleAccordion('generate')}>
                 <GenerationPanel 
                     model={model} 
                     coachingEnabled={coachingEnabled} 
+                    onGenerate={handleGenerate}
+                    onInspect={handleInspect}
+                    onRankWords={handleRankWords}
+                    sampling={samplingConfig}
+                    onSamplingChange={setSamplingConfig}
+                    samplingPassRates={samplingPassRates}
+                    coachingReward={coachingReward}
+                    onCoachingRewardChange={setCoachingReward}
+                    coachingUpdate={coachingUpdate}
+                    onCoachingUpdateChange={setCoachingUpdate}
+                    policyGradientStats={policyGradientStats}
+                    languagePack={languagePack}
                     onReinforce={handleReinforcement}
                     isAutoCoaching={isAutoCoaching}
                     onToggleAutoCoach={handleToggleAutoCoach}
@@ -856,7 +1011,16 @@ export const Playground: React.FC<PlaygroundProps> = ({
                 />
             </AccordionItem>
             <AccordionItem title="Generation History" isOpen={openAccordion === 'history'} onToggle={() => toggleAccordion('history')}>
-                <GenerationHistoryPanel history={generationHistory} />
+                <GenerationHistoryPanel history={generationHistory} languagePack={languagePack} />
+            </AccordionItem>
+            <AccordionItem title="Compare Tokenizers" isOpen={openAccordion === 'tokenizers'} onToggle={() => toggleAccordion('tokenizers')}>
+                <SegmentationComparison
+                    trainingText={trainingText}
+                    vocabSize={vocabSize}
+                    customTokenizerSet={customTokenizerSet}
+                    activeType={tokenizerType}
+                    alpha={subwordRegularization.alpha}
+                />
             </AccordionItem>
         </div>
       </div>
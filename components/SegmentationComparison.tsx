@@ -0,0 +1,138 @@
+/**
+ * @file SegmentationComparison.tsx
+ * @description Shows how each tokenizer splits the same word. Every tokenizer is trained on the
+ * current training text with the current settings, so the effect of the vocabulary size or the
+ * custom token list can be seen before training a model with them.
+ */
+
+import React, { useRef, useState } from 'react';
+import { Tokenizer, TokenizerType } from '../types';
+import { TOKENIZER_LABELS, trainTokenizer } from '../services/tokenizer';
+import { isSpecialToken } from '../services/specialTokens';
+import { Tooltip } from './Tooltip';
+
+// How many alternative Unigram segmentations are sampled at a time.
+const NUM_SAMPLES = 3;
+
+/**
+ * Renders the word input and one row of token chips per tokenizer.
+ * @param {object} props - The component's props.
+ * @param {string} props.trainingText - The text every tokenizer is trained on.
+ * @param {number} props.vocabSize - The BPE and Unigram vocabulary size, kept within each one's slider range.
+ * @param {string} props.customTokenizerSet - The comma-separated custom token list.
+ * @param {TokenizerType} props.activeType - The tokenizer selected in the controls, which is highlighted.
+ * @param {number} props.alpha - The subword-regularization alpha the Unigram samples are drawn with.
+ */
+export const SegmentationComparison = ({ trainingText, vocabSize, customTokenizerSet, activeType, alpha }) => {
+  const [input, setInput] = useState('splonder');
+  const [word, setWord] = useState('');
+  const [samples, setSamples] = useState<string[][]>([]);
+  // The tokenizers trained for the last comparison, and the settings they were trained with.
+  const trainedRef = useRef<{ key: string; tokenizers: Tokenizer[] } | null>(null);
+
+  /**
+   * Trains the tokenizers, unless the settings are the same as last time.
+   */
+  const getTokenizers = (): Tokenizer[] => {
+    const key = JSON.stringify([trainingText, vocabSize, customTokenizerSet]);
+    if (trainedRef.current?.key !== key) {
+      const options = { customTokens: customTokenizerSet.split(',').map(t => t.trim()).filter(Boolean) };
+      const tokenizers = (Object.keys(TOKENIZER_LABELS) as TokenizerType[]).map(type => trainTokenizer(type, trainingText, {
+        ...options,
+        vocabSize: type === 'bpe' ? Math.max(vocabSize, 257) : Math.min(vocabSize, 2048),
+      }));
+      trainedRef.current = { key, tokenizers };
+    }
+    return trainedRef.current.tokenizers;
+  };
+
+  const toTokens = (tokenizer: Tokenizer, ids: number[]) => ids.map(id => tokenizer.vocab[id]);
+
+  /**
+   * Draws fresh alternative segmentations of the word from the Unigram tokenizer.
+   * @param {string} text - The word.
+   */
+  const sample = (text: string) => {
+    const unigram = getTokenizers().find(tokenizer => tokenizer.sample);
+    if (!unigram || !text) return;
+    setSamples(Array.from({ length: NUM_SAMPLES }, () => toTokens(unigram, unigram.sample!(text, alpha))));
+  };
+
+  const compare = () => {
+    const trimmed = input.trim();
+    setWord(trimmed);
+    sample(trimmed);
+  };
+
+  const tokenizers = word ? getTokenizers() : [];
+
+  const renderChips = (tokens: string[]) => (
+    <div className="flex flex-wrap gap-1">
+      {tokens.map((token, index) => (
+        <span key={index} className={`px-1 rounded ${isSpecialToken(token) ? 'bg-orange-900 text-orange-300' : 'bg-gray-800 text-cyan-300'}`}>
+          {token}
+        </span>
+      ))}
+    </div>
+  );
+
+  return (
+    <div>
+      <Tooltip text="Type a word to see how the character, BPE, custom and Unigram tokenizers split it. Each is trained on the current training text with the current settings. Characters a tokenizer cannot encode are shown as <unk>.">
+        <p className="text-sm text-gray-400 mb-2">Compare how each tokenizer splits the same word.</p>
+      </Tooltip>
+      <form
+        className="flex space-x-2 mb-3"
+        onSubmit={(e) => { e.preventDefault(); compare(); }}
+      >
+        <input
+          type="text"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          placeholder="e.g. splonder"
+          className="flex-grow p-2 bg-gray-900 border border-gray-700 rounded-md font-mono text-sm text-gray-300"
+        />
+        <button
+          type="submit"
+          disabled={!input.trim() || !trainingText.trim()}
+          className="px-4 py-2 text-sm rounded-md bg-cyan-600 hover:bg-cyan-700 font-semibold text-white disabled:bg-gray-600 disabled:cursor-not-allowed"
+        >
+          Compare
+        </button>
+      </form>
+
+      {word && (
+        <table className="w-full text-xs font-mono text-gray-300">
+          <tbody>
+            {tokenizers.map(tokenizer => {
+              const tokens = toTokens(tokenizer, tokenizer.encode(word));
+              return (
+                <tr key={tokenizer.type} className={`border-t border-gray-700/50 ${tokenizer.type === activeType ? 'bg-cyan-900/30' : ''}`}>
+                  <td className="pr-2 py-1 align-top text-gray-400 whitespace-nowrap">
+                    {TOKENIZER_LABELS[tokenizer.type]}
+                    {tokenizer.type === activeType && <span className="text-cyan-400"> ●</span>}
+                  </td>
+                  <td className="pr-2 py-1 align-top text-gray-500">{tokens.length}</td>
+                  <td className="py-1">
+                    {renderChips(tokens)}
+                    {tokenizer.sample && samples.length > 0 && (
+                      <div className="mt-2 space-y-1">
+                        <div className="flex items-center justify-between text-gray-500">
+                          <span>Sampled (α = {alpha.toFixed(2)}):</span>
+                          <button onClick={() => sample(word)} className="px-2 py-0.5 rounded bg-gray-700 hover:bg-gray-600 text-gray-300">
+                            Sample
+                          </button>
+                        </div>
+                        {samples.map((tokens, index) => <div key={index}>{renderChips(tokens)}</div>)}
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,62 @@
+/**
+ * @file SyllableWord.tsx
+ * @description Renders a word coloured by its syllable structure: onsets, vowels, codas and
+ * extensions each get their own colour, and a faint dot separates the syllables. Words that cannot
+ * be split into syllables are shown as they are.
+ */
+
+import React from 'react';
+import { LanguagePack, SyllableRole } from '../types';
+import { syllabify } from '../services/syllabifier';
+
+// The colour of each syllable role.
+const SYLLABLE_ROLE_COLORS: Record<SyllableRole, string> = {
+  onset: 'text-sky-300',
+  nucleus: 'text-amber-300',
+  coda: 'text-rose-300',
+  extension: 'text-purple-300',
+};
+
+const SYLLABLE_ROLE_NAMES: Record<SyllableRole, string> = {
+  onset: 'Onset',
+  nucleus: 'Vowel',
+  coda: 'Coda',
+  extension: 'Extension',
+};
+
+/**
+ * Renders one word split into colour-coded syllables. Hovering shows the syllables and their shapes.
+ * @param {object} props - The component's props.
+ * @param {string} props.word - The word.
+ * @param {LanguagePack} props.languagePack - The language pack to split it with.
+ * @param {string} [props.fallbackClassName] - The class of a word that cannot be split.
+ * @param {string} [props.title] - Hover text to show instead of the syllables.
+ */
+export const SyllableWord: React.FC<{ word: string, languagePack: LanguagePack, fallbackClassName?: string, title?: string }> = ({ word, languagePack, fallbackClassName = '', title }) => {
+  const syllables = syllabify(word, languagePack);
+  if (!syllables) return <span className={fallbackClassName} title={title}>{word}</span>;
+
+  return (
+    <span title={title ?? syllables.map(syllable => `${syllable.text} (${syllable.shape})`).join(' · ')}>
+      {syllables.map((syllable, index) => (
+        <React.Fragment key={index}>
+          {index > 0 && <span className="text-gray-600">·</span>}
+          {syllable.segments.map((segment, j) => (
+            <span key={j} className={SYLLABLE_ROLE_COLORS[segment.role]}>{segment.text}</span>
+          ))}
+        </React.Fragment>
+      ))}
+    </span>
+  );
+};
+
+/**
+ * A key to the syllable role colours.
+ */
+export const SyllableLegend = () => (
+  <div className="flex flex-wrap gap-x-3 text-xs">
+    {(Object.keys(SYLLABLE_ROLE_COLORS) as SyllableRole[]).map(role => (
+      <span key={role} className={SYLLABLE_ROLE_COLORS[role]}>{SYLLABLE_ROLE_NAMES[role]}</span>
+    ))}
+  </div>
+);
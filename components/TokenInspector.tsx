@@ -0,0 +1,131 @@
+/**
+ * @file TokenInspector.tsx
+ * @description Shows what the model predicted at every position of a word: the probability it
+ * gave the actual token, how surprised it was (in bits), and the five tokens it found most likely.
+ * Any word can be typed in, and a newly generated (or selected) word is inspected automatically.
+ */
+
+import React, { useState, useEffect } from 'react';
+import { TokenInspection } from '../types';
+import { Tooltip } from './Tooltip';
+
+/**
+ * Renders the word input and the per-position prediction table.
+ * @param {object} props - The component's props.
+ * @param {LanguageModel | null} props.model - The current model. The inspector is disabled without one.
+ * @param {string} props.word - A word to inspect, e.g. the one just generated. Inspected whenever it changes.
+ * @param {(word: string) => Promise<{ positions: TokenInspection[]; skipped: boolean }>} props.onInspect -
+ * Runs the word through the current tokenizer and model. `skipped` is true if part of the word could not be encoded.
+ */
+export const TokenInspector = ({ model, word, onInspect }) => {
+  // The word typed into (or copied into) the input.
+  const [input, setInput] = useState('');
+  // The inspection of the last word, and the word it belongs to.
+  const [result, setResult] = useState<{ word: string; positions: TokenInspection[]; skipped: boolean } | null>(null);
+  const [isInspecting, setIsInspecting] = useState(false);
+
+  /**
+   * Runs the inspection for a word.
+   * @param {string} text - The word to inspect.
+   */
+  const inspect = async (text: string) => {
+    const trimmed = text.trim();
+    if (!model || !trimmed) return;
+    setIsInspecting(true);
+    try {
+      const { positions, skipped } = await onInspect(trimmed);
+      setResult({ word: trimmed, positions, skipped });
+    } catch {
+      setResult(null); // The failure is reported in the training log.
+    } finally {
+      setIsInspecting(false);
+    }
+  };
+
+  // Inspect each new word passed in from the generator.
+  useEffect(() => {
+    if (word) {
+      setInput(word);
+      inspect(word);
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [word]);
+
+  const label = (token: string) => token === ' ' ? '␣' : token;
+  const positions: TokenInspection[] = result?.positions ?? [];
+  const totalSurprisal = positions.reduce((sum, position) => sum + position.surprisal, 0);
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-700">
+      <Tooltip text="Type any word, or generate one, to see what the model predicted at each position. The word is read after <bos> and scored up to the <eos> that ends it, starting from a blank memory, so the same word can be compared across models.">
+        <h3 className="text-md font-medium text-gray-300 mb-2">Token Inspector</h3>
+      </Tooltip>
+      <form
+        className="flex space-x-2 mb-2"
+        onSubmit={(e) => { e.preventDefault(); inspect(input); }}
+      >
+        <input
+          type="text"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          placeholder="e.g. glinder"
+          disabled={!model || isInspecting}
+          className="flex-grow p-2 bg-gray-900 border border-gray-700 rounded-md font-mono text-sm text-gray-300 disabled:opacity-50"
+        />
+        <button
+          type="submit"
+          disabled={!model || isInspecting || !input.trim()}
+          className="px-4 py-2 text-sm rounded-md bg-cyan-600 hover:bg-cyan-700 font-semibold text-white disabled:bg-gray-600 disabled:cursor-not-allowed"
+        >
+          Inspect
+        </button>
+      </form>
+
+      {result && result.skipped && (
+        <p className="text-xs text-orange-400 mb-2">Some of "{result.word}" is not in the model's vocabulary, so it was read as &lt;unk&gt;.</p>
+      )}
+      {result && positions.length > 0 && (
+        <>
+          <p className="text-xs font-mono text-gray-400 mb-2">
+            "{result.word}": total surprisal {totalSurprisal.toFixed(2)} bits ({(totalSurprisal / positions.length).toFixed(2)} per token), probability {Math.pow(2, -totalSurprisal).toExponential(2)}
+          </p>
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs font-mono text-gray-300">
+              <thead>
+                <tr className="text-gray-400 text-left">
+                  <th className="pr-2 py-1">Token</th>
+                  <th className="pr-2 py-1">p</th>
+                  <th className="pr-2 py-1">Bits</th>
+                  <th className="pr-2 py-1">Rank</th>
+                  <th className="py-1">Top 5</th>
+                </tr>
+              </thead>
+              <tbody>
+                {positions.map((position, index) => (
+                  <tr key={index} className="border-t border-gray-700/50">
+                    <td className="pr-2 py-1 text-cyan-300">{label(position.token)}</td>
+                    <td className="pr-2 py-1">{(position.probability * 100).toFixed(1)}%</td>
+                    <td className={`pr-2 py-1 ${position.surprisal > 4 ? 'text-orange-400' : ''}`}>{position.surprisal.toFixed(2)}</td>
+                    <td className="pr-2 py-1">{position.rank}</td>
+                    <td className="py-1">
+                      <div className="flex flex-wrap gap-1">
+                        {position.alternatives.map(alternative => (
+                          <span
+                            key={alternative.token}
+                            className={`px-1 rounded ${alternative.token === position.token ? 'bg-cyan-800 text-white' : 'bg-gray-800 text-gray-400'}`}
+                          >
+                            {label(alternative.token)} {(alternative.probability * 100).toFixed(0)}%
+                          </span>
+                        ))}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,16 @@
+import React from 'react';
+import { Playground } from './Playground';
+
+export const TransformerPlayground = () => {
+  return (
+    <Playground
+      modelType="Transformer"
+      batchSizeLabel="Context Length"
+      batchSizeTooltip="The number of consecutive tokens the Transformer attends over in one training step. Every position can look back at all earlier positions in the window, and one position embedding is learned for each slot, so this also fixes how far back the model can ever see."
+      defaultLearningRate={0.05}
+      defaultHiddenSize={64}
+      defaultEpochs={100}
+      defaultBatchSize={32}
+    />
+  );
+};
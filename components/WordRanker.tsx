@@ -0,0 +1,113 @@
+/**
+ * @file WordRanker.tsx
+ * @description A "wug test" for the model: paste a list of made-up words and see them ranked by how
+ * likely the model finds them, next to the phonotactic validator's verdict on each one.
+ */
+
+import React, { useState } from 'react';
+import { WordScore } from '../types';
+import { parseWordList, rankAgreement } from '../services/wordScoring';
+import { Tooltip } from './Tooltip';
+
+// A starting list mixing words the validator accepts with ones it rejects.
+const EXAMPLE_WORDS = 'blick, glinder, strome, plonk, wug, bnick, lbick, ngast, tlorp, srasp';
+
+/**
+ * Renders the candidate list input and the ranked results.
+ * @param {object} props - The component's props.
+ * @param {LanguageModel | null} props.model - The current model. The ranker is disabled without one.
+ * @param {(words: string[], perToken: boolean) => Promise<WordScore[]>} props.onRankWords - Scores the words
+ * with the current tokenizer and model and resolves with them most likely first.
+ */
+export const WordRanker = ({ model, onRankWords }) => {
+  const [input, setInput] = useState(EXAMPLE_WORDS);
+  // If true, rank by perplexity so that long words are not penalized for their length.
+  const [perToken, setPerToken] = useState(false);
+  const [ranked, setRanked] = useState<WordScore[]>([]);
+  const [isRanking, setIsRanking] = useState(false);
+
+  const handleRank = async () => {
+    if (!model) return;
+    setIsRanking(true);
+    try {
+      setRanked(await onRankWords(parseWordList(input), perToken));
+    } catch {
+      setRanked([]); // The failure is reported in the training log.
+    } finally {
+      setIsRanking(false);
+    }
+  };
+
+  const agreement = rankAgreement(ranked);
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-700">
+      <Tooltip text="Paste made-up words, one per line or separated by commas, and rank them by how likely the model finds them. The validator's verdict is shown next to each, so you can see whether the network has learned the same rules as the hand-written phonotactics.">
+        <h3 className="text-md font-medium text-gray-300 mb-2">Word Ranking</h3>
+      </Tooltip>
+      <textarea
+        value={input}
+        onChange={(e) => setInput(e.target.value)}
+        rows={3}
+        disabled={!model}
+        className="w-full p-2 bg-gray-900 border border-gray-700 rounded-md font-mono text-sm text-gray-300 disabled:opacity-50"
+      />
+      <div className="flex items-center justify-between mt-2 mb-2">
+        <div className="flex items-center">
+          <input
+            id="rank-per-token"
+            type="checkbox"
+            checked={perToken}
+            onChange={(e) => setPerToken(e.target.checked)}
+            className="h-4 w-4 rounded border-gray-600 bg-gray-800 text-cyan-600 focus:ring-cyan-500"
+          />
+          <label htmlFor="rank-per-token" className="ml-2 text-sm font-medium text-gray-300">Rank by perplexity</label>
+        </div>
+        <button
+          onClick={handleRank}
+          disabled={!model || isRanking || !input.trim()}
+          className="px-4 py-2 text-sm rounded-md bg-cyan-600 hover:bg-cyan-700 font-semibold text-white disabled:bg-gray-600 disabled:cursor-not-allowed"
+        >
+          Rank
+        </button>
+      </div>
+
+      {ranked.length > 0 && (
+        <>
+          {agreement !== null && (
+            <p className="text-xs font-mono text-gray-400 mb-2">
+              Agreement with the validator: {(agreement * 100).toFixed(0)}% of good/bad pairs have the good word ranked higher.
+            </p>
+          )}
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs font-mono text-gray-300">
+              <thead>
+                <tr className="text-gray-400 text-left">
+                  <th className="pr-2 py-1">#</th>
+                  <th className="pr-2 py-1">Word</th>
+                  <th className="pr-2 py-1">log p</th>
+                  <th className="pr-2 py-1">PPL</th>
+                  <th className="py-1">Rules</th>
+                </tr>
+              </thead>
+              <tbody>
+                {ranked.map((score, index) => (
+                  <tr key={score.word} className="border-t border-gray-700/50">
+                    <td className="pr-2 py-1 text-gray-500">{index + 1}</td>
+                    <td className="pr-2 py-1 text-cyan-300" title={score.tokens.join(' · ')}>
+                      {score.word}
+                      {score.skipped && <span className="text-orange-400" title="Part of this word is not in the vocabulary, so it was read as <unk>."> *</span>}
+                    </td>
+                    <td className="pr-2 py-1">{score.logLikelihood.toFixed(2)}</td>
+                    <td className="pr-2 py-1">{score.perplexity.toFixed(2)}</td>
+                    <td className={`py-1 ${score.isGood ? 'text-green-400' : 'text-red-400'}`}>{score.isGood ? '✓ good' : '✗ bad'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
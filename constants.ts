@@ -6,13 +6,7 @@
 
 // FIX: Replaced a faulty import with a local definition for BpeMerges to resolve a type error.
 
-/**
- * The default corpus of text the language model will train on.
- * This text is composed of plausible-sounding, non-English words designed to teach
- * the model the phonotactic rules of English-like syllable structures (e.g., which
- * consonant clusters are common at the beginning or end of words).
- */
-export const DEFAULT_TRAINING_TEXT = "bresh glonder frasp splonder glant trunder vasp skam dromble slorbin drendle glantish plonder gloster glonker sprottle plinset framble prantlet slin cromp crin vask splet smet trish stram glomner plet flonker glinster frant drump smoodle crinter prundle sterm prish flinner part slimp grindlet drem gremp skinling smek closm flusk claster sprakin glimset plinder band frog prant drint blet glomster splamp flunt glant vlem splat slish skender flet glarnder crish plim blent closter fromp snish bren glinter drat sponder blisket vash glarlet snoster pramp plish fren glasket drinder spash crarlet splet bloster snent glinder prash flarlet clent crinder plasket voster spish drent gloster flasket prinder slent bren clasket blinder snash drender prasket vinder flet sninder slasket crinder spamp plet brinder blasket flent sh crinder prant blet sninder spasket vinder plamp drent clinder frasket plet glinder spinder brent snasket pramp vlet frinder blasket snent glinder splet prant plet blent sninder clasket drent glinder prasket snent blinder spamp vlet glinder spinder brent snasket";
+import { BPTTConfig, DecodingConfig, GradientClippingConfig, SamplingConfig, LRScheduleConfig, OptimizerConfig, SubwordRegularizationConfig, CoachingRewardConfig, CoachingUpdateConfig } from './types';
 
 /**
  * The number of consecutive epochs without improvement in loss before early stopping is triggered.
@@ -21,8 +15,138 @@ export const DEFAULT_TRAINING_TEXT = "bresh glonder frasp splonder glant trunder
 export const EARLY_STOPPING_PATIENCE = 5;
 
 /**
- * When early stopping triggers a fine-tuning phase, the learning rate will be decayed
- * until it reaches this multiplier of its original value. This allows for smaller,
- * more precise adjustments at the end of training.
+ * The minimum time, in milliseconds, between two progress events sent from the training worker.
+ * Throttling keeps the UI responsive no matter how many training steps run per second.
+ */
+export const PROGRESS_EVENT_INTERVAL_MS = 100;
+
+/**
+ * How long, in milliseconds, the training worker runs steps before yielding so that it can
+ * receive incoming messages such as "pause".
+ */
+export const TRAINING_SLICE_MS = 30;
+
+/**
+ * The default optimizer settings. Plain SGD matches how the playgrounds have always trained;
+ * the other values are the commonly used defaults for each algorithm.
+ */
+export const DEFAULT_OPTIMIZER_CONFIG: OptimizerConfig = {
+  type: 'sgd',
+  momentum: 0.9,
+  rho: 0.9,
+  beta1: 0.9,
+  beta2: 0.999,
+  epsilon: 1e-8,
+  weightDecay: 0.01,
+};
+
+/**
+ * The default gradient clipping. Clamping every gradient value to [-5, 5] matches how the
+ * playgrounds have always trained.
+ */
+export const DEFAULT_GRADIENT_CLIPPING: GradientClippingConfig = {
+  type: 'value',
+  threshold: 5,
+};
+
+/**
+ * The default truncated-BPTT settings: a single stream whose hidden state is carried from one
+ * sequence to the next, as the recurrent playgrounds have always trained.
+ */
+export const DEFAULT_BPTT_CONFIG: BPTTConfig = {
+  numStreams: 1,
+  statePolicy: 'carry',
+};
+
+/**
+ * The default sampling settings: plain temperature sampling at the temperature generation has
+ * always used, with the other strategies' settings ready for when they are picked.
+ */
+export const DEFAULT_SAMPLING_CONFIG: SamplingConfig = {
+  strategy: 'temperature',
+  temperature: 1.1,
+  topK: 5,
+  topP: 0.9,
+  typicalP: 0.9,
+  minP: 0.05,
+  repetitionPenalty: 1,
+  frequencyPenalty: 0,
+};
+
+/**
+ * The default decoding settings. Sampling keeps generated words varied; the beam settings take
+ * effect when a beam search strategy is picked.
+ */
+export const DEFAULT_DECODING_CONFIG: DecodingConfig = {
+  strategy: 'sample',
+  phonotacticMask: false,
+  beamWidth: 5,
+  lengthPenalty: 0.6,
+  numGroups: 2,
+  diversityPenalty: 0.5,
+};
+
+/**
+ * The default learning-rate schedule. Reduce-on-plateau halves the rate whenever the loss
+ * stalls, giving the small, precise updates that help at the end of training. Its patience
+ * is shorter than EARLY_STOPPING_PATIENCE so that it gets a chance to act before training stops.
+ */
+export const DEFAULT_LR_SCHEDULE_CONFIG: LRScheduleConfig = {
+  type: 'plateau',
+  warmupEpochs: 0,
+  stepSize: 10,
+  gamma: 0.5,
+  restartPeriod: 10,
+  restartMultiplier: 2,
+  pctStart: 0.3,
+  plateauFactor: 0.5,
+  plateauPatience: 2,
+  minLRFactor: 0.1,
+};
+
+/**
+ * The default size of each token's embedding vector. Much smaller than a BPE vocabulary,
+ * which is what makes an embedding lookup cheaper than a one-hot input.
+ */
+export const DEFAULT_EMBEDDING_DIM = 16;
+
+/**
+ * The default number of previous tokens the FFNN reads. Three is enough to see a whole
+ * onset cluster such as "spl" before predicting the vowel that follows it.
+ */
+export const DEFAULT_CONTEXT_SIZE = 3;
+
+/**
+ * The default number of attention heads in the Transformer. Two heads let it track, for example,
+ * the current syllable and the start of the word at the same time.
+ */
+export const DEFAULT_NUM_HEADS = 2;
+
+/**
+ * The default subword regularization: off, so a Unigram tokenizer segments the text the same
+ * way every epoch unless asked otherwise. An alpha of 0.5 mixes in alternatives fairly often.
+ */
+export const DEFAULT_SUBWORD_REGULARIZATION: SubwordRegularizationConfig = {
+  enabled: false,
+  alpha: 0.5,
+};
+
+/**
+ * The default auto-coach reward: the validator's pass/fail verdict. In graded mode, a threshold of
+ * 0.3 lets through most words built from the corpus's common clusters, even in a small corpus.
+ */
+export const DEFAULT_COACHING_REWARD: CoachingRewardConfig = {
+  mode: 'pass-fail',
+  threshold: 0.3,
+};
+
+/**
+ * The default coaching update: supervised retraining on good words. For the policy gradient, a
+ * baseline decay of 0.9 averages over roughly the last ten rewards, and a light KL penalty keeps
+ * the coached model near the reference.
  */
-export const FINAL_LR_MULTIPLIER = 0.1;
+export const DEFAULT_COACHING_UPDATE: CoachingUpdateConfig = {
+  method: 'supervised',
+  baselineDecay: 0.9,
+  klPenalty: 0.1,
+};
@@ -5,21 +5,82 @@
  * merges the most frequent adjacent pairs into new, single tokens. This allows the model
  * to learn representations for common character sequences (like 'ing' or 'the') instead of
  * just single characters, which can be more efficient.
+ *
+ * The text is first split on whitespace, so merges never cross a word boundary and the space
+ * stays a token of its own. Training works on the distinct words weighted by how often they occur,
+ * and keeps the pair counts up to date as it merges instead of recounting them, so large
+ * vocabularies train quickly. Encoding applies the merges to one word at a time by rank and
+ * caches the result for every word it has seen.
  */
 
+import { BpeMerges } from '../types';
+
+// Pair keys pack two token IDs into one number: first * PAIR_KEY_BASE + second.
+const PAIR_KEY_BASE = 1 << 20;
 
 /**
- * Counts the frequency of adjacent pairs of token IDs in a sequence.
- * @param ids - An array of numerical token IDs.
- * @returns A Map where keys are "ID1,ID2" strings and values are their counts.
+ * Splits text into runs of whitespace and runs of everything else (the words).
+ * @param text - The raw text.
+ * @returns The chunks, in order. Joining them gives back the text.
  */
-const getStats = (ids: number[]): Map<string, number> => {
-    const counts = new Map<string, number>();
-    for (let i = 0; i < ids.length - 1; i++) {
-        const pair = `${ids[i]},${ids[i+1]}`;
-        counts.set(pair, (counts.get(pair) || 0) + 1);
-    }
-    return counts;
+const preTokenize = (text: string): string[] => text.match(/\s+|\S+/g) ?? [];
+
+/**
+ * Checks whether a chunk from `preTokenize` is whitespace. Whitespace is never merged.
+ * @param chunk - The chunk.
+ */
+const isWhitespace = (chunk: string): boolean => /^\s/.test(chunk);
+
+/**
+ * A max-heap of pair counts. Entries are not updated in place: a changed count is pushed again,
+ * and stale entries are skipped when they reach the top.
+ */
+const createPairHeap = () => {
+    const counts: number[] = [];
+    const keys: number[] = [];
+
+    // Orders by count, then by the smaller pair key, so that training is deterministic.
+    const above = (i: number, j: number) => counts[i] > counts[j] || (counts[i] === counts[j] && keys[i] < keys[j]);
+    const swap = (i: number, j: number) => {
+        [counts[i], counts[j]] = [counts[j], counts[i]];
+        [keys[i], keys[j]] = [keys[j], keys[i]];
+    };
+
+    return {
+        push: (count: number, key: number) => {
+            counts.push(count);
+            keys.push(key);
+            let i = counts.length - 1;
+            while (i > 0) {
+                const parent = (i - 1) >> 1;
+                if (!above(i, parent)) break;
+                swap(i, parent);
+                i = parent;
+            }
+        },
+        pop: (): { count: number; key: number } | null => {
+            if (counts.length === 0) return null;
+            const top = { count: counts[0], key: keys[0] };
+            const lastCount = counts.pop()!;
+            const lastKey = keys.pop()!;
+            if (counts.length > 0) {
+                counts[0] = lastCount;
+                keys[0] = lastKey;
+                let i = 0;
+                while (true) {
+                    const left = 2 * i + 1;
+                    const right = left + 1;
+                    let best = i;
+                    if (left < counts.length && above(left, best)) best = left;
+                    if (right < counts.length && above(right, best)) best = right;
+                    if (best === i) break;
+                    swap(i, best);
+                    i = best;
+                }
+            }
+            return top;
+        },
+    };
 };
 
 /**
@@ -47,23 +108,54 @@ const merge = (ids: number[], pair: number[], idx: number): number[] => {
     return newIds;
 };
 
-
 /**
  * Trains a BPE tokenizer on a given text.
  * @param text - The raw training text.
- * @param vocabSize - The target final vocabulary size.
+ * @param vocabSize - The target final vocabulary size. Training stops early if every word
+ * has been merged into a single token.
  * @returns An object containing the learned `merges` map and the final `vocab` map.
  */
 export const trainBPE = (text: string, vocabSize: number) => {
     // The first 256 tokens are reserved for the raw UTF-8 bytes.
     let numMerges = vocabSize - 256;
     if (numMerges < 0) numMerges = 0;
-    
-    // Start by encoding the text into a sequence of raw bytes (0-255).
+
+    // Count the distinct words. Each is merged once and its pairs count as often as it occurs.
+    const wordCounts = new Map<string, number>();
+    for (const chunk of preTokenize(text)) {
+        if (!isWhitespace(chunk)) wordCounts.set(chunk, (wordCounts.get(chunk) || 0) + 1);
+    }
     const textEncoder = new TextEncoder();
-    let ids = Array.from(textEncoder.encode(text));
-    
-    const merges: Map<string, number> = new Map();
+    const words: number[][] = [];
+    const weights: number[] = [];
+    for (const [word, count] of wordCounts) {
+        words.push(Array.from(textEncoder.encode(word)));
+        weights.push(count);
+    }
+
+    // The count of every adjacent pair, and the words it appears in. A word can stay listed
+    // under a pair after its last occurrence is merged away; merging it again is a no-op.
+    const pairCounts = new Map<number, number>();
+    const pairWords = new Map<number, Set<number>>();
+    const addPairs = (w: number, sign: number, touched: Set<number>) => {
+        const ids = words[w];
+        for (let i = 0; i < ids.length - 1; i++) {
+            const key = ids[i] * PAIR_KEY_BASE + ids[i + 1];
+            pairCounts.set(key, (pairCounts.get(key) || 0) + sign * weights[w]);
+            touched.add(key);
+            if (sign > 0) {
+                let wordSet = pairWords.get(key);
+                if (!wordSet) pairWords.set(key, wordSet = new Set());
+                wordSet.add(w);
+            }
+        }
+    };
+    const initialPairs = new Set<number>();
+    words.forEach((_, w) => addPairs(w, 1, initialPairs));
+    const heap = createPairHeap();
+    initialPairs.forEach(key => heap.push(pairCounts.get(key)!, key));
+
+    const merges: BpeMerges = new Map();
     // This `byteVocab` keeps track of the byte sequence for each token ID.
     // It's essential for correctly decoding tokens back into strings.
     const byteVocab: { [key: number]: number[] } = {};
@@ -71,24 +163,34 @@ export const trainBPE = (text: string, vocabSize: number) => {
         byteVocab[i] = [i];
     }
 
-    // The main training loop: perform `numMerges` merge operations.
-    for (let i = 0; i < numMerges; i++) {
-        const stats = getStats(ids);
-        if (stats.size === 0) break; // Stop if there are no more pairs to merge.
-        
-        // Find the most frequent pair.
-        const topPairStr = Array.from(stats.entries()).reduce((a, b) => a[1] > b[1] ? a : b)[0];
-        const topPair = topPairStr.split(',').map(Number);
-        
-        const idx = 256 + i; // The new token ID for the merged pair.
-        
-        // Replace all occurrences of the top pair with the new token ID.
-        ids = merge(ids, topPair, idx);
-        merges.set(topPairStr, idx);
-        
+    // The main training loop: perform up to `numMerges` merge operations.
+    while (merges.size < numMerges) {
+        // Find the most frequent pair, skipping heap entries whose count has since changed.
+        const top = heap.pop();
+        if (!top) break; // Stop if there are no more pairs to merge.
+        if (top.count <= 0 || pairCounts.get(top.key) !== top.count) continue;
+
+        const topPair = [Math.floor(top.key / PAIR_KEY_BASE), top.key % PAIR_KEY_BASE];
+        const idx = 256 + merges.size; // The new token ID for the merged pair.
+
+        // Re-count only the words that contain the pair.
+        const touched = new Set<number>();
+        for (const w of pairWords.get(top.key)!) {
+            addPairs(w, -1, touched);
+            words[w] = merge(words[w], topPair, idx);
+            addPairs(w, 1, touched);
+        }
+        pairWords.delete(top.key);
+        touched.forEach(key => {
+            const count = pairCounts.get(key)!;
+            if (count > 0) heap.push(count, key);
+            else pairCounts.delete(key);
+        });
+        merges.set(`${topPair[0]},${topPair[1]}`, idx);
+
         // The byte sequence for the new token is the concatenation of its children's sequences.
         const [p1, p2] = topPair;
-        byteVocab[idx] = [...(byteVocab[p1] || [p1]), ...(byteVocab[p2] || [p2])];
+        byteVocab[idx] = [...byteVocab[p1], ...byteVocab[p2]];
     }
 
     // Create the final, human-readable string vocabulary by decoding the byte sequences.
@@ -98,29 +200,73 @@ export const trainBPE = (text: string, vocabSize: number) => {
         vocab[parseInt(idStr, 10)] = decoder.decode(new Uint8Array(byteVocab[idStr]));
     }
 
-
     return { merges, vocab };
 };
 
+/**
+ * Creates an encoder for a pre-trained BPE model. Each word is encoded by repeatedly merging
+ * its adjacent pair with the lowest rank (the earliest learned merge), which gives the same tokens
+ * as applying every merge in training order, and the result is cached for the next time the word appears.
+ * @param merges - The learned merge rules from training.
+ * @returns A function that encodes a text string into an array of numerical token IDs.
+ */
+export const createBPEEncoder = (merges: BpeMerges): ((text: string) => number[]) => {
+    const textEncoder = new TextEncoder();
+    const cache = new Map<string, number[]>();
+
+    const encodeWord = (word: string): number[] => {
+        let ids: number[] = Array.from(textEncoder.encode(word));
+        while (ids.length > 1) {
+            // Find the pair that was merged first during training.
+            let bestPair: number[] | null = null;
+            let bestIdx = Infinity;
+            for (let i = 0; i < ids.length - 1; i++) {
+                const idx = merges.get(`${ids[i]},${ids[i + 1]}`);
+                if (idx !== undefined && idx < bestIdx) {
+                    bestIdx = idx;
+                    bestPair = [ids[i], ids[i + 1]];
+                }
+            }
+            if (!bestPair) break;
+            ids = merge(ids, bestPair, bestIdx);
+        }
+        return ids;
+    };
+
+    return (text: string) => {
+        const ids: number[] = [];
+        for (const chunk of preTokenize(text)) {
+            if (isWhitespace(chunk)) {
+                ids.push(...textEncoder.encode(chunk));
+                continue;
+            }
+            let encoded = cache.get(chunk);
+            if (!encoded) {
+                encoded = encodeWord(chunk);
+                cache.set(chunk, encoded);
+            }
+            ids.push(...encoded);
+        }
+        return ids;
+    };
+};
+
+// One encoder (and so one word cache) per set of merges.
+const encoders = new WeakMap<BpeMerges, (text: string) => number[]>();
 
 /**
  * Encodes a text string into token IDs using a pre-trained BPE model.
- * Note: This is a simplified greedy implementation for educational purposes.
  * @param text - The raw text to encode.
  * @param merges - The learned merge rules from training.
  * @returns An array of numerical token IDs.
  */
-export const encodeBPE = (text: string, merges: Map<string, number>): number[] => {
-    const textEncoder = new TextEncoder();
-    let ids: number[] = Array.from(textEncoder.encode(text));
-    
-    // Apply all the learned merge rules in order.
-    for (const [pairStr, idx] of merges.entries()) {
-        const pair = pairStr.split(',').map(Number);
-        ids = merge(ids, pair, idx);
+export const encodeBPE = (text: string, merges: BpeMerges): number[] => {
+    let encoder = encoders.get(merges);
+    if (!encoder) {
+        encoder = createBPEEncoder(merges);
+        encoders.set(merges, encoder);
     }
-    
-    return ids;
+    return encoder(text);
 };
 
 /**
@@ -12,9 +12,10 @@
  * @param text - The raw text to encode.
  * @param vocab - The custom vocabulary, an array of strings sorted by length descending.
  * @param tokenToIndex - A map from token strings to their integer IDs.
+ * @param unkIndex - The ID of the `<unk>` token, used for characters no token covers. They are skipped without one.
  * @returns An array of numerical token IDs.
  */
-export const encodeCustom = (text: string, vocab: string[], tokenToIndex: { [key: string]: number }): number[] => {
+export const encodeCustom = (text: string, vocab: string[], tokenToIndex: { [key: string]: number }, unkIndex?: number): number[] => {
     // vocab is assumed to be sorted by length descending.
     const encoded: number[] = [];
     let i = 0;
@@ -32,8 +33,9 @@ export const encodeCustom = (text: string, vocab: string[], tokenToIndex: { [key
         }
       }
       if (!matchFound) {
-        // This should not happen if the vocab is constructed correctly
-        // to include all single characters from the text, but as a fallback, we skip the character.
+        // This should not happen for the training text, since the vocab is constructed to include
+        // all of its single characters, but other text (e.g. a typed word) may have new ones.
+        if (unkIndex !== undefined) encoded.push(unkIndex);
         i++;
       }
     }
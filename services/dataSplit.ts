@@ -0,0 +1,57 @@
+/**
+ * @file dataSplit.ts
+ * @description Splits the training text into a training set and a held-out validation set.
+ * The split is made by whole words, so no word is ever cut in half between the two sets, and
+ * it is seeded so the same text and fraction always produce the same split.
+ */
+
+/**
+ * A small seeded pseudo-random number generator (mulberry32), so splits are reproducible.
+ * @param seed - The seed.
+ * @returns A function that returns numbers in [0, 1).
+ */
+const createRandom = (seed: number) => {
+    let a = seed >>> 0;
+    return () => {
+        a = (a + 0x6D2B79F5) >>> 0;
+        let t = a;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+/**
+ * Splits a text into training and validation sets by word.
+ * Words are picked for validation at random (but reproducibly) and keep their original order in both sets.
+ * @param text - The full text.
+ * @param validationFraction - The fraction of words to hold out, from 0 to 1.
+ * @param seed - The random seed. Defaults to 42.
+ * @returns The training text and the validation text (empty if nothing was held out).
+ */
+export const splitTrainValidation = (
+    text: string,
+    validationFraction: number,
+    seed = 42
+): { trainText: string; validationText: string } => {
+    const words = text.split(/\s+/).filter(Boolean);
+    const validationCount = Math.floor(words.length * validationFraction);
+    // Always leave at least one word to train on.
+    if (validationCount <= 0 || validationCount >= words.length) {
+        return { trainText: text, validationText: '' };
+    }
+
+    // Shuffle the word positions and hold out the first `validationCount` of them.
+    const random = createRandom(seed);
+    const order = words.map((_, i) => i);
+    for (let i = order.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [order[i], order[j]] = [order[j], order[i]];
+    }
+    const heldOut = new Set(order.slice(0, validationCount));
+
+    const trainWords: string[] = [];
+    const validationWords: string[] = [];
+    words.forEach((word, i) => (heldOut.has(i) ? validationWords : trainWords).push(word));
+    return { trainText: trainWords.join(' '), validationText: validationWords.join(' ') };
+};
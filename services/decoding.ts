@@ -0,0 +1,381 @@
+/**
+ * @file decoding.ts
+ * @description Turns a model's next-token predictions into words. Every architecture exposes the
+ * same pure step function (`createStepFunction` in `languageModel.ts`), so one set of decoders
+ * works for all of them: sampling, greedy decoding, beam search with a length penalty, and
+ * diverse beam search. Sampling can be narrowed with top-k, nucleus (top-p), typical or min-p
+ * filtering, and words that repeat themselves can be penalized. Constraints, such as a minimum
+ * word length, are applied to the log-probabilities before any decoder sees them.
+ */
+
+import { DecodingConfig, DecodingStrategy, SamplingConfig, SamplingStrategy } from '../types';
+import { argmax, softmaxInPlace } from './matrix';
+import { DEFAULT_SAMPLING_CONFIG } from '../constants';
+
+/**
+ * Display names for the decoding strategies, used by the strategy dropdown.
+ */
+export const DECODING_STRATEGY_LABELS: { [key in DecodingStrategy]: string } = {
+    'sample': 'Sampling',
+    'greedy': 'Greedy',
+    'beam': 'Beam Search',
+    'diverse-beam': 'Diverse Beam Search',
+};
+
+/**
+ * Display names for the sampling strategies, used by the strategy dropdown.
+ */
+export const SAMPLING_STRATEGY_LABELS: { [key in SamplingStrategy]: string } = {
+    'temperature': 'Temperature Only',
+    'top-k': 'Top-k',
+    'top-p': 'Nucleus (Top-p)',
+    'typical': 'Typical',
+    'min-p': 'Min-p',
+};
+
+/**
+ * Summarizes a sampling configuration in a few words, e.g. "Top-k: k=5, T=1.10".
+ * Used to tell the strategies apart when their auto-coach pass rates are compared.
+ */
+export const describeSampling = (sampling: SamplingConfig): string => {
+    const parts: string[] = [];
+    switch (sampling.strategy) {
+        case 'top-k': parts.push(`k=${sampling.topK}`); break;
+        case 'top-p': parts.push(`p=${sampling.topP.toFixed(2)}`); break;
+        case 'typical': parts.push(`p=${sampling.typicalP.toFixed(2)}`); break;
+        case 'min-p': parts.push(`p=${sampling.minP.toFixed(2)}`); break;
+    }
+    parts.push(`T=${sampling.temperature.toFixed(2)}`);
+    if (sampling.repetitionPenalty !== 1) parts.push(`rep=${sampling.repetitionPenalty.toFixed(1)}`);
+    if (sampling.frequencyPenalty !== 0) parts.push(`freq=${sampling.frequencyPenalty.toFixed(1)}`);
+    return `${SAMPLING_STRATEGY_LABELS[sampling.strategy]}: ${parts.join(', ')}`;
+};
+
+/**
+ * A model seen one token at a time. `step` never modifies the state it is given, so a beam
+ * search can branch from the same state several times.
+ */
+export interface StepFunction<S = unknown> {
+    initialState: () => S;
+    step: (state: S, inputIndex: number) => { logits: Float64Array; state: S };
+}
+
+/**
+ * Removes tokens that may not come next by setting their log-probabilities to -Infinity.
+ * @param tokens - The tokens generated so far (not counting the prefix).
+ * @param logProbs - The log-probabilities of the next token. Modified in place.
+ */
+export type TokenConstraint = (tokens: number[], logProbs: Float64Array) => void;
+
+/**
+ * A finished (or abandoned at the length limit) decoding.
+ */
+export interface Hypothesis {
+    tokens: number[];     // The generated tokens, without the prefix or the end token.
+    ended: boolean;       // Whether the end token was chosen, rather than the length limit reached.
+    logProb: number;      // The total log-probability of the tokens (and of the end token, if one was chosen).
+    score: number;        // The log-probability after the length penalty, used for ranking.
+    maskedMass: number[]; // For each choice (each token, then the end), the probability the constraint removed.
+}
+
+/**
+ * Forbids the end token until at least `minLength` tokens have been generated.
+ * @param endIndex - The token that ends a word.
+ * @param minLength - The fewest tokens a word may have.
+ */
+export const minLengthConstraint = (endIndex: number, minLength: number): TokenConstraint =>
+    (tokens, logProbs) => {
+        if (tokens.length < minLength) logProbs[endIndex] = -Infinity;
+    };
+
+/**
+ * Forbids a fixed set of tokens at every step, such as the reserved tokens that never appear inside a word.
+ * @param indices - The forbidden tokens.
+ */
+export const forbidTokensConstraint = (indices: number[]): TokenConstraint =>
+    (_tokens, logProbs) => {
+        for (const index of indices) logProbs[index] = -Infinity;
+    };
+
+/**
+ * Applies several constraints one after another.
+ * @param constraints - The constraints. Missing ones are skipped.
+ */
+export const combineConstraints = (...constraints: (TokenConstraint | undefined)[]): TokenConstraint =>
+    (tokens, logProbs) => {
+        for (const constraint of constraints) constraint?.(tokens, logProbs);
+    };
+
+/**
+ * Computes log(softmax(logits)).
+ */
+const logSoftmax = (logits: Float64Array): Float64Array => {
+    let maxVal = -Infinity;
+    for (let i = 0; i < logits.length; i++) if (logits[i] > maxVal) maxVal = logits[i];
+    let sum = 0;
+    for (let i = 0; i < logits.length; i++) sum += Math.exp(logits[i] - maxVal);
+    const logSum = maxVal + Math.log(sum);
+    return logits.map(v => v - logSum);
+};
+
+/**
+ * The log-probabilities of the next token after the constraint has removed the forbidden ones.
+ * The rest are renormalized so they still sum to one. If the constraint would forbid everything,
+ * it is ignored rather than leaving the decoder stuck.
+ * @returns The log-probabilities, and how much of the model's probability the constraint removed.
+ */
+const nextLogProbs = (logits: Float64Array, tokens: number[], constraint?: TokenConstraint): { logProbs: Float64Array; maskedMass: number } => {
+    const logProbs = logSoftmax(logits);
+    if (!constraint) return { logProbs, maskedMass: 0 };
+    const constrained = Float64Array.from(logProbs);
+    constraint(tokens, constrained);
+    if (!constrained.some(Number.isFinite)) return { logProbs, maskedMass: 0 };
+    let maskedMass = 0;
+    constrained.forEach((value, index) => { if (value === -Infinity) maskedMass += Math.exp(logProbs[index]); });
+    return { logProbs: logSoftmax(constrained), maskedMass };
+};
+
+/**
+ * Ranks a hypothesis by its log-probability divided by its length raised to `lengthPenalty`.
+ * A penalty of 0 compares raw log-probabilities, which favors short words; 1 compares the
+ * average log-probability per token.
+ */
+const scoreHypothesis = (tokens: number[], logProb: number, ended: boolean, lengthPenalty: number, maskedMass: number[]): Hypothesis => {
+    const length = Math.max(1, tokens.length + (ended ? 1 : 0));
+    return { tokens, ended, logProb, score: logProb / Math.pow(length, lengthPenalty), maskedMass };
+};
+
+/**
+ * Keeps the `mass` most probable share of a distribution: tokens are taken in the given order
+ * until their probabilities add up to `mass`, and the rest are zeroed. At least one token is kept.
+ */
+const keepUntilMass = (probs: Float64Array, order: number[], mass: number) => {
+    let cumulativeProb = 0;
+    let kept = 0;
+    for (const index of order) {
+        if (kept > 0 && cumulativeProb >= mass) {
+            probs[index] = 0;
+            continue;
+        }
+        cumulativeProb += probs[index];
+        kept++;
+    }
+};
+
+/**
+ * Turns the log-probabilities of the next token into the distribution that sampling draws from.
+ * The repetition and frequency penalties are applied first, then the temperature, and finally the
+ * strategy's filter zeroes the tokens that may not be sampled. The rest are renormalized.
+ * @param logProbs - The log-probabilities of the next token. Not modified.
+ * @param tokens - The tokens generated so far, which the penalties discourage repeating.
+ * @param sampling - The sampling settings.
+ * @returns The probabilities to sample from.
+ */
+export const samplingDistribution = (logProbs: Float64Array, tokens: number[], sampling: SamplingConfig): Float64Array => {
+    const probs = Float64Array.from(logProbs);
+    const counts = new Map<number, number>();
+    tokens.forEach(token => counts.set(token, (counts.get(token) ?? 0) + 1));
+    counts.forEach((count, token) => {
+        if (!Number.isFinite(probs[token])) return;
+        // Log-probabilities are negative, so multiplying by a penalty above 1 makes a token less likely.
+        probs[token] = probs[token] * sampling.repetitionPenalty - sampling.frequencyPenalty * count;
+    });
+    softmaxInPlace(probs, sampling.temperature);
+
+    const byProbability = Array.from(probs.keys()).sort((a, b) => probs[b] - probs[a]);
+    switch (sampling.strategy) {
+        case 'top-k':
+            byProbability.slice(Math.max(1, sampling.topK)).forEach(index => { probs[index] = 0; });
+            break;
+        case 'top-p':
+            keepUntilMass(probs, byProbability, sampling.topP);
+            break;
+        case 'typical': {
+            // Typical sampling prefers tokens whose surprisal is close to the expected surprisal (the entropy).
+            let entropy = 0;
+            probs.forEach(p => { if (p > 0) entropy -= p * Math.log(p); });
+            const distance = (index: number) => probs[index] > 0 ? Math.abs(-Math.log(probs[index]) - entropy) : Infinity;
+            const byTypicality = Array.from(probs.keys()).sort((a, b) => distance(a) - distance(b));
+            keepUntilMass(probs, byTypicality, sampling.typicalP);
+            break;
+        }
+        case 'min-p': {
+            const threshold = sampling.minP * probs[byProbability[0]];
+            probs.forEach((p, index) => { if (p < threshold) probs[index] = 0; });
+            break;
+        }
+        case 'temperature':
+        default:
+            break;
+    }
+
+    let total = 0;
+    probs.forEach(p => { total += p; });
+    return total > 0 ? probs.map(p => p / total) : probs;
+};
+
+/**
+ * Draws a token from a distribution.
+ * @param probs - The probabilities of each token, summing to one.
+ * @returns The index of the sampled token.
+ */
+const sampleIndex = (probs: Float64Array): number => {
+    const rand = Math.random();
+    let cumulativeProb = 0;
+    for (let j = 0; j < probs.length; j++) {
+        cumulativeProb += probs[j];
+        if (rand < cumulativeProb) return j;
+    }
+    // Rounding can leave the total just under one; fall back to the last token that could be chosen.
+    for (let j = probs.length - 1; j >= 0; j--) if (probs[j] > 0) return j;
+    return probs.length - 1;
+};
+
+/**
+ * Decodes one word by repeatedly taking a single next token, either the most likely one or a sample.
+ */
+const decodeSingle = <S>(
+    stepper: StepFunction<S>,
+    start: { state: S; logits: Float64Array },
+    maxLength: number,
+    endIndex: number | undefined,
+    pickGreedy: boolean,
+    sampling: SamplingConfig,
+    constraint?: TokenConstraint
+): Hypothesis => {
+    let { state, logits } = start;
+    const tokens: number[] = [];
+    const maskedMass: number[] = [];
+    let logProb = 0;
+    for (let i = 0; i < maxLength; i++) {
+        const next = nextLogProbs(logits, tokens, constraint);
+        const logProbs = next.logProbs;
+        maskedMass.push(next.maskedMass);
+        // The model's own log-probability is recorded, not that of the reshaped sampling distribution.
+        const chosen = pickGreedy ? argmax(logProbs) : sampleIndex(samplingDistribution(logProbs, tokens, sampling));
+        logProb += logProbs[chosen];
+        if (chosen === endIndex) return scoreHypothesis(tokens, logProb, true, 0, maskedMass);
+        tokens.push(chosen);
+        ({ state, logits } = stepper.step(state, chosen));
+    }
+    return scoreHypothesis(tokens, logProb, false, 0, maskedMass);
+};
+
+/**
+ * Beam search, optionally split into groups for diverse beam search. Each group keeps its own
+ * beams. Groups are expanded one after another at every step, and a group's candidates are
+ * penalized for every earlier group that picked the same token at that step, which pushes the
+ * groups towards different words.
+ */
+const beamSearch = <S>(
+    stepper: StepFunction<S>,
+    start: { state: S; logits: Float64Array },
+    maxLength: number,
+    endIndex: number | undefined,
+    config: DecodingConfig,
+    constraint?: TokenConstraint
+): Hypothesis[] => {
+    type Beam = { tokens: number[]; logProb: number; maskedMass: number[]; state: S; logits: Float64Array };
+    const beamWidth = Math.max(1, config.beamWidth);
+    const numGroups = config.strategy === 'diverse-beam' ? Math.max(1, Math.min(config.numGroups, beamWidth)) : 1;
+    const diversityPenalty = config.strategy === 'diverse-beam' ? config.diversityPenalty : 0;
+    // The beam is shared out between the groups as evenly as it divides.
+    const groupWidths = Array.from({ length: numGroups }, (_, g) => Math.floor(beamWidth / numGroups) + (g < beamWidth % numGroups ? 1 : 0));
+
+    let groups: Beam[][] = groupWidths.map(() => [{ tokens: [], logProb: 0, maskedMass: [], ...start }]);
+    const finished: Hypothesis[][] = groupWidths.map(() => []);
+
+    for (let i = 0; i < maxLength && groups.some(group => group.length > 0); i++) {
+        // How often each token was picked by the groups already expanded at this step.
+        const picked = new Map<number, number>();
+        groups = groups.map((group, g) => {
+            const width = groupWidths[g];
+            const candidates: { beam: Beam; token: number; logProb: number; maskedMass: number[]; rank: number }[] = [];
+            for (const beam of group) {
+                const { logProbs, maskedMass: stepMaskedMass } = nextLogProbs(beam.logits, beam.tokens, constraint);
+                const maskedMass = [...beam.maskedMass, stepMaskedMass];
+                for (let v = 0; v < logProbs.length; v++) {
+                    if (logProbs[v] === -Infinity) continue;
+                    const logProb = beam.logProb + logProbs[v];
+                    candidates.push({ beam, token: v, logProb, maskedMass, rank: logProb - diversityPenalty * (picked.get(v) ?? 0) });
+                }
+            }
+            candidates.sort((a, b) => b.rank - a.rank);
+
+            // Take the best candidates until the group has `width` open beams again. Candidates that
+            // end the word are set aside as finished along the way.
+            const next: Beam[] = [];
+            for (const candidate of candidates) {
+                if (next.length >= width) break;
+                picked.set(candidate.token, (picked.get(candidate.token) ?? 0) + 1);
+                if (candidate.token === endIndex) {
+                    finished[g].push(scoreHypothesis(candidate.beam.tokens, candidate.logProb, true, config.lengthPenalty, candidate.maskedMass));
+                    continue;
+                }
+                const { state, logits } = stepper.step(candidate.beam.state, candidate.token);
+                next.push({ tokens: [...candidate.beam.tokens, candidate.token], logProb: candidate.logProb, maskedMass: candidate.maskedMass, state, logits });
+            }
+            finished[g] = finished[g].sort((a, b) => b.score - a.score).slice(0, width);
+
+            // The group is done once it has `width` finished words and its best open beam already scores
+            // worse than all of them.
+            if (finished[g].length >= width && next.length > 0) {
+                const best = scoreHypothesis(next[0].tokens, next[0].logProb, false, config.lengthPenalty, next[0].maskedMass);
+                if (best.score < finished[g][width - 1].score) return [];
+            }
+            return next;
+        });
+    }
+
+    // Beams still open at the length limit are kept as they are.
+    groups.forEach((group, g) => group.forEach(beam =>
+        finished[g].push(scoreHypothesis(beam.tokens, beam.logProb, false, config.lengthPenalty, beam.maskedMass))));
+
+    // Different groups can arrive at the same word; keep its best score only.
+    const unique = new Map<string, Hypothesis>();
+    for (const hypothesis of finished.flat().sort((a, b) => b.score - a.score)) {
+        const key = hypothesis.tokens.join(',');
+        if (!unique.has(key)) unique.set(key, hypothesis);
+    }
+    return [...unique.values()].slice(0, beamWidth);
+};
+
+/**
+ * Decodes from a model with the chosen strategy.
+ * @param stepper - The model's step function.
+ * @param prefix - The tokens to read before decoding starts (e.g. the seed). Must not be empty.
+ * @param maxLength - The most tokens to generate.
+ * @param config - The decoding strategy and its settings.
+ * @param endIndex - The token that ends a word, if the vocabulary has one.
+ * @param sampling - How tokens are sampled. Only used by the 'sample' strategy.
+ * @param constraint - An optional rule removing tokens that may not come next.
+ * @returns The decoded hypotheses, best first: one for sampling and greedy decoding, up to `beamWidth` for beam search.
+ */
+export const decode = <S>(
+    stepper: StepFunction<S>,
+    prefix: number[],
+    maxLength: number,
+    config: DecodingConfig,
+    endIndex: number | undefined,
+    sampling: SamplingConfig = DEFAULT_SAMPLING_CONFIG,
+    constraint?: TokenConstraint
+): Hypothesis[] => {
+    if (prefix.length === 0) return [];
+    let state = stepper.initialState();
+    let logits = new Float64Array(0);
+    for (const token of prefix) {
+        ({ state, logits } = stepper.step(state, token));
+    }
+    const start = { state, logits };
+
+    switch (config.strategy) {
+        case 'greedy':
+            return [decodeSingle(stepper, start, maxLength, endIndex, true, sampling, constraint)];
+        case 'beam':
+        case 'diverse-beam':
+            return beamSearch(stepper, start, maxLength, endIndex, config, constraint);
+        case 'sample':
+        default:
+            return [decodeSingle(stepper, start, maxLength, endIndex, false, sampling, constraint)];
+    }
+};
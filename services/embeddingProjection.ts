@@ -0,0 +1,101 @@
+/**
+ * @file embeddingProjection.ts
+ * @description Projects a model's embedding table down to two dimensions with principal
+ * component analysis (PCA), so the learned token vectors can be drawn as a scatter plot.
+ * Tokens the model treats alike end up close together.
+ */
+
+import { Matrix } from '../types';
+
+// Power iteration stops once an eigenvector moves less than this between iterations.
+const CONVERGENCE_TOLERANCE = 1e-9;
+const MAX_ITERATIONS = 200;
+
+/**
+ * The embedding rows projected onto the first two principal components.
+ */
+export interface EmbeddingProjection {
+    points: { x: number; y: number }[]; // One point per embedding row, in row order.
+    explainedVariance: [number, number]; // The fraction of the total variance each component captures.
+}
+
+/**
+ * Finds the dominant eigenvector of a symmetric matrix by power iteration.
+ * @param covariance - The d×d symmetric matrix, row-major.
+ * @param d - Its size.
+ * @returns The unit eigenvector and its eigenvalue.
+ */
+const dominantEigenvector = (covariance: Float64Array, d: number): { vector: Float64Array; value: number } => {
+    // Start from a fixed, non-axis-aligned vector so results are repeatable.
+    let vector = new Float64Array(d).map((_, i) => 1 + i / d);
+    let value = 0;
+    for (let iter = 0; iter < MAX_ITERATIONS; iter++) {
+        const next = new Float64Array(d);
+        for (let i = 0; i < d; i++) {
+            let sum = 0;
+            for (let j = 0; j < d; j++) sum += covariance[i * d + j] * vector[j];
+            next[i] = sum;
+        }
+        const norm = Math.hypot(...next);
+        if (norm === 0) return { vector, value: 0 };
+        let change = 0;
+        for (let i = 0; i < d; i++) {
+            next[i] /= norm;
+            change += Math.abs(next[i] - vector[i]);
+        }
+        vector = next;
+        value = norm;
+        if (change < CONVERGENCE_TOLERANCE) break;
+    }
+    return { vector, value };
+};
+
+/**
+ * Projects the rows of an embedding table onto its first two principal components.
+ * @param embedding - The embedding table, one row per token.
+ * @returns The 2-D point for each row and the share of variance each axis explains.
+ */
+export const projectEmbeddings = (embedding: Matrix): EmbeddingProjection => {
+    const { rows, cols: d, data } = embedding;
+    if (rows === 0) return { points: [], explainedVariance: [0, 0] };
+
+    // Center the rows on their mean.
+    const mean = new Float64Array(d);
+    for (let r = 0; r < rows; r++) {
+        for (let j = 0; j < d; j++) mean[j] += data[r * d + j] / rows;
+    }
+    const centered = new Float64Array(rows * d);
+    for (let r = 0; r < rows; r++) {
+        for (let j = 0; j < d; j++) centered[r * d + j] = data[r * d + j] - mean[j];
+    }
+
+    // Covariance matrix of the embedding dimensions.
+    const covariance = new Float64Array(d * d);
+    for (let r = 0; r < rows; r++) {
+        for (let i = 0; i < d; i++) {
+            const ci = centered[r * d + i];
+            if (ci === 0) continue;
+            for (let j = 0; j < d; j++) covariance[i * d + j] += ci * centered[r * d + j] / rows;
+        }
+    }
+    let totalVariance = 0;
+    for (let i = 0; i < d; i++) totalVariance += covariance[i * d + i];
+
+    // Take the top component, remove it from the covariance (deflation), and take the next.
+    const first = dominantEigenvector(covariance, d);
+    for (let i = 0; i < d; i++) {
+        for (let j = 0; j < d; j++) covariance[i * d + j] -= first.value * first.vector[i] * first.vector[j];
+    }
+    const second = d > 1 ? dominantEigenvector(covariance, d) : { vector: new Float64Array(d), value: 0 };
+
+    const points = Array.from({ length: rows }, (_, r) => {
+        let x = 0, y = 0;
+        for (let j = 0; j < d; j++) {
+            x += centered[r * d + j] * first.vector[j];
+            y += centered[r * d + j] * second.vector[j];
+        }
+        return { x, y };
+    });
+    const share = (value: number) => totalVariance > 0 ? value / totalVariance : 0;
+    return { points, explainedVariance: [share(first.value), share(second.value)] };
+};
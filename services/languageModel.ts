@@ -1,201 +1,190 @@
 /**
  * @file languageModel.ts
  * @description This file contains the core implementation of the neural networks from scratch.
- * It includes matrix math utilities, activation functions, and the full forward pass,
- * backward pass (backpropagation), and weight update logic for four different architectures:
- * FFNN, RNN, GRU, and LSTM. It also includes the text generation logic for each model.
+ * It includes activation functions and the full forward pass, backward pass (backpropagation),
+ * and weight update logic for five different architectures: FFNN, RNN, GRU, LSTM, and a small
+ * single-block Transformer. The recurrent models can stack several layers, each feeding its
+ * hidden state to the one above, and are trained with truncated backpropagation through time
+ * over one or more parallel streams of the text (see `trainingStreams.ts`).
+ * Every model reads its input through a learned embedding table rather than a one-hot vector;
+ * the FFNN reads a window of several previous tokens and concatenates their embeddings.
+ * Each model is also wrapped as a step function, so the shared decoders in `decoding.ts` can
+ * generate words with any of them. The matrix math itself lives in `matrix.ts`, and the weight
+ * updates are delegated to a pluggable optimizer (`optimizers.ts`).
  */
 
-import { FFNNModel, GRULanguageModel, Layer, Matrix, RNNModel, LSTMLanguageModel, TrainStepResult } from '../types';
+import {
+    FFNNModel,
+    GRULanguageModel,
+    GRULayer,
+    GradientClippingConfig,
+    GradientNormStats,
+    Layer,
+    LayerNorm,
+    Matrix,
+    RNNModel,
+    RNNLayer,
+    LSTMLanguageModel,
+    LSTMLayer,
+    LanguageModel,
+    ParameterMap,
+    RecurrentStreamState,
+    StateCarryPolicy,
+    TrainStepResult,
+    TransformerModel,
+    ValidationMetrics,
+    DecodingConfig,
+    DecodedWord,
+    SamplingConfig,
+    TokenInspection,
+    LanguagePack,
+    LossGradient
+} from '../types';
+import {
+    createMatrix,
+    createVector,
+    cloneMatrix,
+    argmax,
+    rowView,
+    gemv,
+    gemvT,
+    affine,
+    axpy,
+    addOuter,
+    addToRow,
+    hadamardInPlace,
+    mapInPlace,
+    softmaxInPlace
+} from './matrix';
+import { createOptimizer, Optimizer } from './optimizers';
+import { getStreamLength } from './trainingStreams';
+import { combineConstraints, decode, forbidTokensConstraint, minLengthConstraint, StepFunction } from './decoding';
+import { createPhonotacticConstraint } from './wordValidator';
+import { DEFAULT_LANGUAGE_PACK } from './languagePacks';
+import { getWordBoundaries, isSpecialToken } from './specialTokens';
+import {
+    DEFAULT_CONTEXT_SIZE,
+    DEFAULT_DECODING_CONFIG,
+    DEFAULT_EMBEDDING_DIM,
+    DEFAULT_GRADIENT_CLIPPING,
+    DEFAULT_NUM_HEADS,
+    DEFAULT_OPTIMIZER_CONFIG,
+    DEFAULT_SAMPLING_CONFIG
+} from '../constants';
 
-// --- Matrix Math Utilities ---
-// These are fundamental building blocks for all neural network operations.
+// --- Activation Functions ---
+// These non-linear functions are applied to neuron outputs to allow the network to learn complex patterns.
 
-/**
- * Creates a new matrix of specified dimensions.
- * @param rows - The number of rows.
- * @param cols - The number of columns.
- * @param fill - A value or function to initialize each element. Defaults to 0.
- * @returns A new Matrix object.
- */
-const createMatrix = (rows: number, cols: number, fill: number | (() => number) = 0): Matrix => {
-    const data = Array(rows).fill(0).map(() => 
-        Array(cols).fill(0).map(() => (typeof fill === 'function' ? fill() : fill))
-    );
-    return { rows, cols, data };
-};
+/** Hyperbolic Tangent activation function. Squashes values to be between -1 and 1. */
+const tanh = (x: number): number => Math.tanh(x);
+/** Derivative of tanh. Needed for backpropagation. `y` is the output of tanh(x). */
+const dtanh = (y: number): number => 1 - y * y;
 
-/**
- * Performs matrix multiplication (dot product) between two matrices.
- * @param a - The first matrix.
- * @param b - The second matrix.
- * @returns The resulting matrix.
- */
-const dot = (a: Matrix, b: Matrix): Matrix => {
-    if (a.cols !== b.rows) throw new Error("Matrix dimension mismatch for dot product.");
-    const result = createMatrix(a.rows, b.cols);
-    for (let i = 0; i < a.rows; i++) {
-        for (let j = 0; j < b.cols; j++) {
-            let sum = 0;
-            for (let k = 0; k < a.cols; k++) {
-                sum += a.data[i][k] * b.data[k][j];
-            }
-            result.data[i][j] = sum;
-        }
-    }
-    return result;
-};
+/** Sigmoid activation function. Squashes values to be between 0 and 1. Often used in gates (GRU, LSTM). */
+const sigmoid = (x: number): number => 1 / (1 + Math.exp(-x));
+/** Derivative of sigmoid. Needed for backpropagation. `y` is the output of sigmoid(x). */
+const dsigmoid = (y: number): number => y * (1 - y);
 
-/**
- * Performs element-wise addition of two matrices.
- * @param a - The first matrix.
- * @param b - The second matrix.
- * @returns The resulting matrix.
- */
-const add = (a: Matrix, b: Matrix): Matrix => {
-    if (a.rows !== b.rows || a.cols !== b.cols) {
-        // Biases are often 1xN vectors added to MxN matrices. This handles that "broadcasting".
-        if (a.rows > 1 && b.rows === 1) {
-            const result = createMatrix(a.rows, a.cols);
-            for (let i = 0; i < a.rows; i++) {
-                for (let j = 0; j < a.cols; j++) {
-                    result.data[i][j] = a.data[i][j] + b.data[0][j];
-                }
-            }
-            return result;
-        }
-        console.error("Matrix dimension mismatch for addition.", a, b);
-        return a;
-    }
-    const result = createMatrix(a.rows, a.cols);
-    for (let i = 0; i < a.rows; i++) {
-        for (let j = 0; j < a.cols; j++) {
-            result.data[i][j] = a.data[i][j] + b.data[i][j];
-        }
-    }
-    return result;
-};
+// --- Shared Training Helpers ---
 
 /**
- * Performs element-wise subtraction of two matrices.
- * @param a - The first matrix.
- * @param b - The second matrix.
- * @returns The resulting matrix.
+ * Measures the gradients, clips them according to the clipping settings, and hands them to
+ * the optimizer, which updates the model's parameters in place.
+ * @param model - The model being trained.
+ * @param grads - The gradients, keyed by the parameter names from `getParameters`. Clipped in place.
+ * @param learningRate - The step size.
+ * @param optimizer - The optimizer that applies the update.
+ * @param clipping - How (and whether) to clip the gradients.
+ * @returns The gradient norms, measured before clipping, and how much clipping was applied.
  */
-const subtract = (a: Matrix, b: Matrix): Matrix => {
-    if (a.rows !== b.rows || a.cols !== b.cols) throw new Error("Matrix dimension mismatch for subtraction.");
-    const result = createMatrix(a.rows, a.cols);
-    for (let i = 0; i < a.rows; i++) {
-        for (let j = 0; j < a.cols; j++) {
-            result.data[i][j] = a.data[i][j] - b.data[i][j];
-        }
+const updateParameters = (
+    model: LanguageModel,
+    grads: ParameterMap,
+    learningRate: number,
+    optimizer: Optimizer,
+    clipping: GradientClippingConfig
+): GradientNormStats => {
+    const perParameter: { [name: string]: number } = {};
+    let globalSquared = 0;
+    let totalElements = 0;
+    for (const [name, grad] of Object.entries(grads)) {
+        const g = grad.data;
+        let sumSquares = 0;
+        for (let i = 0; i < g.length; i++) sumSquares += g[i] * g[i];
+        perParameter[name] = Math.sqrt(sumSquares);
+        globalSquared += sumSquares;
+        totalElements += g.length;
     }
-    return result;
-};
-
-/**
- * Performs element-wise multiplication (Hadamard product) of two matrices.
- * @param a - The first matrix.
- * @param b - The second matrix.
- * @returns The resulting matrix.
- */
-const multiply = (a: Matrix, b: Matrix): Matrix => {
-    if (a.rows !== b.rows || a.cols !== b.cols) throw new Error("Matrix dimension mismatch for element-wise multiplication.");
-    const result = createMatrix(a.rows, a.cols);
-    for (let i = 0; i < a.rows; i++) {
-        for (let j = 0; j < a.cols; j++) {
-            result.data[i][j] = a.data[i][j] * b.data[i][j];
+    const global = Math.sqrt(globalSquared);
+
+    let clippedElements = 0;
+    const { threshold } = clipping;
+    if (clipping.type === 'value') {
+        // Clamp each element on its own. This can change the gradient's direction.
+        for (const grad of Object.values(grads)) {
+            const g = grad.data;
+            for (let i = 0; i < g.length; i++) {
+                if (g[i] > threshold) { g[i] = threshold; clippedElements++; }
+                else if (g[i] < -threshold) { g[i] = -threshold; clippedElements++; }
+            }
         }
-    }
-    return result;
-};
-
-/**
- * Multiplies every element of a matrix by a scalar value.
- * @param m - The matrix.
- * @param s - The scalar.
- * @returns The resulting matrix.
- */
-const scale = (m: Matrix, s: number): Matrix => {
-    const result = createMatrix(m.rows, m.cols);
-    for (let i = 0; i < m.rows; i++) {
-        for (let j = 0; j < m.cols; j++) {
-            result.data[i][j] = m.data[i][j] * s;
+    } else if (clipping.type === 'norm' && global > threshold) {
+        // Rescale every gradient by the same factor, which keeps the overall direction.
+        const scale = threshold / global;
+        for (const grad of Object.values(grads)) {
+            const g = grad.data;
+            for (let i = 0; i < g.length; i++) g[i] *= scale;
         }
+        clippedElements = totalElements;
     }
-    return result;
-};
 
-/**
- * Transposes a matrix (swaps rows and columns).
- * @param m - The matrix.
- * @returns The transposed matrix.
- */
-const transpose = (m: Matrix): Matrix => {
-    const result = createMatrix(m.cols, m.rows);
-    for (let i = 0; i < m.rows; i++) {
-        for (let j = 0; j < m.cols; j++) {
-            result.data[j][i] = m.data[i][j];
-        }
-    }
-    return result;
+    optimizer.step(getParameters(model), grads, learningRate);
+    return {
+        global,
+        perParameter,
+        clipped: clippedElements > 0,
+        clippedFraction: totalElements > 0 ? clippedElements / totalElements : 0,
+    };
 };
 
 /**
- * Applies a function to every element of a matrix.
- * @param m - The matrix.
- * @param fn - The function to apply.
- * @returns The resulting matrix.
+ * Multiplies every gradient by the same factor in place, e.g. to average over parallel streams.
  */
-const map = (m: Matrix, fn: (val: number) => number): Matrix => {
-    const result = createMatrix(m.rows, m.cols);
-    for (let i = 0; i < m.rows; i++) {
-        for (let j = 0; j < m.cols; j++) {
-            result.data[i][j] = fn(m.data[i][j]);
-        }
+const scaleGradients = (grads: ParameterMap, factor: number) => {
+    if (factor === 1) return;
+    for (const grad of Object.values(grads)) {
+        const g = grad.data;
+        for (let i = 0; i < g.length; i++) g[i] *= factor;
     }
-    return result;
 };
 
 /**
- * Creates a matrix filled with ones.
- * @param rows - The number of rows.
- * @param cols - The number of columns.
- * @returns A new matrix of ones.
+ * Creates an inverted-dropout mask, or null when dropout is disabled.
+ * @param size - The number of neurons.
+ * @param dropoutRate - The probability of dropping each neuron.
  */
-const ones = (rows: number, cols: number) => createMatrix(rows, cols, 1);
-
-// --- Activation Functions ---
-// These non-linear functions are applied to neuron outputs to allow the network to learn complex patterns.
-
-/** Hyperbolic Tangent activation function. Squashes values to be between -1 and 1. */
-const tanh = (x: number): number => Math.tanh(x);
-/** Derivative of tanh. Needed for backpropagation. `y` is the output of tanh(x). */
-const dtanh = (y: number): number => 1 - y * y;
-
-/** Sigmoid activation function. Squashes values to be between 0 and 1. Often used in gates (GRU, LSTM). */
-const sigmoid = (x: number): number => 1 / (1 + Math.exp(-x));
-/** Derivative of sigmoid. Needed for backpropagation. `y` is the output of sigmoid(x). */
-const dsigmoid = (y: number): number => y * (1 - y);
+const createDropoutMask = (size: number, dropoutRate: number): Matrix | null => {
+    if (dropoutRate <= 0) return null;
+    const scaleFactor = 1.0 / (1.0 - dropoutRate); // Inverted dropout scaling
+    return createMatrix(1, size, () => (Math.random() < dropoutRate ? 0 : scaleFactor));
+};
 
 /**
- * Softmax function. Converts a vector of raw scores (logits) into a probability distribution.
- * The output values are all positive and sum to 1.
- * @param m - A 1xN matrix of logits.
- * @returns A 1xN matrix of probabilities.
+ * Calculates the gradient of the cross-entropy loss with respect to the logits.
+ * It's (probs - 1) for the target, and (probs) for others.
+ * @param prob - The output probabilities. Not modified.
+ * @param targetIndex - The index of the correct token.
  */
-const softmax = (m: Matrix): Matrix => {
-    if (m.data.length === 0 || m.data[0].length === 0) return createMatrix(1, m.cols);
-    // Subtracting the max value is a trick for numerical stability to prevent Math.exp() from overflowing.
-    const maxVal = Math.max(...m.data[0]);
-    const exps = m.data[0].map(x => Math.exp(x - maxVal));
-    const sumExps = exps.reduce((a, b) => a + b, 0);
-    const result = createMatrix(1, m.cols);
-    result.data[0] = exps.map(e => e / (sumExps || 1)); // The '|| 1' prevents division by zero.
-    return result;
+const softmaxLossGradient: LossGradient = (prob, targetIndex) => {
+    const dy = Float64Array.from(prob);
+    dy[targetIndex] -= 1;
+    return dy;
 };
 
 // --- FFNN Implementation ---
+// The width of the range that initial embedding values are drawn from, i.e. [-1, 1].
+const EMBEDDING_INIT_RANGE = 2;
+
 /**
  * Creates a single layer with randomly initialized weights and zeroed biases.
  * @param inputSize - Number of neurons in the previous layer.
@@ -208,42 +197,98 @@ const createLayer = (inputSize: number, outputSize: number): Layer => ({
     biases: createMatrix(1, outputSize),
 });
 
+/**
+ * Creates an embedding table with one randomly initialized vector (row) per token.
+ * Looking up a token's row gives the same result as multiplying a one-hot vector by the
+ * table, without building the one-hot vector or doing the multiplication.
+ * @param vocabSize - The number of tokens.
+ * @param embeddingDim - The size of each token's vector.
+ * @returns A new (vocabSize x embeddingDim) matrix.
+ */
+const createEmbedding = (vocabSize: number, embeddingDim: number): Matrix =>
+    // Embeddings start larger than other weights, so that the inputs they feed are not vanishingly small.
+    createMatrix(vocabSize, embeddingDim, () => (Math.random() - 0.5) * EMBEDDING_INIT_RANGE);
+
 /**
  * Initializes a new Feed-Forward Neural Network model.
  * @param vocab - The list of unique tokens.
  * @param hiddenSize - The number of neurons in the hidden layer.
+ * @param embeddingDim - The size of each token's embedding vector.
+ * @param contextSize - How many previous tokens the network reads to make each prediction.
  * @returns A new FFNNModel object.
  */
-export const initializeFFNNModel = (vocab: string[], hiddenSize: number): FFNNModel => {
+export const initializeFFNNModel = (
+    vocab: string[],
+    hiddenSize: number,
+    embeddingDim: number = DEFAULT_EMBEDDING_DIM,
+    contextSize: number = DEFAULT_CONTEXT_SIZE
+): FFNNModel => {
     const vocabSize = vocab.length;
     const tokenToIndex = Object.fromEntries(vocab.map((char, i) => [char, i]));
     return {
         type: 'FFNN',
         vocab,
         tokenToIndex,
-        hiddenLayer: createLayer(vocabSize, hiddenSize),
+        embedding: createEmbedding(vocabSize, embeddingDim),
+        contextSize,
+        // The hidden layer reads the embeddings of every context slot, laid end to end.
+        hiddenLayer: createLayer(contextSize * embeddingDim, hiddenSize),
         outputLayer: createLayer(hiddenSize, vocabSize),
     };
 };
 
+/**
+ * Builds the FFNN's input for predicting the token after `position`: the embeddings of the
+ * last `contextSize` tokens up to and including it, oldest first, laid end to end. Slots that
+ * reach back before the start of the text hold the `<pad>` token (the space, for vocabularies
+ * without the reserved tokens), or stay at zero if the vocabulary has neither.
+ * @param model - The FFNN model.
+ * @param tokens - The token IDs read so far. Unknown tokens (`undefined`) are treated like the start of the text.
+ * @param position - The index of the newest token in the window.
+ * @param out - The (contextSize * embeddingDim) buffer to fill.
+ * @returns The token ID in each slot, oldest first, or -1 for a slot left at zero.
+ */
+const gatherContext = (model: FFNNModel, tokens: ArrayLike<number>, position: number, out: Float64Array): number[] => {
+    const embeddingDim = model.embedding.cols;
+    const padIndex = getWordBoundaries(model.tokenToIndex).pad;
+    const slots: number[] = [];
+    for (let s = 0; s < model.contextSize; s++) {
+        const t = position - model.contextSize + 1 + s;
+        const index = t >= 0 && tokens[t] !== undefined ? tokens[t] : padIndex;
+        slots.push(index);
+        if (index === -1) {
+            out.fill(0, s * embeddingDim, (s + 1) * embeddingDim);
+        } else {
+            out.set(rowView(model.embedding, index), s * embeddingDim);
+        }
+    }
+    return slots;
+};
+
 /**
  * Performs a single training step (forward pass, loss calculation, backward pass, and weight update) for an FFNN.
- * This function processes a batch of input-target pairs.
+ * This function processes a batch of input-target pairs. The model's parameters are updated in place.
  */
 export const trainStepFFNN = (
     model: FFNNModel,
     encodedText: number[],
     step: number,
     batchSize: number,
-    learningRate: number
+    learningRate: number,
+    optimizer: Optimizer = createOptimizer(DEFAULT_OPTIMIZER_CONFIG),
+    clipping: GradientClippingConfig = DEFAULT_GRADIENT_CLIPPING,
+    lossGradient: LossGradient = softmaxLossGradient
 ): TrainStepResult => {
     const vocabSize = model.vocab.length;
     const hiddenSize = model.hiddenLayer.weights.cols;
-    
+    const embeddingDim = model.embedding.cols;
+    const inputSize = model.contextSize * embeddingDim;
+
     // Initialize gradients for this batch to all zeros.
-    let hiddenGrad = { weights: createMatrix(vocabSize, hiddenSize), biases: createMatrix(1, hiddenSize) };
-    let outputGrad = { weights: createMatrix(hiddenSize, vocabSize), biases: createMatrix(1, vocabSize) };
-    
+    const embeddingGrad = createMatrix(vocabSize, embeddingDim);
+    const hiddenGrad = { weights: createMatrix(inputSize, hiddenSize), biases: createMatrix(1, hiddenSize) };
+    const outputGrad = { weights: createMatrix(hiddenSize, vocabSize), biases: createMatrix(1, vocabSize) };
+
     let totalLoss = 0;
     let lastResultForVis: any = {};
     const predictionResults: { inputToken: string; targetToken: string; predictedToken: string; }[] = [];
@@ -255,25 +300,28 @@ export const trainStepFFNN = (
         const targetIndex = encodedText[i + 1];
 
         // --- FORWARD PASS ---
-        // 1. Create a one-hot encoded vector for the input character.
-        const inputVector = createMatrix(1, vocabSize);
-        inputVector.data[0][inputIndex] = 1;
+        // 1. Look up the embeddings of the context window (the input token and those before it) and concatenate them.
+        const embedded = new Float64Array(inputSize);
+        const contextIndices = gatherContext(model, encodedText, i, embedded);
 
-        // 2. Calculate hidden layer activations.
-        const hiddenRaw = add(dot(inputVector, model.hiddenLayer.weights), model.hiddenLayer.biases);
-        const hiddenActivated = map(hiddenRaw, tanh);
+        // 2. Calculate hidden layer activations from the embeddings.
+        const hiddenActivated = createVector(hiddenSize);
+        affine(hiddenActivated.data, embedded, model.hiddenLayer.weights, model.hiddenLayer.biases);
+        mapInPlace(hiddenActivated.data, tanh);
 
         // 3. Calculate output layer logits (raw scores).
-        const outputRaw = add(dot(hiddenActivated, model.outputLayer.weights), model.outputLayer.biases);
-        const outputProbs = softmax(outputRaw); // Convert logits to probabilities.
+        const outputRaw = createVector(vocabSize);
+        affine(outputRaw.data, hiddenActivated.data, model.outputLayer.weights, model.outputLayer.biases);
+        const outputProbs = cloneMatrix(outputRaw);
+        softmaxInPlace(outputProbs.data); // Convert logits to probabilities.
 
         // 4. Calculate the loss (Cross-Entropy Loss).
         // This measures how "surprised" the model was by the correct answer.
-        const loss = -Math.log(outputProbs.data[0][targetIndex] + 1e-9); // Add epsilon for stability.
+        const loss = -Math.log(outputProbs.data[targetIndex] + 1e-9); // Add epsilon for stability.
         totalLoss += loss;
 
         // Store prediction results for logging.
-        const predictedIndex = outputProbs.data[0].indexOf(Math.max(...outputProbs.data[0]));
+        const predictedIndex = argmax(outputProbs.data);
         predictionResults.push({
             inputToken: model.vocab[inputIndex],
             targetToken: model.vocab[targetIndex],
@@ -282,29 +330,31 @@ export const trainStepFFNN = (
 
         // --- BACKWARD PASS (Backpropagation) ---
         // This is where we calculate how much each weight and bias contributed to the error (loss).
-        
-        // 1. Gradient of the output probabilities. It's (probs - 1) for the target, and (probs) for others.
-        // BUG FIX: Create a deep copy of outputProbs. Modifying it directly would corrupt the values sent to the UI.
-        const dOutput = JSON.parse(JSON.stringify(outputProbs));
-        dOutput.data[0][targetIndex] -= 1;
-
-        // 2. Calculate gradients for the output layer.
-        const dOutputWeights = dot(transpose(hiddenActivated), dOutput);
-        const dOutputBiases = dOutput;
-        
-        // 3. Propagate the error back to the hidden layer.
-        const dHiddenActivated = dot(dOutput, transpose(model.outputLayer.weights));
-        const dHiddenRaw = multiply(dHiddenActivated, map(hiddenActivated, dtanh)); // Backprop through tanh.
-        
-        // 4. Calculate gradients for the hidden layer.
-        const dHiddenWeights = dot(transpose(inputVector), dHiddenRaw);
-        const dHiddenBiases = dHiddenRaw;
-        
-        // Accumulate gradients over the batch.
-        hiddenGrad.weights = add(hiddenGrad.weights, dHiddenWeights);
-        hiddenGrad.biases = add(hiddenGrad.biases, dHiddenBiases);
-        outputGrad.weights = add(outputGrad.weights, dOutputWeights);
-        outputGrad.biases = add(outputGrad.biases, dOutputBiases);
+
+        // 1. Gradient of the output probabilities.
+        const dOutput = lossGradient(outputProbs.data, targetIndex, i);
+
+        // 2. Accumulate gradients for the output layer.
+        addOuter(outputGrad.weights, hiddenActivated.data, dOutput);
+        axpy(outputGrad.biases.data, 1, dOutput);
+
+        // 3. Propagate the error back to the hidden layer, through tanh.
+        const dHiddenRaw = new Float64Array(hiddenSize);
+        gemvT(dHiddenRaw, dOutput, model.outputLayer.weights);
+        for (let k = 0; k < hiddenSize; k++) {
+            dHiddenRaw[k] *= dtanh(hiddenActivated.data[k]);
+        }
+
+        // 4. Accumulate gradients for the hidden layer.
+        addOuter(hiddenGrad.weights, embedded, dHiddenRaw);
+        axpy(hiddenGrad.biases.data, 1, dHiddenRaw);
+
+        // 5. Propagate the error back to the embeddings. Only the rows of the tokens in the window receive a gradient.
+        const dEmbedded = new Float64Array(inputSize);
+        gemvT(dEmbedded, dHiddenRaw, model.hiddenLayer.weights);
+        contextIndices.forEach((index, s) => {
+            if (index !== -1) addToRow(embeddingGrad, index, dEmbedded.subarray(s * embeddingDim, (s + 1) * embeddingDim));
+        });
 
         // Save the last step's data for visualization.
         if (i === batchEnd - 1) {
@@ -312,124 +362,150 @@ export const trainStepFFNN = (
                 inputToken: model.vocab[inputIndex],
                 targetToken: model.vocab[targetIndex],
                 predictedToken: model.vocab[predictedIndex],
-                activations: { hidden: hiddenActivated, output: outputProbs, outputRaw: outputRaw },
+                contextTokens: contextIndices.map(index => index === -1 ? '' : model.vocab[index]),
+                activations: { embedding: createVector(inputSize, embedded), hidden: hiddenActivated, output: outputProbs, outputRaw: outputRaw },
             };
         }
     }
-    
+
     const batchActualSize = batchEnd - step;
     if (batchActualSize === 0) {
-      return { updatedModel: model, loss: 0, ...lastResultForVis, gradients: { hiddenLayer: hiddenGrad, outputLayer: outputGrad }, predictionResults: [] };
+      return { updatedModel: model, loss: 0, ...lastResultForVis, gradients: { embedding: embeddingGrad, hiddenLayer: hiddenGrad, outputLayer: outputGrad }, predictionResults: [] };
     }
 
-    // --- WEIGHT UPDATE (Gradient Descent) ---
-    // Update the model's parameters using the calculated gradients.
+    // --- WEIGHT UPDATE ---
+    // The optimizer updates the model's parameters in place using the calculated gradients,
+    // averaged over the batch so clipping and adaptive optimizers see the mean gradient.
     // The learning rate controls the size of the update step.
-    const clip = (m: Matrix) => map(m, v => Math.max(-5, Math.min(5, v))); // Gradient clipping to prevent explosion.
-    const updatedModel = JSON.parse(JSON.stringify(model));
-    const lr = -learningRate / batchActualSize; // Average gradient over batch.
-
-    updatedModel.hiddenLayer.weights = add(model.hiddenLayer.weights, scale(clip(hiddenGrad.weights), lr));
-    updatedModel.hiddenLayer.biases = add(model.hiddenLayer.biases, scale(clip(hiddenGrad.biases), lr));
-    updatedModel.outputLayer.weights = add(model.outputLayer.weights, scale(clip(outputGrad.weights), lr));
-    updatedModel.outputLayer.biases = add(model.outputLayer.biases, scale(clip(outputGrad.biases), lr));
+    const gradients = {
+        'embedding': embeddingGrad,
+        'hiddenLayer.weights': hiddenGrad.weights,
+        'hiddenLayer.biases': hiddenGrad.biases,
+        'outputLayer.weights': outputGrad.weights,
+        'outputLayer.biases': outputGrad.biases,
+    };
+    scaleGradients(gradients, 1 / batchActualSize);
+    const gradientNorms = updateParameters(model, gradients, learningRate, optimizer, clipping);
 
     return {
-        updatedModel,
+        updatedModel: model,
+        gradientNorms,
         loss: totalLoss / batchActualSize,
         ...lastResultForVis,
-        gradients: { hiddenLayer: hiddenGrad, outputLayer: outputGrad },
+        gradients: { embedding: embeddingGrad, hiddenLayer: hiddenGrad, outputLayer: outputGrad },
         predictionResults
     };
 };
 
-// A minimum word length to prevent the model from immediately generating a space.
-const MIN_WORD_LENGTH = 2;
+
+// --- Stacked Recurrent Layer Helpers ---
 
 /**
- * Generates a word using a trained FFNN model.
- * @param model - The trained FFNN model.
- * @param seed - The starting token.
- * @param length - The maximum length of the word to generate.
- * @param temperature - Controls randomness. Higher values = more creative/random.
- * @returns The generated word.
+ * Accumulates the gradients of an input-facing layer for one time step.
+ * @param dW - The weight gradient, accumulated into.
+ * @param db - The bias gradient, accumulated into.
+ * @param x - The layer's input at this time step.
+ * @param delta - The gradient with respect to the layer's pre-activation.
  */
-export const generateFFNN = (model: FFNNModel, seed: string, length: number, temperature: number = 0.7): string => {
-    let result = '';
-    let currentInput = seed;
-
-    for (let i = 0; i < length; i++) {
-        // Feed the last character of the current sequence into the model.
-        const inputIndex = model.tokenToIndex[currentInput[currentInput.length - 1]];
-        if (inputIndex === undefined) break;
-        
-        // Forward pass to get probabilities for the next character.
-        const inputVector = createMatrix(1, model.vocab.length);
-        inputVector.data[0][inputIndex] = 1;
-        const hiddenActivated = map(add(dot(inputVector, model.hiddenLayer.weights), model.hiddenLayer.biases), tanh);
-        const outputRaw = add(dot(hiddenActivated, model.outputLayer.weights), model.outputLayer.biases);
-        
-        // Apply temperature to the logits to control randomness.
-        const scaledOutput = map(outputRaw, val => val / temperature);
-        const outputProbs = softmax(scaledOutput);
-        
-        // Heuristic: Prevent generating a space too early to encourage word formation.
-        if (i < MIN_WORD_LENGTH) {
-            const spaceIndex = model.tokenToIndex[' '];
-            if (spaceIndex !== undefined && outputProbs.data[0].length > spaceIndex) {
-                const spaceProb = outputProbs.data[0][spaceIndex];
-                if (spaceProb > 0 && spaceProb < 1) { // Avoid division by zero if space is the only option
-                    outputProbs.data[0][spaceIndex] = 0;
-                    // Renormalize other probabilities.
-                    const remainingProbSum = 1 - spaceProb;
-                    for (let k = 0; k < outputProbs.data[0].length; k++) {
-                        if (k !== spaceIndex) {
-                            outputProbs.data[0][k] /= remainingProbSum;
-                        }
-                    }
-                }
-            }
-        }
-        
-        // Sample from the probability distribution to pick the next character.
-        const rand = Math.random();
-        let cumulativeProb = 0;
-        let nextIndex = model.vocab.length - 1;
-        for (let j = 0; j < outputProbs.data[0].length; j++) {
-            cumulativeProb += outputProbs.data[0][j];
-            if (rand < cumulativeProb) {
-                nextIndex = j;
-                break;
-            }
-        }
-        
-        const nextChar = model.vocab[nextIndex];
-        if (nextChar === ' ') break; // Stop if a space is generated.
-        result += nextChar;
-        currentInput += nextChar;
-    }
-    return seed + result;
+const accumulateInputGradient = (dW: Matrix, db: Matrix, x: Float64Array, delta: Float64Array) => {
+    addOuter(dW, x, delta);
+    axpy(db.data, 1, delta);
 };
 
+/**
+ * The number of inputs a recurrent layer reads: the embedding size for the first layer,
+ * and one per neuron of the layer below for the others.
+ */
+const layerInputSize = (layerIndex: number, embeddingDim: number, hiddenSize: number): number =>
+    layerIndex === 0 ? embeddingDim : hiddenSize;
+
+/**
+ * Creates zeroed gradient buffers with the same names and shapes as a set of parameters.
+ */
+const zerosLike = (params: ParameterMap): ParameterMap =>
+    Object.fromEntries(Object.entries(params).map(([name, m]) => [name, createMatrix(m.rows, m.cols)]));
+
+/**
+ * Prefixes per-layer parameter names with their layer, so `Wxh.weights` in the second layer
+ * becomes `layers.1.Wxh.weights`.
+ * @param layerParams - One parameter (or gradient) map per layer, from the input upwards.
+ */
+const prefixLayerParameters = (layerParams: ParameterMap[]): ParameterMap =>
+    Object.fromEntries(layerParams.flatMap((params, l) =>
+        Object.entries(params).map(([name, m]) => [`layers.${l}.${name}`, m])));
 
 // --- RNN Implementation ---
-export const initializeRNNModel = (vocab: string[], hiddenSize: number): RNNModel => {
+/**
+ * Initializes a new RNN model with one or more stacked recurrent layers.
+ * @param vocab - The list of unique tokens.
+ * @param hiddenSize - The number of neurons in each recurrent layer.
+ * @param numLayers - The number of stacked layers. Defaults to 1.
+ * @param embeddingDim - The size of each token's embedding vector.
+ * @returns A new RNNModel object.
+ */
+export const initializeRNNModel = (
+    vocab: string[],
+    hiddenSize: number,
+    numLayers: number = 1,
+    embeddingDim: number = DEFAULT_EMBEDDING_DIM
+): RNNModel => {
     const vocabSize = vocab.length;
     const tokenToIndex = Object.fromEntries(vocab.map((char, i) => [char, i]));
     return {
         type: 'RNN',
         vocab,
         tokenToIndex,
-        Wxh: createLayer(vocabSize, hiddenSize), // Input-to-Hidden weights
-        Whh: createLayer(hiddenSize, hiddenSize), // Hidden-to-Hidden (recurrent) weights
+        embedding: createEmbedding(vocabSize, embeddingDim), // One learned vector per token
+        layers: Array.from({ length: numLayers }, (_, l) => ({
+            Wxh: createLayer(layerInputSize(l, embeddingDim, hiddenSize), hiddenSize), // Input-to-Hidden weights
+            Whh: createLayer(hiddenSize, hiddenSize), // Hidden-to-Hidden (recurrent) weights
+            h: createMatrix(1, hiddenSize), // Initial hidden state
+        })),
         Why: createLayer(hiddenSize, vocabSize), // Hidden-to-Output weights
-        h: createMatrix(1, hiddenSize), // Initial hidden state
     };
 };
 
+/**
+ * Names the trainable parameters of one RNN layer. The recurrent weights have no biases of their own.
+ */
+const rnnLayerParameters = (layer: RNNLayer): ParameterMap => ({
+    'Wxh.weights': layer.Wxh.weights, 'Whh.weights': layer.Whh.weights, 'Wxh.biases': layer.Wxh.biases,
+});
+
+/**
+ * Runs one time step through every layer of an RNN.
+ * @param model - The RNN model.
+ * @param inputIndex - The input token.
+ * @param states - The hidden state of each layer, updated in place.
+ * @param scratch - A hidden-size buffer to compute into.
+ * @returns The top layer's new hidden state.
+ */
+const rnnStackForward = (model: RNNModel, inputIndex: number, states: Float64Array[], scratch: Float64Array): Float64Array => {
+    let x = rowView(model.embedding, inputIndex);
+    for (let l = 0; l < model.layers.length; l++) {
+        const layer = model.layers[l];
+        // h_t = tanh(Wxh*x_t + Whh*h_{t-1} + biases)
+        affine(scratch, x, layer.Wxh.weights, layer.Wxh.biases);
+        gemv(scratch, states[l], layer.Whh.weights, true);
+        mapInPlace(scratch, tanh);
+        states[l].set(scratch);
+        x = states[l];
+    }
+    return states[states.length - 1];
+};
+
 /**
  * Performs a single training step for an RNN over a sequence of characters.
- * This uses the Backpropagation Through Time (BPTT) algorithm.
+ * This uses truncated Backpropagation Through Time (BPTT): each stream runs forward over its next
+ * window of `sequenceLength` tokens and the gradient flows back only within that window, while
+ * the hidden state itself is carried on to the next window (unless the state policy resets it).
+ * With stacked layers the gradient flows backwards through time within each layer and down from
+ * each layer to the one below it. Dropout is applied to what each layer passes upwards, never to
+ * the recurrent connections.
+ * @param streams - The state of each parallel stream, updated in place. When omitted, the whole text
+ * is a single stream that starts from the model's stored hidden state.
+ * @param statePolicy - When the hidden state is reset to zeros.
+ * @param lossGradient - The gradient of the loss with respect to the logits, cross-entropy by default.
  */
 export const trainStepRNN = (
     model: RNNModel,
@@ -437,208 +513,292 @@ export const trainStepRNN = (
     step: number,
     sequenceLength: number,
     learningRate: number,
-    dropoutRate: number = 0
+    dropoutRate: number = 0,
+    optimizer: Optimizer = createOptimizer(DEFAULT_OPTIMIZER_CONFIG),
+    clipping: GradientClippingConfig = DEFAULT_GRADIENT_CLIPPING,
+    streams: RecurrentStreamState[] | null = null,
+    statePolicy: StateCarryPolicy = 'carry',
+    lossGradient: LossGradient = softmaxLossGradient
 ): TrainStepResult => {
     const vocabSize = model.vocab.length;
-    const hiddenSize = model.Wxh.weights.cols;
-    const seqEnd = Math.min(step + sequenceLength, encodedText.length - 1);
-    
-    // Cache for storing activations at each time step, needed for backpropagation.
-    const cache: any[] = [];
-    const hiddenStates: Matrix[] = [model.h]; // Start with the model's current hidden state.
+    const hiddenSize = model.Why.weights.rows;
+    const numLayers = model.layers.length;
+    const streamStates = streams ?? [{ hidden: model.layers.map(layer => layer.h) }];
+    const streamLength = getStreamLength(encodedText.length, streamStates.length);
+    const windowEnd = Math.min(step + sequenceLength, streamLength);
+    const resetIndex = statePolicy === 'reset-word' ? getWordBoundaries(model.tokenToIndex).start : undefined;
+    const zeroStates = () => model.layers.map(() => createVector(hiddenSize));
+
+    // Gradients are summed over each stream's window, then averaged over the streams.
+    const dEmbedding = createMatrix(vocabSize, model.embedding.cols);
+    const grads = model.layers.map(layer => zerosLike(rnnLayerParameters(layer)));
+    const dWhy = createMatrix(hiddenSize, vocabSize);
+    const dbhy = createMatrix(1, vocabSize);
+
+    // Cache for storing activations at each time step and layer, needed for backpropagation.
+    let cache: {
+        inputIndex: number;
+        reset: boolean;
+        layers: { x: Float64Array; h_prev: Matrix; h_t: Matrix; mask: Matrix | null; out: Float64Array }[];
+        prob: Matrix;
+    }[] = [];
+    let states: Matrix[] = [];
+    let seqEnd = windowEnd;
     let totalLoss = 0;
     const predictionResults: { inputToken: string; targetToken: string; predictedToken: string; }[] = [];
 
-    // --- FORWARD PASS through the sequence ---
-    for (let t = step; t < seqEnd; t++) {
-        const inputVector = createMatrix(1, vocabSize);
-        inputVector.data[0][encodedText[t]] = 1;
-
-        const h_prev = hiddenStates[hiddenStates.length - 1];
-        // Calculate the new hidden state: h_t = tanh(Wxh*x_t + Whh*h_{t-1} + biases)
-        const h_next_raw = add(add(dot(inputVector, model.Wxh.weights), model.Wxh.biases), dot(h_prev, model.Whh.weights));
-        const h_next = map(h_next_raw, tanh);
-
-        // Apply dropout for regularization.
-        let mask: Matrix | null = null;
-        let h_next_dropped = h_next;
-        if (dropoutRate > 0) {
-            const scaleFactor = 1.0 / (1.0 - dropoutRate); // Inverted dropout scaling
-            mask = createMatrix(1, hiddenSize, () => (Math.random() < dropoutRate ? 0 : scaleFactor));
-            h_next_dropped = multiply(h_next, mask);
+    streamStates.forEach((stream, s) => {
+        const seqStart = s * streamLength + step;
+        seqEnd = s * streamLength + windowEnd;
+        cache = [];
+        // Start with each layer's hidden state from the end of this stream's previous window.
+        states = statePolicy === 'reset-sequence' ? zeroStates() : [...stream.hidden];
+
+        // --- FORWARD PASS through the sequence ---
+        for (let t = seqStart; t < seqEnd; t++) {
+            const inputIndex = encodedText[t];
+            // `<bos>` starts a new word, so under 'reset-word' the state going into it is cleared.
+            const reset = inputIndex === resetIndex;
+            if (reset) states = zeroStates();
+            const layerCache: typeof cache[number]['layers'] = [];
+            let x = rowView(model.embedding, inputIndex);
+
+            for (let l = 0; l < numLayers; l++) {
+                const layer = model.layers[l];
+                const h_prev = states[l];
+
+                // Calculate the new hidden state: h_t = tanh(Wxh*x_t + Whh*h_{t-1} + biases)
+                const h_t = createVector(hiddenSize);
+                affine(h_t.data, x, layer.Wxh.weights, layer.Wxh.biases);
+                gemv(h_t.data, h_prev.data, layer.Whh.weights, true);
+                mapInPlace(h_t.data, tanh);
+                states[l] = h_t;
+
+                // Apply dropout to the output passed up to the next layer (or the output layer).
+                const mask = createDropoutMask(hiddenSize, dropoutRate);
+                let out = h_t.data;
+                if (mask) {
+                    out = Float64Array.from(h_t.data);
+                    hadamardInPlace(out, mask.data);
+                }
+                layerCache.push({ x, h_prev, h_t, mask, out });
+                x = out;
+            }
+
+            // Calculate output probabilities: p = softmax(Why*h_t + biases), using the top layer's output.
+            const prob = createVector(vocabSize);
+            affine(prob.data, layerCache[numLayers - 1].out, model.Why.weights, model.Why.biases);
+            softmaxInPlace(prob.data);
+
+            // Calculate loss for this time step.
+            const targetIndex = encodedText[t + 1];
+            totalLoss += -Math.log(prob.data[targetIndex] + 1e-9);
+
+            predictionResults.push({
+                inputToken: model.vocab[inputIndex],
+                targetToken: model.vocab[targetIndex],
+                predictedToken: model.vocab[argmax(prob.data)],
+            });
+
+            // Store values needed for the backward pass.
+            cache.push({ inputIndex, reset, layers: layerCache, prob });
         }
-        hiddenStates.push(h_next_dropped);
 
-        // Calculate output probabilities: p = softmax(Why*h_t + biases)
-        const outputRaw = add(dot(h_next_dropped, model.Why.weights), model.Why.biases);
-        const prob = softmax(outputRaw);
-        
-        // Calculate loss for this time step.
-        const targetIndex = encodedText[t + 1];
-        totalLoss += -Math.log(prob.data[0][targetIndex] + 1e-9);
-        
-        const predictedIndex = prob.data[0].indexOf(Math.max(...prob.data[0]));
-        predictionResults.push({
-            inputToken: model.vocab[encodedText[t]],
-            targetToken: model.vocab[targetIndex],
-            predictedToken: model.vocab[predictedIndex],
-        });
+        // --- BACKWARD PASS (Backpropagation Through Time) ---
+        // Gradient flowing into each layer's hidden state from the *next* time step.
+        const dh_next = model.layers.map(() => new Float64Array(hiddenSize));
 
-        // Store values needed for the backward pass.
-        cache.push({ inputVector, h_prev, h_next, mask, prob, h_next_dropped });
-    }
-    
-    // --- BACKWARD PASS (Backpropagation Through Time) ---
-    // Initialize gradients to zero.
-    let dWxh = createMatrix(vocabSize, hiddenSize);
-    let dWhh = createMatrix(hiddenSize, hiddenSize);
-    let dWhy = createMatrix(hiddenSize, vocabSize);
-    let dbxh = createMatrix(1, hiddenSize);
-    let dbhy = createMatrix(1, vocabSize);
-    let dh_next_grad = createMatrix(1, hiddenSize); // Gradient from the *next* time step.
-
-    // Iterate backwards through the sequence.
-    for (let t = cache.length - 1; t >= 0; t--) {
-        const { inputVector, h_prev, h_next, mask, prob, h_next_dropped } = cache[t];
-        
-        // BUG FIX: Deep copy `prob` to avoid modifying the cached value.
-        const dy = JSON.parse(JSON.stringify(prob));
-        dy.data[0][encodedText[step + t + 1]] -= 1; // Gradient for softmax
-
-        // Calculate gradients for output layer.
-        dWhy = add(dWhy, dot(transpose(h_next_dropped), dy));
-        dbhy = add(dbhy, dy);
-
-        // Backpropagate gradient to the hidden state.
-        let dh = add(dot(dy, transpose(model.Why.weights)), dh_next_grad);
-        
-        if (mask) { // Backpropagate through dropout.
-            dh = multiply(dh, mask);
+        // Iterate backwards through the sequence.
+        for (let t = cache.length - 1; t >= 0; t--) {
+            const { inputIndex, reset, layers: layerCache, prob } = cache[t];
+
+            const dy = lossGradient(prob.data, encodedText[seqStart + t + 1], seqStart + t);
+
+            // Calculate gradients for output layer.
+            addOuter(dWhy, layerCache[numLayers - 1].out, dy);
+            axpy(dbhy.data, 1, dy);
+
+            // Backpropagate to the top layer's output, then down through the stack.
+            let dOut = new Float64Array(hiddenSize);
+            gemvT(dOut, dy, model.Why.weights);
+
+            for (let l = numLayers - 1; l >= 0; l--) {
+                const { x, h_prev, h_t, mask } = layerCache[l];
+                const layer = model.layers[l];
+                const g = grads[l];
+
+                if (mask) { // Backpropagate through dropout.
+                    hadamardInPlace(dOut, mask.data);
+                }
+
+                // Add the gradient from the next time step, then backpropagate through the tanh activation function.
+                const dh_raw = dOut;
+                for (let k = 0; k < hiddenSize; k++) {
+                    dh_raw[k] = (dh_raw[k] + dh_next[l][k]) * dtanh(h_t.data[k]);
+                }
+
+                // Calculate gradients for hidden and input layers.
+                accumulateInputGradient(g['Wxh.weights'], g['Wxh.biases'], x, dh_raw);
+                addOuter(g['Whh.weights'], h_prev.data, dh_raw);
+
+                // Pass the gradient to the previous time step...
+                gemvT(dh_next[l], dh_raw, layer.Whh.weights);
+                // ...and down to the layer's input.
+                dOut = new Float64Array(layer.Wxh.weights.rows);
+                gemvT(dOut, dh_raw, layer.Wxh.weights);
+            }
+            // The first layer's input is the token's embedding, so only that row receives a gradient.
+            addToRow(dEmbedding, inputIndex, dOut);
+            // A reset cut the state off from the previous time step, so no gradient flows back past it.
+            if (reset) dh_next.forEach(d => d.fill(0));
         }
 
-        // Backpropagate through the tanh activation function.
-        let dh_raw = multiply(dh, map(h_next, dtanh));
+        // Keep this stream's final hidden states for its next window.
+        stream.hidden = states;
+    });
 
-        // Calculate gradients for hidden and input layers.
-        dbxh = add(dbxh, dh_raw);
-        dWxh = add(dWxh, dot(transpose(inputVector), dh_raw));
-        dWhh = add(dWhh, dot(transpose(h_prev), dh_raw));
-        // Pass the gradient to the previous time step.
-        dh_next_grad = dot(dh_raw, transpose(model.Whh.weights));
-    }
-    
     // --- WEIGHT UPDATE ---
-    const updatedModel = JSON.parse(JSON.stringify(model));
-    const lr = -learningRate;
-    const clip = (m: Matrix) => map(m, v => Math.max(-5, Math.min(5, v)));
-
-    updatedModel.Wxh.weights = add(model.Wxh.weights, scale(clip(dWxh), lr));
-    updatedModel.Whh.weights = add(model.Whh.weights, scale(clip(dWhh), lr));
-    updatedModel.Why.weights = add(model.Why.weights, scale(clip(dWhy), lr));
-    updatedModel.Wxh.biases = add(model.Wxh.biases, scale(clip(dbxh), lr));
-    updatedModel.Why.biases = add(model.Why.biases, scale(clip(dbhy), lr));
-    
-    // Update the model's persistent hidden state for the next sequence.
-    updatedModel.h = { ...hiddenStates[hiddenStates.length-1] };
+    const gradients = {
+        'embedding': dEmbedding,
+        ...prefixLayerParameters(grads),
+        'Why.weights': dWhy,
+        'Why.biases': dbhy,
+    };
+    scaleGradients(gradients, 1 / streamStates.length);
+    const gradientNorms = updateParameters(model, gradients, learningRate, optimizer, clipping);
+
+    // The model keeps the last stream's hidden states, which generation starts from.
+    model.layers.forEach((layer, l) => { layer.h = states[l]; });
 
     const lastProb = cache.length > 0 ? cache[cache.length-1].prob : null;
-    const predictedIndex = lastProb ? lastProb.data[0].indexOf(Math.max(...lastProb.data[0])) : 0;
-    
+    const predictedIndex = lastProb ? argmax(lastProb.data) : 0;
+
     return {
-        updatedModel,
-        loss: totalLoss / (seqEnd - step || 1),
+        updatedModel: model,
+        gradientNorms,
+        loss: totalLoss / (predictionResults.length || 1),
         inputToken: model.vocab[encodedText[seqEnd-1]],
         targetToken: model.vocab[encodedText[seqEnd]],
         predictedToken: model.vocab[predictedIndex],
         predictionResults,
         activations: {
-            hidden: hiddenStates[hiddenStates.length - 1],
-            output: lastProb,
+            hidden: states[numLayers - 1],
+            output: lastProb!,
         },
     };
 };
 
+// --- GRU Implementation ---
 /**
- * Generates a word using a trained RNN model.
+ * Initializes a new GRU model with one or more stacked layers.
+ * @param vocab - The list of unique tokens.
+ * @param hiddenSize - The number of neurons in each layer.
+ * @param numLayers - The number of stacked layers. Defaults to 1.
+ * @param embeddingDim - The size of each token's embedding vector.
+ * @returns A new GRULanguageModel object.
  */
-export const generateRNN = (model: RNNModel, seed: string, length: number, temperature: number = 0.7): string => {
-    let current_h = model.h; // Start with the model's last known hidden state.
-    let result = '';
-    let inputChar = seed;
-
-    for (let i = 0; i < length; i++) {
-        const inputIndex = model.tokenToIndex[inputChar];
-        if (inputIndex === undefined) break;
-
-        const inputVector = createMatrix(1, model.vocab.length);
-        inputVector.data[0][inputIndex] = 1;
-        
-        // Forward pass for a single step.
-        current_h = map(add(add(dot(inputVector, model.Wxh.weights), model.Wxh.biases), dot(current_h, model.Whh.weights)), tanh);
-        const outputRaw = add(dot(current_h, model.Why.weights), model.Why.biases);
-
-        // Sample the next character.
-        const scaledOutput = map(outputRaw, val => val / temperature);
-        const outputProbs = softmax(scaledOutput);
-        
-        if (i < MIN_WORD_LENGTH) {
-            const spaceIndex = model.tokenToIndex[' '];
-            if (spaceIndex !== undefined && outputProbs.data[0].length > spaceIndex) {
-                const spaceProb = outputProbs.data[0][spaceIndex];
-                if (spaceProb > 0 && spaceProb < 1) {
-                    outputProbs.data[0][spaceIndex] = 0;
-                    const remainingProbSum = 1 - spaceProb;
-                    for (let k = 0; k < outputProbs.data[0].length; k++) {
-                        if (k !== spaceIndex) {
-                           outputProbs.data[0][k] /= remainingProbSum;
-                        }
-                    }
-                }
-            }
-        }
-        
-        const rand = Math.random();
-        let cumulativeProb = 0;
-        let nextIndex = model.vocab.length - 1;
-        for (let j = 0; j < outputProbs.data[0].length; j++) {
-            cumulativeProb += outputProbs.data[0][j];
-            if (rand < cumulativeProb) {
-                nextIndex = j;
-                break;
-            }
-        }
-        
-        const nextChar = model.vocab[nextIndex];
-        if (nextChar === ' ') break;
-        result += nextChar;
-        inputChar = nextChar; // The output becomes the next input.
-    }
-
-    return seed + result;
-};
-
-
-// --- GRU Implementation ---
-export const initializeGRUModel = (vocab: string[], hiddenSize: number): GRULanguageModel => {
+export const initializeGRUModel = (
+    vocab: string[],
+    hiddenSize: number,
+    numLayers: number = 1,
+    embeddingDim: number = DEFAULT_EMBEDDING_DIM
+): GRULanguageModel => {
     const vocabSize = vocab.length;
     const tokenToIndex = Object.fromEntries(vocab.map((char, i) => [char, i]));
     return {
         type: 'GRU',
         vocab,
         tokenToIndex,
-        Wz: createLayer(vocabSize, hiddenSize), // Update gate
-        Uz: createLayer(hiddenSize, hiddenSize),
-        Wr: createLayer(vocabSize, hiddenSize), // Reset gate
-        Ur: createLayer(hiddenSize, hiddenSize),
-        Wh: createLayer(vocabSize, hiddenSize), // Candidate state
-        Uh: createLayer(hiddenSize, hiddenSize),
+        embedding: createEmbedding(vocabSize, embeddingDim), // One learned vector per token
+        layers: Array.from({ length: numLayers }, (_, l) => {
+            const inputSize = layerInputSize(l, embeddingDim, hiddenSize);
+            return {
+                Wz: createLayer(inputSize, hiddenSize), // Update gate
+                Uz: createLayer(hiddenSize, hiddenSize),
+                Wr: createLayer(inputSize, hiddenSize), // Reset gate
+                Ur: createLayer(hiddenSize, hiddenSize),
+                Wh: createLayer(inputSize, hiddenSize), // Candidate state
+                Uh: createLayer(hiddenSize, hiddenSize),
+                h: createMatrix(1, hiddenSize), // Initial hidden state
+            };
+        }),
         Why: createLayer(hiddenSize, vocabSize), // Output layer
-        h: createMatrix(1, hiddenSize), // Initial hidden state
     };
 };
 
 /**
- * Performs a single training step for a GRU model.
+ * Names the trainable parameters of one GRU layer.
+ */
+const gruLayerParameters = (layer: GRULayer): ParameterMap => ({
+    'Wz.weights': layer.Wz.weights, 'Uz.weights': layer.Uz.weights, 'Wz.biases': layer.Wz.biases,
+    'Wr.weights': layer.Wr.weights, 'Ur.weights': layer.Ur.weights, 'Wr.biases': layer.Wr.biases,
+    'Wh.weights': layer.Wh.weights, 'Uh.weights': layer.Uh.weights, 'Wh.biases': layer.Wh.biases,
+});
+
+/**
+ * Runs one GRU cell step, writing the gates and the new hidden state into the given buffers.
+ * @param layer - The GRU layer.
+ * @param x - The layer's input: the token's embedding for the first layer, the output of the layer below otherwise.
+ * @param h_prev - The previous hidden state.
+ * @param out - Buffers for the update gate, reset gate, reset-scaled previous state, candidate state, and new state.
+ */
+const gruCellForward = (
+    layer: GRULayer,
+    x: Float64Array,
+    h_prev: Float64Array,
+    out: { z_t: Float64Array; r_t: Float64Array; r_h_prev: Float64Array; h_hat_t: Float64Array; h_t: Float64Array }
+) => {
+    const { z_t, r_t, r_h_prev, h_hat_t, h_t } = out;
+    // z_t (update gate): decides how much of the past information to keep.
+    affine(z_t, x, layer.Wz.weights, layer.Wz.biases);
+    gemv(z_t, h_prev, layer.Uz.weights, true);
+    mapInPlace(z_t, sigmoid);
+    // r_t (reset gate): decides how much of the past information to forget.
+    affine(r_t, x, layer.Wr.weights, layer.Wr.biases);
+    gemv(r_t, h_prev, layer.Ur.weights, true);
+    mapInPlace(r_t, sigmoid);
+    // h_hat_t (candidate hidden state): a new hidden state proposed based on the input and *reset* previous state.
+    r_h_prev.set(r_t);
+    hadamardInPlace(r_h_prev, h_prev);
+    affine(h_hat_t, x, layer.Wh.weights, layer.Wh.biases);
+    gemv(h_hat_t, r_h_prev, layer.Uh.weights, true);
+    mapInPlace(h_hat_t, tanh);
+    // h_t (final hidden state): a combination of the previous state and the candidate state, controlled by the update gate.
+    for (let k = 0; k < h_t.length; k++) {
+        h_t[k] = (1 - z_t[k]) * h_prev[k] + z_t[k] * h_hat_t[k];
+    }
+};
+
+/**
+ * Runs one time step through every layer of a GRU.
+ * @param model - The GRU model.
+ * @param inputIndex - The input token.
+ * @param states - The hidden state of each layer, updated in place.
+ * @param buffers - Scratch buffers for `gruCellForward`, shared by all layers.
+ * @returns The top layer's new hidden state.
+ */
+const gruStackForward = (
+    model: GRULanguageModel,
+    inputIndex: number,
+    states: Float64Array[],
+    buffers: Parameters<typeof gruCellForward>[3]
+): Float64Array => {
+    let x = rowView(model.embedding, inputIndex);
+    for (let l = 0; l < model.layers.length; l++) {
+        gruCellForward(model.layers[l], x, states[l], buffers);
+        states[l].set(buffers.h_t);
+        x = states[l];
+    }
+    return states[states.length - 1];
+};
+
+/**
+ * Performs a single training step for a GRU model, backpropagating through time and
+ * down through every stacked layer. Streams and state resets work as in `trainStepRNN`.
+ * @param streams - The state of each parallel stream, updated in place. When omitted, the whole text
+ * is a single stream that starts from the model's stored hidden state.
+ * @param statePolicy - When the hidden state is reset to zeros.
+ * @param lossGradient - The gradient of the loss with respect to the logits, cross-entropy by default.
  */
 export const trainStepGRU = (
     model: GRULanguageModel,
@@ -646,242 +806,327 @@ export const trainStepGRU = (
     step: number,
     sequenceLength: number,
     learningRate: number,
-    dropoutRate: number = 0
+    dropoutRate: number = 0,
+    optimizer: Optimizer = createOptimizer(DEFAULT_OPTIMIZER_CONFIG),
+    clipping: GradientClippingConfig = DEFAULT_GRADIENT_CLIPPING,
+    streams: RecurrentStreamState[] | null = null,
+    statePolicy: StateCarryPolicy = 'carry',
+    lossGradient: LossGradient = softmaxLossGradient
 ): TrainStepResult => {
     const vocabSize = model.vocab.length;
     const hiddenSize = model.Why.weights.rows;
-    const seqEnd = Math.min(step + sequenceLength, encodedText.length - 1);
-    
-    const cache: any[] = [];
-    const hiddenStates: Matrix[] = [model.h];
+    const numLayers = model.layers.length;
+    const streamStates = streams ?? [{ hidden: model.layers.map(layer => layer.h) }];
+    const streamLength = getStreamLength(encodedText.length, streamStates.length);
+    const windowEnd = Math.min(step + sequenceLength, streamLength);
+    const resetIndex = statePolicy === 'reset-word' ? getWordBoundaries(model.tokenToIndex).start : undefined;
+    const zeroStates = () => model.layers.map(() => createVector(hiddenSize));
+
+    // Initialize gradients, summed over each stream's window and then averaged over the streams.
+    const dEmbedding = createMatrix(vocabSize, model.embedding.cols);
+    const grads = model.layers.map(layer => zerosLike(gruLayerParameters(layer)));
+    const dWhy = createMatrix(hiddenSize, vocabSize);
+    const dby = createMatrix(1, vocabSize);
+    const dz_raw = new Float64Array(hiddenSize);
+    const dr_raw = new Float64Array(hiddenSize);
+    const dh_hat_raw = new Float64Array(hiddenSize);
+    const dr_h_prev = new Float64Array(hiddenSize);
+
+    let cache: {
+        inputIndex: number;
+        reset: boolean;
+        layers: {
+            x: Float64Array; h_prev: Matrix; z_t: Matrix; r_t: Matrix; r_h_prev: Float64Array;
+            h_hat_t: Matrix; h_t: Matrix; mask: Matrix | null; out: Float64Array;
+        }[];
+        prob: Matrix;
+    }[] = [];
+    let states: Matrix[] = [];
+    let seqEnd = windowEnd;
     let totalLoss = 0;
     const predictionResults: { inputToken: string; targetToken: string; predictedToken: string; }[] = [];
 
-    // --- FORWARD PASS ---
-    for (let t = step; t < seqEnd; t++) {
-        const inputVector = createMatrix(1, vocabSize);
-        inputVector.data[0][encodedText[t]] = 1;
-
-        const h_prev = hiddenStates[hiddenStates.length - 1];
-
-        // GRU gate calculations
-        // z_t (update gate): decides how much of the past information to keep.
-        const z_t = map(add(add(dot(inputVector, model.Wz.weights), model.Wz.biases), dot(h_prev, model.Uz.weights)), sigmoid);
-        // r_t (reset gate): decides how much of the past information to forget.
-        const r_t = map(add(add(dot(inputVector, model.Wr.weights), model.Wr.biases), dot(h_prev, model.Ur.weights)), sigmoid);
-        // h_hat_t (candidate hidden state): a new hidden state proposed based on the input and *reset* previous state.
-        const h_hat_t = map(add(add(dot(inputVector, model.Wh.weights), model.Wh.biases), dot(multiply(r_t, h_prev), model.Uh.weights)), tanh);
-        // h_t (final hidden state): a combination of the previous state and the candidate state, controlled by the update gate.
-        const h_t = add(multiply(subtract(ones(1, hiddenSize), z_t), h_prev), multiply(z_t, h_hat_t));
-        
-        let mask: Matrix | null = null;
-        let h_t_dropped = h_t;
-        if (dropoutRate > 0) {
-            const scaleFactor = 1.0 / (1.0 - dropoutRate);
-            mask = createMatrix(1, hiddenSize, () => (Math.random() < dropoutRate ? 0 : scaleFactor));
-            h_t_dropped = multiply(h_t, mask);
+    streamStates.forEach((stream, s) => {
+        const seqStart = s * streamLength + step;
+        seqEnd = s * streamLength + windowEnd;
+        cache = [];
+        states = statePolicy === 'reset-sequence' ? zeroStates() : [...stream.hidden];
+
+        // --- FORWARD PASS ---
+        for (let t = seqStart; t < seqEnd; t++) {
+            const inputIndex = encodedText[t];
+            const reset = inputIndex === resetIndex;
+            if (reset) states = zeroStates();
+            const layerCache: typeof cache[number]['layers'] = [];
+            let x = rowView(model.embedding, inputIndex);
+
+            for (let l = 0; l < numLayers; l++) {
+                const h_prev = states[l];
+
+                // GRU gate calculations
+                const z_t = createVector(hiddenSize);
+                const r_t = createVector(hiddenSize);
+                const r_h_prev = new Float64Array(hiddenSize);
+                const h_hat_t = createVector(hiddenSize);
+                const h_t = createVector(hiddenSize);
+                gruCellForward(model.layers[l], x, h_prev.data, { z_t: z_t.data, r_t: r_t.data, r_h_prev, h_hat_t: h_hat_t.data, h_t: h_t.data });
+                states[l] = h_t;
+
+                // Dropout between layers (and before the output layer).
+                const mask = createDropoutMask(hiddenSize, dropoutRate);
+                let out = h_t.data;
+                if (mask) {
+                    out = Float64Array.from(h_t.data);
+                    hadamardInPlace(out, mask.data);
+                }
+                layerCache.push({ x, h_prev, z_t, r_t, r_h_prev, h_hat_t, h_t, mask, out });
+                x = out;
+            }
+
+            // Output calculation
+            const prob = createVector(vocabSize);
+            affine(prob.data, layerCache[numLayers - 1].out, model.Why.weights, model.Why.biases);
+            softmaxInPlace(prob.data);
+
+            const targetIndex = encodedText[t + 1];
+            totalLoss += -Math.log(prob.data[targetIndex] + 1e-9);
+
+            predictionResults.push({
+                inputToken: model.vocab[inputIndex],
+                targetToken: model.vocab[targetIndex],
+                predictedToken: model.vocab[argmax(prob.data)],
+            });
+
+            cache.push({ inputIndex, reset, layers: layerCache, prob });
         }
-        hiddenStates.push(h_t_dropped);
 
-        // Output calculation
-        const outputRaw = add(dot(h_t_dropped, model.Why.weights), model.Why.biases);
-        const prob = softmax(outputRaw);
-        
-        const targetIndex = encodedText[t + 1];
-        totalLoss += -Math.log(prob.data[0][targetIndex] + 1e-9);
+        // --- BACKWARD PASS ---
+        const dh_next = model.layers.map(() => new Float64Array(hiddenSize));
 
-        const predictedIndex = prob.data[0].indexOf(Math.max(...prob.data[0]));
-        predictionResults.push({
-            inputToken: model.vocab[encodedText[t]],
-            targetToken: model.vocab[targetIndex],
-            predictedToken: model.vocab[predictedIndex],
-        });
+        for (let t = cache.length - 1; t >= 0; t--) {
+            const { inputIndex, reset, layers: layerCache, prob } = cache[t];
+
+            const dy = lossGradient(prob.data, encodedText[seqStart + t + 1], seqStart + t);
+
+            // Gradients for output layer
+            addOuter(dWhy, layerCache[numLayers - 1].out, dy);
+            axpy(dby.data, 1, dy);
+
+            // Backpropagate to the top layer's output
+            let dOut = new Float64Array(hiddenSize);
+            gemvT(dOut, dy, model.Why.weights);
+
+            for (let l = numLayers - 1; l >= 0; l--) {
+                const { x, h_prev, z_t, r_t, r_h_prev, h_hat_t, mask } = layerCache[l];
+                const z = z_t.data, r = r_t.data, h_hat = h_hat_t.data, hp = h_prev.data;
+                const layer = model.layers[l];
+                const g = grads[l];
+
+                // Backpropagate to hidden state
+                if (mask) { hadamardInPlace(dOut, mask.data); }
+                const dh = dOut;
+                axpy(dh, 1, dh_next[l]);
+
+                // Backpropagate through the final hidden state equation and candidate state
+                for (let k = 0; k < hiddenSize; k++) {
+                    dh_hat_raw[k] = dh[k] * z[k] * dtanh(h_hat[k]);
+                    dz_raw[k] = dh[k] * (h_hat[k] - hp[k]) * dsigmoid(z[k]);
+                }
+                accumulateInputGradient(g['Wh.weights'], g['Wh.biases'], x, dh_hat_raw);
+                addOuter(g['Uh.weights'], r_h_prev, dh_hat_raw);
+
+                // Backpropagate through reset gate
+                gemvT(dr_h_prev, dh_hat_raw, layer.Uh.weights);
+                for (let k = 0; k < hiddenSize; k++) {
+                    dr_raw[k] = dr_h_prev[k] * hp[k] * dsigmoid(r[k]);
+                }
+                accumulateInputGradient(g['Wr.weights'], g['Wr.biases'], x, dr_raw);
+                addOuter(g['Ur.weights'], hp, dr_raw);
+
+                // Backpropagate through update gate
+                accumulateInputGradient(g['Wz.weights'], g['Wz.biases'], x, dz_raw);
+                addOuter(g['Uz.weights'], hp, dz_raw);
+
+                // Accumulate gradient for the previous time step's hidden state
+                for (let k = 0; k < hiddenSize; k++) {
+                    dh_next[l][k] = dh[k] * (1 - z[k]) + dr_h_prev[k] * r[k];
+                }
+                gemvT(dh_next[l], dz_raw, layer.Uz.weights, true);
+                gemvT(dh_next[l], dr_raw, layer.Ur.weights, true);
+
+                // Pass the gradient down to the layer's input, through all three input weights
+                dOut = new Float64Array(layer.Wz.weights.rows);
+                gemvT(dOut, dz_raw, layer.Wz.weights);
+                gemvT(dOut, dr_raw, layer.Wr.weights, true);
+                gemvT(dOut, dh_hat_raw, layer.Wh.weights, true);
+            }
+            // The first layer's input is the token's embedding
+            addToRow(dEmbedding, inputIndex, dOut);
+            // No gradient flows back past a reset
+            if (reset) dh_next.forEach(d => d.fill(0));
+        }
+
+        stream.hidden = states;
+    });
 
-        cache.push({ inputVector, h_prev, z_t, r_t, h_hat_t, h_t, mask, prob, h_t_dropped });
-    }
-    
-    // --- BACKWARD PASS ---
-    // Initialize gradients
-    const grads = {
-        Wz: createMatrix(vocabSize, hiddenSize), Uz: createMatrix(hiddenSize, hiddenSize), bz: createMatrix(1, hiddenSize),
-        Wr: createMatrix(vocabSize, hiddenSize), Ur: createMatrix(hiddenSize, hiddenSize), br: createMatrix(1, hiddenSize),
-        Wh: createMatrix(vocabSize, hiddenSize), Uh: createMatrix(hiddenSize, hiddenSize), bh: createMatrix(1, hiddenSize),
-        Why: createMatrix(hiddenSize, vocabSize), by: createMatrix(1, vocabSize),
-    };
-    let dh_next_grad = createMatrix(1, hiddenSize);
-
-    for (let t = cache.length - 1; t >= 0; t--) {
-        const { inputVector, h_prev, z_t, r_t, h_hat_t, h_t, mask, prob } = cache[t];
-        
-        // BUG FIX: Deep copy `prob` to avoid modifying the cached value.
-        const dy = JSON.parse(JSON.stringify(prob));
-        dy.data[0][encodedText[step + t + 1]] -= 1;
-
-        // Gradients for output layer
-        grads.Why = add(grads.Why, dot(transpose(hiddenStates[t + 1]), dy));
-        grads.by = add(grads.by, dy);
-
-        // Backpropagate to hidden state
-        let dh = add(dot(dy, transpose(model.Why.weights)), dh_next_grad);
-        if (mask) { dh = multiply(dh, mask); }
-        
-        // Backpropagate through the final hidden state equation
-        const dh_prev_from_h = multiply(dh, subtract(ones(1, hiddenSize), z_t));
-        const dz = multiply(dh, subtract(h_hat_t, h_prev));
-        const dh_hat = multiply(dh, z_t);
-        
-        // Backpropagate through candidate state
-        const dh_hat_raw = multiply(dh_hat, map(h_hat_t, dtanh));
-        grads.Wh = add(grads.Wh, dot(transpose(inputVector), dh_hat_raw));
-        grads.bh = add(grads.bh, dh_hat_raw);
-        grads.Uh = add(grads.Uh, dot(transpose(multiply(r_t, h_prev)), dh_hat_raw));
-        
-        // Backpropagate through reset gate
-        const dr_h_prev = dot(dh_hat_raw, transpose(model.Uh.weights));
-        const dr = multiply(dr_h_prev, h_prev);
-        const dr_raw = multiply(dr, map(r_t, dsigmoid));
-        grads.Wr = add(grads.Wr, dot(transpose(inputVector), dr_raw));
-        grads.br = add(grads.br, dr_raw);
-        grads.Ur = add(grads.Ur, dot(transpose(h_prev), dr_raw));
-        
-        // Backpropagate through update gate
-        const dz_raw = multiply(dz, map(z_t, dsigmoid));
-        grads.Wz = add(grads.Wz, dot(transpose(inputVector), dz_raw));
-        grads.bz = add(grads.bz, dz_raw);
-        grads.Uz = add(grads.Uz, dot(transpose(h_prev), dz_raw));
-        
-        // Accumulate gradient for the *next* dh_next_grad
-        const dh_prev_from_r = multiply(dr_h_prev, r_t);
-        const dh_prev_from_z = dot(dz_raw, transpose(model.Uz.weights));
-        const dh_prev_from_r_gate = dot(dr_raw, transpose(model.Ur.weights));
-        dh_next_grad = add(add(add(dh_prev_from_h, dh_prev_from_r), dh_prev_from_z), dh_prev_from_r_gate);
-    }
-    
     // --- WEIGHT UPDATE ---
-    const updatedModel = JSON.parse(JSON.stringify(model));
-    const lr = -learningRate;
-    const clip = (m: Matrix) => map(m, v => Math.max(-5, Math.min(5, v)));
-
-    updatedModel.Wz.weights = add(model.Wz.weights, scale(clip(grads.Wz), lr));
-    updatedModel.Uz.weights = add(model.Uz.weights, scale(clip(grads.Uz), lr));
-    updatedModel.Wz.biases = add(model.Wz.biases, scale(clip(grads.bz), lr));
-    updatedModel.Wr.weights = add(model.Wr.weights, scale(clip(grads.Wr), lr));
-    updatedModel.Ur.weights = add(model.Ur.weights, scale(clip(grads.Ur), lr));
-    updatedModel.Wr.biases = add(model.Wr.biases, scale(clip(grads.br), lr));
-    updatedModel.Wh.weights = add(model.Wh.weights, scale(clip(grads.Wh), lr));
-    updatedModel.Uh.weights = add(model.Uh.weights, scale(clip(grads.Uh), lr));
-    updatedModel.Wh.biases = add(model.Wh.biases, scale(clip(grads.bh), lr));
-    updatedModel.Why.weights = add(model.Why.weights, scale(clip(grads.Why), lr));
-    updatedModel.Why.biases = add(model.Why.biases, scale(clip(grads.by), lr));
-    
-    updatedModel.h = { ...hiddenStates[hiddenStates.length-1] };
+    const gradients = {
+        'embedding': dEmbedding,
+        ...prefixLayerParameters(grads),
+        'Why.weights': dWhy, 'Why.biases': dby,
+    };
+    scaleGradients(gradients, 1 / streamStates.length);
+    const gradientNorms = updateParameters(model, gradients, learningRate, optimizer, clipping);
+
+    model.layers.forEach((layer, l) => { layer.h = states[l]; });
 
     const lastCacheEntry = cache.length > 0 ? cache[cache.length - 1] : null;
     const lastProb = lastCacheEntry ? lastCacheEntry.prob : null;
-    const predictedIndex = lastProb ? lastProb.data[0].indexOf(Math.max(...lastProb.data[0])) : 0;
-    
+    const predictedIndex = lastProb ? argmax(lastProb.data) : 0;
+    // The gate charts show the top layer, which feeds the output.
+    const topLayerCache = lastCacheEntry ? lastCacheEntry.layers[numLayers - 1] : null;
+
     return {
-        updatedModel,
-        loss: totalLoss / (seqEnd - step || 1),
+        updatedModel: model,
+        gradientNorms,
+        loss: totalLoss / (predictionResults.length || 1),
         inputToken: model.vocab[encodedText[seqEnd-1]],
         targetToken: model.vocab[encodedText[seqEnd]],
         predictedToken: model.vocab[predictedIndex],
         predictionResults,
         activations: {
-            hidden: hiddenStates[hiddenStates.length - 1],
-            output: lastProb,
+            hidden: states[numLayers - 1],
+            output: lastProb!,
         },
         gateActivations: {
-            z: lastCacheEntry ? lastCacheEntry.z_t : createMatrix(1, hiddenSize),
-            r: lastCacheEntry ? lastCacheEntry.r_t : createMatrix(1, hiddenSize),
+            z: topLayerCache ? topLayerCache.z_t : createMatrix(1, hiddenSize),
+            r: topLayerCache ? topLayerCache.r_t : createMatrix(1, hiddenSize),
         }
     };
 };
 
+// --- LSTM Implementation ---
 /**
- * Generates a word using a trained GRU model.
+ * Initializes a new LSTM model with one or more stacked layers.
+ * @param vocab - The list of unique tokens.
+ * @param hiddenSize - The number of neurons in each layer.
+ * @param numLayers - The number of stacked layers. Defaults to 1.
+ * @param embeddingDim - The size of each token's embedding vector.
+ * @returns A new LSTMLanguageModel object.
  */
-export const generateGRU = (model: GRULanguageModel, seed: string, length: number, temperature: number = 0.7): string => {
-    let h_prev = model.h;
-    let result = '';
-    let inputChar = seed;
-
-    for (let i = 0; i < length; i++) {
-        const inputIndex = model.tokenToIndex[inputChar];
-        if (inputIndex === undefined) break;
-        
-        const inputVector = createMatrix(1, model.vocab.length);
-        inputVector.data[0][inputIndex] = 1;
-        
-        // Single forward pass step for generation.
-        const z_t = map(add(add(dot(inputVector, model.Wz.weights), model.Wz.biases), dot(h_prev, model.Uz.weights)), sigmoid);
-        const r_t = map(add(add(dot(inputVector, model.Wr.weights), model.Wr.biases), dot(h_prev, model.Ur.weights)), sigmoid);
-        const h_hat_t = map(add(add(dot(inputVector, model.Wh.weights), model.Wh.biases), dot(multiply(r_t, h_prev), model.Uh.weights)), tanh);
-        const h_t = add(multiply(subtract(ones(1, h_prev.cols), z_t), h_prev), multiply(z_t, h_hat_t));
-        
-        const outputRaw = add(dot(h_t, model.Why.weights), model.Why.biases);
-
-        // Sample next character.
-        const scaledOutput = map(outputRaw, val => val / temperature);
-        const outputProbs = softmax(scaledOutput);
-        
-        if (i < MIN_WORD_LENGTH) {
-            const spaceIndex = model.tokenToIndex[' '];
-            if (spaceIndex !== undefined && outputProbs.data[0].length > spaceIndex) {
-                const spaceProb = outputProbs.data[0][spaceIndex];
-                if (spaceProb > 0 && spaceProb < 1) {
-                    outputProbs.data[0][spaceIndex] = 0;
-                    const remainingProbSum = 1 - spaceProb;
-                    for (let k = 0; k < outputProbs.data[0].length; k++) {
-                       if (k !== spaceIndex) {
-                           outputProbs.data[0][k] /= remainingProbSum;
-                       }
-                    }
-                }
-            }
-        }
-        
-        const rand = Math.random();
-        let cumulativeProb = 0;
-        let nextIndex = model.vocab.length - 1;
-        for (let j = 0; j < outputProbs.data[0].length; j++) {
-            cumulativeProb += outputProbs.data[0][j];
-            if (rand < cumulativeProb) {
-                nextIndex = j;
-                break;
-            }
-        }
-        
-        const nextChar = model.vocab[nextIndex];
-        if (nextChar === ' ') break;
-        result += nextChar;
-        inputChar = nextChar;
-        h_prev = h_t;
-    }
-
-    return seed + result;
-};
-
-// --- LSTM Implementation ---
-export const initializeLSTMModel = (vocab: string[], hiddenSize: number): LSTMLanguageModel => {
+export const initializeLSTMModel = (
+    vocab: string[],
+    hiddenSize: number,
+    numLayers: number = 1,
+    embeddingDim: number = DEFAULT_EMBEDDING_DIM
+): LSTMLanguageModel => {
     const vocabSize = vocab.length;
     const tokenToIndex = Object.fromEntries(vocab.map((char, i) => [char, i]));
     return {
         type: 'LSTM',
         vocab,
         tokenToIndex,
-        Wf: createLayer(vocabSize, hiddenSize), Uf: createLayer(hiddenSize, hiddenSize), // Forget gate
-        Wi: createLayer(vocabSize, hiddenSize), Ui: createLayer(hiddenSize, hiddenSize), // Input gate
-        Wo: createLayer(vocabSize, hiddenSize), Uo: createLayer(hiddenSize, hiddenSize), // Output gate
-        Wc: createLayer(vocabSize, hiddenSize), Uc: createLayer(hiddenSize, hiddenSize), // Cell state candidate
+        embedding: createEmbedding(vocabSize, embeddingDim), // One learned vector per token
+        layers: Array.from({ length: numLayers }, (_, l) => {
+            const inputSize = layerInputSize(l, embeddingDim, hiddenSize);
+            return {
+                Wf: createLayer(inputSize, hiddenSize), Uf: createLayer(hiddenSize, hiddenSize), // Forget gate
+                Wi: createLayer(inputSize, hiddenSize), Ui: createLayer(hiddenSize, hiddenSize), // Input gate
+                Wo: createLayer(inputSize, hiddenSize), Uo: createLayer(hiddenSize, hiddenSize), // Output gate
+                Wc: createLayer(inputSize, hiddenSize), Uc: createLayer(hiddenSize, hiddenSize), // Cell state candidate
+                h: createMatrix(1, hiddenSize), // Initial hidden state
+                c: createMatrix(1, hiddenSize), // Initial cell state
+            };
+        }),
         Why: createLayer(hiddenSize, vocabSize), // Output layer
-        h: createMatrix(1, hiddenSize), // Initial hidden state
-        c: createMatrix(1, hiddenSize), // Initial cell state
     };
 };
 
 /**
- * Performs a single training step for an LSTM model.
+ * Names the trainable parameters of one LSTM layer.
+ */
+const lstmLayerParameters = (layer: LSTMLayer): ParameterMap => ({
+    'Wf.weights': layer.Wf.weights, 'Uf.weights': layer.Uf.weights, 'Wf.biases': layer.Wf.biases,
+    'Wi.weights': layer.Wi.weights, 'Ui.weights': layer.Ui.weights, 'Wi.biases': layer.Wi.biases,
+    'Wo.weights': layer.Wo.weights, 'Uo.weights': layer.Uo.weights, 'Wo.biases': layer.Wo.biases,
+    'Wc.weights': layer.Wc.weights, 'Uc.weights': layer.Uc.weights, 'Wc.biases': layer.Wc.biases,
+});
+
+/**
+ * Runs one LSTM cell step, writing the gates and the new states into the given buffers.
+ * @param layer - The LSTM layer.
+ * @param x - The layer's input: the token's embedding for the first layer, the output of the layer below otherwise.
+ * @param h_prev - The previous hidden state.
+ * @param c_prev - The previous cell state.
+ * @param out - Buffers for the four gates, the new cell state, and the new hidden state.
+ */
+const lstmCellForward = (
+    layer: LSTMLayer,
+    x: Float64Array,
+    h_prev: Float64Array,
+    c_prev: Float64Array,
+    out: { f_t: Float64Array; i_t: Float64Array; o_t: Float64Array; c_hat_t: Float64Array; c_t: Float64Array; h_t: Float64Array }
+) => {
+    const { f_t, i_t, o_t, c_hat_t, c_t, h_t } = out;
+    // f_t (forget gate): decides what to throw away from the old cell state.
+    affine(f_t, x, layer.Wf.weights, layer.Wf.biases);
+    gemv(f_t, h_prev, layer.Uf.weights, true);
+    mapInPlace(f_t, sigmoid);
+    // i_t (input gate): decides which new values to update in the cell state.
+    affine(i_t, x, layer.Wi.weights, layer.Wi.biases);
+    gemv(i_t, h_prev, layer.Ui.weights, true);
+    mapInPlace(i_t, sigmoid);
+    // o_t (output gate): decides what part of the cell state to output as the new hidden state.
+    affine(o_t, x, layer.Wo.weights, layer.Wo.biases);
+    gemv(o_t, h_prev, layer.Uo.weights, true);
+    mapInPlace(o_t, sigmoid);
+    // c_hat_t (candidate cell state): a vector of new candidate values to be added to the cell state.
+    affine(c_hat_t, x, layer.Wc.weights, layer.Wc.biases);
+    gemv(c_hat_t, h_prev, layer.Uc.weights, true);
+    mapInPlace(c_hat_t, tanh);
+
+    for (let k = 0; k < h_t.length; k++) {
+        // c_t (new cell state): combination of forgetting old parts and adding new parts.
+        c_t[k] = f_t[k] * c_prev[k] + i_t[k] * c_hat_t[k];
+        // h_t (new hidden state): filtered version of the new cell state.
+        h_t[k] = o_t[k] * tanh(c_t[k]);
+    }
+};
+
+/**
+ * Runs one time step through every layer of an LSTM.
+ * @param model - The LSTM model.
+ * @param inputIndex - The input token.
+ * @param hStates - The hidden state of each layer, updated in place.
+ * @param cStates - The cell state of each layer, updated in place.
+ * @param buffers - Scratch buffers for `lstmCellForward`, shared by all layers.
+ * @returns The top layer's new hidden state.
+ */
+const lstmStackForward = (
+    model: LSTMLanguageModel,
+    inputIndex: number,
+    hStates: Float64Array[],
+    cStates: Float64Array[],
+    buffers: Parameters<typeof lstmCellForward>[4]
+): Float64Array => {
+    let x = rowView(model.embedding, inputIndex);
+    for (let l = 0; l < model.layers.length; l++) {
+        lstmCellForward(model.layers[l], x, hStates[l], cStates[l], buffers);
+        hStates[l].set(buffers.h_t);
+        cStates[l].set(buffers.c_t);
+        x = hStates[l];
+    }
+    return hStates[hStates.length - 1];
+};
+
+/**
+ * Performs a single training step for an LSTM model, backpropagating through time and
+ * down through every stacked layer. Streams and state resets work as in `trainStepRNN`;
+ * a reset clears the cell state as well as the hidden state.
+ * @param streams - The state of each parallel stream, updated in place. When omitted, the whole text
+ * is a single stream that starts from the model's stored hidden and cell states.
+ * @param statePolicy - When the hidden and cell states are reset to zeros.
+ * @param lossGradient - The gradient of the loss with respect to the logits, cross-entropy by default.
  */
 export const trainStepLSTM = (
     model: LSTMLanguageModel,
@@ -889,237 +1134,949 @@ export const trainStepLSTM = (
     step: number,
     sequenceLength: number,
     learningRate: number,
-    dropoutRate: number = 0
+    dropoutRate: number = 0,
+    optimizer: Optimizer = createOptimizer(DEFAULT_OPTIMIZER_CONFIG),
+    clipping: GradientClippingConfig = DEFAULT_GRADIENT_CLIPPING,
+    streams: RecurrentStreamState[] | null = null,
+    statePolicy: StateCarryPolicy = 'carry',
+    lossGradient: LossGradient = softmaxLossGradient
 ): TrainStepResult => {
     const vocabSize = model.vocab.length;
     const hiddenSize = model.Why.weights.rows;
-    const seqEnd = Math.min(step + sequenceLength, encodedText.length - 1);
-
-    const cache: any[] = [];
-    const hiddenStates: Matrix[] = [model.h];
-    const cellStates: Matrix[] = [model.c];
+    const numLayers = model.layers.length;
+    const streamStates = streams ?? [{ hidden: model.layers.map(layer => layer.h), cell: model.layers.map(layer => layer.c) }];
+    const streamLength = getStreamLength(encodedText.length, streamStates.length);
+    const windowEnd = Math.min(step + sequenceLength, streamLength);
+    const resetIndex = statePolicy === 'reset-word' ? getWordBoundaries(model.tokenToIndex).start : undefined;
+    const zeroStates = () => model.layers.map(() => createVector(hiddenSize));
+
+    // Initialize gradients, summed over each stream's window and then averaged over the streams.
+    const dEmbedding = createMatrix(vocabSize, model.embedding.cols);
+    const grads = model.layers.map(layer => zerosLike(lstmLayerParameters(layer)));
+    const dWhy = createMatrix(hiddenSize, vocabSize);
+    const dby = createMatrix(1, vocabSize);
+    const do_t = new Float64Array(hiddenSize);
+    const dc_hat_raw = new Float64Array(hiddenSize);
+    const di_raw = new Float64Array(hiddenSize);
+    const df_raw = new Float64Array(hiddenSize);
+
+    let cache: {
+        inputIndex: number;
+        reset: boolean;
+        layers: {
+            x: Float64Array; h_prev: Matrix; c_prev: Matrix; f_t: Matrix; i_t: Matrix; o_t: Matrix;
+            c_hat_t: Matrix; c_t: Matrix; h_t: Matrix; mask: Matrix | null; out: Float64Array;
+        }[];
+        prob: Matrix;
+    }[] = [];
+    let hiddenStates: Matrix[] = [];
+    let cellStates: Matrix[] = [];
+    let seqEnd = windowEnd;
     let totalLoss = 0;
     const predictionResults: { inputToken: string; targetToken: string; predictedToken: string; }[] = [];
 
-    // --- FORWARD PASS ---
-    for (let t = step; t < seqEnd; t++) {
-        const inputVector = createMatrix(1, vocabSize);
-        inputVector.data[0][encodedText[t]] = 1;
-        const h_prev = hiddenStates[hiddenStates.length - 1];
-        const c_prev = cellStates[cellStates.length - 1];
-
-        // LSTM gate and state calculations
-        // f_t (forget gate): decides what to throw away from the old cell state.
-        const f_t = map(add(add(dot(inputVector, model.Wf.weights), model.Wf.biases), dot(h_prev, model.Uf.weights)), sigmoid);
-        // i_t (input gate): decides which new values to update in the cell state.
-        const i_t = map(add(add(dot(inputVector, model.Wi.weights), model.Wi.biases), dot(h_prev, model.Ui.weights)), sigmoid);
-        // o_t (output gate): decides what part of the cell state to output as the new hidden state.
-        const o_t = map(add(add(dot(inputVector, model.Wo.weights), model.Wo.biases), dot(h_prev, model.Uo.weights)), sigmoid);
-        // c_hat_t (candidate cell state): a vector of new candidate values to be added to the cell state.
-        const c_hat_t = map(add(add(dot(inputVector, model.Wc.weights), model.Wc.biases), dot(h_prev, model.Uc.weights)), tanh);
-        
-        // c_t (new cell state): combination of forgetting old parts and adding new parts.
-        const c_t = add(multiply(f_t, c_prev), multiply(i_t, c_hat_t));
-        // h_t (new hidden state): filtered version of the new cell state.
-        const h_t = multiply(o_t, map(c_t, tanh));
-
-        let mask: Matrix | null = null;
-        let h_t_dropped = h_t;
-        if (dropoutRate > 0) {
-            const scaleFactor = 1.0 / (1.0 - dropoutRate);
-            mask = createMatrix(1, hiddenSize, () => (Math.random() < dropoutRate ? 0 : scaleFactor));
-            h_t_dropped = multiply(h_t, mask);
+    streamStates.forEach((stream, s) => {
+        const seqStart = s * streamLength + step;
+        seqEnd = s * streamLength + windowEnd;
+        cache = [];
+        hiddenStates = statePolicy === 'reset-sequence' ? zeroStates() : [...stream.hidden];
+        cellStates = statePolicy === 'reset-sequence' ? zeroStates() : [...stream.cell!];
+
+        // --- FORWARD PASS ---
+        for (let t = seqStart; t < seqEnd; t++) {
+            const inputIndex = encodedText[t];
+            const reset = inputIndex === resetIndex;
+            if (reset) {
+                hiddenStates = zeroStates();
+                cellStates = zeroStates();
+            }
+            const layerCache: typeof cache[number]['layers'] = [];
+            let x = rowView(model.embedding, inputIndex);
+
+            for (let l = 0; l < numLayers; l++) {
+                const h_prev = hiddenStates[l];
+                const c_prev = cellStates[l];
+
+                // LSTM gate and state calculations
+                const f_t = createVector(hiddenSize);
+                const i_t = createVector(hiddenSize);
+                const o_t = createVector(hiddenSize);
+                const c_hat_t = createVector(hiddenSize);
+                const c_t = createVector(hiddenSize);
+                const h_t = createVector(hiddenSize);
+                lstmCellForward(model.layers[l], x, h_prev.data, c_prev.data, {
+                    f_t: f_t.data, i_t: i_t.data, o_t: o_t.data, c_hat_t: c_hat_t.data, c_t: c_t.data, h_t: h_t.data,
+                });
+                hiddenStates[l] = h_t;
+                cellStates[l] = c_t;
+
+                // Dropout between layers (and before the output layer).
+                const mask = createDropoutMask(hiddenSize, dropoutRate);
+                let out = h_t.data;
+                if (mask) {
+                    out = Float64Array.from(h_t.data);
+                    hadamardInPlace(out, mask.data);
+                }
+                layerCache.push({ x, h_prev, c_prev, f_t, i_t, o_t, c_hat_t, c_t, h_t, mask, out });
+                x = out;
+            }
+
+            // Output calculation
+            const prob = createVector(vocabSize);
+            affine(prob.data, layerCache[numLayers - 1].out, model.Why.weights, model.Why.biases);
+            softmaxInPlace(prob.data);
+            const targetIndex = encodedText[t + 1];
+            totalLoss += -Math.log(prob.data[targetIndex] + 1e-9);
+
+            predictionResults.push({
+                inputToken: model.vocab[inputIndex],
+                targetToken: model.vocab[targetIndex],
+                predictedToken: model.vocab[argmax(prob.data)],
+            });
+
+            cache.push({ inputIndex, reset, layers: layerCache, prob });
         }
-        hiddenStates.push(h_t_dropped);
-        cellStates.push(c_t);
 
-        // Output calculation
-        const outputRaw = add(dot(h_t_dropped, model.Why.weights), model.Why.biases);
-        const prob = softmax(outputRaw);
-        const targetIndex = encodedText[t + 1];
-        totalLoss += -Math.log(prob.data[0][targetIndex] + 1e-9);
+        // --- BACKWARD PASS ---
+        const dh_next = model.layers.map(() => new Float64Array(hiddenSize));
+        const dc_next = model.layers.map(() => new Float64Array(hiddenSize));
+
+        for (let t = cache.length - 1; t >= 0; t--) {
+            const { inputIndex, reset, layers: layerCache, prob } = cache[t];
+
+            const dy = lossGradient(prob.data, encodedText[seqStart + t + 1], seqStart + t);
+
+            // Gradients for output layer
+            addOuter(dWhy, layerCache[numLayers - 1].out, dy);
+            axpy(dby.data, 1, dy);
+
+            // Backpropagate to the top layer's output
+            let dOut = new Float64Array(hiddenSize);
+            gemvT(dOut, dy, model.Why.weights);
+
+            for (let l = numLayers - 1; l >= 0; l--) {
+                const { x, h_prev, c_prev, f_t, i_t, o_t, c_hat_t, c_t, mask } = layerCache[l];
+                const f = f_t.data, ig = i_t.data, o = o_t.data, c_hat = c_hat_t.data, c = c_t.data, cp = c_prev.data;
+                const layer = model.layers[l];
+                const g = grads[l];
+
+                // Backpropagate to hidden state
+                if (mask) { hadamardInPlace(dOut, mask.data); }
+                const dh = dOut;
+                axpy(dh, 1, dh_next[l]);
+
+                const dc_t = new Float64Array(hiddenSize);
+                for (let k = 0; k < hiddenSize; k++) {
+                    const tanh_c = tanh(c[k]);
+                    // Backpropagate through output gate
+                    do_t[k] = dh[k] * tanh_c * dsigmoid(o[k]);
+                    // Backpropagate to cell state
+                    dc_t[k] = dc_next[l][k] + dh[k] * o[k] * dtanh(tanh_c);
+                    // Backpropagate through candidate cell state, input gate and forget gate
+                    dc_hat_raw[k] = dc_t[k] * ig[k] * dtanh(c_hat[k]);
+                    di_raw[k] = dc_t[k] * c_hat[k] * dsigmoid(ig[k]);
+                    df_raw[k] = dc_t[k] * cp[k] * dsigmoid(f[k]);
+                }
 
-        const predictedIndex = prob.data[0].indexOf(Math.max(...prob.data[0]));
-        predictionResults.push({
-            inputToken: model.vocab[encodedText[t]],
-            targetToken: model.vocab[targetIndex],
-            predictedToken: model.vocab[predictedIndex],
-        });
+                const gateGrads: [string, Layer, Layer, Float64Array][] = [
+                    ['o', layer.Wo, layer.Uo, do_t],
+                    ['c', layer.Wc, layer.Uc, dc_hat_raw],
+                    ['i', layer.Wi, layer.Ui, di_raw],
+                    ['f', layer.Wf, layer.Uf, df_raw],
+                ];
+                // Pass gradients to the previous time step, and down to the layer's input
+                dh_next[l].fill(0);
+                dOut = new Float64Array(layer.Wf.weights.rows);
+                for (const [gate, W, U, delta] of gateGrads) {
+                    accumulateInputGradient(g[`W${gate}.weights`], g[`W${gate}.biases`], x, delta);
+                    addOuter(g[`U${gate}.weights`], h_prev.data, delta);
+                    gemvT(dh_next[l], delta, U.weights, true);
+                    gemvT(dOut, delta, W.weights, true);
+                }
+                hadamardInPlace(dc_t, f);
+                dc_next[l] = dc_t;
+            }
+            // The first layer's input is the token's embedding
+            addToRow(dEmbedding, inputIndex, dOut);
+            // No gradient flows back past a reset, through either state
+            if (reset) {
+                dh_next.forEach(d => d.fill(0));
+                dc_next.forEach(d => d.fill(0));
+            }
+        }
 
-        cache.push({ inputVector, h_prev, c_prev, f_t, i_t, o_t, c_hat_t, c_t, h_t, mask, prob });
-    }
+        stream.hidden = hiddenStates;
+        stream.cell = cellStates;
+    });
 
-    // --- BACKWARD PASS ---
-    // Initialize gradients
-    const grads = {
-        Wf: createMatrix(vocabSize, hiddenSize), Uf: createMatrix(hiddenSize, hiddenSize), bf: createMatrix(1, hiddenSize),
-        Wi: createMatrix(vocabSize, hiddenSize), Ui: createMatrix(hiddenSize, hiddenSize), bi: createMatrix(1, hiddenSize),
-        Wo: createMatrix(vocabSize, hiddenSize), Uo: createMatrix(hiddenSize, hiddenSize), bo: createMatrix(1, hiddenSize),
-        Wc: createMatrix(vocabSize, hiddenSize), Uc: createMatrix(hiddenSize, hiddenSize), bc: createMatrix(1, hiddenSize),
-        Why: createMatrix(hiddenSize, vocabSize), by: createMatrix(1, vocabSize),
-    };
-    let dh_next_grad = createMatrix(1, hiddenSize);
-    let dc_next_grad = createMatrix(1, hiddenSize);
-
-    for (let t = cache.length - 1; t >= 0; t--) {
-        const { inputVector, h_prev, c_prev, f_t, i_t, o_t, c_hat_t, c_t, h_t, mask, prob } = cache[t];
-        
-        // BUG FIX: Deep copy `prob` to avoid modifying the cached value.
-        const dy = JSON.parse(JSON.stringify(prob));
-        dy.data[0][encodedText[step + t + 1]] -= 1;
-        
-        // Gradients for output layer
-        grads.Why = add(grads.Why, dot(transpose(hiddenStates[t + 1]), dy));
-        grads.by = add(grads.by, dy);
-
-        // Backpropagate to hidden state
-        let dh = add(dot(dy, transpose(model.Why.weights)), dh_next_grad);
-        if (mask) { dh = multiply(dh, mask); }
-
-        // Backpropagate through output gate
-        const do_raw = multiply(dh, map(c_t, tanh));
-        const do_t = multiply(do_raw, map(o_t, dsigmoid));
-        grads.Wo = add(grads.Wo, dot(transpose(inputVector), do_t));
-        grads.Uo = add(grads.Uo, dot(transpose(h_prev), do_t));
-        grads.bo = add(grads.bo, do_t);
-
-        // Backpropagate to cell state
-        const dc_t = add(dc_next_grad, multiply(dh, multiply(o_t, map(map(c_t, tanh), dtanh))));
-
-        // Backpropagate through candidate cell state
-        const dc_hat_t = multiply(dc_t, i_t);
-        const dc_hat_raw = multiply(dc_hat_t, map(c_hat_t, dtanh));
-        grads.Wc = add(grads.Wc, dot(transpose(inputVector), dc_hat_raw));
-        grads.Uc = add(grads.Uc, dot(transpose(h_prev), dc_hat_raw));
-        grads.bc = add(grads.bc, dc_hat_raw);
-        
-        // Backpropagate through input gate
-        const di_t = multiply(dc_t, c_hat_t);
-        const di_raw = multiply(di_t, map(i_t, dsigmoid));
-        grads.Wi = add(grads.Wi, dot(transpose(inputVector), di_raw));
-        grads.Ui = add(grads.Ui, dot(transpose(h_prev), di_raw));
-        grads.bi = add(grads.bi, di_raw);
-
-        // Backpropagate through forget gate
-        const df_t = multiply(dc_t, c_prev);
-        const df_raw = multiply(df_t, map(f_t, dsigmoid));
-        grads.Wf = add(grads.Wf, dot(transpose(inputVector), df_raw));
-        grads.Uf = add(grads.Uf, dot(transpose(h_prev), df_raw));
-        grads.bf = add(grads.bf, df_raw);
-
-        // Pass gradients to the next (previous in time) step
-        dc_next_grad = multiply(dc_t, f_t);
-        dh_next_grad = add(add(add(dot(df_raw, transpose(model.Uf.weights)), dot(di_raw, transpose(model.Ui.weights))), dot(do_raw, transpose(model.Uo.weights))), dot(dc_hat_raw, transpose(model.Uc.weights)));
-    }
-    
     // --- WEIGHT UPDATE ---
-    const updatedModel = JSON.parse(JSON.stringify(model));
-    const lr = -learningRate;
-    const clip = (m: Matrix) => map(m, v => Math.max(-5, Math.min(5, v)));
-    
-    // Helper to apply gradients to a gate's parameters (e.g., Wf, Uf, bf)
-    const applyGrads = (gateChar: 'f' | 'i' | 'o' | 'c') => {
-      const W_key = `W${gateChar}` as keyof LSTMLanguageModel;
-      const U_key = `U${gateChar}` as keyof LSTMLanguageModel;
-      (updatedModel as any)[W_key].weights = add((model as any)[W_key].weights, scale(clip(grads[W_key]), lr));
-      (updatedModel as any)[U_key].weights = add((model as any)[U_key].weights, scale(clip(grads[U_key]), lr));
-      (updatedModel as any)[W_key].biases = add((model as any)[W_key].biases, scale(clip(grads[`b${gateChar}` as keyof typeof grads]), lr));
+    const gradients = {
+        'embedding': dEmbedding,
+        ...prefixLayerParameters(grads),
+        'Why.weights': dWhy, 'Why.biases': dby,
     };
+    scaleGradients(gradients, 1 / streamStates.length);
+    const gradientNorms = updateParameters(model, gradients, learningRate, optimizer, clipping);
 
-    applyGrads('f'); applyGrads('i'); applyGrads('o'); applyGrads('c');
-    updatedModel.Why.weights = add(model.Why.weights, scale(clip(grads.Why), lr));
-    updatedModel.Why.biases = add(model.Why.biases, scale(clip(grads.by), lr));
-    
-    updatedModel.h = { ...hiddenStates[hiddenStates.length-1] };
-    updatedModel.c = { ...cellStates[cellStates.length-1] };
+    model.layers.forEach((layer, l) => {
+        layer.h = hiddenStates[l];
+        layer.c = cellStates[l];
+    });
 
     const lastCacheEntry = cache.length > 0 ? cache[cache.length - 1] : null;
     const lastProb = lastCacheEntry ? lastCacheEntry.prob : null;
-    const predictedIndex = lastProb ? lastProb.data[0].indexOf(Math.max(...lastProb.data[0])) : 0;
-    
+    const predictedIndex = lastProb ? argmax(lastProb.data) : 0;
+    // The gate charts show the top layer, which feeds the output.
+    const topLayerCache = lastCacheEntry ? lastCacheEntry.layers[numLayers - 1] : null;
+
     return {
-        updatedModel,
-        loss: totalLoss / (seqEnd - step || 1),
+        updatedModel: model,
+        gradientNorms,
+        loss: totalLoss / (predictionResults.length || 1),
         inputToken: model.vocab[encodedText[seqEnd-1]],
         targetToken: model.vocab[encodedText[seqEnd]],
         predictedToken: model.vocab[predictedIndex],
         predictionResults,
         activations: {
-            hidden: hiddenStates[hiddenStates.length - 1],
-            output: lastProb,
+            hidden: hiddenStates[numLayers - 1],
+            output: lastProb!,
         },
         gateActivations: {
-            f: lastCacheEntry ? lastCacheEntry.f_t : createMatrix(1, hiddenSize),
-            i: lastCacheEntry ? lastCacheEntry.i_t : createMatrix(1, hiddenSize),
-            o: lastCacheEntry ? lastCacheEntry.o_t : createMatrix(1, hiddenSize),
+            f: topLayerCache ? topLayerCache.f_t : createMatrix(1, hiddenSize),
+            i: topLayerCache ? topLayerCache.i_t : createMatrix(1, hiddenSize),
+            o: topLayerCache ? topLayerCache.o_t : createMatrix(1, hiddenSize),
         }
     };
 };
 
+// --- Transformer Implementation ---
+// Keeps layer normalization from dividing by zero when every value in a row is the same.
+const LAYER_NORM_EPSILON = 1e-5;
+// The width of the range that initial position embeddings are drawn from. They start smaller than
+// the token embeddings so that, at first, the model mostly sees which token is where, not just where.
+const POSITION_INIT_RANGE = 0.2;
+
 /**
- * Generates a word using a trained LSTM model.
+ * Creates a layer normalization with a gain of 1 and a bias of 0, so it starts out as a plain normalization.
+ * @param size - The number of values in each normalized vector.
  */
-export const generateLSTM = (model: LSTMLanguageModel, seed: string, length: number, temperature: number = 0.7): string => {
-    let h_prev = model.h;
-    let c_prev = model.c;
-    let result = '';
-    let inputChar = seed;
-
-    for (let i = 0; i < length; i++) {
-        const inputIndex = model.tokenToIndex[inputChar];
-        if (inputIndex === undefined) break;
-        
-        const inputVector = createMatrix(1, model.vocab.length);
-        inputVector.data[0][inputIndex] = 1;
-        
-        // Single forward pass step for generation.
-        const f_t = map(add(add(dot(inputVector, model.Wf.weights), model.Wf.biases), dot(h_prev, model.Uf.weights)), sigmoid);
-        const i_t = map(add(add(dot(inputVector, model.Wi.weights), model.Wi.biases), dot(h_prev, model.Ui.weights)), sigmoid);
-        const o_t = map(add(add(dot(inputVector, model.Wo.weights), model.Wo.biases), dot(h_prev, model.Uo.weights)), sigmoid);
-        const c_hat_t = map(add(add(dot(inputVector, model.Wc.weights), model.Wc.biases), dot(h_prev, model.Uc.weights)), tanh);
-        
-        const c_t = add(multiply(f_t, c_prev), multiply(i_t, c_hat_t));
-        const h_t = multiply(o_t, map(c_t, tanh));
-        
-        const outputRaw = add(dot(h_t, model.Why.weights), model.Why.biases);
-        const scaledOutput = map(outputRaw, val => val / temperature);
-        const outputProbs = softmax(scaledOutput);
-        
-        if (i < MIN_WORD_LENGTH) {
-            const spaceIndex = model.tokenToIndex[' '];
-            if (spaceIndex !== undefined && outputProbs.data[0].length > spaceIndex) {
-                const spaceProb = outputProbs.data[0][spaceIndex];
-                if (spaceProb > 0 && spaceProb < 1) {
-                    outputProbs.data[0][spaceIndex] = 0;
-                    const remainingProbSum = 1 - spaceProb;
-                    for (let k = 0; k < outputProbs.data[0].length; k++) {
-                        if (k !== spaceIndex) {
-                            outputProbs.data[0][k] /= remainingProbSum;
-                        }
-                    }
-                }
+const createLayerNorm = (size: number): LayerNorm => ({
+    gain: createMatrix(1, size, 1),
+    bias: createMatrix(1, size),
+});
+
+/**
+ * Initializes a new single-block Transformer model.
+ * @param vocab - The list of unique tokens.
+ * @param hiddenSize - The number of neurons in the MLP's hidden layer.
+ * @param contextLength - The longest window the model can attend over. One position embedding is learned per slot.
+ * @param numHeads - The number of attention heads. Must divide `embeddingDim`; otherwise a single head is used.
+ * @param embeddingDim - The model width: the size of the token embeddings and of every vector in the block.
+ * @returns A new TransformerModel object.
+ */
+export const initializeTransformerModel = (
+    vocab: string[],
+    hiddenSize: number,
+    contextLength: number,
+    numHeads: number = DEFAULT_NUM_HEADS,
+    embeddingDim: number = DEFAULT_EMBEDDING_DIM
+): TransformerModel => {
+    const vocabSize = vocab.length;
+    const tokenToIndex = Object.fromEntries(vocab.map((char, i) => [char, i]));
+    return {
+        type: 'Transformer',
+        vocab,
+        tokenToIndex,
+        embedding: createEmbedding(vocabSize, embeddingDim),
+        positionEmbedding: createMatrix(contextLength, embeddingDim, () => (Math.random() - 0.5) * POSITION_INIT_RANGE),
+        numHeads: embeddingDim % numHeads === 0 ? numHeads : 1,
+        ln1: createLayerNorm(embeddingDim),
+        Wq: createLayer(embeddingDim, embeddingDim),
+        Wk: createLayer(embeddingDim, embeddingDim),
+        Wv: createLayer(embeddingDim, embeddingDim),
+        Wo: createLayer(embeddingDim, embeddingDim),
+        ln2: createLayerNorm(embeddingDim),
+        mlpHidden: createLayer(embeddingDim, hiddenSize),
+        mlpOutput: createLayer(hiddenSize, embeddingDim),
+        lnFinal: createLayerNorm(embeddingDim),
+        Why: createLayer(embeddingDim, vocabSize),
+    };
+};
+
+/**
+ * Lists a Transformer's parameters under the names used for its gradients and optimizer state.
+ */
+const transformerParameters = (model: TransformerModel): ParameterMap => ({
+    'embedding': model.embedding,
+    'positionEmbedding': model.positionEmbedding,
+    'ln1.gain': model.ln1.gain, 'ln1.bias': model.ln1.bias,
+    'Wq.weights': model.Wq.weights, 'Wq.biases': model.Wq.biases,
+    'Wk.weights': model.Wk.weights, 'Wk.biases': model.Wk.biases,
+    'Wv.weights': model.Wv.weights, 'Wv.biases': model.Wv.biases,
+    'Wo.weights': model.Wo.weights, 'Wo.biases': model.Wo.biases,
+    'ln2.gain': model.ln2.gain, 'ln2.bias': model.ln2.bias,
+    'mlpHidden.weights': model.mlpHidden.weights, 'mlpHidden.biases': model.mlpHidden.biases,
+    'mlpOutput.weights': model.mlpOutput.weights, 'mlpOutput.biases': model.mlpOutput.biases,
+    'lnFinal.gain': model.lnFinal.gain, 'lnFinal.bias': model.lnFinal.bias,
+    'Why.weights': model.Why.weights, 'Why.biases': model.Why.biases,
+});
+
+/**
+ * Returns row `t` of a flat (rows x width) buffer as a view.
+ */
+const rowOf = (buffer: Float64Array, t: number, width: number): Float64Array => buffer.subarray(t * width, (t + 1) * width);
+
+/**
+ * Applies a layer to every row of a flat (T x inputSize) buffer.
+ * @returns A new (T x outputSize) buffer.
+ */
+const affineRows = (x: Float64Array, T: number, layer: Layer): Float64Array => {
+    const { rows: inputSize, cols: outputSize } = layer.weights;
+    const out = new Float64Array(T * outputSize);
+    for (let t = 0; t < T; t++) {
+        affine(rowOf(out, t, outputSize), rowOf(x, t, inputSize), layer.weights, layer.biases);
+    }
+    return out;
+};
+
+/**
+ * Backpropagates through `affineRows`: accumulates the layer's gradients and adds the gradient
+ * with respect to its input into `dx`.
+ */
+const affineRowsBackward = (dOut: Float64Array, x: Float64Array, T: number, layer: Layer, dW: Matrix, db: Matrix, dx: Float64Array) => {
+    const { rows: inputSize, cols: outputSize } = layer.weights;
+    for (let t = 0; t < T; t++) {
+        const delta = rowOf(dOut, t, outputSize);
+        accumulateInputGradient(dW, db, rowOf(x, t, inputSize), delta);
+        gemvT(rowOf(dx, t, inputSize), delta, layer.weights, true);
+    }
+};
+
+// What layer normalization keeps for the backward pass.
+interface LayerNormCache {
+    out: Float64Array;  // The normalized, scaled and shifted rows.
+    xhat: Float64Array; // The rows after normalization, before the gain and bias.
+    rstd: Float64Array; // 1 / standard deviation of each row.
+}
+
+/**
+ * Normalizes every row of a flat (T x size) buffer to zero mean and unit variance, then applies the learned gain and bias.
+ */
+const layerNormForward = (x: Float64Array, T: number, ln: LayerNorm): LayerNormCache => {
+    const size = ln.gain.cols;
+    const out = new Float64Array(T * size);
+    const xhat = new Float64Array(T * size);
+    const rstd = new Float64Array(T);
+    for (let t = 0; t < T; t++) {
+        const row = rowOf(x, t, size);
+        let mean = 0;
+        for (let j = 0; j < size; j++) mean += row[j];
+        mean /= size;
+        let variance = 0;
+        for (let j = 0; j < size; j++) variance += (row[j] - mean) * (row[j] - mean);
+        rstd[t] = 1 / Math.sqrt(variance / size + LAYER_NORM_EPSILON);
+        for (let j = 0; j < size; j++) {
+            const normalized = (row[j] - mean) * rstd[t];
+            xhat[t * size + j] = normalized;
+            out[t * size + j] = normalized * ln.gain.data[j] + ln.bias.data[j];
+        }
+    }
+    return { out, xhat, rstd };
+};
+
+/**
+ * Backpropagates through `layerNormForward`: accumulates the gain and bias gradients and adds
+ * the gradient with respect to the input rows into `dx`.
+ */
+const layerNormBackward = (dOut: Float64Array, cache: LayerNormCache, T: number, ln: LayerNorm, dGain: Matrix, dBias: Matrix, dx: Float64Array) => {
+    const size = ln.gain.cols;
+    const dxhat = new Float64Array(size);
+    for (let t = 0; t < T; t++) {
+        let meanDxhat = 0;
+        let meanDxhatXhat = 0;
+        for (let j = 0; j < size; j++) {
+            const i = t * size + j;
+            dGain.data[j] += dOut[i] * cache.xhat[i];
+            dBias.data[j] += dOut[i];
+            dxhat[j] = dOut[i] * ln.gain.data[j];
+            meanDxhat += dxhat[j] / size;
+            meanDxhatXhat += dxhat[j] * cache.xhat[i] / size;
+        }
+        for (let j = 0; j < size; j++) {
+            const i = t * size + j;
+            dx[i] += cache.rstd[t] * (dxhat[j] - meanDxhat - cache.xhat[i] * meanDxhatXhat);
+        }
+    }
+};
+
+// Everything the Transformer's forward pass computes over a window, kept for the backward pass.
+interface TransformerCache {
+    T: number;
+    x0: Float64Array; // Token plus position embeddings.
+    ln1: LayerNormCache;
+    q: Float64Array; k: Float64Array; v: Float64Array;
+    attention: Float64Array[]; // One (T x T) matrix of attention weights per head.
+    context: Float64Array; // The attention-weighted values, with the heads side by side.
+    attentionMask: Matrix | null;
+    x1: Float64Array; // After the attention residual.
+    ln2: LayerNormCache;
+    mlpPre: Float64Array; mlpAct: Float64Array;
+    mlpMask: Matrix | null;
+    x2: Float64Array; // After the MLP residual.
+    lnFinal: LayerNormCache;
+    logits: Float64Array; // (T x vocabSize)
+}
+
+/**
+ * Runs the Transformer over a window of tokens. Every position attends to itself and the
+ * positions before it (causal attention), so each row of the logits predicts the token that
+ * follows that position.
+ * @param model - The Transformer model.
+ * @param tokens - The token IDs in the window. At most `contextLength` of them.
+ * @param dropoutRate - The dropout rate for the two residual branches. 0 when not training.
+ * @returns The logits and everything needed to backpropagate.
+ */
+const transformerForward = (model: TransformerModel, tokens: number[], dropoutRate: number): TransformerCache => {
+    const T = tokens.length;
+    const D = model.embedding.cols;
+    const headSize = D / model.numHeads;
+    const scale = 1 / Math.sqrt(headSize);
+
+    // 1. Token embedding plus position embedding.
+    const x0 = new Float64Array(T * D);
+    for (let t = 0; t < T; t++) {
+        const row = rowOf(x0, t, D);
+        row.set(rowView(model.embedding, tokens[t]));
+        axpy(row, 1, rowView(model.positionEmbedding, t));
+    }
+
+    // 2. Causal multi-head self-attention on the normalized input.
+    const ln1 = layerNormForward(x0, T, model.ln1);
+    const q = affineRows(ln1.out, T, model.Wq);
+    const k = affineRows(ln1.out, T, model.Wk);
+    const v = affineRows(ln1.out, T, model.Wv);
+    const context = new Float64Array(T * D);
+    const attention: Float64Array[] = [];
+    for (let h = 0; h < model.numHeads; h++) {
+        const offset = h * headSize;
+        const weights = new Float64Array(T * T);
+        for (let t = 0; t < T; t++) {
+            // Scores against every earlier position (and this one); later positions stay at weight 0.
+            const scores = weights.subarray(t * T, t * T + t + 1);
+            for (let u = 0; u <= t; u++) {
+                let dot = 0;
+                for (let j = 0; j < headSize; j++) dot += q[t * D + offset + j] * k[u * D + offset + j];
+                scores[u] = dot * scale;
+            }
+            softmaxInPlace(scores);
+            for (let u = 0; u <= t; u++) {
+                for (let j = 0; j < headSize; j++) context[t * D + offset + j] += scores[u] * v[u * D + offset + j];
             }
         }
-        
-        // Sample the next character.
-        const rand = Math.random();
-        let cumulativeProb = 0;
-        let nextIndex = model.vocab.length - 1;
-        for (let j = 0; j < outputProbs.data[0].length; j++) {
-            cumulativeProb += outputProbs.data[0][j];
-            if (rand < cumulativeProb) {
-                nextIndex = j;
-                break;
+        attention.push(weights);
+    }
+    const attentionOut = affineRows(context, T, model.Wo);
+    const attentionMask = createDropoutMask(T * D, dropoutRate);
+    if (attentionMask) hadamardInPlace(attentionOut, attentionMask.data);
+    const x1 = Float64Array.from(x0);
+    axpy(x1, 1, attentionOut);
+
+    // 3. The MLP, also on a normalized input, with its own residual connection.
+    const ln2 = layerNormForward(x1, T, model.ln2);
+    const mlpPre = affineRows(ln2.out, T, model.mlpHidden);
+    const mlpAct = mlpPre.map(value => Math.max(0, value));
+    const mlpOut = affineRows(mlpAct, T, model.mlpOutput);
+    const mlpMask = createDropoutMask(T * D, dropoutRate);
+    if (mlpMask) hadamardInPlace(mlpOut, mlpMask.data);
+    const x2 = Float64Array.from(x1);
+    axpy(x2, 1, mlpOut);
+
+    // 4. A final normalization and the output layer.
+    const lnFinal = layerNormForward(x2, T, model.lnFinal);
+    const logits = affineRows(lnFinal.out, T, model.Why);
+
+    return { T, x0, ln1, q, k, v, attention, context, attentionMask, x1, ln2, mlpPre, mlpAct, mlpMask, x2, lnFinal, logits };
+};
+
+/**
+ * Performs a single training step for a Transformer over one window of the text.
+ * Every position in the window predicts its next token, and the gradients of all of those
+ * predictions are backpropagated together through the block.
+ */
+export const trainStepTransformer = (
+    model: TransformerModel,
+    encodedText: number[],
+    step: number,
+    sequenceLength: number,
+    learningRate: number,
+    dropoutRate: number = 0,
+    optimizer: Optimizer = createOptimizer(DEFAULT_OPTIMIZER_CONFIG),
+    clipping: GradientClippingConfig = DEFAULT_GRADIENT_CLIPPING,
+    lossGradient: LossGradient = softmaxLossGradient
+): TrainStepResult => {
+    const vocabSize = model.vocab.length;
+    const D = model.embedding.cols;
+    const headSize = D / model.numHeads;
+    const scale = 1 / Math.sqrt(headSize);
+    // The window can't be longer than the number of learned positions.
+    const windowEnd = Math.min(step + Math.min(sequenceLength, model.positionEmbedding.rows), encodedText.length - 1);
+    const tokens = encodedText.slice(step, Math.max(step, windowEnd));
+    const T = tokens.length;
+    const grads = zerosLike(transformerParameters(model));
+    if (T === 0) {
+        return { updatedModel: model, loss: 0, inputToken: '', targetToken: '', predictedToken: '', activations: null, gradients: grads, predictionResults: [] };
+    }
+
+    // --- FORWARD PASS ---
+    const cache = transformerForward(model, tokens, dropoutRate);
+
+    // --- LOSS ---
+    let totalLoss = 0;
+    const predictionResults: { inputToken: string; targetToken: string; predictedToken: string; }[] = [];
+    const dLogits = Float64Array.from(cache.logits);
+    let lastProb: Matrix | null = null;
+    for (let t = 0; t < T; t++) {
+        const targetIndex = encodedText[step + t + 1];
+        const prob = rowOf(dLogits, t, vocabSize);
+        softmaxInPlace(prob);
+        totalLoss += -Math.log(prob[targetIndex] + 1e-9);
+        predictionResults.push({
+            inputToken: model.vocab[tokens[t]],
+            targetToken: model.vocab[targetIndex],
+            predictedToken: model.vocab[argmax(prob)],
+        });
+        if (t === T - 1) lastProb = createVector(vocabSize, prob);
+        prob.set(lossGradient(prob, targetIndex, step + t));
+    }
+
+    // --- BACKWARD PASS ---
+    // Output layer and final normalization.
+    const dNormFinal = new Float64Array(T * D);
+    affineRowsBackward(dLogits, cache.lnFinal.out, T, model.Why, grads['Why.weights'], grads['Why.biases'], dNormFinal);
+    const dx2 = new Float64Array(T * D);
+    layerNormBackward(dNormFinal, cache.lnFinal, T, model.lnFinal, grads['lnFinal.gain'], grads['lnFinal.bias'], dx2);
+
+    // MLP branch. The residual connection passes dx2 straight through to dx1 as well.
+    const dx1 = Float64Array.from(dx2);
+    const dMlpOut = Float64Array.from(dx2);
+    if (cache.mlpMask) hadamardInPlace(dMlpOut, cache.mlpMask.data);
+    const dMlpAct = new Float64Array(cache.mlpAct.length);
+    affineRowsBackward(dMlpOut, cache.mlpAct, T, model.mlpOutput, grads['mlpOutput.weights'], grads['mlpOutput.biases'], dMlpAct);
+    for (let i = 0; i < dMlpAct.length; i++) {
+        if (cache.mlpPre[i] <= 0) dMlpAct[i] = 0; // ReLU passes gradient only where it was active.
+    }
+    const dNorm2 = new Float64Array(T * D);
+    affineRowsBackward(dMlpAct, cache.ln2.out, T, model.mlpHidden, grads['mlpHidden.weights'], grads['mlpHidden.biases'], dNorm2);
+    layerNormBackward(dNorm2, cache.ln2, T, model.ln2, grads['ln2.gain'], grads['ln2.bias'], dx1);
+
+    // Attention branch, again alongside the residual connection.
+    const dx0 = Float64Array.from(dx1);
+    const dAttentionOut = Float64Array.from(dx1);
+    if (cache.attentionMask) hadamardInPlace(dAttentionOut, cache.attentionMask.data);
+    const dContext = new Float64Array(T * D);
+    affineRowsBackward(dAttentionOut, cache.context, T, model.Wo, grads['Wo.weights'], grads['Wo.biases'], dContext);
+    const dq = new Float64Array(T * D);
+    const dk = new Float64Array(T * D);
+    const dv = new Float64Array(T * D);
+    const dWeights = new Float64Array(T);
+    for (let h = 0; h < model.numHeads; h++) {
+        const offset = h * headSize;
+        const weights = cache.attention[h];
+        for (let t = 0; t < T; t++) {
+            // Gradient with respect to each attention weight, and to the values it mixed.
+            let weightedSum = 0;
+            for (let u = 0; u <= t; u++) {
+                const a = weights[t * T + u];
+                let dot = 0;
+                for (let j = 0; j < headSize; j++) {
+                    dot += dContext[t * D + offset + j] * cache.v[u * D + offset + j];
+                    dv[u * D + offset + j] += a * dContext[t * D + offset + j];
+                }
+                dWeights[u] = dot;
+                weightedSum += a * dot;
+            }
+            // Back through the softmax to the scores, then to the queries and keys.
+            for (let u = 0; u <= t; u++) {
+                const dScore = weights[t * T + u] * (dWeights[u] - weightedSum) * scale;
+                for (let j = 0; j < headSize; j++) {
+                    dq[t * D + offset + j] += dScore * cache.k[u * D + offset + j];
+                    dk[u * D + offset + j] += dScore * cache.q[t * D + offset + j];
+                }
             }
         }
-        
-        const nextChar = model.vocab[nextIndex];
-        if (nextChar === ' ') break;
-        result += nextChar;
-        inputChar = nextChar;
-        h_prev = h_t;
-        c_prev = c_t;
     }
+    const dNorm1 = new Float64Array(T * D);
+    affineRowsBackward(dq, cache.ln1.out, T, model.Wq, grads['Wq.weights'], grads['Wq.biases'], dNorm1);
+    affineRowsBackward(dk, cache.ln1.out, T, model.Wk, grads['Wk.weights'], grads['Wk.biases'], dNorm1);
+    affineRowsBackward(dv, cache.ln1.out, T, model.Wv, grads['Wv.weights'], grads['Wv.biases'], dNorm1);
+    layerNormBackward(dNorm1, cache.ln1, T, model.ln1, grads['ln1.gain'], grads['ln1.bias'], dx0);
+
+    // The input was a token embedding plus a position embedding, so both rows receive the same gradient.
+    for (let t = 0; t < T; t++) {
+        addToRow(grads['embedding'], tokens[t], rowOf(dx0, t, D));
+        addToRow(grads['positionEmbedding'], t, rowOf(dx0, t, D));
+    }
+
+    // --- WEIGHT UPDATE ---
+    scaleGradients(grads, 1 / T); // Average gradient over the window.
+    const gradientNorms = updateParameters(model, grads, learningRate, optimizer, clipping);
 
-    return seed + result;
+    return {
+        updatedModel: model,
+        gradientNorms,
+        loss: totalLoss / T,
+        stepLength: T,
+        inputToken: model.vocab[tokens[T - 1]],
+        targetToken: model.vocab[encodedText[windowEnd]],
+        predictedToken: predictionResults[T - 1].predictedToken,
+        predictionResults,
+        activations: {
+            hidden: createVector(D, rowOf(cache.x2, T - 1, D)),
+            output: lastProb!,
+        },
+        attention: {
+            tokens: tokens.map(index => model.vocab[index]),
+            weights: cache.attention.map(data => ({ rows: T, cols: T, data })),
+        },
+        gradients: grads,
+    };
 };
+
+// --- Model-agnostic Helpers ---
+
+/**
+ * Collects a model's trainable parameters by name. The names match the gradient maps
+ * built by the train-step functions, so optimizers can pair each parameter with its gradient.
+ * @param model - The model.
+ * @returns The model's parameter matrices (not copies).
+ */
+export const getParameters = (model: LanguageModel): ParameterMap => {
+    switch (model.type) {
+        case 'RNN':
+            return {
+                'embedding': model.embedding,
+                ...prefixLayerParameters(model.layers.map(rnnLayerParameters)),
+                'Why.weights': model.Why.weights, 'Why.biases': model.Why.biases,
+            };
+        case 'GRU':
+            return {
+                'embedding': model.embedding,
+                ...prefixLayerParameters(model.layers.map(gruLayerParameters)),
+                'Why.weights': model.Why.weights, 'Why.biases': model.Why.biases,
+            };
+        case 'LSTM':
+            return {
+                'embedding': model.embedding,
+                ...prefixLayerParameters(model.layers.map(lstmLayerParameters)),
+                'Why.weights': model.Why.weights, 'Why.biases': model.Why.biases,
+            };
+        case 'Transformer':
+            return transformerParameters(model);
+        case 'FFNN':
+        default: {
+            const ffnn = model as FFNNModel;
+            return {
+                'embedding': ffnn.embedding,
+                'hiddenLayer.weights': ffnn.hiddenLayer.weights, 'hiddenLayer.biases': ffnn.hiddenLayer.biases,
+                'outputLayer.weights': ffnn.outputLayer.weights, 'outputLayer.biases': ffnn.outputLayer.biases,
+            };
+        }
+    }
+};
+
+// --- Evaluation ---
+
+/**
+ * The state a step function carries between tokens: each recurrent layer's hidden state (and the
+ * LSTM's cell state), or, for the FFNN and Transformer, the recent tokens they re-read.
+ */
+interface StepState {
+    hidden: Float64Array[];
+    cell: Float64Array[];
+    history: number[];
+}
+
+/**
+ * Wraps a model as a step function that feeds it one token at a time, which is all the decoders
+ * and the evaluation need. Each step copies the state before advancing it, so the same state can
+ * be stepped from several times (as beam search does) and the model itself is never modified.
+ * @param model - The model to run.
+ * @param fromStoredState - Start the recurrent models from the hidden state stored in the model,
+ * as generation did before words were framed with `<bos>`. Otherwise every model starts from a blank state.
+ * @returns The model's step function. Each step returns a new logits array.
+ */
+export const createStepFunction = (model: LanguageModel, fromStoredState: boolean = false): StepFunction<StepState> => {
+    const vocabSize = model.vocab.length;
+    const blank = (): StepState => ({ hidden: [], cell: [], history: [] });
+    switch (model.type) {
+        case 'RNN': {
+            const hiddenSize = model.Why.weights.rows;
+            const scratch = new Float64Array(hiddenSize);
+            return {
+                initialState: () => ({
+                    ...blank(),
+                    hidden: model.layers.map(layer => fromStoredState ? Float64Array.from(layer.h.data) : new Float64Array(hiddenSize)),
+                }),
+                step: (state, inputIndex) => {
+                    const hidden = state.hidden.map(h => Float64Array.from(h));
+                    const top = rnnStackForward(model, inputIndex, hidden, scratch);
+                    const logits = new Float64Array(vocabSize);
+                    affine(logits, top, model.Why.weights, model.Why.biases);
+                    return { logits, state: { ...state, hidden } };
+                },
+            };
+        }
+        case 'GRU': {
+            const hiddenSize = model.Why.weights.rows;
+            const buffers = {
+                z_t: new Float64Array(hiddenSize),
+                r_t: new Float64Array(hiddenSize),
+                r_h_prev: new Float64Array(hiddenSize),
+                h_hat_t: new Float64Array(hiddenSize),
+                h_t: new Float64Array(hiddenSize),
+            };
+            return {
+                initialState: () => ({
+                    ...blank(),
+                    hidden: model.layers.map(layer => fromStoredState ? Float64Array.from(layer.h.data) : new Float64Array(hiddenSize)),
+                }),
+                step: (state, inputIndex) => {
+                    const hidden = state.hidden.map(h => Float64Array.from(h));
+                    const top = gruStackForward(model, inputIndex, hidden, buffers);
+                    const logits = new Float64Array(vocabSize);
+                    affine(logits, top, model.Why.weights, model.Why.biases);
+                    return { logits, state: { ...state, hidden } };
+                },
+            };
+        }
+        case 'LSTM': {
+            const hiddenSize = model.Why.weights.rows;
+            const buffers = {
+                f_t: new Float64Array(hiddenSize),
+                i_t: new Float64Array(hiddenSize),
+                o_t: new Float64Array(hiddenSize),
+                c_hat_t: new Float64Array(hiddenSize),
+                c_t: new Float64Array(hiddenSize),
+                h_t: new Float64Array(hiddenSize),
+            };
+            return {
+                initialState: () => ({
+                    ...blank(),
+                    hidden: model.layers.map(layer => fromStoredState ? Float64Array.from(layer.h.data) : new Float64Array(hiddenSize)),
+                    cell: model.layers.map(layer => fromStoredState ? Float64Array.from(layer.c.data) : new Float64Array(hiddenSize)),
+                }),
+                step: (state, inputIndex) => {
+                    const hidden = state.hidden.map(h => Float64Array.from(h));
+                    const cell = state.cell.map(c => Float64Array.from(c));
+                    const top = lstmStackForward(model, inputIndex, hidden, cell, buffers);
+                    const logits = new Float64Array(vocabSize);
+                    affine(logits, top, model.Why.weights, model.Why.biases);
+                    return { logits, state: { ...state, hidden, cell } };
+                },
+            };
+        }
+        case 'Transformer': {
+            // The Transformer has no recurrent state, so it re-reads the most recent window for every
+            // step, letting the newest token attend to everything before it.
+            return {
+                initialState: blank,
+                step: (state, inputIndex) => {
+                    const history = [...state.history, inputIndex].slice(-model.positionEmbedding.rows);
+                    const { logits: windowLogits } = transformerForward(model, history, 0);
+                    const logits = Float64Array.from(rowOf(windowLogits, history.length - 1, vocabSize));
+                    return { logits, state: { ...state, history } };
+                },
+            };
+        }
+        case 'FFNN':
+        default: {
+            // Slots that reach back before the first token hold `<pad>` (see `gatherContext`).
+            const ffnn = model as FFNNModel;
+            const context = new Float64Array(ffnn.hiddenLayer.weights.rows);
+            const hidden = new Float64Array(ffnn.hiddenLayer.weights.cols);
+            return {
+                initialState: blank,
+                step: (state, inputIndex) => {
+                    const history = [...state.history, inputIndex].slice(-ffnn.contextSize);
+                    gatherContext(ffnn, history, history.length - 1, context);
+                    affine(hidden, context, ffnn.hiddenLayer.weights, ffnn.hiddenLayer.biases);
+                    mapInPlace(hidden, tanh);
+                    const logits = new Float64Array(vocabSize);
+                    affine(logits, hidden, ffnn.outputLayer.weights, ffnn.outputLayer.biases);
+                    return { logits, state: { ...state, history } };
+                },
+            };
+        }
+    }
+};
+
+/**
+ * Measures how well a model predicts a held-out sequence, without training on it.
+ * The sequence is read from start to finish in a single pass, starting from a fresh hidden state.
+ * @param model - The model to evaluate. It is not modified.
+ * @param encodedText - The held-out sequence of token IDs.
+ * @param resetAtWords - Start from a fresh state at every `<bos>`, matching training with the 'reset-word' policy.
+ * @returns The loss, perplexity, and bits per character, or null if the sequence is too short to predict anything.
+ */
+export const evaluateModel = (model: LanguageModel, encodedText: number[], resetAtWords: boolean = false): ValidationMetrics | null => {
+    if (encodedText.length < 2) return null;
+    const resetIndex = resetAtWords ? getWordBoundaries(model.tokenToIndex).start : undefined;
+    const stepper = createStepFunction(model);
+    let state = stepper.initialState();
+    let totalLoss = 0;
+    let characterCount = 0;
+    for (let t = 0; t < encodedText.length - 1; t++) {
+        if (encodedText[t] === resetIndex) state = stepper.initialState();
+        const { logits: probs, state: nextState } = stepper.step(state, encodedText[t]);
+        state = nextState;
+        softmaxInPlace(probs);
+        const targetIndex = encodedText[t + 1];
+        totalLoss += -Math.log(probs[targetIndex] + 1e-9);
+        // Tokens can span several characters (BPE, custom), so count the characters they cover.
+        characterCount += model.vocab[targetIndex]?.length || 1;
+    }
+    const loss = totalLoss / (encodedText.length - 1);
+    return {
+        loss,
+        perplexity: Math.exp(loss),
+        bitsPerCharacter: totalLoss / Math.LN2 / characterCount,
+    };
+};
+
+/**
+ * Runs a single training step on any model, dispatching on the model's type.
+ * @param model - The model to train. Its parameters are updated in place.
+ * @param encodedText - The full sequence of token IDs.
+ * @param step - The position in `encodedText` to start from. With several streams, the position within each stream.
+ * @param batchSize - The batch size (FFNN) or sequence length (RNN/GRU/LSTM/Transformer).
+ * @param learningRate - The learning rate for this step.
+ * @param dropoutRate - The dropout rate (ignored by the FFNN).
+ * @param optimizer - The optimizer that applies the weight update. Defaults to plain SGD.
+ * @param clipping - How gradients are clipped before the update. Defaults to clipping each value to [-5, 5].
+ * @param streams - The recurrent state of each parallel stream (RNN/GRU/LSTM only). Null trains the
+ * whole text as one stream, starting from the model's stored state.
+ * @param statePolicy - When the recurrent models reset their state.
+ * @param lossGradient - The gradient of the loss with respect to the logits. Defaults to cross-entropy
+ * on the next token; coaching swaps in a reward-weighted one.
+ * @returns The result of the training step.
+ */
+export const trainStep = (
+    model: LanguageModel,
+    encodedText: number[],
+    step: number,
+    batchSize: number,
+    learningRate: number,
+    dropoutRate: number = 0,
+    optimizer: Optimizer = createOptimizer(DEFAULT_OPTIMIZER_CONFIG),
+    clipping: GradientClippingConfig = DEFAULT_GRADIENT_CLIPPING,
+    streams: RecurrentStreamState[] | null = null,
+    statePolicy: StateCarryPolicy = 'carry',
+    lossGradient: LossGradient = softmaxLossGradient
+): TrainStepResult => {
+    switch (model.type) {
+        case 'RNN': return trainStepRNN(model, encodedText, step, batchSize, learningRate, dropoutRate, optimizer, clipping, streams, statePolicy, lossGradient);
+        case 'GRU': return trainStepGRU(model, encodedText, step, batchSize, learningRate, dropoutRate, optimizer, clipping, streams, statePolicy, lossGradient);
+        case 'LSTM': return trainStepLSTM(model, encodedText, step, batchSize, learningRate, dropoutRate, optimizer, clipping, streams, statePolicy, lossGradient);
+        case 'Transformer': return trainStepTransformer(model, encodedText, step, batchSize, learningRate, dropoutRate, optimizer, clipping, lossGradient);
+        case 'FFNN':
+        default:
+            return trainStepFFNN(model as FFNNModel, encodedText, step, batchSize, learningRate, optimizer, clipping, lossGradient);
+    }
+};
+
+// --- Generation ---
+
+// The fewest tokens a generated word may have before the model is allowed to end it.
+const MIN_WORD_LENGTH = 2;
+
+/**
+ * Decodes words from any model with the shared decoders in `decoding.ts`. Decoding starts from
+ * `<bos>` in a blank state, the way every word is read in training, and a word is finished when the
+ * model chooses `<eos>`. The other reserved tokens are never generated.
+ * @param model - The trained model.
+ * @param seed - Optional text the word must start with, read after `<bos>`. A token in the vocabulary
+ * is read as that token, anything else one character at a time. Empty to let the model choose.
+ * @param length - The maximum number of tokens to generate after the seed.
+ * @param decoding - The decoding strategy and its settings. With the phonotactic mask on, every
+ * word passes the validator, and the probability the mask removed is reported for each step.
+ * @param sampling - How tokens are sampled, when the decoding strategy samples.
+ * @param languagePack - The language whose rules the phonotactic mask enforces.
+ * @returns The decoded words, best first. A seed the model cannot read is returned on its own.
+ */
+export const decodeWords = (
+    model: LanguageModel,
+    seed: string,
+    length: number,
+    decoding: DecodingConfig,
+    sampling: SamplingConfig = DEFAULT_SAMPLING_CONFIG,
+    languagePack: LanguagePack = DEFAULT_LANGUAGE_PACK
+): DecodedWord[] => {
+    const { start, end } = getWordBoundaries(model.tokenToIndex);
+    const seedIndex = model.tokenToIndex[seed];
+    const seedTokens = seedIndex !== undefined ? [seedIndex] : seed.split('').map(char => model.tokenToIndex[char]);
+    const prefix = start === undefined ? seedTokens : [start, ...seedTokens];
+    if (prefix.length === 0 || prefix.some(index => index === undefined)) {
+        return [{ word: seed, tokens: [], logProb: 0, score: 0, maskedMass: [] }];
+    }
+    const reserved = forbidTokensConstraint(model.vocab.flatMap((token, index) => isSpecialToken(token) && index !== end ? [index] : []));
+    // The phonotactic mask decides for itself when a word may end, so it replaces the minimum length.
+    const constraint = end === undefined
+        ? reserved
+        : combineConstraints(reserved, decoding.phonotacticMask
+            ? createPhonotacticConstraint(model.vocab, seed, end, languagePack)
+            : minLengthConstraint(end, MIN_WORD_LENGTH));
+    // A model without `<bos>` has no word starts to learn from, so it continues from its stored state.
+    const hypotheses = decode(createStepFunction(model, start === undefined), prefix, length, decoding, end, sampling, constraint);
+    return hypotheses.map(({ tokens, logProb, score, maskedMass }) => ({
+        word: seed + tokens.map(index => model.vocab[index]).join(''),
+        tokens: tokens.map(index => model.vocab[index]),
+        logProb,
+        score,
+        maskedMass,
+    }));
+};
+
+// The number of most likely tokens the inspector lists at each position.
+const INSPECTOR_TOP_K = 5;
+
+/**
+ * Shows what the model predicts at every position of a word: how likely it found each token,
+ * how surprised it was, and what it would have preferred. The word is read the way words appear
+ * in the training text, framed by `<bos>` and `<eos>`, starting from a blank state so that
+ * different models can be compared on the same word.
+ * @param model - The model. It is not modified.
+ * @param encodedWord - The word's token IDs.
+ * @returns One entry per predicted token: every token of the word, then the `<eos>` that ends it.
+ * Without word boundaries in the vocabulary, the first token cannot be predicted and the end is not.
+ */
+export const inspectWord = (model: LanguageModel, encodedWord: number[]): TokenInspection[] => {
+    const { start, end } = getWordBoundaries(model.tokenToIndex);
+    const inputs = start === undefined ? encodedWord : [start, ...encodedWord];
+    const targets = end === undefined ? encodedWord.slice(1) : [...encodedWord, end];
+    const stepper = createStepFunction(model);
+    let state = stepper.initialState();
+    return targets.map((target, t) => {
+        const { logits: probs, state: nextState } = stepper.step(state, inputs[t]);
+        state = nextState;
+        softmaxInPlace(probs);
+        const ranked = Array.from(probs.keys()).sort((a, b) => probs[b] - probs[a]);
+        return {
+            token: model.vocab[target],
+            probability: probs[target],
+            surprisal: -Math.log2(probs[target]),
+            rank: ranked.indexOf(target) + 1,
+            alternatives: ranked.slice(0, INSPECTOR_TOP_K).map(index => ({ token: model.vocab[index], probability: probs[index] })),
+        };
+    });
+};
+
+/**
+ * Samples a single word with any model.
+ * @param model - The trained model.
+ * @param seed - Optional text the word must start with. Empty to start from `<bos>` alone.
+ * @param length - The maximum length of the word to generate.
+ * @param sampling - How tokens are sampled: the strategy, temperature and repetition penalties.
+ * @returns The generated word.
+ */
+export const generateWord = (model: LanguageModel, seed: string, length: number, sampling: SamplingConfig = DEFAULT_SAMPLING_CONFIG): string =>
+    decodeWords(model, seed, length, { ...DEFAULT_DECODING_CONFIG, strategy: 'sample' }, sampling)[0].word;
@@ -0,0 +1,82 @@
+/**
+ * @file languagePacks.ts
+ * @description The language packs that ship with the app, and the loading of new ones from JSON.
+ * A pack (see `LanguagePack` in `types.ts`) holds everything that is specific to one made-up
+ * language: its sounds, the clusters that may start and end a syllable, the allowed syllable
+ * shapes, word-length limits and a sample corpus to train on.
+ */
+
+import { LanguagePack } from '../types';
+import { parseSyllableTemplate } from './phonotactics';
+import englishPack from '../languagePacks/english.json';
+import japanesePack from '../languagePacks/japanese.json';
+import hawaiianPack from '../languagePacks/hawaiian.json';
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringList = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every(item => typeof item === 'string' && item.length > 0);
+
+/**
+ * Reads a string field of a language pack.
+ * @throws If the field is not a string.
+ */
+const readString = (data: Record<string, unknown>, field: string): string => {
+    const value = data[field];
+    if (typeof value !== 'string') throw new Error(`The language pack needs a "${field}" string.`);
+    return value;
+};
+
+/**
+ * Reads a field of a language pack that lists non-empty strings.
+ * @throws If the field is not such a list.
+ */
+const readStringList = (data: Record<string, unknown>, field: string): string[] => {
+    const value = data[field];
+    if (!isStringList(value)) throw new Error(`The language pack's "${field}" must be a list of strings.`);
+    return value;
+};
+
+/**
+ * Checks that some parsed JSON is a well-formed language pack.
+ * @param data - The parsed JSON.
+ * @returns The language pack.
+ * @throws If a field is missing or has the wrong type, a syllable template cannot be parsed, or a
+ * token uses letters that are not in the pack's inventory.
+ */
+export const parseLanguagePack = (data: unknown): LanguagePack => {
+    if (!isRecord(data)) throw new Error('The language pack must be a JSON object.');
+    const [id, name, description, corpus] = ['id', 'name', 'description', 'corpus'].map(field => readString(data, field));
+    const [onsets, codas, suffixes, syllableTemplates] = ['onsets', 'codas', 'suffixes', 'syllableTemplates'].map(field => readStringList(data, field));
+    const { inventory, minWordLength, maxWordLength } = data;
+    if (!isRecord(inventory) || !isStringList(inventory.vowels) || inventory.vowels.length === 0 || !isStringList(inventory.consonants)) {
+        throw new Error('The language pack needs an "inventory" with lists of "vowels" and "consonants".');
+    }
+    if (syllableTemplates.length === 0) throw new Error('The language pack needs at least one syllable template.');
+    if (typeof minWordLength !== 'number' || typeof maxWordLength !== 'number'
+        || !Number.isInteger(minWordLength) || !Number.isInteger(maxWordLength) || minWordLength < 1 || maxWordLength < minWordLength) {
+        throw new Error('The language pack needs whole-number "minWordLength" and "maxWordLength", with the minimum no larger than the maximum.');
+    }
+    syllableTemplates.forEach(parseSyllableTemplate);
+
+    const { vowels, consonants } = inventory;
+    const letters = new Set([...vowels.join(''), ...consonants.join('')]);
+    for (const token of [...onsets, ...codas, ...suffixes]) {
+        const unknown = [...token].find(char => !letters.has(char));
+        if (unknown) throw new Error(`"${token}" uses the letter "${unknown}", which is not in the language pack's inventory.`);
+    }
+    return {
+        id, name, description,
+        inventory: { vowels, consonants },
+        onsets, codas, suffixes, syllableTemplates,
+        minWordLength, maxWordLength,
+        corpus,
+    };
+};
+
+// The packs that ship with the app.
+export const LANGUAGE_PACKS: LanguagePack[] = [englishPack, japanesePack, hawaiianPack].map(parseLanguagePack);
+
+// The pack the app starts with.
+export const DEFAULT_LANGUAGE_PACK = LANGUAGE_PACKS[0];
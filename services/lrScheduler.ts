@@ -0,0 +1,146 @@
+/**
+ * @file lrScheduler.ts
+ * @description Learning-rate schedules. A schedule decides which learning rate each epoch
+ * trains with, starting from the base rate chosen in the Controls. Most schedules are a
+ * simple function of the epoch number; reduce-on-plateau also watches the epoch losses
+ * and lowers the rate whenever training stops improving. Any schedule except one-cycle
+ * (which has its own ramp-up) can begin with a linear warmup.
+ */
+
+import { LRScheduleConfig, LRScheduleType } from '../types';
+
+/**
+ * Display names for each schedule, used by the Controls dropdown.
+ */
+export const LR_SCHEDULE_LABELS: { [key in LRScheduleType]: string } = {
+    constant: 'Constant',
+    step: 'Step Decay',
+    cosine: 'Cosine with Restarts',
+    oneCycle: 'One-Cycle',
+    plateau: 'Reduce on Plateau',
+};
+
+/**
+ * The part of a scheduler that changes as training progresses. Only reduce-on-plateau has any.
+ */
+export interface LRSchedulerState {
+    type: LRScheduleType;
+    bestLoss: number;
+    epochsWithoutImprovement: number;
+    scale: number; // The multiplier applied to the base rate by the reductions so far.
+}
+
+/**
+ * A scheduler returns the learning rate for each epoch.
+ */
+export interface LRScheduler {
+    config: LRScheduleConfig;
+    /**
+     * Returns the learning rate for an epoch.
+     * @param epoch - The 1-based epoch number.
+     */
+    getLearningRate: (epoch: number) => number;
+    /**
+     * Records the average loss of a finished epoch.
+     * @param loss - The epoch's loss.
+     */
+    reportLoss: (loss: number) => void;
+    /** Returns the scheduler's internal state, so that it can survive a reconfiguration. */
+    getState: () => LRSchedulerState;
+}
+
+// The relative improvement a loss must make to count as "better" for reduce-on-plateau.
+const PLATEAU_THRESHOLD = 1e-4;
+
+/**
+ * Interpolates from `start` to `end` along half a cosine wave.
+ * @param progress - How far along the curve to go, from 0 to 1.
+ */
+const cosineAnneal = (start: number, end: number, progress: number): number =>
+    end + (start - end) * 0.5 * (1 + Math.cos(Math.PI * Math.min(1, Math.max(0, progress))));
+
+/**
+ * Creates a learning-rate scheduler.
+ * @param config - The schedule type and its parameters.
+ * @param baseLearningRate - The learning rate chosen by the user. Schedules scale this value.
+ * @param totalEpochs - The planned length of training. One-cycle and cosine annealing fit their curves to it.
+ * @param state - Optional state to resume from. It is ignored if it belongs to a different schedule type.
+ * @returns A new LRScheduler.
+ */
+export const createLRScheduler = (
+    config: LRScheduleConfig,
+    baseLearningRate: number,
+    totalEpochs: number,
+    state?: LRSchedulerState | null
+): LRScheduler => {
+    const current: LRSchedulerState = state && state.type === config.type
+        ? { ...state }
+        : { type: config.type, bestLoss: Infinity, epochsWithoutImprovement: 0, scale: 1 };
+
+    const minLearningRate = baseLearningRate * config.minLRFactor;
+    const warmupEpochs = config.type === 'oneCycle' ? 0 : Math.max(0, config.warmupEpochs);
+
+    /**
+     * The rate after warmup, where `t` counts epochs from 0 once warmup is over.
+     */
+    const scheduledRate = (t: number): number => {
+        switch (config.type) {
+            case 'step':
+                return baseLearningRate * Math.pow(config.gamma, Math.floor(t / Math.max(1, config.stepSize)));
+            case 'cosine': {
+                // Find where `t` falls within the current restart period. Each period is
+                // `restartMultiplier` times longer than the one before.
+                let period = Math.max(1, config.restartPeriod);
+                let position = t;
+                while (position >= period) {
+                    position -= period;
+                    period = Math.max(1, Math.round(period * config.restartMultiplier));
+                }
+                return cosineAnneal(baseLearningRate, minLearningRate, position / period);
+            }
+            case 'oneCycle': {
+                // Ramp up from the minimum to the base rate, then anneal back down for the rest of training.
+                const peakEpoch = Math.max(1, Math.round(config.pctStart * totalEpochs));
+                if (t < peakEpoch) {
+                    return minLearningRate + (baseLearningRate - minLearningRate) * (t / peakEpoch);
+                }
+                return cosineAnneal(baseLearningRate, minLearningRate, (t - peakEpoch) / Math.max(1, totalEpochs - 1 - peakEpoch));
+            }
+            case 'plateau':
+                return baseLearningRate * current.scale;
+            case 'constant':
+            default:
+                return baseLearningRate;
+        }
+    };
+
+    const getLearningRate = (epoch: number): number => {
+        const t = epoch - 1;
+        if (t < warmupEpochs) {
+            // Linear warmup: grow towards the scheduled rate so early, noisy gradients take small steps.
+            return scheduledRate(0) * (t + 1) / (warmupEpochs + 1);
+        }
+        return scheduledRate(t - warmupEpochs);
+    };
+
+    const reportLoss = (loss: number) => {
+        if (config.type !== 'plateau') return;
+        if (loss < current.bestLoss * (1 - PLATEAU_THRESHOLD)) {
+            current.bestLoss = loss;
+            current.epochsWithoutImprovement = 0;
+            return;
+        }
+        current.epochsWithoutImprovement++;
+        if (current.epochsWithoutImprovement >= config.plateauPatience) {
+            current.scale = Math.max(config.minLRFactor, current.scale * config.plateauFactor);
+            current.epochsWithoutImprovement = 0;
+        }
+    };
+
+    return {
+        config,
+        getLearningRate,
+        reportLoss,
+        getState: () => ({ ...current }),
+    };
+};
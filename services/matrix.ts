@@ -0,0 +1,263 @@
+/**
+ * @file matrix.ts
+ * @description The numerical backend for the neural networks. Matrices are stored as flat,
+ * row-major `Float64Array`s, which are far faster to index than nested arrays and can be sent
+ * to and from the training worker without any conversion. Besides the usual constructors, this
+ * file provides a small set of in-place kernels (gemv, axpy, fused bias-add, outer-product
+ * accumulation) that the training code uses to avoid allocating new matrices on every operation.
+ */
+
+import { Matrix } from '../types';
+
+// --- Construction ---
+
+/**
+ * Creates a new matrix of specified dimensions.
+ * @param rows - The number of rows.
+ * @param cols - The number of columns.
+ * @param fill - A value or function to initialize each element. Defaults to 0.
+ * @returns A new Matrix object.
+ */
+export const createMatrix = (rows: number, cols: number, fill: number | (() => number) = 0): Matrix => {
+    const data = new Float64Array(rows * cols);
+    if (typeof fill === 'function') {
+        for (let i = 0; i < data.length; i++) data[i] = fill();
+    } else if (fill !== 0) {
+        data.fill(fill);
+    }
+    return { rows, cols, data };
+};
+
+/**
+ * Creates a 1xN row vector, optionally copying its values from an existing array.
+ * @param size - The number of elements.
+ * @param values - Optional values to copy into the vector.
+ * @returns A new 1xN Matrix.
+ */
+export const createVector = (size: number, values?: ArrayLike<number>): Matrix => {
+    const vector = createMatrix(1, size);
+    if (values) vector.data.set(values);
+    return vector;
+};
+
+/**
+ * Creates a deep copy of a matrix.
+ * @param m - The matrix to copy.
+ * @returns A new Matrix with its own data buffer.
+ */
+export const cloneMatrix = (m: Matrix): Matrix => ({ rows: m.rows, cols: m.cols, data: Float64Array.from(m.data) });
+
+/**
+ * Builds a matrix from nested arrays (the format used by models saved before the typed backend).
+ * @param values - An array of rows.
+ * @returns A new Matrix.
+ */
+export const fromNestedArray = (values: number[][]): Matrix => {
+    const rows = values.length;
+    const cols = rows > 0 ? values[0].length : 0;
+    const m = createMatrix(rows, cols);
+    for (let i = 0; i < rows; i++) {
+        m.data.set(values[i], i * cols);
+    }
+    return m;
+};
+
+/**
+ * Converts a matrix into nested arrays, one per row. Handy for rendering.
+ * @param m - The matrix to convert.
+ * @returns An array of rows.
+ */
+export const toNestedArray = (m: Matrix): number[][] => {
+    const result: number[][] = [];
+    for (let i = 0; i < m.rows; i++) {
+        result.push(Array.from(m.data.subarray(i * m.cols, (i + 1) * m.cols)));
+    }
+    return result;
+};
+
+// --- Element Access ---
+
+/** Reads the element at row `i`, column `j`. */
+export const getValue = (m: Matrix, i: number, j: number): number => m.data[i * m.cols + j];
+
+/**
+ * Returns a view of a single row. Writing to the view writes to the matrix.
+ * @param m - The matrix.
+ * @param i - The row index.
+ */
+export const rowView = (m: Matrix, i: number): Float64Array => m.data.subarray(i * m.cols, (i + 1) * m.cols);
+
+/**
+ * Returns the index of the largest element in a vector.
+ * @param v - The vector to search.
+ */
+export const argmax = (v: ArrayLike<number>): number => {
+    let best = 0;
+    for (let i = 1; i < v.length; i++) {
+        if (v[i] > v[best]) best = i;
+    }
+    return best;
+};
+
+// --- In-place Kernels ---
+// All kernels write into `out` (or `y`) and return nothing. Vectors are plain Float64Arrays,
+// usually the `data` of a 1xN matrix.
+
+/**
+ * Row-vector times matrix: out = x · W (or out += x · W when `accumulate` is set).
+ * @param out - Output vector of length W.cols.
+ * @param x - Input vector of length W.rows.
+ * @param W - The matrix.
+ * @param accumulate - Add to `out` instead of overwriting it.
+ */
+export const gemv = (out: Float64Array, x: ArrayLike<number>, W: Matrix, accumulate = false) => {
+    const { rows, cols, data } = W;
+    if (!accumulate) out.fill(0);
+    for (let i = 0; i < rows; i++) {
+        const xi = x[i];
+        if (xi === 0) continue;
+        const offset = i * cols;
+        for (let j = 0; j < cols; j++) {
+            out[j] += xi * data[offset + j];
+        }
+    }
+};
+
+/**
+ * Row-vector times transposed matrix: out = y · Wᵀ (or out += y · Wᵀ when `accumulate` is set).
+ * This is how gradients are propagated backwards through a weight matrix.
+ * @param out - Output vector of length W.rows.
+ * @param y - Input vector of length W.cols.
+ * @param W - The matrix.
+ * @param accumulate - Add to `out` instead of overwriting it.
+ */
+export const gemvT = (out: Float64Array, y: ArrayLike<number>, W: Matrix, accumulate = false) => {
+    const { rows, cols, data } = W;
+    for (let i = 0; i < rows; i++) {
+        const offset = i * cols;
+        let sum = 0;
+        for (let j = 0; j < cols; j++) {
+            sum += y[j] * data[offset + j];
+        }
+        out[i] = accumulate ? out[i] + sum : sum;
+    }
+};
+
+/**
+ * Fused affine transform: out = x · W + b.
+ * @param out - Output vector of length W.cols.
+ * @param x - Input vector of length W.rows.
+ * @param W - The weight matrix.
+ * @param b - The 1xN bias matrix.
+ */
+export const affine = (out: Float64Array, x: ArrayLike<number>, W: Matrix, b: Matrix) => {
+    out.set(b.data);
+    gemv(out, x, W, true);
+};
+
+/**
+ * Fused affine transform for a one-hot input: out = W[index] + b.
+ * Multiplying a one-hot vector by a matrix just selects one row, so this skips the full product.
+ * @param out - Output vector of length W.cols.
+ * @param index - The position of the 1 in the one-hot input.
+ * @param W - The weight matrix.
+ * @param b - The 1xN bias matrix.
+ */
+export const affineOneHot = (out: Float64Array, index: number, W: Matrix, b: Matrix) => {
+    const offset = index * W.cols;
+    for (let j = 0; j < W.cols; j++) {
+        out[j] = W.data[offset + j] + b.data[j];
+    }
+};
+
+/**
+ * Scaled vector addition: y += alpha · x.
+ * @param y - The vector to update.
+ * @param alpha - The scale factor.
+ * @param x - The vector to add.
+ */
+export const axpy = (y: Float64Array, alpha: number, x: ArrayLike<number>) => {
+    for (let i = 0; i < y.length; i++) {
+        y[i] += alpha * x[i];
+    }
+};
+
+/**
+ * Accumulates an outer product: G += alpha · aᵀ · b.
+ * This is the weight gradient of a dense layer with input `a` and output gradient `b`.
+ * @param G - The matrix to update (a.length x b.length).
+ * @param a - The column vector.
+ * @param b - The row vector.
+ * @param alpha - The scale factor. Defaults to 1.
+ */
+export const addOuter = (G: Matrix, a: ArrayLike<number>, b: ArrayLike<number>, alpha = 1) => {
+    const { rows, cols, data } = G;
+    for (let i = 0; i < rows; i++) {
+        const ai = alpha * a[i];
+        if (ai === 0) continue;
+        const offset = i * cols;
+        for (let j = 0; j < cols; j++) {
+            data[offset + j] += ai * b[j];
+        }
+    }
+};
+
+/**
+ * Accumulates a vector into one row of a matrix: G[index] += alpha · b.
+ * This is the outer-product gradient for a one-hot input.
+ * @param G - The matrix to update.
+ * @param index - The row to update.
+ * @param b - The vector to add.
+ * @param alpha - The scale factor. Defaults to 1.
+ */
+export const addToRow = (G: Matrix, index: number, b: ArrayLike<number>, alpha = 1) => {
+    const offset = index * G.cols;
+    for (let j = 0; j < G.cols; j++) {
+        G.data[offset + j] += alpha * b[j];
+    }
+};
+
+/**
+ * Element-wise (Hadamard) product, in place: y *= x.
+ * @param y - The vector to update.
+ * @param x - The vector to multiply by.
+ */
+export const hadamardInPlace = (y: Float64Array, x: ArrayLike<number>) => {
+    for (let i = 0; i < y.length; i++) {
+        y[i] *= x[i];
+    }
+};
+
+/**
+ * Applies a function to every element of a vector, in place.
+ * @param v - The vector.
+ * @param fn - The function to apply.
+ */
+export const mapInPlace = (v: Float64Array, fn: (val: number) => number) => {
+    for (let i = 0; i < v.length; i++) {
+        v[i] = fn(v[i]);
+    }
+};
+
+/**
+ * Converts a vector of logits into probabilities, in place.
+ * Subtracting the max value first keeps `Math.exp` from overflowing.
+ * @param v - The logits. Overwritten with the probabilities.
+ * @param temperature - Divides the logits before the softmax. Defaults to 1.
+ */
+export const softmaxInPlace = (v: Float64Array, temperature = 1) => {
+    if (v.length === 0) return;
+    let maxVal = -Infinity;
+    for (let i = 0; i < v.length; i++) {
+        if (v[i] > maxVal) maxVal = v[i];
+    }
+    let sum = 0;
+    for (let i = 0; i < v.length; i++) {
+        v[i] = Math.exp((v[i] - maxVal) / temperature);
+        sum += v[i];
+    }
+    const norm = sum || 1; // Prevents division by zero.
+    for (let i = 0; i < v.length; i++) {
+        v[i] /= norm;
+    }
+};
@@ -0,0 +1,155 @@
+/**
+ * @file modelSerialization.ts
+ * @description Converts models (and optimizer state) to and from the JSON format used by the
+ * "Save Model" and "Load Model" buttons. Typed arrays don't survive `JSON.stringify`, so every matrix is
+ * written out as a flat array of numbers. Loading also accepts models saved before the
+ * typed-array backend, whose matrices were stored as nested arrays of rows, recurrent
+ * models saved before layers could be stacked, which kept their single layer at the top level,
+ * models saved before embeddings, which read one-hot inputs, and FFNNs saved before they could
+ * read more than one previous token.
+ */
+
+import { LanguageModel, Matrix, OptimizerState } from '../types';
+import { createMatrix, fromNestedArray } from './matrix';
+
+// The on-disk shape of a matrix. `data` is flat (current format) or nested rows (older saves).
+interface SerializedMatrix {
+    rows: number;
+    cols: number;
+    data: number[] | number[][] | { [index: string]: number };
+}
+
+// A JSON object, e.g. a model or optimizer state as parsed from a save file.
+type JsonObject = { [key: string]: unknown };
+
+// A model as found in a save file of any version, once its matrices are rebuilt. Only the fields
+// the migrations look at are named; the rest are carried along unchanged.
+interface LegacyModel extends JsonObject {
+    type?: unknown;
+    vocab?: unknown;
+    layers?: unknown;
+    embedding?: unknown;
+    contextSize?: unknown;
+}
+
+// An optimizer state as found in a save file, once its buffers are rebuilt.
+interface LegacyOptimizerState extends JsonObject {
+    slots?: unknown;
+}
+
+const isJsonObject = (value: unknown): value is JsonObject =>
+    value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const isMatrixLike = (value: unknown): value is SerializedMatrix | Matrix =>
+    isJsonObject(value) && typeof value.rows === 'number' && typeof value.cols === 'number' && 'data' in value;
+
+/**
+ * Rebuilds a matrix from any of the formats it may have been saved in.
+ */
+const deserializeMatrix = (value: SerializedMatrix | Matrix): Matrix => {
+    const { rows, cols, data } = value;
+    if (Array.isArray(data)) {
+        if (data.length > 0 && Array.isArray(data[0])) {
+            return fromNestedArray(data as number[][]);
+        }
+        return { rows, cols, data: Float64Array.from(data as number[]) };
+    }
+    // A Float64Array that went through JSON.stringify directly becomes an object keyed by index.
+    return { rows, cols, data: Float64Array.from({ length: rows * cols }, (_, i) => data[i] ?? 0) };
+};
+
+// Only used on live models and optimizer states, whose matrices are always typed-array backed.
+const serializeMatrix = (m: SerializedMatrix | Matrix): SerializedMatrix => ({ rows: m.rows, cols: m.cols, data: Array.from(m.data as Float64Array) });
+
+/**
+ * Recursively applies `convert` to every matrix inside a value, copying everything else.
+ */
+const mapMatrices = (value: unknown, convert: (m: SerializedMatrix | Matrix) => SerializedMatrix | Matrix): unknown => {
+    if (isMatrixLike(value)) return convert(value);
+    if (Array.isArray(value)) return value.map(item => mapMatrices(item, convert));
+    if (value !== null && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, mapMatrices(item, convert)]));
+    }
+    return value;
+};
+
+// The per-layer fields that single-layer RNN/GRU/LSTM saves kept at the top level of the model.
+const LEGACY_LAYER_KEYS = ['Wxh', 'Whh', 'Wz', 'Uz', 'Wr', 'Ur', 'Wh', 'Uh', 'Wf', 'Uf', 'Wi', 'Ui', 'Wo', 'Uo', 'Wc', 'Uc', 'h', 'c'];
+
+/**
+ * Moves the layer of a single-layer recurrent save into `layers[0]`. Current saves are returned unchanged.
+ */
+const migrateLegacyLayers = (model: LegacyModel): LegacyModel => {
+    if (model.type === 'FFNN' || model.type === 'Transformer' || Array.isArray(model.layers)) return model;
+    const layer = Object.fromEntries(Object.entries(model).filter(([key]) => LEGACY_LAYER_KEYS.includes(key)));
+    const rest = Object.fromEntries(Object.entries(model).filter(([key]) => !LEGACY_LAYER_KEYS.includes(key)));
+    return { ...rest, layers: [layer] };
+};
+
+/**
+ * Gives a model saved before embeddings an identity embedding table. Its input weights were
+ * applied to one-hot vectors, and the rows of the identity matrix are exactly those vectors,
+ * so the loaded model makes the same predictions it did before.
+ */
+const addLegacyEmbedding = (model: LegacyModel): LegacyModel => {
+    if (model.embedding || !Array.isArray(model.vocab)) return model;
+    const vocabSize = model.vocab.length;
+    const embedding = createMatrix(vocabSize, vocabSize);
+    for (let i = 0; i < vocabSize; i++) embedding.data[i * vocabSize + i] = 1;
+    return { ...model, embedding };
+};
+
+/**
+ * Gives an FFNN saved before context windows a context of one token, which is all it could read.
+ */
+const addLegacyContextSize = (model: LegacyModel): LegacyModel =>
+    model.type === 'FFNN' && model.contextSize === undefined ? { ...model, contextSize: 1 } : model;
+
+/**
+ * Converts a model into a plain, JSON-safe object.
+ * @param model - The model to serialize.
+ * @returns An object that can be passed to `JSON.stringify`.
+ */
+export const serializeModel = (model: LanguageModel): object =>
+    mapMatrices(model, serializeMatrix) as JsonObject;
+
+/**
+ * Rebuilds a model from its saved JSON form. Works with both the current flat format
+ * and the formats written by older versions of the app.
+ * @param data - The parsed JSON for the model.
+ * @returns The model, with every matrix backed by a Float64Array.
+ * @throws If the data is not a JSON object.
+ */
+export const deserializeModel = (data: unknown): LanguageModel => {
+    const model = mapMatrices(data, deserializeMatrix);
+    if (!isJsonObject(model)) throw new Error('The saved model is not a JSON object.');
+    // Once migrated, the save has the current model's shape.
+    return addLegacyContextSize(addLegacyEmbedding(migrateLegacyLayers(model))) as unknown as LanguageModel;
+};
+
+/**
+ * Converts an optimizer's state into a plain, JSON-safe object.
+ * @param state - The optimizer state to serialize.
+ * @returns An object that can be passed to `JSON.stringify`.
+ */
+export const serializeOptimizerState = (state: OptimizerState): object =>
+    mapMatrices(state, serializeMatrix) as JsonObject;
+
+/**
+ * Rebuilds an optimizer's state from its saved JSON form. Buffers saved for a single-layer
+ * recurrent model (e.g. `Wxh.weights`) are renamed to match its first layer (`layers.0.Wxh.weights`).
+ * @param data - The parsed JSON for the optimizer state.
+ * @param modelType - The type of model the state belongs to. FFNN and Transformer buffers are never renamed,
+ * since the Transformer's attention output (`Wo`) shares its name with the LSTM's output gate.
+ * @returns The optimizer state, with every buffer backed by a Float64Array.
+ * @throws If the data is not a JSON object.
+ */
+export const deserializeOptimizerState = (data: unknown, modelType?: LanguageModel['type']): OptimizerState => {
+    const saved = mapMatrices(data, deserializeMatrix);
+    if (!isJsonObject(saved)) throw new Error('The saved optimizer state is not a JSON object.');
+    const state: LegacyOptimizerState = saved;
+    const isRecurrent = modelType !== 'FFNN' && modelType !== 'Transformer';
+    const slots = Object.fromEntries(Object.entries(isJsonObject(state.slots) ? state.slots : {}).map(([name, buffers]) =>
+        [isRecurrent && LEGACY_LAYER_KEYS.includes(name.split('.')[0]) ? `layers.0.${name}` : name, buffers]));
+    return { ...state, slots } as unknown as OptimizerState;
+};
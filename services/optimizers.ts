@@ -0,0 +1,129 @@
+/**
+ * @file optimizers.ts
+ * @description The optimizers that turn gradients into weight updates. Plain SGD simply steps
+ * against the gradient; the others keep extra per-parameter state (a velocity, or running
+ * averages of the gradient and its square) that smooths and rescales each step. All updates
+ * are applied in place to the model's parameter matrices.
+ */
+
+import { Matrix, OptimizerConfig, OptimizerState, OptimizerType, ParameterMap } from '../types';
+import { createMatrix } from './matrix';
+
+/**
+ * Display names for each optimizer, used by the Controls dropdown.
+ */
+export const OPTIMIZER_LABELS: { [key in OptimizerType]: string } = {
+    sgd: 'SGD',
+    momentum: 'SGD + Momentum',
+    nesterov: 'Nesterov Momentum',
+    rmsprop: 'RMSProp',
+    adam: 'Adam',
+    adamw: 'AdamW',
+};
+
+/**
+ * An optimizer updates a model's parameters from their gradients.
+ */
+export interface Optimizer {
+    config: OptimizerConfig;
+    /**
+     * Applies one update to every parameter that has a gradient.
+     * @param params - The model's parameters, updated in place.
+     * @param grads - The gradients, keyed by the same names as `params`.
+     * @param learningRate - The step size for this update.
+     */
+    step: (params: ParameterMap, grads: ParameterMap, learningRate: number) => void;
+    /** Returns the optimizer's internal state, e.g. for saving alongside the model. */
+    getState: () => OptimizerState;
+}
+
+/**
+ * Creates an optimizer.
+ * @param config - The optimizer type and hyperparameters.
+ * @param state - Optional saved state to resume from. It is ignored if it belongs to a different optimizer type.
+ * @returns A new Optimizer.
+ */
+export const createOptimizer = (config: OptimizerConfig, state?: OptimizerState | null): Optimizer => {
+    const current: OptimizerState = state && state.type === config.type
+        ? state
+        : { type: config.type, step: 0, slots: {} };
+
+    // Returns the named buffer for a parameter, creating a zeroed one on first use.
+    const getSlot = (paramName: string, slotName: string, like: Matrix): Float64Array => {
+        const slots = current.slots[paramName] ?? (current.slots[paramName] = {});
+        if (!slots[slotName]) slots[slotName] = createMatrix(like.rows, like.cols);
+        return slots[slotName].data;
+    };
+
+    const step = (params: ParameterMap, grads: ParameterMap, learningRate: number) => {
+        current.step++;
+        const { momentum, rho, beta1, beta2, epsilon, weightDecay } = config;
+        // Adam's moment estimates start at zero, so early estimates are corrected for that bias.
+        const biasCorrection1 = 1 - Math.pow(beta1, current.step);
+        const biasCorrection2 = 1 - Math.pow(beta2, current.step);
+
+        for (const name of Object.keys(grads)) {
+            const param = params[name];
+            if (!param) continue;
+            const p = param.data;
+            const g = grads[name].data;
+
+            switch (config.type) {
+                case 'momentum': {
+                    // The velocity is a running sum of past gradients, so consistent directions build up speed.
+                    const v = getSlot(name, 'velocity', param);
+                    for (let i = 0; i < p.length; i++) {
+                        v[i] = momentum * v[i] + g[i];
+                        p[i] -= learningRate * v[i];
+                    }
+                    break;
+                }
+                case 'nesterov': {
+                    // Like momentum, but the step "looks ahead" along the updated velocity.
+                    const v = getSlot(name, 'velocity', param);
+                    for (let i = 0; i < p.length; i++) {
+                        v[i] = momentum * v[i] + g[i];
+                        p[i] -= learningRate * (g[i] + momentum * v[i]);
+                    }
+                    break;
+                }
+                case 'rmsprop': {
+                    // Divides each step by a running average of the gradient's magnitude.
+                    const s = getSlot(name, 'meanSquare', param);
+                    for (let i = 0; i < p.length; i++) {
+                        s[i] = rho * s[i] + (1 - rho) * g[i] * g[i];
+                        p[i] -= learningRate * g[i] / (Math.sqrt(s[i]) + epsilon);
+                    }
+                    break;
+                }
+                case 'adam':
+                case 'adamw': {
+                    const m = getSlot(name, 'firstMoment', param);
+                    const v = getSlot(name, 'secondMoment', param);
+                    const decay = config.type === 'adamw' ? weightDecay : 0;
+                    for (let i = 0; i < p.length; i++) {
+                        m[i] = beta1 * m[i] + (1 - beta1) * g[i];
+                        v[i] = beta2 * v[i] + (1 - beta2) * g[i] * g[i];
+                        const mHat = m[i] / biasCorrection1;
+                        const vHat = v[i] / biasCorrection2;
+                        // AdamW shrinks the weights directly instead of adding the decay to the gradient.
+                        p[i] -= learningRate * (mHat / (Math.sqrt(vHat) + epsilon) + decay * p[i]);
+                    }
+                    break;
+                }
+                case 'sgd':
+                default:
+                    for (let i = 0; i < p.length; i++) {
+                        p[i] -= learningRate * g[i];
+                    }
+                    break;
+            }
+        }
+    };
+
+    return {
+        config,
+        step,
+        getState: () => current,
+    };
+};
@@ -0,0 +1,155 @@
+/**
+ * @file phonotacticScorer.ts
+ * @description A graded alternative to the validator's accept/reject verdict. Real phonotactic
+ * judgements are gradient: "blick" sounds more like English than "bnick", but "bwick" sits somewhere
+ * in between. This scorer learns how often each onset, vowel and coda of the language pack occurs
+ * in the training corpus, and which onsets follow which codas across a syllable boundary, and rates
+ * a word by how likely its syllables are under those estimates.
+ *
+ * Any word can be scored, including ones the validator rejects: each run of consonants between two
+ * vowels is split so that the next syllable gets the longest onset it can, and the rest closes the
+ * syllable before. Clusters the language never uses simply get a very low probability.
+ */
+
+import { CoachingRewardMode, LanguagePack } from '../types';
+import { getPhonotactics, Phonotactics } from './phonotactics';
+import { splitWords } from './specialTokens';
+
+// Display names for each way of rewarding auto-coached words.
+export const COACHING_REWARD_LABELS: Record<CoachingRewardMode, string> = {
+    'pass-fail': 'Pass/Fail (validator)',
+    'graded': 'Graded (phonotactic score)',
+};
+
+// Added to every count, so outcomes never seen in the corpus keep a small probability.
+const SMOOTHING = 0.5;
+// How much an onset's probability depends on the coda before it, rather than only on its position.
+const TRANSITION_WEIGHT = 0.5;
+// The "coda" before a word's first onset.
+const WORD_BOUNDARY = '#';
+
+/**
+ * One syllable of a word, split into the consonants before the vowel, the vowel and the consonants after it.
+ */
+interface SyllableParts {
+    onset: string;
+    nucleus: string;
+    coda: string;
+}
+
+/**
+ * Splits a word into syllables, one per vowel. Consonants before the first vowel are its onset and
+ * consonants after the last one its coda; a run between two vowels gives the next syllable the
+ * longest onset of the language it ends with, and the rest is the coda of the syllable before.
+ * @param word The word.
+ * @param rules The language's phonotactic rules.
+ * @returns The syllables, or an empty list if the word has no vowel.
+ */
+const splitSyllables = (word: string, rules: Phonotactics): SyllableParts[] => {
+    const vowels = Array.from(rules.vowels).sort((a, b) => b.length - a.length);
+    const syllables: SyllableParts[] = [];
+    let consonants = '';
+    let i = 0;
+    while (i < word.length) {
+        const vowel = rules.vowelLetters.has(word[i]) ? vowels.find(v => word.startsWith(v, i)) : undefined;
+        if (!vowel) {
+            consonants += word[i++];
+            continue;
+        }
+        let onset = consonants;
+        if (syllables.length > 0) {
+            let split = 0;
+            while (split < consonants.length && !rules.onsets.has(consonants.slice(split))) split++;
+            onset = consonants.slice(split);
+            syllables[syllables.length - 1].coda = consonants.slice(0, split);
+        }
+        syllables.push({ onset, nucleus: vowel, coda: '' });
+        consonants = '';
+        i += vowel.length;
+    }
+    if (syllables.length > 0) syllables[syllables.length - 1].coda = consonants;
+    return syllables;
+};
+
+/**
+ * Counts outcomes in different contexts, and turns them into smoothed probabilities.
+ * @param outcomes The number of outcomes the language allows, used to spread the smoothing.
+ */
+const createDistribution = (outcomes: number) => {
+    const counts = new Map<string, Map<string, number>>();
+    const totals = new Map<string, number>();
+
+    const add = (context: string, outcome: string, count: number) => {
+        if (!counts.has(context)) counts.set(context, new Map());
+        const row = counts.get(context)!;
+        row.set(outcome, (row.get(outcome) || 0) + count);
+        totals.set(context, (totals.get(context) || 0) + count);
+    };
+
+    const probability = (context: string, outcome: string): number =>
+        ((counts.get(context)?.get(outcome) || 0) + SMOOTHING) / ((totals.get(context) || 0) + SMOOTHING * outcomes);
+
+    return { add, probability };
+};
+
+/**
+ * Learns a graded phonotactic scorer from a corpus.
+ * @param corpus The text to learn from. Whitespace separates words.
+ * @param pack The language pack whose onsets, vowels and codas the syllables are made of.
+ * @returns `score`, which rates a word from 0 to 1: the geometric mean probability of its onsets,
+ * vowels and codas, relative to that of the corpus's average word. Words at least as likely as the
+ * average score 1, and a word without a vowel scores 0.
+ */
+export const createPhonotacticScorer = (corpus: string, pack: LanguagePack) => {
+    const rules = getPhonotactics(pack);
+    // The empty onset and coda are outcomes too.
+    const onsetsByPosition = createDistribution(rules.onsets.size + 1);
+    const onsetsAfterCoda = createDistribution(rules.onsets.size + 1);
+    const nuclei = createDistribution(rules.vowels.size);
+    const codasByPosition = createDistribution(rules.codas.size + 1);
+
+    const wordCounts = new Map<string, number>();
+    for (const word of splitWords(corpus)) wordCounts.set(word, (wordCounts.get(word) || 0) + 1);
+    for (const [word, count] of wordCounts) {
+        splitSyllables(word, rules).forEach((syllable, index, syllables) => {
+            const previousCoda = index > 0 ? syllables[index - 1].coda : WORD_BOUNDARY;
+            onsetsByPosition.add(index === 0 ? 'initial' : 'medial', syllable.onset, count);
+            onsetsAfterCoda.add(previousCoda, syllable.onset, count);
+            nuclei.add('', syllable.nucleus, count);
+            codasByPosition.add(index === syllables.length - 1 ? 'final' : 'medial', syllable.coda, count);
+        });
+    }
+
+    /**
+     * The average log-probability of a word's onsets, vowels and codas, or -Infinity if it has no vowel.
+     */
+    const averageLogProbability = (word: string): number => {
+        const syllables = splitSyllables(word, rules);
+        if (syllables.length === 0) return -Infinity;
+        let total = 0;
+        syllables.forEach((syllable, index) => {
+            const previousCoda = index > 0 ? syllables[index - 1].coda : WORD_BOUNDARY;
+            const onset = TRANSITION_WEIGHT * onsetsAfterCoda.probability(previousCoda, syllable.onset)
+                + (1 - TRANSITION_WEIGHT) * onsetsByPosition.probability(index === 0 ? 'initial' : 'medial', syllable.onset);
+            total += Math.log(onset)
+                + Math.log(nuclei.probability('', syllable.nucleus))
+                + Math.log(codasByPosition.probability(index === syllables.length - 1 ? 'final' : 'medial', syllable.coda));
+        });
+        return total / (3 * syllables.length);
+    };
+
+    // The corpus's own words set the scale: their average is what a score of 1 means.
+    let corpusTotal = 0;
+    let corpusWords = 0;
+    for (const [word, count] of wordCounts) {
+        const logProbability = averageLogProbability(word);
+        if (logProbability === -Infinity) continue;
+        corpusTotal += count * logProbability;
+        corpusWords += count;
+    }
+    const corpusAverage = corpusWords > 0 ? corpusTotal / corpusWords : 0;
+
+    const score = (word: string): number => Math.min(1, Math.exp(averageLogProbability(word) - corpusAverage));
+
+    return { score };
+};
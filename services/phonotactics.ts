@@ -1,39 +1,132 @@
 /**
  * @file phonotactics.ts
- * @description This file defines the building blocks of English-like syllables.
+ * @description This file turns a language pack into the building blocks of its syllables.
  * These sets of tokens (onsets, vowels, codas, etc.) are used by the custom tokenizer
  * to break down the training text and by the `wordValidator` to check if a generated
- * word has a plausible structure.
+ * word has a plausible structure, after `tokenizeWord` has split the word into them.
+ *
+ * A pack's syllable templates describe the shapes a syllable may take. A template is written
+ * with `V` for the vowel and `C` for a consonant slot: consonants before the vowel are onsets and
+ * consonants after it are codas, and each slot holds one of the pack's onsets or codas (which may
+ * itself be a cluster). A slot followed by `?` is optional and one followed by `*` may be filled
+ * any number of times, so "CV" is a consonant and a vowel, "C?VC?" allows the consonants on either
+ * side to be left out, and "C*VC*" allows any number of them.
  */
 
-// Onsets are the consonant sounds at the beginning of a syllable.
-const SIMPLE_ONSETS = ['b', 'c', 'd', 'f', 'g', 'k', 'l', 'm', 'n', 'p', 'r', 's', 't', 'v'];
-const CLUSTER_ONSETS = ['br', 'pr', 'dr', 'gr', 'fr', 'cr', 'cl', 'pl', 'gl', 'fl', 'sl', 'sm', 'sn', 'sp', 'st', 'tr', 'spr', 'str', 'scr', 'sk', 'spl'];
-export const ONSETS = new Set([...SIMPLE_ONSETS, ...CLUSTER_ONSETS]);
-
-// Vowels are the core of a syllable.
-export const VOWELS = new Set(['a', 'e', 'i', 'o', 'u']);
-
-// Codas are the consonant sounds at the end of a syllable.
-const SIMPLE_CODAS = ['m', 'n', 't', 'k', 'p', 'g', 'l', 'r'];
-const CLUSTER_CODAS = ['mp', 'nd', 'nt', 'nk', 'st', 'sk', 'sp', 'rm', 'rn', 'rl', 'rp', 'rt', 'rk', 'sm', 'sh'];
-export const CODAS = new Set([...SIMPLE_CODAS, ...CLUSTER_CODAS]);
-
-// Extensions are common suffixes that can be appended to a syllable.
-export const EXTENSIONS = new Set(['set', 'ish', 'let', 'der', 'kin', 'ling', 'ster', 'mer', 'ner', 'ler', 'gen', 'gle', 'ple', 'ble', 'dle']);
-
-// Combine all possible phonotactic tokens into a single set.
-const allTokensSet = new Set([
-    ...SIMPLE_ONSETS, ...CLUSTER_ONSETS,
-    ...Array.from(VOWELS),
-    ...SIMPLE_CODAS, ...CLUSTER_CODAS,
-    ...Array.from(EXTENSIONS)
-]);
-
-// Create a single array of all tokens, sorted by length in descending order.
-// This is crucial for the greedy matching algorithm in the custom tokenizer,
-// ensuring that "spl" is matched before "sp" or "s".
-export const ALL_TOKENS = Array.from(allTokensSet).sort((a, b) => b.length - a.length || a.localeCompare(b));
-
-// A comma-separated string of all tokens, used to pre-populate the custom tokenizer input field.
-export const ALL_TOKENS_STRING = ALL_TOKENS.join(',');
+import { LanguagePack } from '../types';
+
+/**
+ * One slot of a syllable template.
+ */
+export interface TemplateSlot {
+    role: 'onset' | 'nucleus' | 'coda';
+    optional: boolean; // The slot may be left empty.
+    repeats: boolean;  // The slot may be filled more than once.
+}
+
+/**
+ * The phonotactic rules of a language pack, in the form the validator and tokenizer use.
+ */
+export interface Phonotactics {
+    onsets: Set<string>;
+    vowels: Set<string>;
+    codas: Set<string>;
+    suffixes: Set<string>;
+    letters: Set<string>;        // Every letter of the language.
+    vowelLetters: Set<string>;   // The letters the vowels are spelled with.
+    allTokens: string[];         // Every onset, vowel, coda and suffix, longest first.
+    templates: TemplateSlot[][]; // The parsed syllable templates.
+}
+
+/**
+ * Parses a syllable template such as "C?VC?".
+ * @param template - The template.
+ * @returns Its slots, in order.
+ * @throws If the template has a symbol other than C, V, ? and *, or does not have exactly one required vowel.
+ */
+export const parseSyllableTemplate = (template: string): TemplateSlot[] => {
+    const slots: TemplateSlot[] = [];
+    for (const symbol of template) {
+        if (symbol === 'C' || symbol === 'V') {
+            const role = symbol === 'V' ? 'nucleus' : slots.some(slot => slot.role === 'nucleus') ? 'coda' : 'onset';
+            slots.push({ role, optional: false, repeats: false });
+        } else if ((symbol === '?' || symbol === '*') && slots.length > 0) {
+            const last = slots[slots.length - 1];
+            last.optional = true;
+            last.repeats = last.repeats || symbol === '*';
+        } else {
+            throw new Error(`Syllable template "${template}" has an unexpected "${symbol}".`);
+        }
+    }
+    const nuclei = slots.filter(slot => slot.role === 'nucleus');
+    if (nuclei.length !== 1 || nuclei[0].optional) {
+        throw new Error(`Syllable template "${template}" must have exactly one vowel (V), which cannot be optional.`);
+    }
+    return slots;
+};
+
+// One set of rules per pack, so they are only worked out once.
+const cache = new WeakMap<LanguagePack, Phonotactics>();
+
+/**
+ * Works out the phonotactic rules of a language pack.
+ * @param pack - The language pack.
+ * @returns The pack's rules.
+ */
+export const getPhonotactics = (pack: LanguagePack): Phonotactics => {
+    let phonotactics = cache.get(pack);
+    if (!phonotactics) {
+        const vowels = pack.inventory.vowels;
+        const allTokensSet = new Set([...pack.onsets, ...vowels, ...pack.codas, ...pack.suffixes]);
+        phonotactics = {
+            onsets: new Set(pack.onsets),
+            vowels: new Set(vowels),
+            codas: new Set(pack.codas),
+            suffixes: new Set(pack.suffixes),
+            letters: new Set([...vowels.join(''), ...pack.inventory.consonants.join('')]),
+            vowelLetters: new Set(vowels.join('')),
+            // Sorted by length in descending order. This is crucial for the greedy matching algorithm
+            // in the custom tokenizer, ensuring that "spl" is matched before "sp" or "s".
+            allTokens: Array.from(allTokensSet).sort((a, b) => b.length - a.length || a.localeCompare(b)),
+            templates: pack.syllableTemplates.map(parseSyllableTemplate),
+        };
+        cache.set(pack, phonotactics);
+    }
+    return phonotactics;
+};
+
+/**
+ * The comma-separated list of a pack's tokens, used to pre-populate the custom tokenizer input field.
+ * @param pack - The language pack.
+ */
+export const getCustomTokenSet = (pack: LanguagePack): string => getPhonotactics(pack).allTokens.join(',');
+
+/**
+ * Greedily tokenizes a word string based on the phonotactic vocabulary.
+ * This breaks down a word like "splint" into its constituent parts ["spl", "i", "n", "t"].
+ * @param word - The word string to tokenize.
+ * @param rules - The language's phonotactic rules.
+ * @returns The tokens, and the rest of the word from the first place no token matches
+ * (empty if the whole word was tokenized).
+ */
+export const tokenizeWord = (word: string, rules: Phonotactics): { tokens: string[]; rest: string } => {
+    const tokens: string[] = [];
+    let i = 0;
+    while (i < word.length) {
+        let matchFound = false;
+        // The token list is pre-sorted by length, descending, ensuring longest match.
+        for (const token of rules.allTokens) {
+            if (word.startsWith(token, i)) {
+                tokens.push(token);
+                i += token.length;
+                matchFound = true;
+                break;
+            }
+        }
+        if (!matchFound) {
+            // If we can't parse the whole word with our phonotactic vocab, it's invalid.
+            return { tokens, rest: word.slice(i) };
+        }
+    }
+    return { tokens, rest: '' };
+};
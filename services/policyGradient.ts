@@ -0,0 +1,109 @@
+/**
+ * @file policyGradient.ts
+ * @description Reward-driven coaching with the REINFORCE policy-gradient method. The model is
+ * treated as a policy that writes a word one token at a time. Once a word has a reward (+1 or -1
+ * from the validator or a person pressing Good or Bad, or a graded score), every token of the word
+ * is made more likely if the reward beat the baseline and less likely if it fell short:
+ *
+ *     loss = -(reward - baseline) * log p(word) + klPenalty * sum_t KL(p_t || q_t)
+ *
+ * The baseline is a running average of recent rewards. Subtracting it does not change which way
+ * the update points on average, but makes it far less noisy. The optional KL term keeps the coached
+ * model's predictions `p_t` close to those of a frozen reference copy `q_t`, taken when coaching
+ * started, so chasing the reward cannot make it forget the language it was trained on.
+ */
+
+import { CoachingUpdateMethod, GradientClippingConfig, LanguageModel, LossGradient, TrainStepResult } from '../types';
+import { createStepFunction, trainStep } from './languageModel';
+import { softmaxInPlace } from './matrix';
+import { Optimizer } from './optimizers';
+
+// Display names for each way coaching updates the model.
+export const COACHING_UPDATE_LABELS: Record<CoachingUpdateMethod, string> = {
+    'supervised': 'Supervised (retrain on good words)',
+    'policy-gradient': 'Policy gradient (REINFORCE)',
+};
+
+/**
+ * The probabilities a model gives each next token while reading a word from a blank state.
+ * @param model - The model. It is not modified.
+ * @param encodedWord - The framed word's token IDs.
+ * @returns One distribution per position, for the token that follows it.
+ */
+const wordProbabilities = (model: LanguageModel, encodedWord: number[]): Float64Array[] => {
+    const stepper = createStepFunction(model);
+    let state = stepper.initialState();
+    return encodedWord.slice(0, -1).map(token => {
+        const { logits, state: nextState } = stepper.step(state, token);
+        state = nextState;
+        softmaxInPlace(logits);
+        return logits;
+    });
+};
+
+/**
+ * Builds the loss gradient of one policy-gradient step. With respect to the logits it is
+ * `advantage * (p - one_hot(token))`, plus `klPenalty * p * (log p - log q - KL)` when there is a reference.
+ * @param advantage - The reward minus the baseline.
+ * @param klPenalty - The weight of the KL divergence from the reference.
+ * @param reference - The reference model's distribution at each position, or null for no KL term.
+ * @param onKL - Receives the KL divergence at each position.
+ */
+const createPolicyGradientLoss = (
+    advantage: number,
+    klPenalty: number,
+    reference: Float64Array[] | null,
+    onKL: (kl: number) => void
+): LossGradient => (probs, targetIndex, position) => {
+    const grad = new Float64Array(probs.length);
+    for (let v = 0; v < probs.length; v++) grad[v] = advantage * probs[v];
+    grad[targetIndex] -= advantage;
+
+    const q = reference?.[position];
+    if (q) {
+        const logRatio = new Float64Array(probs.length);
+        let kl = 0;
+        for (let v = 0; v < probs.length; v++) {
+            logRatio[v] = Math.log(probs[v] + 1e-12) - Math.log(q[v] + 1e-12);
+            kl += probs[v] * logRatio[v];
+        }
+        for (let v = 0; v < probs.length; v++) grad[v] += klPenalty * probs[v] * (logRatio[v] - kl);
+        onKL(kl);
+    }
+    return grad;
+};
+
+/**
+ * Runs one policy-gradient update on a word. The whole word is read from a blank state, and the
+ * gradients of all of its tokens are applied together. Dropout is off, so the policy's
+ * distributions are computed the same way as the reference's and the KL term starts at zero.
+ * @param model - The model. Its parameters are updated in place.
+ * @param encodedWord - The framed word's token IDs.
+ * @param advantage - The word's reward minus the baseline. Positive makes the word more likely.
+ * @param reference - The frozen model the KL penalty compares against, or null to leave it out.
+ * @param klPenalty - The weight of the KL penalty.
+ * @param learningRate - The learning rate.
+ * @param optimizer - The optimizer that applies the update.
+ * @param clipping - How gradients are clipped before the update.
+ * @returns The training step's result, and the KL divergence from the reference summed over the
+ * word (null without a reference).
+ */
+export const policyGradientStep = (
+    model: LanguageModel,
+    encodedWord: number[],
+    advantage: number,
+    reference: LanguageModel | null,
+    klPenalty: number,
+    learningRate: number,
+    optimizer: Optimizer,
+    clipping: GradientClippingConfig
+): { result: TrainStepResult; kl: number | null } => {
+    const referenceProbs = reference && klPenalty > 0 ? wordProbabilities(reference, encodedWord) : null;
+    let kl = 0;
+    const loss = createPolicyGradientLoss(advantage, klPenalty, referenceProbs, value => kl += value);
+    const result = trainStep(
+        model, encodedWord, 0, encodedWord.length - 1, learningRate, 0, optimizer, clipping,
+        null, 'reset-sequence', loss
+    );
+    return { result, kl: referenceProbs ? kl : null };
+};
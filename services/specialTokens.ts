@@ -0,0 +1,76 @@
+/**
+ * @file specialTokens.ts
+ * @description The reserved tokens every tokenizer adds to its vocabulary, and the framing of the
+ * training text around them. Each word is read as `<bos> word <eos>`, so the model learns where
+ * words begin and end without relying on the space character: generation starts from `<bos>`
+ * with no hand-picked seed and stops as soon as the model chooses `<eos>`. `<pad>` fills context
+ * slots that reach back before the start of the text, and `<unk>` stands in for anything the
+ * tokenizer cannot encode.
+ */
+
+export const PAD_TOKEN = '<pad>';
+export const UNK_TOKEN = '<unk>';
+export const BOS_TOKEN = '<bos>';
+export const EOS_TOKEN = '<eos>';
+
+export const SPECIAL_TOKENS = [PAD_TOKEN, UNK_TOKEN, BOS_TOKEN, EOS_TOKEN];
+
+/**
+ * Checks whether a token is one of the reserved tokens.
+ * @param token - The token string.
+ */
+export const isSpecialToken = (token: string): boolean => SPECIAL_TOKENS.includes(token);
+
+/**
+ * Adds the reserved tokens to a tokenizer's vocabulary. They go at the end, so the IDs a
+ * tokenizer already assigns (such as BPE's 256 byte tokens) are unchanged.
+ * @param vocab - The tokenizer's own tokens.
+ * @returns The full vocabulary.
+ */
+export const withSpecialTokens = (vocab: string[]): string[] => [...vocab, ...SPECIAL_TOKENS];
+
+/**
+ * Splits text into its words. Whitespace only separates words and is never part of one.
+ * @param text - The raw text.
+ */
+export const splitWords = (text: string): string[] => text.split(/\s+/).filter(word => word.length > 0);
+
+/**
+ * The tokens that start and end a word for a given vocabulary. Models saved before the reserved
+ * tokens existed (and the interactive demo's small model) only have the space, which does both jobs.
+ * @param tokenToIndex - The vocabulary's token-to-ID map.
+ * @returns The start and end token IDs, undefined if the vocabulary has neither, and the ID that
+ * pads the FFNN's context, or -1 to leave its slots at zero.
+ */
+export const getWordBoundaries = (tokenToIndex: { [token: string]: number }): { start: number | undefined; end: number | undefined; pad: number } => {
+    const space = tokenToIndex[' '];
+    return {
+        start: tokenToIndex[BOS_TOKEN] ?? space,
+        end: tokenToIndex[EOS_TOKEN] ?? space,
+        pad: tokenToIndex[PAD_TOKEN] ?? space ?? -1,
+    };
+};
+
+/**
+ * Encodes text word by word and frames every word as `<bos> word <eos>`. Without the reserved
+ * tokens in the vocabulary, the words are separated by spaces instead, as in the raw text.
+ * @param text - The raw text.
+ * @param encodeWord - Encodes a single word with the tokenizer.
+ * @param tokenToIndex - The vocabulary's token-to-ID map.
+ * @returns The framed sequence of token IDs.
+ */
+export const frameWords = (text: string, encodeWord: (word: string) => number[], tokenToIndex: { [token: string]: number }): number[] => {
+    const bos = tokenToIndex[BOS_TOKEN];
+    const eos = tokenToIndex[EOS_TOKEN];
+    const space = tokenToIndex[' '];
+    const ids: number[] = [];
+    splitWords(text).forEach((word, i) => {
+        if (bos !== undefined && eos !== undefined) {
+            ids.push(bos, ...encodeWord(word), eos);
+        } else {
+            if (i > 0 && space !== undefined) ids.push(space);
+            ids.push(...encodeWord(word));
+        }
+    });
+    return ids;
+};
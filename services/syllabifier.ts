@@ -0,0 +1,120 @@
+/**
+ * @file syllabifier.ts
+ * @description Splits words into syllables, using the same syllable templates the word validator
+ * checks words against. Every syllable is broken down further into its onset (the consonants
+ * before the vowel), nucleus (the vowel) and coda (the consonants after it), and a suffix that
+ * follows the last syllable is kept apart as an extension. The app uses this to colour generated
+ * words by their syllable structure, and to tally the syllable shapes the model produces.
+ */
+
+import { LanguagePack, Syllable, SyllableRole, SyllableSegment, SyllableStats } from '../types';
+import { getPhonotactics, Phonotactics, tokenizeWord } from './phonotactics';
+import { DEFAULT_LANGUAGE_PACK } from './languagePacks';
+
+/**
+ * Finds a split of a word's tokens into syllables that follow the templates. Where a consonant
+ * could close one syllable or open the next, the next syllable gets it (e.g. "po-lin" rather than
+ * "pol-in"). Neighbouring tokens with the same role are merged into one segment.
+ * @param tokens The word's tokens.
+ * @param rules The language's phonotactic rules.
+ * @returns Each syllable's segments, with a final suffix as an extension, or null if there is no valid split.
+ */
+const parseSyllables = (tokens: string[], rules: Phonotactics): SyllableSegment[][] | null => {
+    const matches = { onset: rules.onsets, nucleus: rules.vowels, coda: rules.codas };
+    const isSyllableEnd = (t: number, s: number) => rules.templates[t].slice(s).every(slot => slot.optional);
+    const extend = (syllable: SyllableSegment[], text: string, role: SyllableRole): SyllableSegment[] => {
+        const last = syllable[syllable.length - 1];
+        return last?.role === role
+            ? [...syllable.slice(0, -1), { text: last.text + text, role }]
+            : [...syllable, { text, role }];
+    };
+
+    // Tries to place `tokens[i]` in template `t` at slot `s` or a later one past optional slots.
+    const fill = (i: number, t: number, s: number, syllable: SyllableSegment[], done: SyllableSegment[][]): SyllableSegment[][] | null => {
+        const slots = rules.templates[t];
+        for (let j = s; j < slots.length; j++) {
+            if (matches[slots[j].role].has(tokens[i])) {
+                const parse = search(i + 1, t, slots[j].repeats ? j : j + 1, extend(syllable, tokens[i], slots[j].role), done);
+                if (parse) return parse;
+            }
+            if (!slots[j].optional) break;
+        }
+        return null;
+    };
+    // Parses `tokens` from `i` on, partway through `syllable`, which is at slot `s` of template `t`.
+    const search = (i: number, t: number, s: number, syllable: SyllableSegment[], done: SyllableSegment[][]): SyllableSegment[][] | null => {
+        const ended = isSyllableEnd(t, s);
+        if (i === tokens.length) return ended ? [...done, syllable] : null;
+        if (ended) {
+            const closed = [...done, syllable];
+            for (let next = 0; next < rules.templates.length; next++) {
+                const parse = fill(i, next, 0, [], closed);
+                if (parse) return parse;
+            }
+            if (i === tokens.length - 1 && rules.suffixes.has(tokens[i])) return [...closed, [{ text: tokens[i], role: 'extension' }]];
+        }
+        return fill(i, t, s, syllable, done);
+    };
+
+    for (let t = 0; t < rules.templates.length; t++) {
+        const parse = fill(0, t, 0, [], []);
+        if (parse) return parse;
+    }
+    return null;
+};
+
+/**
+ * Splits a word into syllables.
+ * @param word The word.
+ * @param pack The language pack whose sounds and syllable templates to use.
+ * @returns The syllables, or null if the word cannot be spelled with the language's sounds or does
+ * not fit its syllable templates. This is exactly when the validator's syllable-structure rule fails.
+ */
+export const syllabify = (word: string, pack: LanguagePack = DEFAULT_LANGUAGE_PACK): Syllable[] | null => {
+    const rules = getPhonotactics(pack);
+    const { tokens, rest } = tokenizeWord(word, rules);
+    if (rest || tokens.length === 0) return null;
+    const parse = parseSyllables(tokens, rules);
+    if (!parse) return null;
+    return parse.map(segments => ({
+        text: segments.map(segment => segment.text).join(''),
+        segments,
+        shape: segments.map(({ text, role }) => [...text].map(char =>
+            role === 'nucleus' || (role === 'extension' && rules.vowelLetters.has(char)) ? 'V' : 'C'
+        ).join('')).join(''),
+    }));
+};
+
+/**
+ * Tallies the syllable structure of a set of words.
+ * @param words The words, e.g. the ones generated after an epoch.
+ * @param pack The language pack whose sounds and syllable templates to use.
+ * @returns How many words could be split, their average number of syllables, how often each
+ * syllable shape occurs and how many words end in an extension. Extensions are not counted as syllables.
+ */
+export const computeSyllableStats = (words: string[], pack: LanguagePack = DEFAULT_LANGUAGE_PACK): SyllableStats => {
+    const shapes = new Map<string, number>();
+    let parsed = 0;
+    let syllableCount = 0;
+    let extensions = 0;
+    for (const word of words) {
+        const syllables = syllabify(word, pack);
+        if (!syllables) continue;
+        parsed++;
+        for (const syllable of syllables) {
+            if (syllable.segments[0].role === 'extension') {
+                extensions++;
+                continue;
+            }
+            syllableCount++;
+            shapes.set(syllable.shape, (shapes.get(syllable.shape) || 0) + 1);
+        }
+    }
+    return {
+        words: parsed,
+        unparsed: words.length - parsed,
+        averageSyllables: parsed > 0 ? syllableCount / parsed : 0,
+        shapes: Array.from(shapes, ([shape, count]) => ({ shape, count })).sort((a, b) => b.count - a.count || a.shape.localeCompare(b.shape)),
+        extensions,
+    };
+};
@@ -0,0 +1,168 @@
+/**
+ * @file tokenizer.ts
+ * @description The tokenizers behind one interface. Each tokenization method (characters, BPE,
+ * Unigram, or a custom token list) is trained from text into a `Tokenizer` that can encode and decode text
+ * and save itself as JSON. The saved form is stored next to the model, so a model is always
+ * reloaded with the exact tokenizer it was trained with.
+ */
+
+import { BpeMerges, SerializedTokenizer, Tokenizer, TokenizerType } from '../types';
+import { trainBPE, encodeBPE } from './bpe';
+import { encodeCustom } from './customTokenizer';
+import { trainUnigram, createUnigramEncoder } from './unigram';
+import { EOS_TOKEN, UNK_TOKEN, frameWords, isSpecialToken, withSpecialTokens } from './specialTokens';
+
+export const TOKENIZER_LABELS: { [key in TokenizerType]: string } = {
+    'character': 'Character',
+    'bpe': 'BPE',
+    'custom': 'Custom',
+    'unigram': 'Unigram',
+};
+
+/**
+ * The settings for training a tokenizer. Each type only reads the ones it needs.
+ */
+export interface TokenizerTrainingOptions {
+    vocabSize: number;      // BPE and Unigram: the target vocabulary size.
+    customTokens: string[]; // Custom: the user's token list.
+    coverText?: string;     // Character and custom: more text whose characters the vocabulary must cover, e.g. the held-out validation words.
+}
+
+/**
+ * Wraps a vocabulary and an encoding function as a `Tokenizer`.
+ * @param type - The tokenization method.
+ * @param vocab - Every token, indexed by ID.
+ * @param encode - Encodes text into token IDs, given the token-to-ID map.
+ * @param saved - Anything else the tokenizer needs to be restored, such as BPE's merge rules.
+ */
+const createTokenizer = (
+    type: TokenizerType,
+    vocab: string[],
+    encode: (text: string, tokenToIndex: { [token: string]: number }) => number[],
+    saved: Pick<SerializedTokenizer, 'merges' | 'scores'> = {}
+): Tokenizer => {
+    const tokenToIndex: { [token: string]: number } = Object.fromEntries(vocab.map((token, i) => [token, i]));
+    return {
+        type,
+        vocab,
+        tokenToIndex,
+        encode: (text) => encode(text, tokenToIndex),
+        decode: (ids) => ids.map(id => {
+            const token = vocab[id];
+            if (token === EOS_TOKEN) return ' ';
+            return token === undefined || (isSpecialToken(token) && token !== UNK_TOKEN) ? '' : token;
+        }).join(''),
+        toJSON: () => ({ type, vocab, ...saved }),
+    };
+};
+
+/**
+ * Builds a character tokenizer from its vocabulary.
+ * @param vocab - Every token, indexed by ID.
+ */
+const createCharacterTokenizer = (vocab: string[]): Tokenizer =>
+    createTokenizer('character', vocab, (text, tokenToIndex) =>
+        text.split('').map(char => tokenToIndex[char] ?? tokenToIndex[UNK_TOKEN]).filter(id => id !== undefined));
+
+/**
+ * Builds a custom tokenizer from its vocabulary, which must be sorted longest token first
+ * (apart from the reserved tokens at the end, which are never matched in text).
+ * @param vocab - Every token, indexed by ID.
+ */
+const createCustomTokenizer = (vocab: string[]): Tokenizer =>
+    createTokenizer('custom', vocab, (text, tokenToIndex) => encodeCustom(text, vocab, tokenToIndex, tokenToIndex[UNK_TOKEN]));
+
+/**
+ * Builds a BPE tokenizer from its vocabulary and merge rules. BPE starts from raw bytes, so it never needs `<unk>`.
+ * @param vocab - Every token, indexed by ID.
+ * @param merges - The learned merge rules.
+ */
+const createBPETokenizer = (vocab: string[], merges: BpeMerges): Tokenizer =>
+    createTokenizer('bpe', vocab, (text) => encodeBPE(text, merges), { merges: Array.from(merges.entries()) });
+
+/**
+ * Builds a Unigram tokenizer from its vocabulary and piece scores. Its pieces come first in the
+ * vocabulary, so a piece's index is its token ID, and unknown characters become `<unk>`.
+ * @param vocab - Every token, indexed by ID.
+ * @param scores - The log-probability of each piece.
+ */
+const createUnigramTokenizer = (vocab: string[], scores: number[]): Tokenizer => {
+    const encoder = createUnigramEncoder(vocab.slice(0, scores.length), scores);
+    const unkIndex = vocab.indexOf(UNK_TOKEN);
+    const toIds = (pieces: number[]) => pieces.map(id => id < 0 ? unkIndex : id);
+    return {
+        ...createTokenizer('unigram', vocab, (text) => toIds(encoder.encode(text)), { scores }),
+        sample: (text, alpha) => toIds(encoder.sample(text, alpha)),
+    };
+};
+
+/**
+ * Collects the distinct non-whitespace characters of some text, sorted.
+ * @param text - The text.
+ */
+const characterSet = (text: string): string[] =>
+    (Array.from(new Set(text.split('').filter(char => char.trim() !== ''))) as string[]).sort();
+
+/**
+ * Trains a tokenizer on some text. Every vocabulary ends with the reserved tokens, and whitespace
+ * is left out of the character and custom vocabularies since it only separates words.
+ * @param type - The tokenization method.
+ * @param text - The text to learn from.
+ * @param options - The settings for the chosen method.
+ * @returns The trained tokenizer.
+ */
+export const trainTokenizer = (type: TokenizerType, text: string, options: TokenizerTrainingOptions): Tokenizer => {
+    const coveredText = text + ' ' + (options.coverText ?? '');
+    switch (type) {
+        case 'bpe': {
+            const { merges, vocab } = trainBPE(text, options.vocabSize);
+            return createBPETokenizer(withSpecialTokens(Object.values(vocab) as string[]), merges);
+        }
+        case 'custom': {
+            // Any character the custom tokens don't cover is added as a token of its own.
+            const coveredChars = new Set(options.customTokens.join(''));
+            const tokens = [...options.customTokens, ...characterSet(coveredText).filter(char => !coveredChars.has(char))];
+            // Sorted longest first for the greedy matcher.
+            const sorted = (Array.from(new Set(tokens)) as string[]).sort((a: string, b: string) => b.length - a.length || a.localeCompare(b));
+            return createCustomTokenizer(withSpecialTokens(sorted));
+        }
+        case 'unigram': {
+            const { pieces, scores } = trainUnigram(text, options.vocabSize);
+            return createUnigramTokenizer(withSpecialTokens(pieces), scores);
+        }
+        case 'character':
+        default:
+            return createCharacterTokenizer(withSpecialTokens(characterSet(coveredText)));
+    }
+};
+
+/**
+ * Restores a tokenizer from its saved form.
+ * @param data - The output of a tokenizer's `toJSON`.
+ * @returns The tokenizer.
+ */
+export const tokenizerFromJSON = (data: SerializedTokenizer): Tokenizer => {
+    switch (data.type) {
+        case 'bpe': return createBPETokenizer(data.vocab, new Map(data.merges ?? []));
+        case 'custom': return createCustomTokenizer(data.vocab);
+        case 'unigram': return createUnigramTokenizer(data.vocab, data.scores ?? []);
+        case 'character':
+        default:
+            return createCharacterTokenizer(data.vocab);
+    }
+};
+
+/**
+ * Encodes text the way training text is encoded: word by word, each framed as `<bos> word <eos>`.
+ * @param tokenizer - The tokenizer.
+ * @param text - The text to encode.
+ * @param sampleAlpha - If given, and the tokenizer can sample, each word is encoded with a randomly
+ * sampled segmentation instead of the best one (see `SubwordRegularizationConfig`).
+ * @returns The framed sequence of token IDs.
+ */
+export const frameText = (tokenizer: Tokenizer, text: string, sampleAlpha?: number): number[] => {
+    const encodeWord = sampleAlpha !== undefined && tokenizer.sample
+        ? (word: string) => tokenizer.sample!(word, sampleAlpha)
+        : tokenizer.encode;
+    return frameWords(text, encodeWord, tokenizer.tokenToIndex);
+};
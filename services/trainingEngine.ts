@@ -0,0 +1,136 @@
+/**
+ * @file trainingEngine.ts
+ * @description The UI-side handle to the training worker. It hides the raw `postMessage`
+ * plumbing behind a small API: fire-and-forget commands (start, pause, step...), promise-based
+ * requests (snapshot, generate, decode, inspect, rank, reinforce), and a subscription for the events the worker streams back.
+ */
+
+import { DecodedWord, DecodingConfig, LanguageModel, OptimizerState, PolicyGradientStats, SamplingConfig, SerializedTokenizer, TokenInspection, TrainStepSummary, LanguagePack, WordScore } from '../types';
+import { TrainingCommand, TrainingConfig, TrainingEvent } from './trainingProtocol';
+
+// Commands that expect a correlated response carry a request ID; the UI fills it in.
+type RequestCommand = Extract<TrainingCommand, { requestId: number }>;
+type DistributiveOmit<T, K extends keyof any> = T extends unknown ? Omit<T, K> : never;
+
+export type TrainingEventListener = (event: TrainingEvent) => void;
+
+/**
+ * The API exposed to React components for driving the training worker.
+ */
+export interface TrainingEngine {
+    init: (
+        model: LanguageModel,
+        encodedText: number[],
+        encodedValidationText: number[],
+        config: TrainingConfig,
+        optimizerState?: OptimizerState | null,
+        resegmentation?: { tokenizer: SerializedTokenizer; text: string } | null
+    ) => void;
+    configure: (config: Partial<TrainingConfig>) => void;
+    start: () => void;
+    pause: () => void;
+    step: () => void;
+    snapshot: () => Promise<{ model: LanguageModel | null; optimizerState: OptimizerState | null }>;
+    generate: (count: number, sampling: SamplingConfig, seed?: string) => Promise<string[]>;
+    decode: (seed: string, sampling: SamplingConfig, decoding: DecodingConfig) => Promise<DecodedWord[]>;
+    inspect: (encodedWord: number[]) => Promise<TokenInspection[]>;
+    rank: (tokenizer: SerializedTokenizer, words: string[], perToken: boolean, languagePack: LanguagePack) => Promise<WordScore[]>;
+    reinforce: (encodedText: number[], learningRate: number, reward?: number) => Promise<{ model: LanguageModel | null; summary: TrainStepSummary | null; policy: PolicyGradientStats | null }>;
+    subscribe: (listener: TrainingEventListener) => () => void;
+    terminate: () => void;
+}
+
+/**
+ * Spawns a training worker and returns a handle for talking to it.
+ * @returns A new TrainingEngine. Call `terminate` when it is no longer needed.
+ */
+export const createTrainingEngine = (): TrainingEngine => {
+    const worker = new Worker(new URL('./trainingWorker.ts', import.meta.url), { type: 'module' });
+    const listeners = new Set<TrainingEventListener>();
+    // Each outstanding request's handlers: one for its response event, one for when it fails.
+    const pendingRequests = new Map<number, { settle: (event: TrainingEvent) => void; reject: (error: Error) => void }>();
+    let nextRequestId = 1;
+
+    /**
+     * Fails every outstanding request, e.g. when the worker crashes or is terminated.
+     */
+    const rejectPendingRequests = (error: Error) => {
+        pendingRequests.forEach(({ reject }) => reject(error));
+        pendingRequests.clear();
+    };
+
+    worker.onmessage = (e: MessageEvent<TrainingEvent>) => {
+        const event = e.data;
+        if ('requestId' in event && event.requestId !== undefined) {
+            const pending = pendingRequests.get(event.requestId);
+            if (pending) {
+                pendingRequests.delete(event.requestId);
+                pending.settle(event);
+            }
+        }
+        listeners.forEach(listener => listener(event));
+    };
+
+    // An uncaught error or a script that failed to load leaves the worker unable to answer.
+    worker.onerror = (e: ErrorEvent) => {
+        const message = e.message || 'The training worker crashed.';
+        rejectPendingRequests(new Error(message));
+        listeners.forEach(listener => listener({ type: 'error', message }));
+    };
+
+    const send = (command: TrainingCommand) => worker.postMessage(command);
+
+    /**
+     * Sends a command that expects a response and resolves with the matching event. It rejects if
+     * the worker reports an error for it, crashes, or is terminated first.
+     */
+    const request = <T extends TrainingEvent['type']>(command: DistributiveOmit<RequestCommand, 'requestId'>, responseType: T) => {
+        const requestId = nextRequestId++;
+        return new Promise<Extract<TrainingEvent, { type: T }>>((resolve, reject) => {
+            pendingRequests.set(requestId, {
+                settle: (event) => {
+                    if (event.type === responseType) {
+                        resolve(event as Extract<TrainingEvent, { type: T }>);
+                    } else if (event.type === 'error') {
+                        reject(new Error(event.message));
+                    } else {
+                        reject(new Error(`Unexpected response "${event.type}" to "${command.type}".`));
+                    }
+                },
+                reject,
+            });
+            send({ ...command, requestId } as RequestCommand);
+        });
+    };
+
+    return {
+        init: (model, encodedText, encodedValidationText, config, optimizerState, resegmentation) =>
+            send({ type: 'init', model, encodedText, encodedValidationText, config, optimizerState, resegmentation }),
+        configure: (config) => send({ type: 'configure', config }),
+        start: () => send({ type: 'start' }),
+        pause: () => send({ type: 'pause' }),
+        step: () => send({ type: 'step' }),
+        snapshot: async () => {
+            const { model, optimizerState } = await request({ type: 'snapshot' }, 'snapshot');
+            return { model, optimizerState };
+        },
+        generate: async (count, sampling, seed) => (await request({ type: 'generate', count, sampling, seed }, 'generated')).words,
+        decode: async (seed, sampling, decoding) => (await request({ type: 'decode', seed, sampling, decoding }, 'decoded')).words,
+        inspect: async (encodedWord) => (await request({ type: 'inspect', encodedWord }, 'inspected')).positions,
+        rank: async (tokenizer, words, perToken, languagePack) =>
+            (await request({ type: 'rank', tokenizer, words, perToken, languagePack }, 'ranked')).scores,
+        reinforce: async (encodedText, learningRate, reward = 1) => {
+            const { model, summary, policy } = await request({ type: 'reinforce', encodedText, learningRate, reward }, 'reinforced');
+            return { model, summary, policy };
+        },
+        subscribe: (listener) => {
+            listeners.add(listener);
+            return () => { listeners.delete(listener); };
+        },
+        terminate: () => {
+            worker.terminate();
+            listeners.clear();
+            rejectPendingRequests(new Error('The training engine was terminated.'));
+        },
+    };
+};
@@ -0,0 +1,111 @@
+/**
+ * @file trainingProtocol.ts
+ * @description Defines the typed message protocol spoken between the UI thread and the
+ * training worker (`trainingWorker.ts`). Commands flow from the UI to the worker; events
+ * flow back. Keeping both sides on the same discriminated unions means every message
+ * is type-checked at compile time.
+ */
+
+import { BPTTConfig, CoachingUpdateConfig, DecodedWord, DecodingConfig, GradientClippingConfig, LanguagePack, SamplingConfig, SerializedTokenizer, SubwordRegularizationConfig, TokenInspection, LanguageModel, LRScheduleConfig, OptimizerConfig, OptimizerState, PolicyGradientStats, PredictionStats, TrainingState, TrainStepSummary, ValidationMetrics, WordScore } from '../types';
+
+/**
+ * The hyperparameters and schedule the worker uses to drive training.
+ */
+export interface TrainingConfig {
+    learningRate: number; // The base learning rate, which the schedule scales each epoch.
+    batchSize: number; // The batch size (FFNN), sequence length (RNN/GRU/LSTM) or context length (Transformer).
+    dropoutRate: number; // The dropout rate for recurrent models.
+    epochs: number; // The maximum number of epochs to train for.
+    isCyclicalMode: boolean; // Whether to pause for coaching sessions between cycles.
+    cycleEpochs: number; // The number of epochs in each training cycle.
+    numCycles: number; // The total number of train/coach cycles.
+    currentCycle: number; // The cycle that is currently running (1-based).
+    optimizer: OptimizerConfig; // The optimizer used for weight updates.
+    lrSchedule: LRScheduleConfig; // How the learning rate changes from epoch to epoch.
+    gradientClipping: GradientClippingConfig; // How gradients are clipped before each update.
+    bptt: BPTTConfig; // The number of parallel streams and the state policy for the recurrent models.
+    sampling: SamplingConfig; // How the words in the generation-history snapshots are sampled.
+    subwordRegularization: SubwordRegularizationConfig; // Whether each epoch re-samples the segmentation of the text (Unigram tokenizer only).
+    earlyStoppingMetric: 'train' | 'validation'; // The loss that early stopping (and reduce-on-plateau) watches.
+    languagePack: LanguagePack; // The language whose rules the phonotactic mask enforces.
+    coachingUpdate: CoachingUpdateConfig; // How coaching rewards change the model.
+}
+
+// --- Commands (UI -> Worker) ---
+
+export type TrainingCommand =
+    // Replaces the worker's model and training data and resets all progress. `encodedValidationText`
+    // is the held-out set (empty if there is none). `optimizerState` resumes the optimizer from a saved run.
+    // `resegmentation` is the tokenizer and the raw training text, which the worker needs to re-segment
+    // the text for subword regularization; it is only sent for tokenizers that can sample segmentations.
+    | {
+        type: 'init';
+        model: LanguageModel;
+        encodedText: number[];
+        encodedValidationText: number[];
+        config: TrainingConfig;
+        optimizerState?: OptimizerState | null;
+        resegmentation?: { tokenizer: SerializedTokenizer; text: string } | null;
+      }
+    // Updates some of the hyperparameters without resetting progress.
+    | { type: 'configure'; config: Partial<TrainingConfig> }
+    // Starts, resumes, or continues training.
+    | { type: 'start' }
+    // Pauses training after the current slice of steps.
+    | { type: 'pause' }
+    // Runs exactly one training step, e.g. while paused.
+    | { type: 'step' }
+    // Requests a copy of the worker's current model and optimizer state.
+    | { type: 'snapshot'; requestId: number }
+    // Generates `count` words, each starting from `<bos>` (and the seed text, if one is given).
+    | { type: 'generate'; requestId: number; count: number; seed?: string; sampling: SamplingConfig }
+    // Decodes words with a decoding strategy, e.g. the top beams of a beam search. An empty seed starts from `<bos>` alone.
+    | { type: 'decode'; requestId: number; seed: string; sampling: SamplingConfig; decoding: DecodingConfig }
+    // Reports the model's prediction at every position of an encoded word.
+    | { type: 'inspect'; requestId: number; encodedWord: number[] }
+    // Scores candidate words with the model and ranks them, most likely first.
+    | { type: 'rank'; requestId: number; tokenizer: SerializedTokenizer; words: string[]; perToken: boolean; languagePack: LanguagePack }
+    // Coaches the model on an encoded word with a reward: +1 for good and -1 for bad, or a graded
+    // score. Supervised coaching runs a few training steps on the word (scaled by a positive reward
+    // and skipped otherwise); policy-gradient coaching runs one REINFORCE step.
+    | { type: 'reinforce'; requestId: number; encodedText: number[]; learningRate: number; reward: number };
+
+// --- Events (Worker -> UI) ---
+
+export type TrainingEvent =
+    // The worker's training state changed.
+    | { type: 'state'; state: TrainingState }
+    // A throttled summary of the most recent training step. `clipFrequency` is the fraction of
+    // steps since the previous progress event in which gradient clipping fired.
+    | { type: 'progress'; epoch: number; step: number; learningRate: number; clipFrequency: number; summary: TrainStepSummary }
+    // An epoch finished. `currentEpoch` is the epoch the worker will train next, and
+    // `learningRate` is the rate the finished epoch trained with. `validation` is null
+    // when there is no validation set.
+    | {
+        type: 'epoch';
+        epoch: number;
+        currentEpoch: number;
+        loss: number;
+        validation: ValidationMetrics | null;
+        learningRate: number;
+        predictionStats: PredictionStats;
+        model: LanguageModel;
+        generatedWords: string[] | null;
+      }
+    // A message for the training log.
+    | { type: 'log'; message: string }
+    // The response to a `snapshot` command. `model` is null if the worker has not been initialized.
+    | { type: 'snapshot'; requestId: number; model: LanguageModel | null; optimizerState: OptimizerState | null }
+    // The response to a `generate` command.
+    | { type: 'generated'; requestId: number; words: string[] }
+    // The response to a `decode` command, best word first.
+    | { type: 'decoded'; requestId: number; words: DecodedWord[] }
+    // The response to an `inspect` command. Empty if the worker has not been initialized.
+    | { type: 'inspected'; requestId: number; positions: TokenInspection[] }
+    // The response to a `rank` command. Empty if the worker has not been initialized.
+    | { type: 'ranked'; requestId: number; scores: WordScore[] }
+    // The response to a `reinforce` command. `policy` describes a policy-gradient update.
+    | { type: 'reinforced'; requestId: number; model: LanguageModel | null; summary: TrainStepSummary | null; policy: PolicyGradientStats | null }
+    // Something went wrong inside the worker. `requestId` is set when a request failed, and that
+    // request gets no other response.
+    | { type: 'error'; requestId?: number; message: string };
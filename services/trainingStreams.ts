@@ -0,0 +1,53 @@
+/**
+ * @file trainingStreams.ts
+ * @description Splits the training text into parallel streams for truncated backpropagation
+ * through time. The text is cut into `numStreams` equal, contiguous pieces. Each training step
+ * reads the next window of every piece side by side, and each piece keeps its own recurrent
+ * state from one window to the next, so the batch size (the number of streams) and the
+ * unroll length (the sequence length) can be chosen separately.
+ */
+
+import { LanguageModel, RecurrentStreamState, StateCarryPolicy } from '../types';
+import { createVector } from './matrix';
+
+/**
+ * Display names for the state-carry policies, used by the policy dropdown.
+ */
+export const STATE_CARRY_POLICY_LABELS: { [key in StateCarryPolicy]: string } = {
+    'carry': 'Carry Across Sequences',
+    'reset-sequence': 'Reset Every Sequence',
+    'reset-word': 'Reset at Word Start',
+};
+
+/**
+ * Limits the number of streams so that every stream has at least one prediction to make.
+ * @param textLength - The number of tokens in the training text.
+ * @param numStreams - The requested number of streams.
+ * @returns The number of streams to use.
+ */
+export const getStreamCount = (textLength: number, numStreams: number): number =>
+    Math.max(1, Math.min(Math.floor(numStreams), textLength - 1));
+
+/**
+ * The number of predictions in each stream, which is how far the step counter advances in one epoch.
+ * The last few tokens are dropped when the text does not split evenly.
+ * @param textLength - The number of tokens in the training text.
+ * @param numStreams - The number of streams.
+ */
+export const getStreamLength = (textLength: number, numStreams: number): number =>
+    Math.max(0, Math.floor((textLength - 1) / numStreams));
+
+/**
+ * Creates a zeroed recurrent state for every stream.
+ * @param model - The model being trained.
+ * @param numStreams - The number of streams.
+ * @returns One state per stream, or null for models without recurrent state (FFNN, Transformer).
+ */
+export const createStreamStates = (model: LanguageModel, numStreams: number): RecurrentStreamState[] | null => {
+    if (model.type === 'FFNN' || model.type === 'Transformer') return null;
+    const hiddenSize = model.Why.weights.rows;
+    const zeros = () => model.layers.map(() => createVector(hiddenSize));
+    return Array.from({ length: numStreams }, () => model.type === 'LSTM'
+        ? { hidden: zeros(), cell: zeros() }
+        : { hidden: zeros() });
+};
@@ -0,0 +1,437 @@
+/**
+ * @file trainingWorker.ts
+ * @description The training engine. This file runs inside a Web Worker so that training,
+ * which can take seconds per epoch for large recurrent models, never blocks the UI thread.
+ * It owns the authoritative copy of the model, runs the training loop in short time slices,
+ * owns the optimizer, the learning-rate schedule and the recurrent state of each parallel
+ * training stream, re-segments the text each epoch when subword regularization is on,
+ * measures validation loss after each epoch,
+ * applies early stopping, and streams throttled progress back to the UI
+ * using the messages defined in `trainingProtocol.ts`.
+ */
+
+import { trainStep, generateWord, decodeWords, inspectWord, evaluateModel } from './languageModel';
+import { createOptimizer, Optimizer } from './optimizers';
+import { createLRScheduler, LRScheduler } from './lrScheduler';
+import { createStreamStates, getStreamCount, getStreamLength } from './trainingStreams';
+import { frameText, tokenizerFromJSON } from './tokenizer';
+import { policyGradientStep } from './policyGradient';
+import { rankWords } from './wordScoring';
+import { TrainingCommand, TrainingConfig, TrainingEvent } from './trainingProtocol';
+import { LanguageModel, PolicyGradientStats, PredictionStats, RecurrentStreamState, SamplingConfig, Tokenizer, TrainingState, TrainStepResult, TrainStepSummary } from '../types';
+import {
+  DEFAULT_OPTIMIZER_CONFIG,
+  EARLY_STOPPING_PATIENCE,
+  PROGRESS_EVENT_INTERVAL_MS,
+  TRAINING_SLICE_MS
+} from '../constants';
+
+// Inside a worker, `self` is the worker's global scope rather than a window.
+const ctx = self as unknown as Worker;
+
+// --- Engine State ---
+let model: LanguageModel | null = null;
+let encodedText: number[] = [];
+let encodedValidationText: number[] = [];
+// The tokenizer and raw training text, for re-segmenting the text with subword regularization.
+let resegmentation: { tokenizer: Tokenizer; text: string } | null = null;
+let config: TrainingConfig | null = null;
+let optimizer: Optimizer | null = null;
+let scheduler: LRScheduler | null = null;
+// The recurrent state of each parallel training stream (null for the FFNN and Transformer).
+let streamStates: RecurrentStreamState[] | null = null;
+let state: TrainingState = 'IDLE';
+let currentEpoch = 1;
+let currentStep = 0;
+let currentLearningRate = 0;
+let currentEpochLosses: number[] = [];
+let lossHistory: number[] = [];
+let bestLoss = Infinity;
+let epochsWithoutImprovement = 0;
+let predictionStats: PredictionStats = {};
+let lastProgressTime = 0;
+// Counts the steps, and the steps where clipping fired, since the last progress event.
+let stepsSinceProgress = 0;
+let clippedStepsSinceProgress = 0;
+let loopTimer: ReturnType<typeof setTimeout> | null = null;
+// Policy-gradient coaching: the running average of the rewards, and a copy of the model frozen
+// at the first coaching update since the model was last initialized or trained.
+let rewardBaseline = 0;
+let referenceModel: LanguageModel | null = null;
+// Coaching applies its updates with its own plain SGD optimizer, created when coaching starts. The
+// training optimizer's moment estimates are left alone, and step sizes follow the reward's magnitude.
+let coachingOptimizer: Optimizer | null = null;
+
+const post = (event: TrainingEvent) => ctx.postMessage(event);
+
+const describeError = (error: unknown) => error instanceof Error ? error.message : String(error);
+
+/**
+ * Posts the response to a request. If building it throws, an error carrying the request's ID is
+ * posted instead, so the UI's pending request is always settled.
+ * @param requestId - The ID of the request being answered.
+ * @param createResponse - Builds the response event.
+ */
+const respond = (requestId: number, createResponse: () => TrainingEvent) => {
+  try {
+    post(createResponse());
+  } catch (error) {
+    post({ type: 'error', requestId, message: describeError(error) });
+  }
+};
+
+const log = (message: string) => post({ type: 'log', message });
+
+const setState = (next: TrainingState) => {
+  state = next;
+  post({ type: 'state', state });
+};
+
+// The states in which the training loop keeps running.
+const isTrainingState = (s: TrainingState) => s === 'RUNNING';
+
+/**
+ * Starts every training stream from a fresh, zeroed state. Called when training is set up,
+ * when the number of streams changes, and at the start of every epoch.
+ */
+const resetStreams = () => {
+  if (!model || !config) return;
+  streamStates = createStreamStates(model, getStreamCount(encodedText.length, config.bptt.numStreams));
+};
+
+/**
+ * Whether the current epoch has run out of text. With several streams, an epoch ends when
+ * the step counter reaches the end of each stream.
+ */
+const isEpochComplete = () => currentStep >= getStreamLength(encodedText.length, streamStates?.length ?? 1);
+
+/**
+ * Strips the heavy fields from a step result before it is sent to the UI.
+ */
+const summarize = ({ updatedModel, gradients, ...summary }: TrainStepResult): TrainStepSummary => summary;
+
+/**
+ * Generates a single word from the current model, starting from `<bos>`.
+ * @param seed - Optional text the word must start with.
+ * @param sampling - How tokens are sampled. Defaults to the training config's sampling settings.
+ */
+const generateOneWord = (seed?: string, sampling?: SamplingConfig): string => {
+  if (!model || !model.vocab || model.vocab.length === 0) return '';
+  return generateWord(model, seed ?? '', 50, sampling ?? config?.sampling);
+};
+
+/**
+ * Records which predictions were correct, for the success-rate heatmap.
+ */
+const recordPredictions = (result: TrainStepResult) => {
+  for (const { inputToken, targetToken, predictedToken } of result.predictionResults) {
+    if (!predictionStats[inputToken]) predictionStats[inputToken] = {};
+    if (!predictionStats[inputToken][targetToken]) predictionStats[inputToken][targetToken] = { correct: 0, total: 0 };
+    predictionStats[inputToken][targetToken].total += 1;
+    if (predictedToken === targetToken) {
+      predictionStats[inputToken][targetToken].correct += 1;
+    }
+  }
+};
+
+/**
+ * Executes a single step of training (one batch/sequence) and reports progress if enough time has passed.
+ * @param forceProgress - Report progress even if the throttle interval has not elapsed.
+ */
+const runTrainingStep = (forceProgress = false) => {
+  if (!model || !config || !optimizer) return;
+
+  const result = trainStep(
+    model, encodedText, currentStep, config.batchSize, currentLearningRate, config.dropoutRate, optimizer, config.gradientClipping,
+    streamStates, config.bptt.statePolicy
+  );
+  model = result.updatedModel;
+  // The next coaching session starts from the newly trained model.
+  referenceModel = null;
+  coachingOptimizer = null;
+  // Advance past exactly what was trained on, so no tokens are skipped if the window was shorter than the batch.
+  currentStep += result.stepLength ?? config.batchSize;
+  currentEpochLosses.push(result.loss);
+  recordPredictions(result);
+  stepsSinceProgress++;
+  if (result.gradientNorms?.clipped) clippedStepsSinceProgress++;
+
+  const now = performance.now();
+  if (forceProgress || now - lastProgressTime >= PROGRESS_EVENT_INTERVAL_MS) {
+    lastProgressTime = now;
+    post({
+      type: 'progress',
+      epoch: currentEpoch,
+      step: currentStep,
+      learningRate: currentLearningRate,
+      clipFrequency: clippedStepsSinceProgress / stepsSinceProgress,
+      summary: summarize(result),
+    });
+    stepsSinceProgress = 0;
+    clippedStepsSinceProgress = 0;
+  }
+};
+
+/**
+ * Wraps up an epoch: reports its training and validation loss, picks the next epoch's learning
+ * rate, and applies the cyclical training and early stopping rules to decide what happens next.
+ */
+const completeEpoch = () => {
+  if (!model || !config) return;
+
+  const epochLoss = currentEpochLosses.reduce((a, b) => a + b, 0) / currentEpochLosses.length;
+  // With subword regularization, the next epoch reads the text split into freshly sampled segmentations.
+  if (resegmentation && config.subwordRegularization.enabled) {
+    encodedText = frameText(resegmentation.tokenizer, resegmentation.text, config.subwordRegularization.alpha);
+  }
+  // Whatever happens next, the next epoch starts reading every stream from the beginning with a fresh state.
+  resetStreams();
+  const prevLoss = lossHistory.length > 0 ? lossHistory[lossHistory.length - 1] : epochLoss;
+  lossHistory.push(epochLoss);
+
+  const delta = epochLoss - prevLoss;
+  const deltaSign = delta >= 0 ? '+' : '';
+  log(`Epoch ${currentEpoch} complete. Loss: ${epochLoss.toFixed(4)} (Δ: ${deltaSign}${delta.toFixed(4)}, LR: ${currentLearningRate.toExponential(2)})`);
+
+  // A forward-only pass over the held-out words shows how well the model generalizes.
+  const validation = evaluateModel(model, encodedValidationText, config.bptt.statePolicy === 'reset-word');
+  if (validation) {
+    log(`  Validation loss: ${validation.loss.toFixed(4)}, perplexity: ${validation.perplexity.toFixed(2)}, bits/char: ${validation.bitsPerCharacter.toFixed(3)}`);
+  }
+  // Early stopping and reduce-on-plateau watch validation loss when asked to and when there is a validation set.
+  const monitoredLoss = config.earlyStoppingMetric === 'validation' && validation ? validation.loss : epochLoss;
+
+  // Generate sample words at intervals.
+  const generatedWords = currentEpoch % 5 === 0 || currentEpoch === 1
+    ? Array.from({ length: 5 }).map(() => generateOneWord())
+    : null;
+
+  const completedEpoch = currentEpoch;
+  const completedStats = predictionStats;
+  const completedLearningRate = currentLearningRate;
+  predictionStats = {};
+  const nextEpoch = currentEpoch + 1;
+
+  // Let the schedule see the loss (reduce-on-plateau needs it), then pick the next epoch's rate.
+  scheduler?.reportLoss(monitoredLoss);
+  currentLearningRate = scheduler ? scheduler.getLearningRate(nextEpoch) : currentLearningRate;
+
+  const reportEpoch = () => post({
+    type: 'epoch',
+    epoch: completedEpoch,
+    currentEpoch,
+    loss: epochLoss,
+    validation,
+    learningRate: completedLearningRate,
+    predictionStats: completedStats,
+    model: model!,
+    generatedWords,
+  });
+
+  // Logic for cyclical training: switch to COACHING mode.
+  if (config.isCyclicalMode && state === 'RUNNING' && nextEpoch > (config.currentCycle * config.cycleEpochs) && config.currentCycle <= config.numCycles) {
+    currentEpoch = nextEpoch;
+    currentStep = 0;
+    currentEpochLosses = [];
+    reportEpoch();
+    setState('COACHING');
+    return;
+  }
+
+  // --- Early Stopping Logic ---
+  epochsWithoutImprovement++;
+  if (monitoredLoss < bestLoss) {
+    bestLoss = monitoredLoss;
+    epochsWithoutImprovement = 0;
+  }
+
+  const stoppedEarly = epochsWithoutImprovement >= EARLY_STOPPING_PATIENCE;
+  if (stoppedEarly || nextEpoch > config.epochs) {
+    reportEpoch();
+    setState('FINISHED');
+    log(stoppedEarly ? 'Loss stabilized. Stopping early.' : 'Training finished.');
+    return;
+  }
+
+  // Prepare for the next epoch.
+  currentStep = 0;
+  currentEpochLosses = [];
+  currentEpoch = nextEpoch;
+  reportEpoch();
+};
+
+/**
+ * Runs training steps for one time slice, then yields so that incoming messages can be handled.
+ */
+const runSlice = () => {
+  loopTimer = null;
+  const sliceEnd = performance.now() + TRAINING_SLICE_MS;
+  try {
+    while (isTrainingState(state) && performance.now() < sliceEnd) {
+      runTrainingStep();
+      // Check if the current epoch is finished.
+      if (isEpochComplete()) {
+        completeEpoch();
+      }
+    }
+  } catch (error) {
+    setState('PAUSED');
+    post({ type: 'error', message: describeError(error) });
+    return;
+  }
+  if (isTrainingState(state)) {
+    loopTimer = setTimeout(runSlice, 0);
+  }
+};
+
+const stopLoop = () => {
+  if (loopTimer) {
+    clearTimeout(loopTimer);
+    loopTimer = null;
+  }
+};
+
+/**
+ * Coaches the model on an encoded word with a reward, using the configured coaching update:
+ * several targeted supervised training steps on a good word, or one policy-gradient step on any word.
+ */
+const reinforce = (encodedWord: number[], learningRate: number, reward: number): { summary: TrainStepSummary | null; policy: PolicyGradientStats | null } => {
+  if (!model || !config || encodedWord.length <= 1) return { summary: null, policy: null };
+  const { method, baselineDecay, klPenalty } = config.coachingUpdate;
+  if (!coachingOptimizer) coachingOptimizer = createOptimizer({ ...DEFAULT_OPTIMIZER_CONFIG, type: 'sgd' });
+
+  if (method === 'policy-gradient') {
+    if (klPenalty > 0 && !referenceModel) referenceModel = structuredClone(model);
+    const baseline = rewardBaseline;
+    const advantage = reward - baseline;
+    const { result, kl } = policyGradientStep(
+      model, encodedWord, advantage, klPenalty > 0 ? referenceModel : null, klPenalty,
+      learningRate, coachingOptimizer, config.gradientClipping
+    );
+    model = result.updatedModel;
+    rewardBaseline = baselineDecay * rewardBaseline + (1 - baselineDecay) * reward;
+    return { summary: summarize(result), policy: { reward, baseline, advantage, kl } };
+  }
+
+  // Supervised coaching only learns from good words, more strongly the higher their reward.
+  if (reward <= 0) return { summary: null, policy: null };
+  let lastResult: TrainStepResult | null = null;
+  for (let i = 0; i < 5; i++) { // Reinforce for 5 iterations
+    for (let j = 0; j < encodedWord.length - 1; j++) {
+      lastResult = trainStep(model, encodedWord, j, 1, learningRate * reward, config.dropoutRate, coachingOptimizer, config.gradientClipping);
+      model = lastResult.updatedModel;
+    }
+  }
+  return { summary: lastResult ? summarize(lastResult) : null, policy: null };
+};
+
+// --- Message Handling ---
+ctx.onmessage = (e: MessageEvent<TrainingCommand>) => {
+  const command = e.data;
+  switch (command.type) {
+    case 'init':
+      stopLoop();
+      model = command.model;
+      encodedText = command.encodedText;
+      encodedValidationText = command.encodedValidationText;
+      resegmentation = command.resegmentation
+        ? { tokenizer: tokenizerFromJSON(command.resegmentation.tokenizer), text: command.resegmentation.text }
+        : null;
+      config = command.config;
+      optimizer = createOptimizer(config.optimizer, command.optimizerState);
+      scheduler = createLRScheduler(config.lrSchedule, config.learningRate, config.epochs);
+      resetStreams();
+      state = 'IDLE';
+      currentEpoch = 1;
+      currentStep = 0;
+      rewardBaseline = 0;
+      referenceModel = null;
+      coachingOptimizer = null;
+      currentLearningRate = scheduler.getLearningRate(currentEpoch);
+      currentEpochLosses = [];
+      lossHistory = [];
+      bestLoss = Infinity;
+      epochsWithoutImprovement = 0;
+      predictionStats = {};
+      stepsSinceProgress = 0;
+      clippedStepsSinceProgress = 0;
+      break;
+
+    case 'configure':
+      if (!config) return;
+      config = { ...config, ...command.config };
+      if (command.config.optimizer) {
+        // Keep the optimizer's state when only its hyperparameters change; switching type starts fresh.
+        optimizer = createOptimizer(config.optimizer, optimizer?.getState());
+      }
+      if (command.config.bptt && getStreamCount(encodedText.length, command.config.bptt.numStreams) !== (streamStates?.length ?? 1)) {
+        // Changing the number of streams moves every stream boundary, so the carried states no longer apply.
+        resetStreams();
+      }
+      // The base rate, schedule, or planned length may have changed, so rebuild the schedule
+      // (keeping any plateau reductions) and re-evaluate the current epoch's rate.
+      scheduler = createLRScheduler(config.lrSchedule, config.learningRate, config.epochs, scheduler?.getState());
+      currentLearningRate = scheduler.getLearningRate(currentEpoch);
+      break;
+
+    case 'start':
+      if (!model || !config || isTrainingState(state)) return;
+      if (state === 'FINISHED') {
+        // Continuing after training finished: give early stopping a fresh start.
+        epochsWithoutImprovement = 0;
+      }
+      setState('RUNNING');
+      loopTimer = setTimeout(runSlice, 0);
+      break;
+
+    case 'pause':
+      stopLoop();
+      if (isTrainingState(state)) setState('PAUSED');
+      break;
+
+    case 'step':
+      if (!model || !config || isTrainingState(state)) return;
+      runTrainingStep(true);
+      if (isEpochComplete()) completeEpoch();
+      break;
+
+    case 'snapshot':
+      respond(command.requestId, () => ({ type: 'snapshot', requestId: command.requestId, model, optimizerState: optimizer?.getState() ?? null }));
+      break;
+
+    case 'generate':
+      respond(command.requestId, () => ({
+        type: 'generated',
+        requestId: command.requestId,
+        words: Array.from({ length: command.count }).map(() => generateOneWord(command.seed, command.sampling)),
+      }));
+      break;
+
+    case 'decode':
+      respond(command.requestId, () => ({
+        type: 'decoded',
+        requestId: command.requestId,
+        words: model ? decodeWords(model, command.seed, 50, command.decoding, command.sampling, config?.languagePack) : [],
+      }));
+      break;
+
+    case 'inspect':
+      respond(command.requestId, () => ({ type: 'inspected', requestId: command.requestId, positions: model ? inspectWord(model, command.encodedWord) : [] }));
+      break;
+
+    case 'rank':
+      respond(command.requestId, () => ({
+        type: 'ranked',
+        requestId: command.requestId,
+        scores: model ? rankWords(model, tokenizerFromJSON(command.tokenizer), command.words, command.perToken, command.languagePack) : [],
+      }));
+      break;
+
+    case 'reinforce':
+      respond(command.requestId, () => {
+        const { summary, policy } = reinforce(command.encodedText, command.learningRate, command.reward);
+        return { type: 'reinforced', requestId: command.requestId, model, summary, policy };
+      });
+      break;
+  }
+};
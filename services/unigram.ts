@@ -0,0 +1,265 @@
+/**
+ * @file unigram.ts
+ * @description This file implements the Unigram language-model tokenizer used by SentencePiece.
+ * Instead of building tokens up by merging like BPE, it starts from a large set of candidate
+ * sub-words and whittles it down. Every piece has a probability, and a word's segmentations are
+ * scored by the product of their pieces' probabilities.
+ *
+ * Training alternates two steps. Expectation-maximization re-estimates each piece's probability
+ * from how often it appears across all possible segmentations of the training words (computed with
+ * the forward-backward algorithm). Pruning then drops the pieces whose removal would cost the
+ * least likelihood, until the vocabulary is the requested size. Single characters are never
+ * pruned, so every word seen in training can still be spelled.
+ *
+ * Encoding picks the most likely segmentation with the Viterbi algorithm. Sampling instead draws
+ * a segmentation from the distribution over all of them, which is the "subword regularization"
+ * trick: the model sees the same word split in different ways from epoch to epoch.
+ */
+
+import { splitWords } from './specialTokens';
+
+// The longest candidate piece, in characters.
+const MAX_PIECE_LENGTH = 8;
+// How many candidate pieces are seeded per piece of the requested vocabulary.
+const SEED_FACTOR = 10;
+// The fraction of the pieces kept by each pruning round.
+const SHRINK_FACTOR = 0.75;
+// The expectation-maximization iterations run after each pruning round.
+const EM_ITERATIONS = 2;
+// How much less likely than the rarest piece an unknown character is.
+const UNK_PENALTY = 10;
+
+/**
+ * One edge of a segmentation lattice: a piece that spans `start` up to the lattice position it is stored at.
+ */
+interface LatticeEdge {
+    start: number;
+    id: number;    // The piece's index, or -1 for an unknown character.
+    score: number; // The piece's log-probability.
+}
+
+/**
+ * Adds log-probabilities without leaving log space.
+ */
+const logAdd = (a: number, b: number): number => {
+    if (a === -Infinity) return b;
+    if (b === -Infinity) return a;
+    const max = Math.max(a, b);
+    return max + Math.log(Math.exp(a - max) + Math.exp(b - max));
+};
+
+/**
+ * Lists every way a word can be cut into known pieces. `edges[i]` holds the pieces that end at
+ * position `i`. A character that is not a piece of its own gets an unknown edge, so every word
+ * has at least one segmentation.
+ * @param word - The word.
+ * @param index - The piece-to-index map.
+ * @param scores - The log-probability of each piece.
+ * @param unkScore - The log-probability of an unknown character.
+ * @param excluded - A piece to leave out, or -1 to use them all.
+ */
+const buildLattice = (word: string, index: Map<string, number>, scores: number[], unkScore: number, excluded = -1): LatticeEdge[][] => {
+    const edges: LatticeEdge[][] = [[]];
+    for (let end = 1; end <= word.length; end++) {
+        const ending: LatticeEdge[] = [];
+        for (let start = Math.max(0, end - MAX_PIECE_LENGTH); start < end; start++) {
+            const id = index.get(word.slice(start, end));
+            if (id !== undefined && id !== excluded) ending.push({ start, id, score: scores[id] });
+        }
+        if (!ending.some(edge => edge.start === end - 1)) ending.push({ start: end - 1, id: -1, score: unkScore });
+        edges.push(ending);
+    }
+    return edges;
+};
+
+/**
+ * Finds the most likely segmentation of a word.
+ * @param edges - The word's lattice.
+ * @returns The piece indices, in order, and the segmentation's total log-probability.
+ */
+const viterbi = (edges: LatticeEdge[][]): { ids: number[]; score: number } => {
+    const best = new Array(edges.length).fill(-Infinity);
+    const back: LatticeEdge[] = new Array(edges.length);
+    best[0] = 0;
+    for (let end = 1; end < edges.length; end++) {
+        for (const edge of edges[end]) {
+            const score = best[edge.start] + edge.score;
+            if (score > best[end]) {
+                best[end] = score;
+                back[end] = edge;
+            }
+        }
+    }
+    const ids: number[] = [];
+    for (let pos = edges.length - 1; pos > 0; pos = back[pos].start) ids.push(back[pos].id);
+    return { ids: ids.reverse(), score: best[edges.length - 1] };
+};
+
+/**
+ * Sums the probabilities of every path through a lattice, from the start to each position.
+ * @param edges - The word's lattice.
+ * @param scale - Multiplies every edge's log-probability (1 for the model's own distribution).
+ */
+const forward = (edges: LatticeEdge[][], scale = 1): number[] => {
+    const alpha = new Array(edges.length).fill(-Infinity);
+    alpha[0] = 0;
+    for (let end = 1; end < edges.length; end++) {
+        for (const edge of edges[end]) alpha[end] = logAdd(alpha[end], alpha[edge.start] + scale * edge.score);
+    }
+    return alpha;
+};
+
+/**
+ * Collects the starting counts of the candidate pieces: every single character, and the most
+ * promising longer substrings of the training words, ranked by frequency times length.
+ * @param wordCounts - The distinct training words and how often each occurs.
+ * @param seedSize - The maximum number of candidate pieces.
+ */
+const seedPieces = (wordCounts: Map<string, number>, seedSize: number): Map<string, number> => {
+    const counts = new Map<string, number>();
+    for (const [word, count] of wordCounts) {
+        for (let start = 0; start < word.length; start++) {
+            for (let end = start + 1; end <= Math.min(word.length, start + MAX_PIECE_LENGTH); end++) {
+                const piece = word.slice(start, end);
+                counts.set(piece, (counts.get(piece) || 0) + count);
+            }
+        }
+    }
+    const chars = Array.from(counts.keys()).filter(piece => piece.length === 1);
+    const longer = Array.from(counts.entries())
+        .filter(([piece, count]) => piece.length > 1 && count >= 2)
+        .sort((a, b) => b[1] * b[0].length - a[1] * a[0].length || (a[0] < b[0] ? -1 : 1))
+        .slice(0, Math.max(0, seedSize - chars.length));
+    return new Map([...chars.map(char => [char, counts.get(char)!] as [string, number]), ...longer]);
+};
+
+/**
+ * Turns piece counts into log-probabilities.
+ */
+const toLogProbabilities = (counts: number[]): number[] => {
+    const total = counts.reduce((a, b) => a + b, 0);
+    return counts.map(count => Math.log(count / total));
+};
+
+/**
+ * Trains a Unigram tokenizer on a given text.
+ * @param text - The raw training text. Whitespace only separates words.
+ * @param vocabSize - The target number of pieces. Every character of the text is kept even if there
+ * are more of them, and a small text may not have enough candidate pieces to reach it.
+ * @returns The pieces, most likely first, and the log-probability of each.
+ */
+export const trainUnigram = (text: string, vocabSize: number): { pieces: string[]; scores: number[] } => {
+    const wordCounts = new Map<string, number>();
+    for (const word of splitWords(text)) wordCounts.set(word, (wordCounts.get(word) || 0) + 1);
+    const words = Array.from(wordCounts.entries());
+
+    const seeds = seedPieces(wordCounts, vocabSize * SEED_FACTOR);
+    let pieces = Array.from(seeds.keys());
+    let scores = toLogProbabilities(Array.from(seeds.values()));
+
+    // Re-estimates every piece's probability from its expected count over all segmentations,
+    // and drops the multi-character pieces that are almost never used.
+    const runEM = () => {
+        for (let iteration = 0; iteration < EM_ITERATIONS; iteration++) {
+            const index = new Map(pieces.map((piece, i) => [piece, i]));
+            const expected = new Array(pieces.length).fill(0);
+            for (const [word, count] of words) {
+                const edges = buildLattice(word, index, scores, -Infinity);
+                const alpha = forward(edges);
+                const beta = new Array(edges.length).fill(-Infinity);
+                beta[edges.length - 1] = 0;
+                for (let end = edges.length - 1; end > 0; end--) {
+                    for (const edge of edges[end]) beta[edge.start] = logAdd(beta[edge.start], edge.score + beta[end]);
+                }
+                const total = alpha[edges.length - 1];
+                for (let end = 1; end < edges.length; end++) {
+                    for (const edge of edges[end]) {
+                        if (edge.id >= 0) expected[edge.id] += count * Math.exp(alpha[edge.start] + edge.score + beta[end] - total);
+                    }
+                }
+            }
+            const kept = pieces.map((piece, i) => i).filter(i => pieces[i].length === 1 || expected[i] >= 0.5);
+            pieces = kept.map(i => pieces[i]);
+            scores = toLogProbabilities(kept.map(i => Math.max(expected[i], 1e-3)));
+        }
+    };
+
+    runEM();
+    while (pieces.length > vocabSize) {
+        // A piece's loss is how much the likelihood of the text would drop if it were replaced by
+        // the best segmentation of its own text without it, for each time the best segmentations use it.
+        const index = new Map(pieces.map((piece, i) => [piece, i]));
+        const freq = new Array(pieces.length).fill(0);
+        for (const [word, count] of words) {
+            viterbi(buildLattice(word, index, scores, -Infinity)).ids.forEach(id => freq[id] += count);
+        }
+        const candidates = pieces.map((piece, i) => i).filter(i => pieces[i].length > 1);
+        const loss = new Map(candidates.map(i => {
+            if (freq[i] === 0) return [i, 0];
+            const alternative = viterbi(buildLattice(pieces[i], index, scores, -Infinity, i)).score;
+            return [i, freq[i] * (scores[i] - alternative)];
+        }));
+        const numChars = pieces.length - candidates.length;
+        const keep = Math.max(vocabSize, Math.floor(pieces.length * SHRINK_FACTOR)) - numChars;
+        const survivors = new Set(candidates.sort((a, b) => loss.get(b)! - loss.get(a)! || a - b).slice(0, Math.max(0, keep)));
+        const kept = pieces.map((piece, i) => i).filter(i => pieces[i].length === 1 || survivors.has(i));
+        if (kept.length === pieces.length) break;
+        pieces = kept.map(i => pieces[i]);
+        scores = kept.map(i => scores[i]);
+        runEM();
+    }
+
+    // Most likely first, like a SentencePiece model file.
+    const order = pieces.map((piece, i) => i).sort((a, b) => scores[b] - scores[a] || (pieces[a] < pieces[b] ? -1 : 1));
+    return { pieces: order.map(i => pieces[i]), scores: order.map(i => scores[i]) };
+};
+
+/**
+ * Creates an encoder for a trained Unigram model. Piece indices are returned as they are in
+ * `pieces`, and characters that are not pieces become -1.
+ * @param pieces - The pieces.
+ * @param scores - The log-probability of each piece.
+ * @returns `encode`, which gives the most likely segmentation (cached per input), and `sample`,
+ * which draws a segmentation at random. `alpha` sharpens (above 1) or flattens (below 1) the
+ * distribution it draws from; at 0 every segmentation is equally likely.
+ */
+export const createUnigramEncoder = (pieces: string[], scores: number[]) => {
+    const index = new Map(pieces.map((piece, i) => [piece, i]));
+    const unkScore = (scores.length > 0 ? Math.min(...scores) : 0) - UNK_PENALTY;
+    const cache = new Map<string, number[]>();
+
+    const encode = (text: string): number[] => {
+        let ids = cache.get(text);
+        if (!ids) {
+            ids = text.length > 0 ? viterbi(buildLattice(text, index, scores, unkScore)).ids : [];
+            cache.set(text, ids);
+        }
+        return ids;
+    };
+
+    const sample = (text: string, alpha: number): number[] => {
+        if (text.length === 0) return [];
+        // Forward-filtering, backward-sampling: walk back from the end, picking each piece in
+        // proportion to the probability of all the paths that lead into it.
+        const edges = buildLattice(text, index, scores, unkScore);
+        const totals = forward(edges, alpha);
+        const ids: number[] = [];
+        let pos = edges.length - 1;
+        while (pos > 0) {
+            let r = Math.random();
+            let chosen = edges[pos][edges[pos].length - 1];
+            for (const edge of edges[pos]) {
+                r -= Math.exp(totals[edge.start] + alpha * edge.score - totals[pos]);
+                if (r <= 0) {
+                    chosen = edge;
+                    break;
+                }
+            }
+            ids.push(chosen.id);
+            pos = chosen.start;
+        }
+        return ids.reverse();
+    };
+
+    return { encode, sample };
+};
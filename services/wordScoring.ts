@@ -0,0 +1,85 @@
+/**
+ * @file wordScoring.ts
+ * @description Asks a trained model how likely whole words are. Each word is scored by the
+ * log-likelihood the model gives it (every token after `<bos>`, then the `<eos>` that ends it) and its perplexity,
+ * and lists of candidate words can be ranked side by side with the rule-based validator's verdicts.
+ * This is the model's half of a "wug test": comparing which made-up words the network finds
+ * plausible with which ones the hand-written phonotactic rules accept.
+ */
+
+import { LanguageModel, LanguagePack, Tokenizer, WordScore } from '../types';
+import { inspectWord } from './languageModel';
+import { isGoodWord } from './wordValidator';
+
+/**
+ * Scores a single word with a model.
+ * @param model - The model. It is not modified.
+ * @param tokenizer - The tokenizer the model was trained with.
+ * @param word - The word to score.
+ * @param languagePack - The language whose rules the validator checks the word against.
+ * @returns The word's log-likelihood, perplexity and validator verdict.
+ */
+export const scoreWord = (model: LanguageModel, tokenizer: Tokenizer, word: string, languagePack?: LanguagePack): WordScore => {
+    const encodedWord = tokenizer.encode(word);
+    const positions = inspectWord(model, encodedWord);
+    const logLikelihood = positions.reduce((sum, position) => sum + Math.log(position.probability), 0);
+    return {
+        word,
+        tokens: encodedWord.map(index => model.vocab[index]),
+        logLikelihood,
+        perplexity: positions.length > 0 ? Math.exp(-logLikelihood / positions.length) : Infinity,
+        skipped: tokenizer.decode(encodedWord) !== word,
+        isGood: isGoodWord(word, languagePack),
+    };
+};
+
+/**
+ * Scores a list of candidate words and sorts them from most to least likely.
+ * Duplicates and empty entries are dropped. Words the tokenizer could not fully encode come last,
+ * since the parts missing from the vocabulary are only scored as `<unk>`.
+ * @param model - The model. It is not modified.
+ * @param tokenizer - The tokenizer the model was trained with.
+ * @param words - The candidate words.
+ * @param perToken - If true, rank by perplexity (likelihood per token) instead of total log-likelihood,
+ * so that longer words are not penalized just for being long.
+ * @param languagePack - The language whose rules the validator checks the words against.
+ * @returns The scored words, most likely first.
+ */
+export const rankWords = (model: LanguageModel, tokenizer: Tokenizer, words: string[], perToken: boolean = false, languagePack?: LanguagePack): WordScore[] => {
+    const unique = [...new Set(words.map(word => word.trim()).filter(word => word.length > 0))];
+    const scores = unique.map(word => scoreWord(model, tokenizer, word, languagePack));
+    return scores.sort((a, b) => {
+        if (a.skipped !== b.skipped) return a.skipped ? 1 : -1;
+        return perToken ? a.perplexity - b.perplexity : b.logLikelihood - a.logLikelihood;
+    });
+};
+
+/**
+ * Measures how well a ranking agrees with the validator: the fraction of (good, bad) word pairs
+ * in which the good word is ranked above the bad one. 1 means the model puts every word the rules
+ * accept above every word they reject, 0.5 is no better than chance.
+ * @param ranked - Scored words, most likely first, as returned by `rankWords`.
+ * @returns The agreement, or null if the list does not contain both good and bad words.
+ */
+export const rankAgreement = (ranked: WordScore[]): number | null => {
+    let goodSeen = 0;
+    let agreeing = 0;
+    for (const score of ranked) {
+        if (score.isGood) {
+            goodSeen++;
+        } else {
+            // Every good word seen so far is ranked above this bad one.
+            agreeing += goodSeen;
+        }
+    }
+    const pairs = goodSeen * (ranked.length - goodSeen);
+    return pairs > 0 ? agreeing / pairs : null;
+};
+
+/**
+ * Splits pasted text into candidate words: one per line, or separated by spaces or commas.
+ * @param text - The pasted text.
+ * @returns The lowercased words.
+ */
+export const parseWordList = (text: string): string[] =>
+    text.toLowerCase().split(/[\s,;]+/).filter(word => word.length > 0);
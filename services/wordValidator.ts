@@ -2,56 +2,51 @@
  * @file wordValidator.ts
  * @description This file contains the logic for the "Good Word" validator.
  * This is a crucial part of the auto-coaching feature. It uses a set of heuristic rules
- * based on English phonotactics (the study of sound patterns) to determine if a
- * model-generated word is plausible-sounding.
+ * based on the phonotactics (the study of sound patterns) of the active language pack to determine
+ * if a model-generated word is plausible-sounding. Every function takes the pack to check against,
+ * and uses the English-like default pack if none is given. The same rules can also steer generation
+ * directly, as a decoding constraint that masks out tokens that could never lead to a good word.
  */
 
-import { ONSETS, VOWELS, CODAS, EXTENSIONS, ALL_TOKENS } from './phonotactics';
+import { LanguagePack, ValidationRule, ValidationRuleResult, WordValidationReport } from '../types';
+import { getPhonotactics, Phonotactics, tokenizeWord } from './phonotactics';
+import { DEFAULT_LANGUAGE_PACK } from './languagePacks';
+import { TokenConstraint } from './decoding';
+import { isSpecialToken } from './specialTokens';
+import { syllabify } from './syllabifier';
 
-/**
- * Greedily tokenizes a word string based on the phonotactic vocabulary.
- * This breaks down a word like "splint" into its constituent parts ["spl", "i", "n", "t"].
- * @param word The word string to tokenize.
- * @returns An array of token strings, or null if the word cannot be fully tokenized.
- */
-const tokenizeWord = (word: string): string[] | null => {
-    const tokens: string[] = [];
-    let i = 0;
-    while (i < word.length) {
-        let matchFound = false;
-        // The ALL_TOKENS list is pre-sorted by length, descending, ensuring longest match.
-        for (const token of ALL_TOKENS) {
-            if (word.startsWith(token, i)) {
-                tokens.push(token);
-                i += token.length;
-                matchFound = true;
-                break;
-            }
-        }
-        if (!matchFound) {
-            // If we can't parse the whole word with our phonotactic vocab, it's invalid.
-            return null;
-        }
-    }
-    return tokens;
+// Display names for each validation rule.
+export const VALIDATION_RULE_LABELS: Record<ValidationRule, string> = {
+    length: 'Length',
+    repetition: 'Repetition',
+    vowel: 'Vowel',
+    cluster: 'Consonant cluster',
+    tokenization: 'Sounds',
+    syllables: 'Syllable structure',
 };
 
-// Create a list of all valid consonant clusters for rule checking.
-const CONSONANT_CLUSTERS = [...new Set([...ONSETS, ...CODAS])].sort((a,b) => b.length - a.length);
+// The valid consonant clusters of each language, longest first, for rule checking.
+const consonantClusters = new WeakMap<Phonotactics, string[]>();
 
 /**
- * Parses a string of consonants to see if it can be formed by valid ONSET or CODA tokens.
+ * Parses a string of consonants to see if it can be formed by valid onset or coda tokens.
  * This checks if a cluster like "mpst" is valid by seeing if it can be broken down into
  * known parts (e.g., "mp" + "st").
  * @param cluster The consonant cluster string.
+ * @param rules The language's phonotactic rules.
  * @returns True if the cluster is valid, false otherwise.
  */
-function isValidConsonantCluster(cluster: string): boolean {
+function isValidConsonantCluster(cluster: string, rules: Phonotactics): boolean {
+    let clusters = consonantClusters.get(rules);
+    if (!clusters) {
+        clusters = [...new Set([...rules.onsets, ...rules.codas])].sort((a,b) => b.length - a.length);
+        consonantClusters.set(rules, clusters);
+    }
     let i = 0;
     while (i < cluster.length) {
         let matchFound = false;
         // Greedily match longest known consonant tokens.
-        for (const token of CONSONANT_CLUSTERS) {
+        for (const token of clusters) {
             if (cluster.startsWith(token, i)) {
                 i += token.length;
                 matchFound = true;
@@ -66,133 +61,317 @@ function isValidConsonantCluster(cluster: string): boolean {
 }
 
 
-// The states for our syllable-parsing state machine.
-type SyllableState = 'START' | 'ONSET' | 'VOWEL' | 'CODA' | 'EXTENSION';
+// The states of our syllable-parsing state machine. A word can be split into syllables in more than
+// one way, so the state is the set of every place the parse could be: each entry is a position in
+// one of the syllable templates (template * TEMPLATE_STRIDE + slot), or SUFFIX after a suffix.
+type SyllableState = number[];
+const TEMPLATE_STRIDE = 1024;
+const SUFFIX = -1;
+
+/**
+ * The state before the first token: at the start of any of the templates.
+ * @param rules The language's phonotactic rules.
+ */
+const startState = (rules: Phonotactics): SyllableState => rules.templates.map((_, t) => t * TEMPLATE_STRIDE);
+
+/**
+ * Checks whether a position in a template ends a syllable, i.e. every slot left is optional.
+ */
+const isSyllableEnd = (position: number, rules: Phonotactics): boolean => {
+    if (position === SUFFIX) return false;
+    const slots = rules.templates[Math.floor(position / TEMPLATE_STRIDE)];
+    return slots.slice(position % TEMPLATE_STRIDE).every(slot => slot.optional);
+};
+
+/**
+ * Advances the syllable state machine by one token.
+ * This state machine ensures the tokens appear in the order one of the syllable templates allows
+ * (e.g., a vowel can't be followed by an onset in the same syllable). Once a syllable is complete,
+ * the token can also start a new one, or be the suffix that ends the word.
+ * @param state The state before the token.
+ * @param token The next token of the word.
+ * @param rules The language's phonotactic rules.
+ * @returns The state after the token, or null if the token cannot come next.
+ */
+const advanceSyllableState = (state: SyllableState, token: string, rules: Phonotactics): SyllableState | null => {
+    const matches = { onset: rules.onsets, nucleus: rules.vowels, coda: rules.codas };
+    const syllableEnded = state.some(position => isSyllableEnd(position, rules));
+    const next = new Set<number>();
+    for (const position of syllableEnded ? [...state, ...startState(rules)] : state) {
+        if (position === SUFFIX) continue; // A suffix must be the last part of a word.
+        const t = Math.floor(position / TEMPLATE_STRIDE);
+        const slots = rules.templates[t];
+        // Fill the next slot, or skip optional slots to fill a later one.
+        for (let s = position % TEMPLATE_STRIDE; s < slots.length; s++) {
+            if (matches[slots[s].role].has(token)) next.add(t * TEMPLATE_STRIDE + (slots[s].repeats ? s : s + 1));
+            if (!slots[s].optional) break;
+        }
+    }
+    if (syllableEnded && rules.suffixes.has(token)) next.add(SUFFIX);
+    return next.size > 0 ? Array.from(next) : null;
+};
+
+/**
+ * Checks whether a word can end in a given state: after a complete syllable or a suffix.
+ */
+const isFinalState = (state: SyllableState, rules: Phonotactics): boolean =>
+    state.some(position => position === SUFFIX || isSyllableEnd(position, rules));
+
+/**
+ * Finds a repetitive, unnatural pattern like 'rerer' (xyxyx) or 'salsal' (xyzxyz).
+ * @returns The first repeating stretch of the word, or null if there is none.
+ */
+const findRepetitivePattern = (word: string): string | null => {
+    for (let i = 0; i <= word.length - 5; i++) {
+        // Pattern xyxyx
+        if (word[i] === word[i+2] && word[i] === word[i+4] && word[i+1] === word[i+3]) {
+            return word.slice(i, i + 5);
+        }
+    }
+    for (let i = 0; i <= word.length - 6; i++) {
+        // Pattern xyzxyz
+        if (word[i] === word[i+3] && word[i+1] === word[i+4] && word[i+2] === word[i+5]) {
+            return word.slice(i, i + 6);
+        }
+    }
+    return null;
+};
+
+/**
+ * Checks every run of 3 or more consonants that is followed by a vowel.
+ * @param word The word (or the start of a word) to check.
+ * @param rules The language's phonotactic rules.
+ * @returns The first of those runs that is not a valid consonant cluster, or null if they all are.
+ */
+const findInvalidClosedCluster = (word: string, rules: Phonotactics): string | null => {
+    let consonantRun = '';
+    for (const char of word) {
+        if (!rules.vowelLetters.has(char)) {
+            consonantRun += char;
+        } else {
+            // When we hit a vowel, check the preceding consonant run.
+            if (consonantRun.length >= 3 && !isValidConsonantCluster(consonantRun, rules)) {
+                return consonantRun;
+            }
+            // Reset the run.
+            consonantRun = '';
+        }
+    }
+    return null;
+};
 
 /**
  * Checks if a word is "good" by applying a series of validation rules.
  * This is the main function used by the auto-coach.
  * @param word The word to validate.
+ * @param pack The language pack whose rules the word must follow.
  * @returns True if the word passes all rules, false otherwise.
  */
-export const isGoodWord = (word: string): boolean => {
+export const isGoodWord = (word: string, pack: LanguagePack = DEFAULT_LANGUAGE_PACK): boolean => {
+    const rules = getPhonotactics(pack);
+
     // Rule 0: Basic length check.
-    if (word.length < 2 || word.length > 12) {
+    if (word.length < pack.minWordLength || word.length > pack.maxWordLength) {
         return false;
     }
 
     // Rule 3: Reject repetitive, unnatural patterns like 'rerer' or 'salalasa'.
-    if (word.length >= 5) {
-        for (let i = 0; i <= word.length - 5; i++) {
-            // Pattern xyxyx
-            if (word[i] === word[i+2] && word[i] === word[i+4] && word[i+1] === word[i+3]) {
-                return false;
-            }
-        }
-    }
-    if (word.length >= 6) {
-        for (let i = 0; i <= word.length - 6; i++) {
-            // Pattern xyzxyz
-            if (word[i] === word[i+3] && word[i+1] === word[i+4] && word[i+2] === word[i+5]) {
-                return false;
-            }
-        }
+    if (findRepetitivePattern(word) !== null) {
+        return false;
     }
     
     // Rule 1: Must contain at least one vowel.
-    const hasVowel = [...word].some(char => VOWELS.has(char));
+    const hasVowel = [...word].some(char => rules.vowelLetters.has(char));
     if (!hasVowel) {
         return false;
     }
 
     // Rule 2: Reject invalid consonant clusters of 3 or more.
-    const isConsonant = (char: string) => !VOWELS.has(char);
-    let consonantRun = '';
     // Append a vowel to the end to ensure the last run of consonants is checked.
-    for (const char of word + 'a') { 
-        if (isConsonant(char)) {
-            consonantRun += char;
-        } else {
-            // When we hit a vowel, check the preceding consonant run.
-            if (consonantRun.length >= 3) {
-                if (!isValidConsonantCluster(consonantRun)) {
-                    return false;
-                }
-            }
-            // Reset the run.
-            consonantRun = '';
-        }
+    if (findInvalidClosedCluster(word + pack.inventory.vowels[0], rules) !== null) {
+        return false;
     }
 
     // Rule 4: Check if the word can be parsed into a valid syllable structure.
-    const tokens = tokenizeWord(word);
-    if (!tokens || tokens.length === 0) {
+    const { tokens, rest } = tokenizeWord(word, rules);
+    if (rest || tokens.length === 0) {
         // Word contains characters/sequences not in our phonotactic vocabulary.
         return false;
     }
 
     // --- Syllable State Machine ---
-    // This state machine ensures the tokens appear in a logical order (e.g., a vowel
-    // can't be followed by an onset in the same syllable). It also handles multi-syllable words.
-    let state: SyllableState = 'START';
-
+    let state = startState(rules);
     for (const token of tokens) {
-        switch (state) {
-            case 'START':
-                if (ONSETS.has(token)) {
-                    state = 'ONSET';
-                } else if (VOWELS.has(token)) {
-                    state = 'VOWEL';
-                } else {
-                    return false; // Word must start with an Onset or a Vowel.
-                }
-                break;
-            
-            case 'ONSET':
-                if (VOWELS.has(token)) {
-                    state = 'VOWEL';
-                } else if (ONSETS.has(token)) {
-                    // Allow consonant clusters, e.g., 'pr' tokenized as 'p', 'r'
-                    state = 'ONSET';
-                } else {
-                    return false; // An Onset must be followed by a Vowel or another Onset.
-                }
-                break;
+        state = advanceSyllableState(state, token, rules);
+        if (!state) return false;
+    }
 
-            case 'VOWEL':
-                if (CODAS.has(token)) {
-                    state = 'CODA';
-                } else if (EXTENSIONS.has(token)) {
-                    state = 'EXTENSION';
-                } else if (ONSETS.has(token)) { // New syllable starting with an onset
-                    state = 'ONSET';
-                } else if (VOWELS.has(token)) { // New syllable starting with a vowel
-                    state = 'VOWEL';
-                } else {
-                    return false; // A Vowel can only be followed by a Coda, Extension, or a new syllable.
-                }
-                break;
-            
-            case 'CODA':
-                if (EXTENSIONS.has(token)) {
-                    state = 'EXTENSION';
-                } else if (CODAS.has(token)) { // Allow Coda clusters (e.g., "mpst")
-                    state = 'CODA';
-                } else if (ONSETS.has(token)) { // New syllable
-                    state = 'ONSET';
-                } else if (VOWELS.has(token)) { // New syllable
-                    state = 'VOWEL';
-                } else {
-                    return false; // A Coda can only be followed by an Extension or a new syllable.
-                }
-                break;
-            
-            case 'EXTENSION':
-                // An extension must be the last part of a word.
-                return false;
+    // A word can validly end after a complete syllable or a suffix.
+    return isFinalState(state, rules);
+};
+
+/**
+ * Explains the validator's verdict on a word. It runs the same rules as `isGoodWord`, but checks
+ * every one of them instead of stopping at the first failure, and reports for each whether it
+ * passed, why, and the part of the word that broke it. The syllable-structure rule can only be
+ * checked once the word has been split into the language's sounds.
+ * @param word The word to validate.
+ * @param pack The language pack whose rules the word must follow.
+ * @returns The validation report. Its `isGood` always agrees with `isGoodWord`.
+ */
+export const validateWord = (word: string, pack: LanguagePack = DEFAULT_LANGUAGE_PACK): WordValidationReport => {
+    const rules = getPhonotactics(pack);
+    const results: ValidationRuleResult[] = [];
+    const report = (rule: ValidationRule, passed: boolean | null, detail: string, offending?: string) =>
+        results.push(offending === undefined ? { rule, passed, detail } : { rule, passed, detail, offending });
+
+    const lengthOk = word.length >= pack.minWordLength && word.length <= pack.maxWordLength;
+    report('length', lengthOk, `${word.length} letters (${pack.minWordLength}–${pack.maxWordLength} allowed)`, lengthOk ? undefined : word);
+
+    const repeated = findRepetitivePattern(word);
+    report('repetition', repeated === null, repeated === null ? 'No repeating pattern' : `"${repeated}" repeats itself`, repeated ?? undefined);
+
+    const hasVowel = [...word].some(char => rules.vowelLetters.has(char));
+    report('vowel', hasVowel, hasVowel ? 'Has a vowel' : `No vowel (${pack.inventory.vowels.join(', ')})`, hasVowel ? undefined : word);
+
+    const cluster = findInvalidClosedCluster(word + pack.inventory.vowels[0], rules);
+    report('cluster', cluster === null,
+        cluster === null ? 'Every long consonant cluster is made of onsets and codas' : `"${cluster}" cannot be made of the language's onsets and codas`,
+        cluster ?? undefined);
+
+    const { tokens, rest } = tokenizeWord(word, rules);
+    const tokenized = !rest && tokens.length > 0;
+    report('tokenization', tokenized,
+        tokenized ? tokens.join(' · ') : rest ? `"${rest}" cannot be spelled with the language's sounds` : 'The word is empty',
+        rest || undefined);
+
+    let syllables: string[] | null = null;
+    if (!tokenized) {
+        report('syllables', null, 'Not checked: the word could not be split into sounds');
+    } else {
+        let state = startState(rules);
+        let failedAt = -1;
+        for (let i = 0; i < tokens.length && failedAt < 0; i++) {
+            state = advanceSyllableState(state, tokens[i], rules);
+            if (!state) failedAt = i;
         }
+        if (failedAt === 0) {
+            report('syllables', false, `No syllable can start with "${tokens[0]}"`, tokens[0]);
+        } else if (failedAt > 0) {
+            report('syllables', false, `"${tokens[failedAt]}" cannot follow "${tokens.slice(0, failedAt).join('')}"`, tokens[failedAt]);
+        } else if (!isFinalState(state, rules)) {
+            const last = tokens[tokens.length - 1];
+            report('syllables', false, `The word stops partway through a syllable, after "${last}"`, last);
+        } else {
+            syllables = syllabify(word, pack)?.map(syllable => syllable.text) ?? null;
+            report('syllables', true, syllables ? syllables.join('-') : 'Valid syllable structure');
+        }
+    }
+
+    const failed = results.find(result => result.passed === false);
+    return {
+        word,
+        isGood: !failed,
+        rules: results,
+        failedRule: failed ? failed.rule : null,
+        tokens: tokenized ? tokens : null,
+        syllables,
+    };
+};
+
+/**
+ * Spells out a validation report one rule per line, e.g. "✗ Vowel: No vowel (a, e, i, o, u)".
+ * Used as the hover text of the words in the auto-coach log.
+ */
+export const describeValidationReport = (report: WordValidationReport): string =>
+    report.rules
+        .map(({ rule, passed, detail }) => `${passed === null ? '–' : passed ? '✓' : '✗'} ${VALIDATION_RULE_LABELS[rule]}: ${detail}`)
+        .join('\n');
+
+/**
+ * Summarizes why words were rejected, most common reason first, e.g. "Syllable structure 12, Vowel 3".
+ * @param counts How many words each rule was the first to reject.
+ */
+export const describeRejections = (counts: Partial<Record<ValidationRule, number>>): string =>
+    (Object.entries(counts) as [ValidationRule, number][])
+        .sort((a, b) => b[1] - a[1])
+        .map(([rule, count]) => `${VALIDATION_RULE_LABELS[rule]} ${count}`)
+        .join(', ');
+
+/**
+ * Checks whether the start of a word already breaks a rule that no continuation can repair.
+ * It runs the same rules as `isGoodWord`, but only on the part of the word that is settled:
+ * clusters already closed by a vowel, and the tokens the greedy tokenizer would choose whatever
+ * letters come next, which are fed through the syllable state machine one by one.
+ * @param prefix The start of a word.
+ * @param pack The language pack.
+ * @returns True if no word starting with `prefix` can be good.
+ */
+const isDeadPrefix = (prefix: string, pack: LanguagePack): boolean => {
+    const rules = getPhonotactics(pack);
+    if (prefix.length > pack.maxWordLength) return true;
+    // A word containing a letter outside the language can never be tokenized.
+    if ([...prefix].some(char => !rules.letters.has(char))) return true;
+    if (findRepetitivePattern(prefix) !== null || findInvalidClosedCluster(prefix, rules) !== null) return true;
+
+    let state = startState(rules);
+    let i = 0;
+    // The greedy tokenizer's choice at a position depends on at most as many letters as the longest
+    // token has, so a token starting at least that far from the end can no longer change.
+    const maxTokenLength = rules.allTokens[0]?.length ?? 1;
+    while (i + maxTokenLength <= prefix.length) {
+        const token = rules.allTokens.find(candidate => prefix.startsWith(candidate, i));
+        if (!token) return true;
+        state = advanceSyllableState(state, token, rules);
+        if (!state) return true;
+        i += token.length;
     }
+    return false;
+};
 
-    // A word can validly end after a Vowel, a Coda, or an Extension.
-    return state === 'VOWEL' || state === 'CODA' || state === 'EXTENSION';
+/**
+ * Builds a decoding constraint from the validator, so that generated words always pass `isGoodWord`.
+ * At each step, a token is only allowed if the word can still be finished as a good word, and the
+ * end token is only allowed once the word is good. Whether a word can still be finished is decided
+ * by looking up to `lookahead` tokens ahead, skipping continuations `isDeadPrefix` already rules out.
+ * Because every allowed token leaves a good word at most `lookahead` tokens away, decoding can never
+ * get stuck with every token masked, unless the seed itself cannot start a good word.
+ * @param vocab The model's vocabulary.
+ * @param seed The text the generated tokens are appended to.
+ * @param endIndex The token that ends a word.
+ * @param pack The language pack whose rules the words must follow.
+ * @param lookahead How many tokens ahead to search for a good word.
+ * @returns A constraint for the decoders in `decoding.ts`.
+ */
+export const createPhonotacticConstraint = (vocab: string[], seed: string, endIndex: number, pack: LanguagePack = DEFAULT_LANGUAGE_PACK, lookahead: number = 3): TokenConstraint => {
+    const { vowels } = getPhonotactics(pack);
+    // Vowels first: they finish most words soonest, so the search usually succeeds on its first try.
+    const continuations = vocab
+        .filter((token, index) => index !== endIndex && token.length > 0 && !token.includes(' ') && !isSpecialToken(token))
+        .sort((a, b) => Number(vowels.has(b)) - Number(vowels.has(a)));
+    // Results are shared across steps (and beams), keyed by the word and the remaining lookahead.
+    const memo = new Map<string, boolean>();
+
+    const canComplete = (prefix: string, depth: number): boolean => {
+        if (isGoodWord(prefix, pack)) return true;
+        if (depth === 0 || isDeadPrefix(prefix, pack)) return false;
+        const key = `${depth}:${prefix}`;
+        let result = memo.get(key);
+        if (result === undefined) {
+            result = continuations.some(token => canComplete(prefix + token, depth - 1));
+            memo.set(key, result);
+        }
+        return result;
+    };
+
+    return (tokens, logProbs) => {
+        const word = seed + tokens.map(index => vocab[index]).join('');
+        for (let v = 0; v < logProbs.length; v++) {
+            if (logProbs[v] === -Infinity) continue;
+            const allowed = v === endIndex
+                ? isGoodWord(word, pack)
+                : !vocab[v].includes(' ') && canComplete(word + vocab[v], lookahead - 1);
+            if (!allowed) logProbs[v] = -Infinity;
+        }
+    };
 };
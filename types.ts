@@ -18,11 +18,12 @@ export type BpeMerges = Map<string, number>;
 
 /**
  * Represents a 2D matrix, the fundamental data structure for neural network parameters.
+ * Element (i, j) is stored at `data[i * cols + j]`.
  */
 export interface Matrix {
-  rows: number;      // Number of rows in the matrix.
-  cols: number;      // Number of columns in the matrix.
-  data: number[][]; // The actual numerical data, stored as a 2D array.
+  rows: number;       // Number of rows in the matrix.
+  cols: number;       // Number of columns in the matrix.
+  data: Float64Array; // The actual numerical data, stored flat in row-major order.
 }
 
 /**
@@ -40,10 +41,22 @@ export interface FFNNModel {
   type: 'FFNN'; // A discriminator to identify the model type.
   vocab: string[]; // An array of all unique tokens the model knows.
   tokenToIndex: { [key: string]: number }; // A mapping from a token string to its integer index.
+  embedding: Matrix; // The embedding table: one learned vector (row) per token.
+  contextSize: number; // How many previous tokens the network reads. Their embeddings are concatenated.
   hiddenLayer: Layer; // The single hidden layer of the network.
   outputLayer: Layer; // The final output layer.
 }
 
+/**
+ * One layer of a (possibly stacked) RNN. The first layer reads the input token; each layer
+ * above it reads the hidden state of the layer below.
+ */
+export interface RNNLayer {
+  Wxh: Layer; // Weights from the layer's input (x) to hidden (h).
+  Whh: Layer; // Weights from hidden (h) to hidden (h) - the recurrent connection.
+  h: Matrix;   // The hidden state, which acts as the layer's memory.
+}
+
 /**
  * Defines the structure for a Recurrent Neural Network (RNN) model.
  */
@@ -51,19 +64,15 @@ export interface RNNModel {
   type: 'RNN';
   vocab: string[];
   tokenToIndex: { [key: string]: number };
-  Wxh: Layer; // Weights from input (x) to hidden (h).
-  Whh: Layer; // Weights from hidden (h) to hidden (h) - the recurrent connection.
-  Why: Layer; // Weights from hidden (h) to output (y).
-  h: Matrix;   // The hidden state, which acts as the model's memory.
+  embedding: Matrix; // The embedding table: one learned vector (row) per token, fed to the first layer.
+  layers: RNNLayer[]; // The stacked recurrent layers, from the input upwards.
+  Why: Layer; // Weights from the top hidden state (h) to output (y).
 }
 
 /**
- * Defines the structure for a Gated Recurrent Unit (GRU) model.
+ * One layer of a (possibly stacked) GRU.
  */
-export interface GRULanguageModel {
-    type: 'GRU';
-    vocab: string[];
-    tokenToIndex: { [key: string]: number };
+export interface GRULayer {
     // Update gate parameters (controls how much of the past to keep).
     Wz: Layer;
     Uz: Layer;
@@ -73,19 +82,29 @@ export interface GRULanguageModel {
     // Candidate hidden state parameters (proposes a new hidden state).
     Wh: Layer;
     Uh: Layer;
-    // Output layer parameters.
-    Why: Layer;
     // The hidden state memory.
     h: Matrix;
 }
 
 /**
- * Defines the structure for a Long Short-Term Memory (LSTM) model.
+ * Defines the structure for a Gated Recurrent Unit (GRU) model.
  */
-export interface LSTMLanguageModel {
-    type: 'LSTM';
+export interface GRULanguageModel {
+    type: 'GRU';
     vocab: string[];
     tokenToIndex: { [key: string]: number };
+    // The embedding table: one learned vector (row) per token, fed to the first layer.
+    embedding: Matrix;
+    // The stacked GRU layers, from the input upwards.
+    layers: GRULayer[];
+    // Output layer parameters.
+    Why: Layer;
+}
+
+/**
+ * One layer of a (possibly stacked) LSTM.
+ */
+export interface LSTMLayer {
     // Forget gate parameters (decides what to discard from the cell state).
     Wf: Layer; Uf: Layer;
     // Input gate parameters (decides what new information to store).
@@ -94,19 +113,229 @@ export interface LSTMLanguageModel {
     Wo: Layer; Uo: Layer;
     // Cell gate parameters (creates candidate values for the cell state).
     Wc: Layer; Uc: Layer;
-    // Output layer parameters.
-    Why: Layer;
     // The hidden state (short-term memory) and cell state (long-term memory).
     h: Matrix;
     c: Matrix;
 }
 
+/**
+ * Defines the structure for a Long Short-Term Memory (LSTM) model.
+ */
+export interface LSTMLanguageModel {
+    type: 'LSTM';
+    vocab: string[];
+    tokenToIndex: { [key: string]: number };
+    // The embedding table: one learned vector (row) per token, fed to the first layer.
+    embedding: Matrix;
+    // The stacked LSTM layers, from the input upwards.
+    layers: LSTMLayer[];
+    // Output layer parameters.
+    Why: Layer;
+}
+
+/**
+ * The learned gain and bias of a layer normalization.
+ */
+export interface LayerNorm {
+    gain: Matrix; // Multiplies each normalized value. Starts at 1.
+    bias: Matrix; // Added after the gain. Starts at 0.
+}
+
+/**
+ * Defines the structure for a small Transformer: a single pre-norm block of causal
+ * multi-head self-attention and an MLP, each wrapped in a residual connection.
+ */
+export interface TransformerModel {
+    type: 'Transformer';
+    vocab: string[];
+    tokenToIndex: { [key: string]: number };
+    // The token embedding table. Its width is the model width, shared by every vector in the block.
+    embedding: Matrix;
+    // One learned vector per position in the context window, added to the token embeddings.
+    positionEmbedding: Matrix;
+    numHeads: number; // The model width is split evenly between the attention heads.
+    // Attention: the query, key, value and output projections.
+    ln1: LayerNorm;
+    Wq: Layer; Wk: Layer; Wv: Layer; Wo: Layer;
+    // MLP: expands to the hidden size, applies ReLU, and projects back to the model width.
+    ln2: LayerNorm;
+    mlpHidden: Layer; mlpOutput: Layer;
+    // The final layer normalization and output layer parameters.
+    lnFinal: LayerNorm;
+    Why: Layer;
+}
+
+
+/**
+ * A set of named parameter (or gradient) matrices, e.g. `{ 'Why.weights': ..., 'Why.biases': ... }`.
+ * Optimizers use the names to keep track of their per-parameter state.
+ */
+export type ParameterMap = { [name: string]: Matrix };
+
+/**
+ * The available optimization algorithms for updating the model's weights.
+ */
+export type OptimizerType = 'sgd' | 'momentum' | 'nesterov' | 'rmsprop' | 'adam' | 'adamw';
+
+/**
+ * The optimizer and its hyperparameters. Each optimizer only reads the fields it needs.
+ */
+export interface OptimizerConfig {
+  type: OptimizerType;
+  momentum: number;    // Velocity decay for SGD with momentum and Nesterov.
+  rho: number;         // Decay rate of the squared-gradient average in RMSProp.
+  beta1: number;       // Decay rate of the first moment (mean) in Adam/AdamW.
+  beta2: number;       // Decay rate of the second moment (uncentered variance) in Adam/AdamW.
+  epsilon: number;     // Small constant that prevents division by zero.
+  weightDecay: number; // Decoupled weight decay for AdamW.
+}
+
+/**
+ * The internal state of an optimizer, saved alongside the model so that a resumed run continues exactly.
+ */
+export interface OptimizerState {
+  type: OptimizerType; // The optimizer this state belongs to.
+  step: number;        // The number of updates performed so far (used for Adam's bias correction).
+  // Per-parameter buffers, e.g. `slots['Why.weights'].velocity`.
+  slots: { [paramName: string]: { [slotName: string]: Matrix } };
+}
+
+/**
+ * How gradients are clipped before each update: not at all, element by element, or by rescaling
+ * all of them together when their combined (global) norm is too large.
+ */
+export type GradientClippingType = 'none' | 'value' | 'norm';
+
+/**
+ * The gradient clipping method and its threshold (the largest allowed value or global norm).
+ */
+export interface GradientClippingConfig {
+  type: GradientClippingType;
+  threshold: number;
+}
+
+/**
+ * What happens to a recurrent model's hidden state between truncated-BPTT windows: it is carried
+ * over, reset at the start of every window, or reset whenever a new word starts (at `<bos>`).
+ */
+export type StateCarryPolicy = 'carry' | 'reset-sequence' | 'reset-word';
+
+/**
+ * How the recurrent models are unrolled and batched. The unroll length is the sequence length
+ * (`batchSize` in the training config); this adds the number of parallel streams and the state policy.
+ */
+export interface BPTTConfig {
+  numStreams: number;           // The number of parallel streams the text is split into (the batch size).
+  statePolicy: StateCarryPolicy;
+}
+
+/**
+ * The recurrent state one training stream carries from window to window: the hidden state of
+ * each layer, plus each layer's cell state for the LSTM.
+ */
+export interface RecurrentStreamState {
+  hidden: Matrix[];
+  cell?: Matrix[];
+}
+
+/**
+ * Which tokens sampling may choose from: all of them (shaped only by the temperature), the k most
+ * likely (top-k), the smallest set holding probability p (nucleus / top-p), the tokens whose
+ * surprisal is closest to the distribution's entropy (typical), or those at least a fraction of
+ * the most likely token's probability (min-p).
+ */
+export type SamplingStrategy = 'temperature' | 'top-k' | 'top-p' | 'typical' | 'min-p';
+
+/**
+ * How tokens are sampled. Used by manual generation, the generation-history snapshots and the auto-coach.
+ */
+export interface SamplingConfig {
+  strategy: SamplingStrategy;
+  temperature: number;
+  topK: number;              // The number of tokens kept by top-k sampling.
+  topP: number;              // The probability mass kept by nucleus sampling.
+  typicalP: number;          // The probability mass kept by typical sampling.
+  minP: number;              // Min-p keeps tokens at least this fraction as likely as the most likely one.
+  repetitionPenalty: number; // The log-probability of a token already in the word is multiplied by this (1 = off).
+  frequencyPenalty: number;  // Subtracted from a token's log-probability once per time it is already in the word (0 = off).
+}
+
+/**
+ * How words are decoded from the model's predictions: sampled token by token, the most likely
+ * token each time (greedy), or searched for with a beam of candidates.
+ */
+export type DecodingStrategy = 'sample' | 'greedy' | 'beam' | 'diverse-beam';
+
+/**
+ * Settings for the decoders in `services/decoding.ts`. The beam settings are ignored when sampling
+ * or decoding greedily, and the group settings are only used by diverse beam search.
+ */
+export interface DecodingConfig {
+  strategy: DecodingStrategy;
+  phonotacticMask: boolean; // Mask out tokens that could never lead to a word the validator accepts.
+  beamWidth: number;        // How many candidate words are kept (and returned) by beam search.
+  lengthPenalty: number;    // The exponent of the length normalization; 0 ranks by raw log-probability.
+  numGroups: number;        // Diverse beam search splits the beam into this many groups.
+  diversityPenalty: number; // How strongly a group avoids the tokens picked by earlier groups.
+}
+
+/**
+ * A word produced by the decoder, with how likely the model found it.
+ */
+export interface DecodedWord {
+  word: string;
+  tokens: string[];     // The generated tokens, after the seed.
+  logProb: number;      // The total log-probability of the word's tokens (and of the space ending it).
+  score: number;        // The length-normalized log-probability the beams are ranked by.
+  maskedMass: number[]; // For each token, then the ending space, the probability the decoding mask removed.
+}
+
+/**
+ * Gradient norms for one training step, measured before clipping.
+ */
+export interface GradientNormStats {
+  global: number; // The L2 norm of all gradients together.
+  perParameter: { [name: string]: number }; // The L2 norm of each parameter's gradient, keyed like `ParameterMap`.
+  clipped: boolean; // Whether clipping changed any gradient on this step.
+  clippedFraction: number; // The fraction of gradient values that clipping changed.
+}
+
+/**
+ * The available learning-rate schedules.
+ */
+export type LRScheduleType = 'constant' | 'step' | 'cosine' | 'oneCycle' | 'plateau';
+
+/**
+ * The learning-rate schedule and its parameters. Each schedule only reads the fields it needs.
+ */
+export interface LRScheduleConfig {
+  type: LRScheduleType;
+  warmupEpochs: number;      // Epochs of linear warmup before the schedule starts (not used by one-cycle).
+  stepSize: number;          // Step decay: epochs between each reduction.
+  gamma: number;             // Step decay: the multiplier applied at each reduction.
+  restartPeriod: number;     // Cosine: the length of the first annealing cycle, in epochs.
+  restartMultiplier: number; // Cosine: how much longer each cycle is than the previous one.
+  pctStart: number;          // One-cycle: the fraction of training spent ramping up.
+  plateauFactor: number;     // Reduce-on-plateau: the multiplier applied at each reduction.
+  plateauPatience: number;   // Reduce-on-plateau: epochs without improvement before reducing.
+  minLRFactor: number;       // The lowest rate the schedule reaches, as a fraction of the base rate.
+}
 
 /**
  * A union type representing any of the possible language models in the app.
  * This allows for polymorphic handling of different model architectures.
  */
-export type LanguageModel = FFNNModel | RNNModel | GRULanguageModel | LSTMLanguageModel;
+export type LanguageModel = FFNNModel | RNNModel | GRULanguageModel | LSTMLanguageModel | TransformerModel;
+
+/**
+ * Computes the gradient of a training step's loss with respect to the logits at one position.
+ * The default is the softmax cross-entropy gradient, `probs - one_hot(target)`; coaching
+ * replaces it to train on rewards instead (see `services/policyGradient.ts`).
+ * @param probs - The model's output probabilities. Not modified.
+ * @param targetIndex - The token that follows.
+ * @param position - The position in the encoded text of the token the prediction is made from.
+ */
+export type LossGradient = (probs: Float64Array, targetIndex: number, position: number) => Float64Array;
 
 /**
  * Represents the complete result of a single training step.
@@ -115,9 +344,11 @@ export type LanguageModel = FFNNModel | RNNModel | GRULanguageModel | LSTMLangua
 export interface TrainStepResult {
     updatedModel: LanguageModel; // The model with its weights adjusted after this step.
     loss: number; // The calculated error for this step (lower is better).
+    stepLength?: number; // How many positions of the text the step trained on, when fewer than asked for (the Transformer's window is capped at its context length).
     inputToken: string; // The input token for this step.
     targetToken: string; // The correct "next" token the model was supposed to predict.
     predictedToken: string; // The token the model actually predicted.
+    contextTokens?: string[]; // The tokens in the FFNN's context window, oldest first ('' for an empty slot).
     // A log of all predictions made within the batch/sequence for this step.
     predictionResults: {
         inputToken: string;
@@ -126,12 +357,15 @@ export interface TrainStepResult {
     }[];
     // The activation values of the neurons at different stages, used for visualization.
     activations: {
+        embedding?: Matrix; // The concatenated embeddings of the context window (FFNN only).
         hidden: Matrix; // Activations of the hidden layer neurons.
         output: Matrix; // Probabilities from the output layer (after softmax).
         outputRaw?: Matrix; // Raw logits from the output layer (before softmax), for demo purposes.
     };
     // The calculated gradients for each layer, used for the interactive demo.
     gradients?: any;
+    // The gradient norms for this step, and whether clipping fired.
+    gradientNorms?: GradientNormStats;
     // For GRU/LSTM, the activation values of their specific gates.
     gateActivations?: {
         z?: Matrix; // GRU update gate
@@ -140,6 +374,129 @@ export interface TrainStepResult {
         i?: Matrix; // LSTM input gate
         o?: Matrix; // LSTM output gate
     };
+    // For the Transformer, the attention weights of each head over the last window,
+    // one (tokens x tokens) matrix per head, with a row per query position.
+    attention?: {
+        tokens: string[]; // The tokens in the window, in order.
+        weights: Matrix[];
+    };
+}
+
+/**
+ * A lightweight version of `TrainStepResult` that is streamed from the training worker
+ * to the UI. It omits the full model and gradients, which are expensive to copy between threads.
+ */
+export type TrainStepSummary = Omit<TrainStepResult, 'updatedModel' | 'gradients'>;
+
+/**
+ * How well a model predicts held-out text it was not trained on.
+ */
+export interface ValidationMetrics {
+  loss: number;             // The average cross-entropy per predicted token, in nats.
+  perplexity: number;       // exp(loss): roughly, how many tokens the model is choosing between.
+  bitsPerCharacter: number; // The total loss in bits divided by the number of characters predicted.
+}
+
+/**
+ * The possible states of the training process, shared by the UI and the training worker.
+ */
+export type TrainingState = 'IDLE' | 'RUNNING' | 'PAUSED' | 'FINISHED' | 'COACHING';
+
+/**
+ * Per-epoch prediction statistics used by the success-rate heatmap.
+ * Maps an input token to each target token seen after it, with how often it was predicted correctly.
+ */
+export type PredictionStats = {
+  [fromToken: string]: {
+    [toToken: string]: {
+      correct: number;
+      total: number;
+    };
+  };
+};
+
+/**
+ * What the model predicted at one position of an inspected word.
+ */
+export interface TokenInspection {
+  token: string;       // The token that actually comes next (a space for the end of the word).
+  probability: number; // The probability the model gave it.
+  surprisal: number;   // -log2 of the probability, in bits.
+  rank: number;        // Its place among all tokens, most likely first (1 = the model's top choice).
+  alternatives: { token: string; probability: number }[]; // The model's most likely tokens at this position.
+}
+
+/**
+ * How likely a model finds a whole word, next to the rule-based validator's verdict.
+ */
+export interface WordScore {
+  word: string;
+  tokens: string[];      // The word as the tokenizer split it.
+  logLikelihood: number; // The natural log of the probability of every token and the `<eos>` that ends the word.
+  perplexity: number;    // exp(-logLikelihood / predicted tokens): the model's average "branching factor" over the word.
+  skipped: boolean;      // True if part of the word is not in the vocabulary, so it was scored as `<unk>`.
+  isGood: boolean;       // The phonotactic validator's verdict.
+}
+
+/**
+ * The rules the word validator checks, in the order it checks them.
+ */
+export type ValidationRule = 'length' | 'repetition' | 'vowel' | 'cluster' | 'tokenization' | 'syllables';
+
+/**
+ * The verdict of one validation rule on a word.
+ */
+export interface ValidationRuleResult {
+  rule: ValidationRule;
+  passed: boolean | null; // Null if the rule could not be checked because an earlier one failed.
+  detail: string;         // A short explanation of the verdict.
+  offending?: string;     // The part of the word that broke the rule.
+}
+
+/**
+ * The validator's full report on a word: every rule's verdict, and how the word was parsed.
+ */
+export interface WordValidationReport {
+  word: string;
+  isGood: boolean;
+  rules: ValidationRuleResult[];
+  failedRule: ValidationRule | null; // The first rule the word broke.
+  tokens: string[] | null;           // The word split into the language's onsets, vowels, codas and suffixes.
+  syllables: string[] | null;        // The word split into syllables (a final suffix is the last part), if it has a valid parse.
+}
+
+/**
+ * The part a stretch of letters plays in a syllable. An extension is a suffix that follows the
+ * word's last syllable, such as "ster".
+ */
+export type SyllableRole = 'onset' | 'nucleus' | 'coda' | 'extension';
+
+/**
+ * A stretch of a syllable's letters with one role.
+ */
+export interface SyllableSegment {
+  text: string;
+  role: SyllableRole;
+}
+
+/**
+ * One syllable of a word, as split by the syllabifier.
+ */
+export interface Syllable {
+  text: string;
+  segments: SyllableSegment[];
+  shape: string; // A C for each consonant letter and a V for each vowel letter, e.g. "CCVC".
+}
+
+/**
+ * The syllable structure of a set of words, such as those generated after an epoch.
+ */
+export interface SyllableStats {
+  words: number;                              // How many of the words could be split into syllables.
+  unparsed: number;                           // How many could not.
+  averageSyllables: number;                   // Syllables per split word, not counting extensions.
+  shapes: { shape: string; count: number }[]; // How often each syllable shape occurs, most common first.
+  extensions: number;                         // How many of the split words end in an extension.
 }
 
 /**
@@ -151,9 +508,100 @@ export interface GenerationHistoryItem {
 }
 
 /**
- * Represents a BPE tokenizer's state.
+ * A language pack: the phonotactic rules of a made-up language, loaded from JSON. The active pack
+ * drives the word validator, the default custom token set and the default training corpus.
+ */
+export interface LanguagePack {
+  id: string;
+  name: string;
+  description: string;
+  inventory: {
+    vowels: string[];     // The vowels, which form the nucleus of every syllable.
+    consonants: string[]; // The consonant letters. Onsets, codas and suffixes are spelled with these and the vowels.
+  };
+  onsets: string[];        // The consonants and clusters that may start a syllable.
+  codas: string[];         // The consonants and clusters that may end a syllable.
+  suffixes: string[];      // Endings that may follow the last syllable of a word.
+  syllableTemplates: string[]; // The allowed syllable shapes, such as "CV" or "C?VC?" (see `services/phonotactics.ts`).
+  minWordLength: number;
+  maxWordLength: number;
+  corpus: string;          // Sample words in the language, used as the default training text.
+}
+
+/**
+ * The tokenization methods.
+ */
+export type TokenizerType = 'character' | 'bpe' | 'custom' | 'unigram';
+
+/**
+ * A trained tokenizer. Every type shares this interface; `services/tokenizer.ts` trains them and
+ * restores them from their saved form.
  */
 export interface Tokenizer {
-    merges: BpeMerges; // The learned merge rules.
-    vocab: { [key: number]: string }; // Mapping from token ID to token string.
+  type: TokenizerType;
+  vocab: string[];                          // Every token, indexed by ID. Ends with the reserved tokens.
+  tokenToIndex: { [token: string]: number }; // Mapping from token string to token ID.
+  encode: (text: string) => number[];       // Encodes text into token IDs. Anything it cannot encode becomes `<unk>`.
+  decode: (ids: number[]) => string;        // Turns token IDs back into text. `<eos>` becomes a space and the other reserved tokens are dropped.
+  toJSON: () => SerializedTokenizer;        // The tokenizer's saved form.
+  sample?: (text: string, alpha: number) => number[]; // Unigram only: encodes text with a segmentation drawn at random, for subword regularization.
+}
+
+/**
+ * A tokenizer as saved alongside a model, so the model can be reloaded with the exact tokenizer it was trained with.
+ */
+export interface SerializedTokenizer {
+  type: TokenizerType;
+  vocab: string[];                  // Every token, indexed by ID.
+  merges?: [string, number][];      // BPE only: the learned merge rules, in the order they were learned.
+  scores?: number[];                // Unigram only: the log-probability of each token (the reserved tokens have none).
+}
+
+/**
+ * Subword regularization: with a Unigram tokenizer, the training text is re-segmented at the start
+ * of every epoch with segmentations sampled from the tokenizer, so the model sees each word split
+ * in more than one way.
+ */
+export interface SubwordRegularizationConfig {
+  enabled: boolean;
+  alpha: number; // Sharpens the sampling distribution. Near 0 every segmentation is equally likely; large values almost always give the best one.
+}
+
+/**
+ * How the auto-coach decides which words to reinforce: only those that pass the validator, or
+ * those whose graded phonotactic score reaches a threshold, reinforced in proportion to it.
+ */
+export type CoachingRewardMode = 'pass-fail' | 'graded';
+
+/**
+ * Configuration for the auto-coach's reward.
+ */
+export interface CoachingRewardConfig {
+  mode: CoachingRewardMode;
+  threshold: number; // In graded mode, the lowest score (0 to 1) that is reinforced.
+}
+
+/**
+ * How coaching changes the model: by retraining on the good words with the usual supervised
+ * steps, or with a policy-gradient (REINFORCE) step on every rewarded word, good or bad.
+ */
+export type CoachingUpdateMethod = 'supervised' | 'policy-gradient';
+
+/**
+ * Configuration for the coaching updates shared by the Good/Bad buttons and the auto-coach.
+ */
+export interface CoachingUpdateConfig {
+  method: CoachingUpdateMethod;
+  baselineDecay: number; // How much of the reward baseline (a running average of rewards) each new reward leaves in place, from 0 to 1.
+  klPenalty: number;     // The weight of the KL divergence from the frozen reference model. 0 turns the penalty off.
+}
+
+/**
+ * What one policy-gradient coaching update did.
+ */
+export interface PolicyGradientStats {
+  reward: number;
+  baseline: number;   // The baseline the reward was compared against.
+  advantage: number;  // The reward minus the baseline.
+  kl: number | null;  // The KL divergence of the model from the reference on the word, before the update (null without the penalty).
 }